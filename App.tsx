@@ -1,18 +1,34 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { MatchData, UserProfile, Team } from './types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { MatchData, UserProfile, Team, Tournament, League } from './types';
 import { 
   getMatches, 
   addMatchToStorage, 
   updateMatchInStorage,
+  updateMatchesInStorage,
+  removeTeammateFromStorage,
+  restoreFromTrash,
+  getTrashId,
+  TrashKind,
   deleteMatchFromStorage,
   getAllProfiles,
   saveUserProfile,
   deleteUserProfile,
-  isBackupNeeded
+  isBackupNeeded,
+  initStorage,
+  getStorageInitError,
+  getJournals,
+  saveJournal,
+  deleteJournal
 } from './services/storage';
 import { getTeamById, getTeamColorStyles } from './utils/colors';
 import { extractYoutubeId } from './utils/youtube';
+import { describeMatchStats, getMatchStatDefinitions } from './utils/matchStats';
+import { startAutoBackup, getLastAutoBackup, LastAutoBackup } from './services/autoBackup';
+import { formatBackupTime } from './components/sync/AutoBackupSettings';
+import { startStorageMonitor, formatBytes } from './services/storageHealth';
+import { generateId } from './services/ids';
+import { getLiveSession, clearLiveSession } from './services/liveMatch';
 import { useLanguage } from './context/LanguageContext';
 import { useToast } from './context/ToastContext';
 import MatchForm from './components/MatchForm';
@@ -23,7 +39,10 @@ import SyncModal from './components/SyncModal';
 import ShareCard from './components/ShareCard';
 import TournamentEditModal from './components/TournamentEditModal';           // ← 換成統一組件
 import OpponentStatsModal from './components/OpponentStatsModal';
+import TournamentDetail from './components/TournamentDetail';
+import LeagueDetail from './components/LeagueDetail';
 import MatchTimeline from './components/MatchTimeline';
+import LiveMatchMode from './components/match/LiveMatchMode';
 import VideoModal from './components/VideoModal';
 import TeamManager from './components/TeamManager';
 import CoachReport from './components/CoachReport';
@@ -40,6 +59,9 @@ const APP_VERSION = '1.2.0';
 const App: React.FC = () => {
   const { t, language, toggleLanguage } = useLanguage();
   const { showToast } = useToast();
+  // Latest strings for callbacks registered once at start-up
+  const tRef = useRef(t);
+  tRef.current = t;
   const [loading, setLoading] = useState(true);
   
   // App State
@@ -57,6 +79,8 @@ const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<Tab>('matches');
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
   const [showBackupAlert, setShowBackupAlert] = useState(false);
+  const [lastAutoBackup, setLastAutoBackup] = useState<LastAutoBackup | null>(null);
+  const [storageUnavailable, setStorageUnavailable] = useState(false);
   
   // Update Modal State
   const [showWhatsNew, setShowWhatsNew] = useState(false);
@@ -80,27 +104,45 @@ const App: React.FC = () => {
   const [shareTournament, setShareTournament] = useState<{ name: string; matches: MatchData[] } | null>(null);
   const [editingTournament, setEditingTournament] = useState<{ name: string; matches: MatchData[] } | null>(null);
   const [selectedOpponent, setSelectedOpponent] = useState<string | null>(null);
+  const [openTournamentId, setOpenTournamentId] = useState<string | null>(null);
+  const [openLeague, setOpenLeague] = useState<{ id: string; isNew: boolean } | null>(null);
+  const [openLiveMatchId, setOpenLiveMatchId] = useState<string | null>(null);
+  const [liveSessionMatchId, setLiveSessionMatchId] = useState<string | null>(() => getLiveSession()?.matchId || null);
   const [viewingVideoId, setViewingVideoId] = useState<string | null>(null);
 
   // ── 新增：賽季分享 state ──────────────────────────────────────────────────
   const [showSeasonShare, setShowSeasonShare] = useState(false);
 
   useEffect(() => {
-    const profiles = getAllProfiles();
-    setAllProfiles(profiles);
-    setCurrentView('cover');
-    setLoading(false);
-    
-    const lastVersion = localStorage.getItem('arthur_app_version');
-    if (lastVersion !== APP_VERSION) {
-        setShowWhatsNew(true);
-    }
+    let stopAutoBackup: (() => void) | undefined;
+    let stopStorageMonitor: (() => void) | undefined;
+    initStorage().then(() => {
+      stopAutoBackup = startAutoBackup(() => checkBackupStatus());
+      stopStorageMonitor = startStorageMonitor({
+          onQuotaWarning: estimate => showToast(tRef.current.storageQuotaWarning.replace('{used}', formatBytes(estimate.usage)).replace('{quota}', formatBytes(estimate.quota)), 'error'),
+          onWriteError: quotaExceeded => showToast(quotaExceeded ? tRef.current.storageFullError : tRef.current.saveFailedError, 'error')
+      });
+      setStorageUnavailable(!!getStorageInitError());
+      const profiles = getAllProfiles();
+      setAllProfiles(profiles);
+      setCurrentView('cover');
+      setLoading(false);
+      
+      const lastVersion = localStorage.getItem('arthur_app_version');
+      if (lastVersion !== APP_VERSION) {
+          setShowWhatsNew(true);
+      }
 
-    // Show onboarding for first-time users (no profiles, never seen onboarding)
-    const hasSeenOnboarding = localStorage.getItem('arthur_onboarding_done');
-    if (!hasSeenOnboarding && profiles.length === 0) {
-        setShowOnboarding(true);
-    }
+      // Show onboarding for first-time users (no profiles, never seen onboarding)
+      const hasSeenOnboarding = localStorage.getItem('arthur_onboarding_done');
+      if (!hasSeenOnboarding && profiles.length === 0) {
+          setShowOnboarding(true);
+      }
+    });
+    return () => {
+      stopAutoBackup?.();
+      stopStorageMonitor?.();
+    };
   }, []);
   
   const handleCloseWhatsNew = () => {
@@ -118,12 +160,7 @@ const App: React.FC = () => {
         const userMatches = getMatches(activeProfile.id);
         setMatches(userMatches);
         
-        const savedJournals = localStorage.getItem(`journals_${activeProfile.id}`);
-        if (savedJournals) {
-          try { setJournals(JSON.parse(savedJournals)); } catch(e) { setJournals([]); }
-        } else {
-          setJournals([]);
-        }
+        setJournals(getJournals(activeProfile.id));
 
         setIsSelectionMode(false);
         setSelectedMatchIds(new Set());
@@ -138,6 +175,7 @@ const App: React.FC = () => {
 
   const checkBackupStatus = () => {
       setShowBackupAlert(isBackupNeeded());
+      setLastAutoBackup(getLastAutoBackup());
   };
 
   const transitionView = (view: AppView) => {
@@ -229,7 +267,7 @@ const App: React.FC = () => {
   const handleDeleteProfile = (id: string) => {
       const updatedList = deleteUserProfile(id);
       setAllProfiles(updatedList);
-      showToast(t.deleteSuccess, 'success');
+      showToast(t.deleteSuccess, 'success', undoAction('profile', id));
   };
 
   const handleUpdateProfileFromManager = (updated: UserProfile) => {
@@ -239,19 +277,47 @@ const App: React.FC = () => {
       showToast(t.save + ' ' + t.done, 'success');
   };
 
-  const handleSyncComplete = () => {
+  // Re-reads everything from storage (after imports, restores and undo)
+  const reloadData = () => {
       const profiles = getAllProfiles();
       setAllProfiles(profiles);
       if (activeProfile) {
           const userMatches = getMatches(activeProfile.id);
           setMatches(userMatches);
+          setJournals(getJournals(activeProfile.id));
           const updatedProfile = profiles.find(p => p.id === activeProfile.id);
           if (updatedProfile) setActiveProfile(updatedProfile);
       }
+  };
+
+  const handleSyncComplete = () => {
+      reloadData();
       checkBackupStatus();
       showToast(t.syncSuccess, 'success');
   };
 
+  // "Undo" on the delete toast restores the record from the Trash
+  const undoAction = (kind: TrashKind, recordId: string) => ({
+      label: t.undo,
+      onClick: () => {
+          if (restoreFromTrash(getTrashId(kind, recordId))) {
+              reloadData();
+              showToast(t.trashRestored, 'success');
+          } else {
+              showToast(t.trashRestoreFailed, 'error');
+          }
+      }
+  });
+
+  const handleRemoveTeammate = (teamId: string, teammateId: string) => {
+      if (!activeProfile) return;
+      const updated = removeTeammateFromStorage(activeProfile.id, teamId, teammateId);
+      if (!updated) return;
+      setAllProfiles(getAllProfiles());
+      setActiveProfile(updated);
+      showToast(t.deleteSuccess, 'info', undoAction('teammate', teammateId));
+  };
+
   const handleFormSubmit = (data: Omit<MatchData, 'id'>) => {
     if (!activeProfile) return;
     
@@ -260,7 +326,7 @@ const App: React.FC = () => {
       setMatches(updatedList);
       showToast(t.save + ' ' + t.done, 'success');
     } else {
-      const updatedList = addMatchToStorage({ ...data, id: Date.now().toString(), profileId: activeProfile.id });
+      const updatedList = addMatchToStorage({ ...data, id: generateId(), profileId: activeProfile.id });
       setMatches(updatedList);
       showToast(t.addFirstMatch + ' ' + t.done, 'success');
     }
@@ -278,16 +344,13 @@ const App: React.FC = () => {
   const handleShare = (e: React.MouseEvent, match: MatchData) => { e.stopPropagation(); setShareMatch(match); };
   const handleTournamentSave = (name: string, tMatches: MatchData[], updates: Partial<MatchData>) => {
     if (!activeProfile) return;
-    let updatedList = [...matches];
-    tMatches.forEach(m => {
-      updatedList = updateMatchInStorage({ ...m, ...updates, id: m.id, profileId: activeProfile.id });
-    });
+    const updatedList = updateMatchesInStorage(tMatches.map(m => ({ ...m, ...updates, id: m.id, profileId: activeProfile.id })), activeProfile.id);
     setMatches(updatedList);
     setEditingTournament(null);
     showToast(language === 'zh' ? `已同步到 ${tMatches.length} 場比賽` : `Synced to ${tMatches.length} games`, 'success');
   };
   const handleTrashClick = (e: React.MouseEvent, id: string) => { e.stopPropagation(); setDeleteConfirmId(id); };
-  const handleConfirmDelete = (e: React.MouseEvent, id: string) => { e.stopPropagation(); if(activeProfile) setMatches(deleteMatchFromStorage(id, activeProfile.id)); setDeleteConfirmId(null); showToast(t.deleteSuccess, 'info'); };
+  const handleConfirmDelete = (e: React.MouseEvent, id: string) => { e.stopPropagation(); if(activeProfile) setMatches(deleteMatchFromStorage(id, activeProfile.id)); setDeleteConfirmId(null); showToast(t.deleteSuccess, 'info', undoAction('match', id)); };
   const handleCancelDelete = (e: React.MouseEvent) => { e.stopPropagation(); setDeleteConfirmId(null); };
   const toggleMatchExpansion = (e: React.MouseEvent, id: string) => { e.stopPropagation(); setExpandedMatchIds(prev => { const n = new Set(prev); if(n.has(id)) n.delete(id); else n.add(id); return n; }); };
   const handleOpenVideo = (e: React.MouseEvent, url: string) => { e.stopPropagation(); const vid = extractYoutubeId(url); if(vid) setViewingVideoId(vid); else window.open(url, '_blank'); };
@@ -297,28 +360,18 @@ const App: React.FC = () => {
 
   const handleSaveJournal = (entryData: Omit<JournalEntry, 'id' | 'createdAt'>, id?: string) => {
     if (!activeProfile) return;
-    let updated: JournalEntry[];
-    if (id) {
-       updated = journals.map(j => j.id === id ? { ...j, ...entryData } : j);
-    } else {
-       const newEntry: JournalEntry = {
-          ...entryData,
-          id: Date.now().toString(),
-          createdAt: Date.now()
-       };
-       updated = [...journals, newEntry];
-    }
-    setJournals(updated);
-    localStorage.setItem(`journals_${activeProfile.id}`, JSON.stringify(updated));
+    const existing = id ? journals.find(j => j.id === id) : undefined;
+    const entry: JournalEntry = existing
+      ? { ...existing, ...entryData }
+      : { ...entryData, id: generateId(), createdAt: Date.now() };
+    setJournals(saveJournal(activeProfile.id, entry));
     showToast(language === 'zh' ? '日誌已儲存 ✓' : 'Journal saved ✓', 'success');
   };
 
   const handleDeleteJournal = (id: string) => {
     if (!activeProfile) return;
-    const updated = journals.filter(j => j.id !== id);
-    setJournals(updated);
-    localStorage.setItem(`journals_${activeProfile.id}`, JSON.stringify(updated));
-    showToast(language === 'zh' ? '日誌已刪除' : 'Journal deleted', 'info');
+    setJournals(deleteJournal(activeProfile.id, id));
+    showToast(language === 'zh' ? '日誌已刪除' : 'Journal deleted', 'info', undoAction('journal', id));
   };
   
   const handleSelectAllFiltered = () => {
@@ -347,6 +400,7 @@ const App: React.FC = () => {
             if (m.isMotm) statsParts.push(`🏆 MOTM`);
         }
         const statsLine = statsParts.join('  ');
+        const statDetails = isScheduled ? '' : describeMatchStats(m, getMatchStatDefinitions(m, activeProfile), t);
 
         let timeParts = [];
         if (m.matchTime) timeParts.push(`⏰ ${t.matchTime}: ${m.matchTime}`);
@@ -367,6 +421,7 @@ const App: React.FC = () => {
         if (!isScheduled) {
             block += `${resultSymbol} ${m.scoreMyTeam} - ${m.scoreOpponent}\n`;
             if (statsLine) block += `${statsLine}\n`;
+            if (statDetails) block += `📊 ${statDetails}\n`;
         } else {
             block += `${resultSymbol} ${t.upcomingMatches}\n`;
         }
@@ -396,11 +451,126 @@ const App: React.FC = () => {
 
   const handleAddTeammate = (teamId: string, name: string) => {
       if (!activeProfile) return;
-      const updatedTeams = activeProfile.teams.map(team => team.id === teamId ? { ...team, roster: [...team.roster, { id: Date.now().toString(), name, number: '' }] } : team);
+      const updatedTeams = activeProfile.teams.map(team => team.id === teamId ? { ...team, roster: [...team.roster, { id: generateId(), name, number: '' }] } : team);
       const updated = { ...activeProfile, teams: updatedTeams };
       handleUpdateProfileFromManager(updated);
   };
 
+  // --- Tournaments (stored on the profile, like teams) ---
+  const handleAddTournament = (teamId: string, name: string, startDate: string): Tournament | null => {
+      if (!activeProfile) return null;
+      const tournament: Tournament = { id: generateId(), teamId, name, startDate, venue: '', format: 'groups', rounds: [], updatedAt: Date.now() };
+      const updated = { ...activeProfile, tournaments: [...(activeProfile.tournaments || []), tournament] };
+      saveUserProfile(updated);
+      setAllProfiles(getAllProfiles());
+      setActiveProfile(updated);
+      return tournament;
+  };
+
+  const handleSaveTournament = (tournament: Tournament) => {
+      if (!activeProfile) return;
+      const roundIds = new Set(tournament.rounds.map(r => r.id));
+      // Linked matches keep the name in sync and drop rounds that were removed
+      const stale = matches.filter(m => m.tournamentId === tournament.id &&
+          (m.tournamentName !== tournament.name || (m.tournamentRoundId && !roundIds.has(m.tournamentRoundId))));
+      if (stale.length > 0) {
+          setMatches(updateMatchesInStorage(stale.map(m => ({
+              ...m,
+              tournamentName: tournament.name,
+              tournamentRoundId: m.tournamentRoundId && roundIds.has(m.tournamentRoundId) ? m.tournamentRoundId : undefined
+          })), activeProfile.id));
+      }
+      handleUpdateProfileFromManager({
+          ...activeProfile,
+          tournaments: (activeProfile.tournaments || []).map(tn => tn.id === tournament.id ? tournament : tn)
+      });
+  };
+
+  const handleDeleteTournament = (tournamentId: string) => {
+      if (!activeProfile) return;
+      const linked = matches.filter(m => m.tournamentId === tournamentId);
+      if (linked.length > 0) {
+          setMatches(updateMatchesInStorage(linked.map(m => ({ ...m, tournamentId: undefined, tournamentRoundId: undefined })), activeProfile.id));
+      }
+      handleUpdateProfileFromManager({
+          ...activeProfile,
+          tournaments: (activeProfile.tournaments || []).filter(tn => tn.id !== tournamentId)
+      });
+      setOpenTournamentId(null);
+  };
+
+  // --- Leagues (stored on the profile, like tournaments) ---
+  const handleCreateLeague = (teamId: string) => {
+      if (!activeProfile) return;
+      // Seasons run September to August
+      const now = new Date();
+      const startYear = now.getMonth() >= 8 ? now.getFullYear() : now.getFullYear() - 1;
+      const league: League = {
+          id: generateId(),
+          teamId,
+          name: `${getTeamById(activeProfile.teams, teamId).name} ${t.league}`,
+          season: `${startYear}/${String((startYear + 1) % 100).padStart(2, '0')}`,
+          startDate: `${startYear}-09-01`,
+          teams: [],
+          fixtures: [],
+          pointsForWin: 3,
+          pointsForDraw: 1,
+          tieBreakers: ['goalDifference', 'goalsFor', 'headToHead'],
+          updatedAt: Date.now()
+      };
+      const updated = { ...activeProfile, leagues: [...(activeProfile.leagues || []), league] };
+      saveUserProfile(updated);
+      setAllProfiles(getAllProfiles());
+      setActiveProfile(updated);
+      setOpenLeague({ id: league.id, isNew: true });
+  };
+
+  const handleSaveLeague = (league: League) => {
+      if (!activeProfile) return;
+      handleUpdateProfileFromManager({
+          ...activeProfile,
+          leagues: (activeProfile.leagues || []).map(l => l.id === league.id ? league : l)
+      });
+  };
+
+  const handleDeleteLeague = (leagueId: string) => {
+      if (!activeProfile) return;
+      handleUpdateProfileFromManager({
+          ...activeProfile,
+          leagues: (activeProfile.leagues || []).filter(l => l.id !== leagueId)
+      });
+      setOpenLeague(null);
+  };
+
+  // Live mode: only one session runs at a time
+  const handleStartLive = (match: MatchData) => {
+      // The stored session may belong to another profile; it is only replaced after asking
+      const current = getLiveSession();
+      if (current && current.matchId !== match.id) {
+          if (!window.confirm(t.liveReplaceConfirm)) return;
+          clearLiveSession();
+      }
+      setOpenLiveMatchId(match.id);
+  };
+
+  const handleCloseLive = () => {
+      setOpenLiveMatchId(null);
+      setLiveSessionMatchId(getLiveSession()?.matchId || null);
+  };
+
+  // Final whistle: store the result, then open the report for rating and comments
+  const handleFinishLive = (completed: MatchData) => {
+      if (!activeProfile) return;
+      const updatedList = updateMatchInStorage({ ...completed, profileId: activeProfile.id });
+      setMatches(updatedList);
+      clearLiveSession();
+      setOpenLiveMatchId(null);
+      setLiveSessionMatchId(null);
+      showToast(t.liveResultSaved, 'success');
+      setEditingMatch(completed);
+      setIsFormOpen(true);
+  };
+
   // Navigate from Analytics drill-down to a specific match in the matches tab
   const handleNavigateToMatch = (matchId: string) => {
     setScrollToMatchId(matchId);
@@ -428,7 +598,7 @@ const App: React.FC = () => {
 
   const handleQuickLogCreate = (opponent: string, teamId: string, extra?: { matchType?: string; tournamentName?: string; matchLabel?: string }): string => {
     if (!activeProfile) return '';
-    const newId = Date.now().toString();
+    const newId = generateId();
     const today = new Date().toISOString().split('T')[0];
     const updated = addMatchToStorage({
       profileId: activeProfile.id,
@@ -438,6 +608,7 @@ const App: React.FC = () => {
       isHome: true,
       matchType: (extra?.matchType as any) || 'friendly',
       tournamentName: extra?.tournamentName || '',
+      tournamentId: (activeProfile.tournaments || []).find(tn => tn.teamId === teamId && tn.name === extra?.tournamentName)?.id,
       matchLabel: extra?.matchLabel || '',
       matchFormat: '',
       scoreMyTeam: 0,
@@ -461,6 +632,10 @@ const App: React.FC = () => {
       ? getTeamById(activeProfile?.teams || [], quickTeamFilter)
       : activeProfile?.teams?.[0];
 
+  const openTournament = (activeProfile?.tournaments || []).find(tn => tn.id === openTournamentId) || null;
+  const openLeagueRecord = (activeProfile?.leagues || []).find(l => l.id === openLeague?.id) || null;
+  const openLiveMatch = matches.find(m => m.id === openLiveMatchId) || null;
+
   const mainTheme = activeTeam ? getTeamColorStyles(activeTeam.themeColor) : getTeamColorStyles('blue');
 
   // ── 賽季分享 title ─────────────────────────────────────────────────────────
@@ -474,11 +649,19 @@ const App: React.FC = () => {
   }, [activeProfile, quickTeamFilter]);
 
   if (loading) return null;
-  if (currentView === 'setup') return <ProfileSetup initialProfile={activeProfile} onSave={handleSaveProfile} onCancel={() => setCurrentView('cover')} />;
-  if (currentView === 'cover' || !activeProfile) return <><CoverPage profiles={allProfiles} onSelectProfile={handleSelectProfile} onAddProfile={handleAddNewProfile} onImportData={() => { setSyncSubset(null); setIsSyncOpen(true); }} onDeleteProfile={handleDeleteProfile} /><SyncModal isOpen={isSyncOpen} onClose={() => setIsSyncOpen(false)} matches={[]} profile={null} onSyncComplete={handleSyncComplete} syncOnlyMatches={null} /></>;
+
+  const storageErrorBanner = storageUnavailable && (
+      <div className="fixed top-0 inset-x-0 z-[200] bg-red-600 text-white text-xs font-bold px-4 py-2 text-center shadow-lg safe-area-top">
+          <i className="fas fa-exclamation-triangle mr-2"></i>{t.storageUnavailable}
+      </div>
+  );
+
+  if (currentView === 'setup') return <>{storageErrorBanner}<ProfileSetup initialProfile={activeProfile} onSave={handleSaveProfile} onCancel={() => setCurrentView('cover')} /></>;
+  if (currentView === 'cover' || !activeProfile) return <>{storageErrorBanner}<CoverPage profiles={allProfiles} onSelectProfile={handleSelectProfile} onAddProfile={handleAddNewProfile} onImportData={() => { setSyncSubset(null); setIsSyncOpen(true); }} onDeleteProfile={handleDeleteProfile} /><SyncModal isOpen={isSyncOpen} onClose={() => setIsSyncOpen(false)} matches={[]} profile={null} onSyncComplete={handleSyncComplete} syncOnlyMatches={null} onBackupComplete={checkBackupStatus} onDataRestored={reloadData} /></>;
 
   return (
     <div className="flex flex-col h-[100dvh] bg-slate-100 overflow-hidden">
+      {storageErrorBanner}
       {/* HEADER */}
       <header className={`${mainTheme.headerBg} flex-none z-30 shadow-md transition-colors duration-300 safe-area-top`}>
         <div className="max-w-2xl mx-auto px-4 py-3">
@@ -511,14 +694,18 @@ const App: React.FC = () => {
                 )}
             </div>
           </div>
+          <div className={`mt-1 text-[10px] font-bold truncate ${showBackupAlert ? 'text-red-200' : 'text-white/60'}`}>
+              <i className="fas fa-shield-alt mr-1"></i>
+              {lastAutoBackup ? t.headerLastBackup.replace('{time}', formatBackupTime(lastAutoBackup.timestamp, language)) : t.autoBackupNever}
+          </div>
         </div>
       </header>
 
       {/* CONTENT */}
       <main className="flex-1 overflow-y-auto pb-40 relative bg-slate-100 w-full min-h-0">
         <div className="max-w-2xl mx-auto min-h-full">
-            {activeTab === 'stats' && <AnalyticsDashboard matches={matches} profile={activeProfile} onNavigateToMatch={handleNavigateToMatch} />}
-            {activeTab === 'teams' && <TeamManager profile={activeProfile} onUpdateProfile={handleUpdateProfileFromManager} />}
+            {activeTab === 'stats' && <AnalyticsDashboard matches={matches} profile={activeProfile} onNavigateToMatch={handleNavigateToMatch} onOpenTournament={setOpenTournamentId} onOpenLeague={id => setOpenLeague({ id, isNew: false })} onCreateLeague={handleCreateLeague} />}
+            {activeTab === 'teams' && <TeamManager profile={activeProfile} onUpdateProfile={handleUpdateProfileFromManager} onRemoveTeammate={handleRemoveTeammate} />}
             {activeTab === 'coach' && <CoachReport profile={activeProfile} matches={matches} />}
             
             {activeTab === 'journal' && (
@@ -575,7 +762,7 @@ const App: React.FC = () => {
                       )}
                   </div>
                 )}
-                <MatchTimeline matches={filteredMatches} profile={activeProfile} isSelectionMode={isSelectionMode} selectedMatchIds={selectedMatchIds} deleteConfirmId={deleteConfirmId} expandedMatchIds={expandedMatchIds} onSelectMatch={handleSelectMatch} onShare={handleShare} onShareTournament={(name, tMatches) => setShareTournament({ name, matches: tMatches })} onEditTournament={(name, tMatches) => setEditingTournament({ name, matches: tMatches })} onEdit={openEditForm} onTrashClick={handleTrashClick} onConfirmDelete={handleConfirmDelete} onCancelDelete={handleCancelDelete} onToggleExpansion={toggleMatchExpansion} onOpenVideo={handleOpenVideo} onOpponentClick={handleOpponentClick} onSaveMatchLabel={handleSaveMatchLabel} scrollToMatchId={scrollToMatchId} onScrollToMatchDone={() => setScrollToMatchId(null)} isFiltered={!!(searchQuery.trim() || quickTeamFilter !== "all")} journals={journals} onAddJournal={(linkedMatchId, linkedMatchName, timestamp) => { setJournalAddRequest({ linkedMatchId, linkedMatchName, timestamp }); setActiveTab('journal'); }} />
+                <MatchTimeline matches={filteredMatches} profile={activeProfile} isSelectionMode={isSelectionMode} selectedMatchIds={selectedMatchIds} deleteConfirmId={deleteConfirmId} expandedMatchIds={expandedMatchIds} onSelectMatch={handleSelectMatch} onShare={handleShare} onShareTournament={(name, tMatches) => setShareTournament({ name, matches: tMatches })} onEditTournament={(name, tMatches) => setEditingTournament({ name, matches: tMatches })} onEdit={openEditForm} onTrashClick={handleTrashClick} onConfirmDelete={handleConfirmDelete} onCancelDelete={handleCancelDelete} onToggleExpansion={toggleMatchExpansion} onOpenVideo={handleOpenVideo} onOpponentClick={handleOpponentClick} onSaveMatchLabel={handleSaveMatchLabel} scrollToMatchId={scrollToMatchId} onScrollToMatchDone={() => setScrollToMatchId(null)} isFiltered={!!(searchQuery.trim() || quickTeamFilter !== "all")} journals={journals} onAddJournal={(linkedMatchId, linkedMatchName, timestamp) => { setJournalAddRequest({ linkedMatchId, linkedMatchName, timestamp }); setActiveTab('journal'); }} onOpenTournament={setOpenTournamentId} onStartLive={handleStartLive} liveMatchId={liveSessionMatchId} />
             </div>
             )}
             
@@ -652,8 +839,8 @@ const App: React.FC = () => {
       </nav>
 
       {/* ── Modals ── */}
-      <MatchForm isOpen={isFormOpen} onClose={() => setIsFormOpen(false)} onSubmit={handleFormSubmit} profile={activeProfile} initialData={editingMatch} previousMatches={matches} onAddTeammate={handleAddTeammate} />
-      <SyncModal isOpen={isSyncOpen} onClose={() => setIsSyncOpen(false)} matches={matches} profile={activeProfile} onSyncComplete={handleSyncComplete} syncOnlyMatches={syncSubset} />
+      <MatchForm isOpen={isFormOpen} onClose={() => setIsFormOpen(false)} onSubmit={handleFormSubmit} profile={activeProfile} initialData={editingMatch} previousMatches={matches} onAddTeammate={handleAddTeammate} onAddTournament={handleAddTournament} />
+      <SyncModal isOpen={isSyncOpen} onClose={() => setIsSyncOpen(false)} matches={matches} profile={activeProfile} onSyncComplete={handleSyncComplete} syncOnlyMatches={syncSubset} visibleMatches={filteredMatches} onBackupComplete={checkBackupStatus} onDataRestored={reloadData} />
       <VideoModal isOpen={!!viewingVideoId} videoId={viewingVideoId} onClose={() => setViewingVideoId(null)} />
       
       {/* 單場分享 — mode="match" */}
@@ -702,6 +889,42 @@ const App: React.FC = () => {
         />
       )}
 
+      {openTournament && (
+        <TournamentDetail
+          isOpen={!!openTournament}
+          onClose={() => setOpenTournamentId(null)}
+          tournament={openTournament}
+          matches={matches}
+          profile={activeProfile}
+          onSave={handleSaveTournament}
+          onDelete={handleDeleteTournament}
+          onOpenMatch={matchId => { setOpenTournamentId(null); handleNavigateToMatch(matchId); }}
+        />
+      )}
+
+      {openLeagueRecord && (
+        <LeagueDetail
+          isOpen={!!openLeagueRecord}
+          onClose={() => setOpenLeague(null)}
+          league={openLeagueRecord}
+          matches={matches}
+          profile={activeProfile}
+          onSave={handleSaveLeague}
+          onDelete={handleDeleteLeague}
+          initialTab={openLeague?.isNew ? 'settings' : 'table'}
+        />
+      )}
+
+      {openLiveMatch && (
+        <LiveMatchMode
+          match={openLiveMatch}
+          profile={activeProfile}
+          onMinimise={handleCloseLive}
+          onFinish={handleFinishLive}
+          onDiscard={() => { setOpenLiveMatchId(null); setLiveSessionMatchId(null); }}
+        />
+      )}
+
       {selectedOpponent && <OpponentStatsModal isOpen={!!selectedOpponent} onClose={() => setSelectedOpponent(null)} opponentName={selectedOpponent} allMatches={matches} profile={activeProfile} />}
       <OnboardingModal isOpen={showOnboarding} onComplete={handleOnboardingComplete} />
       <WhatsNewModal isOpen={showWhatsNew} onClose={handleCloseWhatsNew} />
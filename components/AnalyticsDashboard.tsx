@@ -4,17 +4,25 @@ import { AnalyticsProps } from '../types';
 import { getTeamColorStyles, getTeamById } from '../utils/colors';
 import { useLanguage } from '../context/LanguageContext';
 import SeasonShareModal from './SeasonShareModal';
+import SeasonReportModal from './SeasonReportModal';
+import RatingTrendChart from './RatingTrendChart';
 import { calculateBadges, BadgeState, getTierLabelKey } from '../utils/badges';
+import { formatPlacement, getTournamentContribution, placementIcon } from '../utils/tournaments';
+import { computeStandings } from '../utils/leagues';
+import { computePlayingTimeStats } from '../utils/playingTime';
+import { computeKeeperStats } from '../utils/goalkeeping';
+import { aggregateStats, formatStatValue, getProfileStatDefinitions, getShotAccuracy, getStatLabel } from '../utils/matchStats';
 
 type TimeFilterType = 'all' | 'year' | 'season' | 'month';
 
-const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ matches, profile }) => {
+const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ matches, profile, readOnly = false, onOpenTournament, onOpenLeague, onCreateLeague }) => {
   const { t } = useLanguage();
   const [teamFilter, setTeamFilter] = useState<string>('all');
   const [matchTypeFilter, setMatchTypeFilter] = useState<string>('all');
   const [timeFilterType, setTimeFilterType] = useState<TimeFilterType>('all');
   const [timeFilterValue, setTimeFilterValue] = useState<string>('');
   const [showShareModal, setShowShareModal] = useState(false);
+  const [showReportModal, setShowReportModal] = useState(false);
   
   // Badge Modal State
   const [selectedBadge, setSelectedBadge] = useState<BadgeState | null>(null);
@@ -83,6 +91,45 @@ const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ matches, profile }) => {
     };
   }, [filteredMatches]);
 
+  const playingTime = useMemo(() => computePlayingTimeStats(filteredMatches), [filteredMatches]);
+  const keeper = useMemo(() => computeKeeperStats(filteredMatches), [filteredMatches]);
+  const matchStats = useMemo(() => {
+      const teams = teamFilter === 'all' ? profile.teams : profile.teams.filter(tm => tm.id === teamFilter);
+      return aggregateStats(filteredMatches, getProfileStatDefinitions(teams, filteredMatches));
+  }, [filteredMatches, profile.teams, teamFilter]);
+  const shotAccuracy = useMemo(() => getShotAccuracy(filteredMatches), [filteredMatches]);
+
+  // Tournaments of the selected team that have a game inside the current filters
+  const tournamentSummaries = useMemo(() => {
+    return (profile.tournaments || [])
+      .filter(tn => teamFilter === 'all' || tn.teamId === teamFilter)
+      .map(tn => {
+        const tMatches = filteredMatches.filter(m => m.tournamentId === tn.id);
+        let w = 0, d = 0, l = 0;
+        tMatches.forEach(m => {
+          if (m.scoreMyTeam > m.scoreOpponent) w++;
+          else if (m.scoreMyTeam < m.scoreOpponent) l++;
+          else d++;
+        });
+        return { tournament: tn, w, d, l, contribution: getTournamentContribution(tMatches) };
+      })
+      .filter(s => s.contribution.played > 0)
+      .sort((a, b) => b.tournament.startDate.localeCompare(a.tournament.startDate));
+  }, [profile.tournaments, filteredMatches, teamFilter]);
+
+  // Leagues follow the team filter only: a table is always the whole season
+  const leagueSummaries = useMemo(() => {
+    return (profile.leagues || [])
+      .filter(league => teamFilter === 'all' || league.teamId === teamFilter)
+      .map(league => {
+        const standings = computeStandings(league, getTeamById(profile.teams, league.teamId).name, matches);
+        return { league, us: standings.find(r => r.isUs), size: standings.length };
+      })
+      .sort((a, b) => b.league.startDate.localeCompare(a.league.startDate));
+  }, [profile.leagues, profile.teams, matches, teamFilter]);
+
+  const leagueTeamId = teamFilter !== 'all' ? teamFilter : profile.teams.find(team => !team.isArchived)?.id;
+
   const { badges, totalLevel, maxLevel } = useMemo(() => calculateBadges(filteredMatches), [filteredMatches]);
 
   // Chart Logic
@@ -96,71 +143,10 @@ const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ matches, profile }) => {
     return dataToShow.map(m => ({ date: m.date, rating: m.rating || 0 }));
   }, [filteredMatches, timeFilterType]);
   
-  const Chart = () => {
-      if (chartData.length < 2) return <div className="text-center text-slate-400 py-10 text-xs">{t.trendNeedMoreData}</div>;
-      
-      const height = 150;
-      const width = 600; // High res internal width
-      const paddingX = 40;
-      const paddingY = 30;
-      const graphHeight = height - (paddingY * 2);
-      const graphWidth = width - (paddingX * 2);
-      const maxRating = 10;
-
-      const getX = (i: number) => (i / (chartData.length - 1)) * graphWidth + paddingX;
-      const getY = (r: number) => height - paddingY - (r / maxRating) * graphHeight;
-
-      const points = chartData.map((d, i) => `${getX(i)},${getY(d.rating)}`).join(' ');
-
-      return (
-        <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-48 overflow-visible select-none">
-          {/* Grid Lines */}
-          <line x1={paddingX} y1={getY(5)} x2={width - paddingX} y2={getY(5)} stroke="#e2e8f0" strokeDasharray="5,5" strokeWidth="1" />
-          <line x1={paddingX} y1={getY(10)} x2={width - paddingX} y2={getY(10)} stroke="#e2e8f0" strokeDasharray="5,5" strokeWidth="1" />
-          
-          {/* Axis Labels */}
-          <text x={paddingX - 10} y={getY(5) + 4} textAnchor="end" className="text-[10px] fill-slate-300 font-bold">5</text>
-          <text x={paddingX - 10} y={getY(10) + 4} textAnchor="end" className="text-[10px] fill-slate-300 font-bold">10</text>
-
-          {/* Connection Line */}
-          <polyline fill="none" stroke="#3b82f6" strokeWidth="3" points={points} strokeLinecap="round" strokeLinejoin="round" />
-          
-          {/* Area fill (optional visual flair) */}
-          <path d={`M${points.split(' ')[0].split(',')[0]},${height-paddingY} L${points.replace(/ /g, ' L')} L${points.split(' ').pop()?.split(',')[0]},${height-paddingY} Z`} fill="url(#gradient)" opacity="0.1" />
-          <defs>
-            <linearGradient id="gradient" x1="0" x2="0" y1="0" y2="1">
-              <stop offset="0%" stopColor="#3b82f6" />
-              <stop offset="100%" stopColor="transparent" />
-            </linearGradient>
-          </defs>
-
-          {/* Data Points */}
-          {chartData.map((d, i) => {
-             const x = getX(i);
-             const y = getY(d.rating);
-             const dateObj = new Date(d.date);
-             const dateStr = `${dateObj.getMonth() + 1}/${dateObj.getDate()}`;
-             
-             return (
-                 <g key={i}>
-                    {/* The Dot */}
-                    <circle cx={x} cy={y} r="5" fill="white" stroke="#3b82f6" strokeWidth="3" />
-                    
-                    {/* Rating Value (Top) */}
-                    <text x={x} y={y - 12} textAnchor="middle" className="text-sm font-black fill-slate-700">{d.rating}</text>
-                    
-                    {/* Date (Bottom) */}
-                    <text x={x} y={height - 5} textAnchor="middle" className="text-[10px] font-bold fill-slate-400">{dateStr}</text>
-                 </g>
-             );
-          })}
-        </svg>
-      );
-  };
-
   return (
     <div className="pb-32 animate-fade-in">
        {/* Filters */}
+       {!readOnly && (
        <div className="p-3 bg-white sticky top-0 z-20 shadow-sm border-b border-slate-100 flex flex-col gap-2">
            <div className="flex gap-2">
               <select value={teamFilter} onChange={(e) => setTeamFilter(e.target.value)} className="flex-1 bg-slate-100 text-sm rounded-lg px-3 py-2 outline-none border border-slate-200 font-bold text-slate-700">
@@ -187,8 +173,14 @@ const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ matches, profile }) => {
                  {timeFilterType === 'month' && timeOptions.months.map(m => <option key={m} value={m}>{m}</option>)}
               </select>
            )}
-           {filteredMatches.length > 0 && <button onClick={() => setShowShareModal(true)} className="w-full bg-slate-800 text-white text-xs font-bold py-2.5 rounded-lg flex items-center justify-center gap-2"><i className="fas fa-share-alt"></i> {t.shareSeason}</button>}
+           {filteredMatches.length > 0 && (
+             <div className="flex gap-2">
+               <button onClick={() => setShowShareModal(true)} className="flex-1 bg-slate-800 text-white text-xs font-bold py-2.5 rounded-lg flex items-center justify-center gap-2"><i className="fas fa-share-alt"></i> {t.shareSeason}</button>
+               <button onClick={() => setShowReportModal(true)} className="flex-1 bg-rose-600 text-white text-xs font-bold py-2.5 rounded-lg flex items-center justify-center gap-2"><i className="fas fa-file-pdf"></i> {t.seasonReport}</button>
+             </div>
+           )}
        </div>
+       )}
 
        <div className="p-4 space-y-4">
           {/* Main Stats */}
@@ -197,6 +189,105 @@ const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ matches, profile }) => {
              <div className="bg-gradient-to-br from-indigo-500 to-indigo-700 rounded-xl p-4 text-white shadow-lg"><div className="text-3xl font-black">{stats.totalAssists}</div><div className="text-xs opacity-80 font-bold uppercase">{t.totalAssists}</div></div>
           </div>
           
+          {/* Playing Time */}
+          {playingTime && (
+          <div className="bg-white rounded-xl p-5 shadow border border-slate-100">
+              <div className="flex justify-between items-end mb-4 border-b border-slate-50 pb-2">
+                  <h3 className="text-sm font-bold text-slate-800"><i className="fas fa-stopwatch text-teal-500 mr-2"></i>{t.playingTime}</h3>
+                  <div className="text-[9px] font-bold text-slate-400 uppercase">{t.playingTimeBasis.replace('{n}', String(playingTime.matches))}</div>
+              </div>
+              <div className="grid grid-cols-2 gap-3 mb-4">
+                  <div className="bg-teal-50 rounded-lg p-3 border border-teal-100">
+                      <div className="text-2xl font-black text-teal-700 leading-none">{playingTime.minutes}<span className="text-xs ml-1">{t.unitMinutes}</span></div>
+                      <div className="text-[10px] font-bold text-teal-600/70 uppercase mt-1">{t.minutesPlayed}</div>
+                  </div>
+                  <div className="bg-emerald-50 rounded-lg p-3 border border-emerald-100">
+                      <div className="text-2xl font-black text-emerald-700 leading-none">{playingTime.goalsPer60.toFixed(2)}</div>
+                      <div className="text-[10px] font-bold text-emerald-600/70 uppercase mt-1">{t.goalsPer60}</div>
+                  </div>
+              </div>
+              {playingTime.positions.length > 0 && (
+                  <div className="space-y-2">
+                      <div className="text-[10px] font-bold text-slate-400 uppercase">{t.timeByPosition}</div>
+                      {playingTime.positions.map(({ position, minutes, share }) => (
+                          <div key={position} className="flex items-center gap-2">
+                              <span className="w-8 text-xs font-black text-slate-700">{position}</span>
+                              <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden">
+                                  <div className="h-full bg-teal-500 rounded-full" style={{ width: `${Math.round(share * 100)}%` }}></div>
+                              </div>
+                              <span className="w-20 text-right text-[10px] font-bold text-slate-500">{minutes} {t.unitMinutes} · {Math.round(share * 100)}%</span>
+                          </div>
+                      ))}
+                  </div>
+              )}
+          </div>
+          )}
+
+          {/* Goalkeeping */}
+          {keeper && (
+          <div className="bg-white rounded-xl p-5 shadow border border-slate-100">
+              <div className="flex justify-between items-end mb-4 border-b border-slate-50 pb-2">
+                  <h3 className="text-sm font-bold text-slate-800"><i className="fas fa-mitten text-amber-500 mr-2"></i>{t.goalkeeping}</h3>
+                  <div className="text-[9px] font-bold text-slate-400 uppercase">{t.keeperBasis.replace('{n}', String(keeper.matches))} · {keeper.periodsInGoal} {t.unitPeriod}</div>
+              </div>
+              <div className="grid grid-cols-3 gap-3 mb-4">
+                  <div className="bg-amber-50 rounded-lg p-3 border border-amber-100">
+                      <div className="text-2xl font-black text-amber-700 leading-none">{keeper.saves}</div>
+                      <div className="text-[10px] font-bold text-amber-600/70 uppercase mt-1">{t.keeperSaves}</div>
+                  </div>
+                  <div className="bg-amber-50 rounded-lg p-3 border border-amber-100">
+                      <div className="text-2xl font-black text-amber-700 leading-none">{keeper.savePercent !== null ? `${Math.round(keeper.savePercent * 100)}%` : '-'}</div>
+                      <div className="text-[10px] font-bold text-amber-600/70 uppercase mt-1">{t.keeperSavePercent}</div>
+                  </div>
+                  <div className="bg-emerald-50 rounded-lg p-3 border border-emerald-100">
+                      <div className="text-2xl font-black text-emerald-700 leading-none">{keeper.cleanSheets}</div>
+                      <div className="text-[10px] font-bold text-emerald-600/70 uppercase mt-1">{t.keeperCleanSheets}</div>
+                  </div>
+              </div>
+              <div className="space-y-2 text-xs">
+                  <div className="flex justify-between"><span className="text-slate-500">{t.keeperConceded}</span><span className="font-bold text-slate-700">{keeper.goalsConceded}</span></div>
+                  <div className="flex justify-between"><span className="text-slate-500">{t.keeperConcededPerPeriod}</span><span className="font-bold text-slate-700">{keeper.concededPerPeriod !== null ? keeper.concededPerPeriod.toFixed(2) : '-'}</span></div>
+                  <div className="flex justify-between"><span className="text-slate-500">{t.keeperPenaltiesSaved}</span><span className="font-bold text-slate-700">{keeper.penaltiesSaved} / {keeper.penaltiesFaced}</span></div>
+                  <div className="flex justify-between">
+                      <span className="text-slate-500">{t.keeperDistribution}</span>
+                      <span className="font-bold text-slate-700">
+                          {keeper.distributionCompleted} / {keeper.distributionAttempted}
+                          {keeper.distributionPercent !== null && <span className="text-slate-400 font-medium ml-1">({Math.round(keeper.distributionPercent * 100)}%)</span>}
+                      </span>
+                  </div>
+              </div>
+          </div>
+          )}
+
+          {/* Per-match Stats */}
+          {matchStats.length > 0 && (
+          <div className="bg-white rounded-xl p-5 shadow border border-slate-100">
+              <div className="flex justify-between items-end mb-4 border-b border-slate-50 pb-2">
+                  <h3 className="text-sm font-bold text-slate-800"><i className="fas fa-chart-bar text-indigo-500 mr-2"></i>{t.matchStats}</h3>
+                  {shotAccuracy !== null && (
+                      <div className="text-right">
+                          <div className="text-2xl font-black text-indigo-600 leading-none">{Math.round(shotAccuracy * 100)}%</div>
+                          <div className="text-[9px] font-bold text-slate-400 uppercase">{t.statShotAccuracy}</div>
+                      </div>
+                  )}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                  {matchStats.map(({ definition, matches: recorded, value, perMatch }) => (
+                      <div key={definition.id} className="bg-slate-50 rounded-lg p-3 border border-slate-100">
+                          <div className="flex items-baseline gap-1">
+                              <span className="text-2xl font-black text-slate-800 leading-none">{formatStatValue(value)}</span>
+                              <span className="text-[9px] font-bold text-slate-400 uppercase">{t[definition.aggregation === 'sum' ? 'aggSum' : definition.aggregation === 'max' ? 'aggMax' : 'aggAverage']}</span>
+                          </div>
+                          <div className="text-[10px] font-bold text-slate-500 uppercase mt-1 truncate"><i className={`fas ${definition.icon} mr-1 text-slate-400`}></i>{getStatLabel(definition, t)}</div>
+                          <div className="text-[9px] text-slate-400 mt-0.5">
+                              {definition.aggregation === 'sum' && `${t.statPerMatch.replace('{n}', perMatch.toFixed(1))} · `}{t.statsBasis.replace('{n}', String(recorded))}
+                          </div>
+                      </div>
+                  ))}
+              </div>
+          </div>
+          )}
+
           {/* Rating Trend */}
           <div className="bg-white rounded-xl p-5 shadow border border-slate-100">
               <div className="flex justify-between items-end mb-4 border-b border-slate-50 pb-2">
@@ -206,8 +297,79 @@ const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ matches, profile }) => {
                       <div className="text-[9px] font-bold text-slate-400 uppercase">{t.avgRating}</div>
                   </div>
               </div>
-              <Chart />
+              <RatingTrendChart data={chartData} emptyText={t.trendNeedMoreData} />
+          </div>
+
+          {/* Leagues */}
+          {(leagueSummaries.length > 0 || (!readOnly && onCreateLeague && leagueTeamId)) && (
+          <div className="bg-white rounded-xl shadow border border-slate-100 overflow-hidden">
+              <div className="flex justify-between items-center p-4 bg-slate-50 border-b border-slate-100">
+                  <h3 className="text-sm font-bold text-slate-700 uppercase flex items-center gap-2">
+                      <i className="fas fa-list-ol text-blue-500"></i> {t.leagues}
+                  </h3>
+                  {!readOnly && onCreateLeague && leagueTeamId && (
+                      <button onClick={() => onCreateLeague(leagueTeamId)} className="text-[10px] font-bold text-blue-600 bg-blue-100 px-2 py-1 rounded-full">
+                          <i className="fas fa-plus mr-1"></i>{t.newLeague}
+                      </button>
+                  )}
+              </div>
+              {leagueSummaries.length === 0 && <p className="text-xs text-slate-400 text-center p-4">{t.leagueEmpty}</p>}
+              <div className="divide-y divide-slate-50">
+                  {leagueSummaries.map(({ league, us, size }) => (
+                      <button
+                        key={league.id}
+                        onClick={() => !readOnly && onOpenLeague?.(league.id)}
+                        className="w-full text-left px-4 py-3 flex items-center gap-3 hover:bg-slate-50 transition-colors"
+                      >
+                          <div className="w-10 text-center">
+                              <div className="text-xl font-black text-slate-800 leading-none">{us?.played ? us.position : '-'}</div>
+                              <div className="text-[9px] text-slate-400 font-bold">/ {size}</div>
+                          </div>
+                          <div className="flex-1 min-w-0">
+                              <div className="text-sm font-bold text-slate-800 truncate">{league.name}</div>
+                              <div className="text-[10px] text-slate-400 font-bold">{league.season || league.startDate}</div>
+                          </div>
+                          <div className="text-right shrink-0">
+                              <div className="text-sm font-black text-blue-600">{us?.points || 0} <span className="text-[9px] text-slate-400">Pts</span></div>
+                              <div className="text-[10px] text-slate-400 font-bold">{us?.played || 0} {t.played}</div>
+                          </div>
+                          {!readOnly && <i className="fas fa-chevron-right text-slate-300 text-xs"></i>}
+                      </button>
+                  ))}
+              </div>
+          </div>
+          )}
+
+          {/* Tournaments */}
+          {tournamentSummaries.length > 0 && (
+          <div className="bg-white rounded-xl shadow border border-slate-100 overflow-hidden">
+              <h3 className="text-sm font-bold text-slate-700 uppercase flex items-center gap-2 p-4 bg-slate-50 border-b border-slate-100">
+                  <i className="fas fa-trophy text-amber-500"></i> {t.tournaments}
+              </h3>
+              <div className="divide-y divide-slate-50">
+                  {tournamentSummaries.map(({ tournament, w, d, l, contribution }) => (
+                      <button
+                        key={tournament.id}
+                        onClick={() => !readOnly && onOpenTournament?.(tournament.id)}
+                        className="w-full text-left px-4 py-3 flex items-center gap-3 hover:bg-slate-50 transition-colors"
+                      >
+                          <div className="text-2xl w-8 text-center">{tournament.finalPlacement ? placementIcon(tournament.finalPlacement) : <i className="fas fa-trophy text-slate-200 text-lg"></i>}</div>
+                          <div className="flex-1 min-w-0">
+                              <div className="text-sm font-bold text-slate-800 truncate">{tournament.name}</div>
+                              <div className="text-[10px] text-slate-400 font-bold">
+                                  {tournament.startDate}{tournament.finalPlacement ? ` · ${formatPlacement(tournament.finalPlacement, t)}` : ''}
+                              </div>
+                          </div>
+                          <div className="text-right shrink-0">
+                              <div className="font-mono text-xs font-bold"><span className="text-emerald-600">{w}W</span> <span className="text-slate-500">{d}D</span> <span className="text-rose-600">{l}L</span></div>
+                              <div className="text-[10px] text-slate-400 font-bold"><i className="fas fa-futbol mr-0.5"></i>{contribution.goals} <i className="fas fa-shoe-prints ml-1 mr-0.5"></i>{contribution.assists}</div>
+                          </div>
+                          {!readOnly && <i className="fas fa-chevron-right text-slate-300 text-xs"></i>}
+                      </button>
+                  ))}
+              </div>
           </div>
+          )}
 
           {/* Growth Journey & Badges */}
           <div className="bg-white rounded-xl shadow border border-slate-100 overflow-hidden">
@@ -238,7 +400,7 @@ const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ matches, profile }) => {
                   {badges.map(badge => (
                       <button 
                         key={badge.id} 
-                        onClick={() => setSelectedBadge(badge)}
+                        onClick={() => !readOnly && setSelectedBadge(badge)}
                         className={`relative flex flex-col items-center justify-center p-3 rounded-xl border-2 transition-all duration-300 active:scale-95 ${badge.color}`}
                       >
                           <div className="mb-2 text-2xl">
@@ -312,6 +474,13 @@ const AnalyticsDashboard: React.FC<AnalyticsProps> = ({ matches, profile }) => {
        )}
 
        <SeasonShareModal isOpen={showShareModal} onClose={() => setShowShareModal(false)} matches={filteredMatches} profile={profile} title={teamFilter !== 'all' ? getTeamById(profile.teams, teamFilter).name : t.allTeams} />
+       <SeasonReportModal
+         isOpen={showReportModal}
+         onClose={() => setShowReportModal(false)}
+         matches={filteredMatches}
+         profile={profile}
+         title={`${teamFilter !== 'all' ? getTeamById(profile.teams, teamFilter).name : t.allTeams} · ${timeFilterType !== 'all' && timeFilterValue ? timeFilterValue : t.allTime}`}
+       />
     </div>
   );
 };
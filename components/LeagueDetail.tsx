@@ -0,0 +1,356 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { League, LeagueFixture, LeagueTieBreaker, MatchData, UserProfile } from '../types';
+import { useLanguage } from '../context/LanguageContext';
+import { getTeamById, getTeamColorStyles } from '../utils/colors';
+import { generateId } from '../services/ids';
+import { computeStandings, FormResult, getLeagueMatches, getMissingOpponents, TIE_BREAKERS } from '../utils/leagues';
+
+type LeagueTab = 'table' | 'results' | 'settings';
+
+interface LeagueDetailProps {
+  isOpen: boolean;
+  onClose: () => void;
+  league: League;
+  matches: MatchData[];
+  profile: UserProfile;
+  onSave: (league: League) => void;
+  onDelete: (leagueId: string) => void;
+  initialTab?: LeagueTab;
+}
+
+const FORM_COLORS: Record<FormResult, string> = { W: 'bg-emerald-500', D: 'bg-slate-400', L: 'bg-rose-500' };
+
+const emptyFixture = (): Omit<LeagueFixture, 'id'> => ({
+  date: new Date().toISOString().split('T')[0], homeTeam: '', awayTeam: '', homeScore: 0, awayScore: 0
+});
+
+const LeagueDetail: React.FC<LeagueDetailProps> = ({ isOpen, onClose, league, matches, profile, onSave, onDelete, initialTab = 'table' }) => {
+  const { t } = useLanguage();
+  const [tab, setTab] = useState<LeagueTab>(initialTab);
+  const [draft, setDraft] = useState<League>(league);
+  const [newTeam, setNewTeam] = useState('');
+  const [fixture, setFixture] = useState(emptyFixture());
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  useEffect(() => {
+    setDraft(league);
+    setConfirmDelete(false);
+  }, [league]);
+
+  useEffect(() => {
+    if (isOpen) setTab(initialTab);
+  }, [isOpen, initialTab]);
+
+  const team = getTeamById(profile.teams, league.teamId);
+  const styles = getTeamColorStyles(team.themeColor);
+
+  const standings = useMemo(() => computeStandings(league, team.name, matches), [league, team.name, matches]);
+  const ourMatches = useMemo(() => getLeagueMatches(league, matches), [league, matches]);
+  const missingOpponents = useMemo(() => getMissingOpponents(league, matches), [league, matches]);
+
+  const results = useMemo(() => [
+    ...ourMatches.map(m => ({
+      id: m.id, date: m.date, isOurs: true,
+      home: m.isHome ? team.name : m.opponent, away: m.isHome ? m.opponent : team.name,
+      homeScore: m.isHome ? m.scoreMyTeam : m.scoreOpponent, awayScore: m.isHome ? m.scoreOpponent : m.scoreMyTeam
+    })),
+    ...league.fixtures.map(f => ({
+      id: f.id, date: f.date, isOurs: false, home: f.homeTeam, away: f.awayTeam, homeScore: f.homeScore, awayScore: f.awayScore
+    }))
+  ].sort((a, b) => b.date.localeCompare(a.date)), [ourMatches, league.fixtures, team.name]);
+
+  if (!isOpen) return null;
+
+  const save = (next: League) => onSave({ ...next, updatedAt: Date.now() });
+
+  const addFixture = () => {
+    if (!fixture.homeTeam || !fixture.awayTeam || fixture.homeTeam === fixture.awayTeam) return;
+    save({ ...league, fixtures: [...league.fixtures, { ...fixture, id: generateId() }] });
+    setFixture(prev => ({ ...emptyFixture(), date: prev.date }));
+  };
+
+  const addTeams = (names: string[]) => setDraft(prev => {
+    const known = new Set(prev.teams.map(n => n.trim().toLowerCase()));
+    const added = names.map(n => n.trim()).filter(n => n && !known.has(n.toLowerCase()));
+    return added.length > 0 ? { ...prev, teams: [...prev.teams, ...added] } : prev;
+  });
+
+  // Typed results follow a renamed team; removing a team drops its results
+  const renameTeam = (index: number, name: string) => setDraft(prev => {
+    const old = prev.teams[index];
+    return {
+      ...prev,
+      teams: prev.teams.map((n, i) => i === index ? name : n),
+      fixtures: prev.fixtures.map(f => ({
+        ...f,
+        homeTeam: f.homeTeam === old ? name : f.homeTeam,
+        awayTeam: f.awayTeam === old ? name : f.awayTeam
+      }))
+    };
+  });
+
+  const removeTeam = (index: number) => setDraft(prev => {
+    const name = prev.teams[index];
+    return {
+      ...prev,
+      teams: prev.teams.filter((_, i) => i !== index),
+      fixtures: prev.fixtures.filter(f => f.homeTeam !== name && f.awayTeam !== name)
+    };
+  });
+
+  const toggleTieBreaker = (tb: LeagueTieBreaker) => setDraft(prev => ({
+    ...prev,
+    tieBreakers: prev.tieBreakers.includes(tb) ? prev.tieBreakers.filter(x => x !== tb) : [...prev.tieBreakers, tb]
+  }));
+
+  const moveTieBreaker = (index: number, delta: number) => setDraft(prev => {
+    const list = [...prev.tieBreakers];
+    const target = index + delta;
+    if (target < 0 || target >= list.length) return prev;
+    [list[index], list[target]] = [list[target], list[index]];
+    return { ...prev, tieBreakers: list };
+  });
+
+  const handleSaveSettings = () => {
+    if (!draft.name.trim() || !draft.startDate) return;
+    save({
+      ...draft,
+      name: draft.name.trim(),
+      endDate: draft.endDate || undefined,
+      teams: draft.teams.map(n => n.trim()).filter((n, i, arr) => n && arr.findIndex(x => x.toLowerCase() === n.toLowerCase()) === i)
+    });
+    setTab('table');
+  };
+
+  const inputClass = 'w-full bg-white text-slate-900 border border-slate-200 rounded-lg p-2 text-sm';
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm sm:p-4 animate-fade-in">
+      <div className="bg-white w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl shadow-2xl h-[90vh] sm:h-auto sm:max-h-[90vh] flex flex-col">
+
+        {/* Header */}
+        <div className={`${styles.headerBg} p-4 rounded-t-2xl flex-none`}>
+          <div className="flex justify-between items-start">
+            <div className={`min-w-0 ${styles.headerText}`}>
+              <div className="text-[10px] font-bold uppercase tracking-wider opacity-70"><i className="fas fa-list-ol mr-1"></i>{t.league} · {team.name}</div>
+              <h2 className="text-xl font-bold truncate">{league.name}</h2>
+              {league.season && <div className="text-xs opacity-80">{league.season}</div>}
+            </div>
+            <button onClick={onClose} className={`w-8 h-8 flex items-center justify-center rounded-full hover:bg-black/10 ${styles.headerText}`}>
+              <i className="fas fa-times"></i>
+            </button>
+          </div>
+          <div className="flex bg-black/10 rounded-lg p-1 mt-3">
+            {(['table', 'results', 'settings'] as LeagueTab[]).map(key => (
+              <button key={key} onClick={() => setTab(key)} className={`flex-1 text-xs py-1.5 rounded font-bold ${tab === key ? 'bg-white text-slate-800 shadow-sm' : styles.headerText}`}>
+                {key === 'table' ? t.leagueTable : key === 'results' ? t.leagueResults : t.leagueSettings}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 bg-slate-50 space-y-4 min-h-0">
+          {tab === 'table' && (
+            <>
+              {missingOpponents.length > 0 && (
+                <div className="bg-amber-50 border border-amber-100 rounded-xl p-3 text-xs text-amber-700 space-y-2">
+                  <p>{t.leagueMissingTeams.replace('{n}', String(missingOpponents.length))}</p>
+                  <p className="font-bold">{missingOpponents.join(', ')}</p>
+                  <button onClick={() => save({ ...league, teams: [...league.teams, ...missingOpponents] })} className="px-3 py-1.5 bg-amber-500 text-white rounded-lg font-bold">
+                    <i className="fas fa-plus mr-1"></i>{t.leagueAddTeams}
+                  </button>
+                </div>
+              )}
+              <div className="bg-white rounded-xl border border-slate-100 shadow-sm overflow-hidden">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-[10px] text-slate-400 font-bold bg-slate-50">
+                      <th className="px-2 py-2">#</th>
+                      <th className="text-left py-2">{t.tableTeam}</th>
+                      <th>P</th><th>W</th><th>D</th><th>L</th><th>GD</th><th>Pts</th>
+                      <th className="pr-2">{t.leagueForm}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {standings.map(row => (
+                      <tr key={row.isUs ? '__us' : row.name} className={`border-t border-slate-50 text-center ${row.isUs ? `${styles.light} font-bold` : 'text-slate-600'}`}>
+                        <td className="px-2 py-2 font-black text-slate-400">{row.position}</td>
+                        <td className="text-left py-2 truncate max-w-[110px]">{row.name}</td>
+                        <td>{row.played}</td><td>{row.won}</td><td>{row.drawn}</td><td>{row.lost}</td>
+                        <td>{row.goalsFor - row.goalsAgainst > 0 ? '+' : ''}{row.goalsFor - row.goalsAgainst}</td>
+                        <td className="font-black text-slate-800">{row.points}</td>
+                        <td className="pr-2">
+                          <div className="flex gap-0.5 justify-end">
+                            {row.form.map((r, i) => <span key={i} className={`w-2 h-2 rounded-full ${FORM_COLORS[r]}`} title={r}></span>)}
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-[10px] text-slate-400 px-1">
+                {t.leagueTableHint.replace('{n}', String(ourMatches.length)).replace('{m}', String(league.fixtures.length))}
+              </p>
+            </>
+          )}
+
+          {tab === 'results' && (
+            <>
+              {league.teams.length >= 2 && (
+                <div className="bg-white rounded-xl border border-slate-100 shadow-sm p-3 space-y-2">
+                  <h3 className="text-xs font-bold text-slate-400 uppercase">{t.leagueAddResult}</h3>
+                  <input type="date" value={fixture.date} onChange={e => setFixture(prev => ({ ...prev, date: e.target.value }))} className={inputClass} />
+                  <div className="flex items-center gap-2">
+                    <select value={fixture.homeTeam} onChange={e => setFixture(prev => ({ ...prev, homeTeam: e.target.value }))} className={`${inputClass} flex-1 min-w-0`}>
+                      <option value="">{t.home}</option>
+                      {league.teams.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                    <input type="number" min={0} value={fixture.homeScore} onChange={e => setFixture(prev => ({ ...prev, homeScore: Math.max(0, Number(e.target.value)) }))} className="w-12 bg-white border border-slate-200 rounded-lg p-2 text-sm text-center" />
+                    <span className="text-slate-300">-</span>
+                    <input type="number" min={0} value={fixture.awayScore} onChange={e => setFixture(prev => ({ ...prev, awayScore: Math.max(0, Number(e.target.value)) }))} className="w-12 bg-white border border-slate-200 rounded-lg p-2 text-sm text-center" />
+                    <select value={fixture.awayTeam} onChange={e => setFixture(prev => ({ ...prev, awayTeam: e.target.value }))} className={`${inputClass} flex-1 min-w-0`}>
+                      <option value="">{t.away}</option>
+                      {league.teams.map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                  </div>
+                  <button onClick={addFixture} disabled={!fixture.homeTeam || !fixture.awayTeam || fixture.homeTeam === fixture.awayTeam} className={`w-full py-2 ${styles.button} rounded-lg text-xs font-bold disabled:opacity-50`}>
+                    <i className="fas fa-plus mr-1"></i>{t.leagueAddResult}
+                  </button>
+                </div>
+              )}
+              {results.length === 0 && <p className="text-center text-xs text-slate-400 py-6">{t.leagueNoResults}</p>}
+              <div className="space-y-2">
+                {results.map(r => (
+                  <div key={r.id} className={`bg-white rounded-lg border shadow-sm p-2.5 flex items-center gap-2 ${r.isOurs ? 'border-blue-100' : 'border-slate-100'}`}>
+                    <span className="text-[10px] font-bold text-slate-400 w-16 shrink-0">{r.date}</span>
+                    <span className="flex-1 text-xs font-bold text-slate-700 text-right truncate">{r.home}</span>
+                    <span className="font-mono font-black text-sm shrink-0">{r.homeScore}-{r.awayScore}</span>
+                    <span className="flex-1 text-xs font-bold text-slate-700 truncate">{r.away}</span>
+                    {r.isOurs
+                      ? <i className="fas fa-link text-blue-300 text-[10px] w-5 text-center" title={t.leagueLoggedMatch}></i>
+                      : <button onClick={() => save({ ...league, fixtures: league.fixtures.filter(f => f.id !== r.id) })} className="text-slate-300 hover:text-red-500 w-5"><i className="fas fa-trash-alt text-xs"></i></button>}
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+
+          {tab === 'settings' && (
+            <div className="space-y-3">
+              <div className="flex gap-3">
+                <div className="flex-1">
+                  <label className="text-xs font-bold text-slate-400 uppercase">{t.leagueName}</label>
+                  <input type="text" value={draft.name} onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))} className={inputClass} />
+                </div>
+                <div className="w-1/3">
+                  <label className="text-xs font-bold text-slate-400 uppercase">{t.leagueSeason}</label>
+                  <input type="text" value={draft.season} onChange={e => setDraft(prev => ({ ...prev, season: e.target.value }))} placeholder="2024/25" className={inputClass} />
+                </div>
+              </div>
+              <div className="flex gap-3">
+                <div className="flex-1">
+                  <label className="text-xs font-bold text-slate-400 uppercase">{t.startDate}</label>
+                  <input type="date" value={draft.startDate} onChange={e => setDraft(prev => ({ ...prev, startDate: e.target.value }))} className={inputClass} />
+                </div>
+                <div className="flex-1">
+                  <label className="text-xs font-bold text-slate-400 uppercase">{t.endDate}</label>
+                  <input type="date" value={draft.endDate || ''} onChange={e => setDraft(prev => ({ ...prev, endDate: e.target.value }))} className={inputClass} />
+                </div>
+              </div>
+              <div className="flex gap-3">
+                <div className="flex-1">
+                  <label className="text-xs font-bold text-slate-400 uppercase">{t.leaguePointsWin}</label>
+                  <input type="number" min={0} value={draft.pointsForWin} onChange={e => setDraft(prev => ({ ...prev, pointsForWin: Math.max(0, Number(e.target.value)) }))} className={inputClass} />
+                </div>
+                <div className="flex-1">
+                  <label className="text-xs font-bold text-slate-400 uppercase">{t.leaguePointsDraw}</label>
+                  <input type="number" min={0} value={draft.pointsForDraw} onChange={e => setDraft(prev => ({ ...prev, pointsForDraw: Math.max(0, Number(e.target.value)) }))} className={inputClass} />
+                </div>
+              </div>
+
+              {/* Tie-breakers, in the order they are applied */}
+              <div className="pt-2 border-t border-slate-100">
+                <label className="text-xs font-bold text-slate-400 uppercase">{t.leagueTieBreakers}</label>
+                <div className="space-y-1.5 mt-1">
+                  {draft.tieBreakers.map((tb, i) => (
+                    <div key={tb} className="flex items-center gap-2 bg-white border border-slate-200 rounded-lg px-2 py-1.5">
+                      <span className="text-[10px] font-black text-slate-400 w-4">{i + 1}</span>
+                      <span className="flex-1 text-sm text-slate-700">{t[`tieBreaker_${tb}`]}</span>
+                      <button type="button" onClick={() => moveTieBreaker(i, -1)} disabled={i === 0} className="text-slate-400 disabled:opacity-20 px-1"><i className="fas fa-chevron-up text-xs"></i></button>
+                      <button type="button" onClick={() => moveTieBreaker(i, 1)} disabled={i === draft.tieBreakers.length - 1} className="text-slate-400 disabled:opacity-20 px-1"><i className="fas fa-chevron-down text-xs"></i></button>
+                      <button type="button" onClick={() => toggleTieBreaker(tb)} className="text-slate-300 hover:text-red-500 px-1"><i className="fas fa-times text-xs"></i></button>
+                    </div>
+                  ))}
+                  <div className="flex flex-wrap gap-2">
+                    {TIE_BREAKERS.filter(tb => !draft.tieBreakers.includes(tb)).map(tb => (
+                      <button key={tb} type="button" onClick={() => toggleTieBreaker(tb)} className="text-[10px] font-bold px-2 py-1 rounded border border-dashed border-slate-300 text-slate-500">
+                        + {t[`tieBreaker_${tb}`]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {/* Teams */}
+              <div className="pt-2 border-t border-slate-100">
+                <label className="text-xs font-bold text-slate-400 uppercase">{t.leagueTeams}</label>
+                <div className="space-y-1.5 mt-1">
+                  <div className={`text-sm font-bold px-2 py-1.5 rounded-lg ${styles.light}`}>{team.name} <span className="text-[10px] text-slate-400 font-normal">({t.us})</span></div>
+                  {draft.teams.map((name, i) => (
+                    <div key={i} className="flex items-center gap-2 bg-white border border-slate-200 rounded-lg px-2 py-1">
+                      <input type="text" value={name} onChange={e => renameTeam(i, e.target.value)} className="flex-1 min-w-0 text-sm text-slate-900 outline-none py-0.5" />
+                      <button type="button" onClick={() => removeTeam(i)} className="text-slate-300 hover:text-red-500 px-1"><i className="fas fa-times text-xs"></i></button>
+                    </div>
+                  ))}
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={newTeam}
+                      onChange={e => setNewTeam(e.target.value)}
+                      onKeyDown={e => { if (e.key === 'Enter') { addTeams([newTeam]); setNewTeam(''); } }}
+                      placeholder={t.leagueTeamPlaceholder}
+                      className={`${inputClass} flex-1`}
+                    />
+                    <button type="button" onClick={() => { addTeams([newTeam]); setNewTeam(''); }} className="px-3 rounded-lg bg-slate-800 text-white text-xs font-bold"><i className="fas fa-plus"></i></button>
+                  </div>
+                  {getMissingOpponents(draft, matches).length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 pt-1">
+                      <span className="text-[10px] text-slate-400 font-bold w-full">{t.leagueSuggested}</span>
+                      {getMissingOpponents(draft, matches).map(name => (
+                        <button key={name} type="button" onClick={() => addTeams([name])} className="text-[10px] font-bold px-2 py-1 rounded-full bg-blue-50 text-blue-600 border border-blue-100">+ {name}</button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex gap-2 pt-2">
+                <button type="button" onClick={() => { setDraft(league); setTab('table'); }} className="flex-1 py-2.5 bg-slate-100 text-slate-600 rounded-xl font-bold text-sm">{t.cancel}</button>
+                <button type="button" onClick={handleSaveSettings} disabled={!draft.name.trim() || !draft.startDate} className={`flex-1 py-2.5 ${styles.button} rounded-xl font-bold text-sm disabled:opacity-50`}>{t.save}</button>
+              </div>
+
+              <div className="pt-3 border-t border-slate-100">
+                {confirmDelete ? (
+                  <div className="bg-red-50 border border-red-100 rounded-xl p-3 space-y-2">
+                    <p className="text-xs text-red-600">{t.deleteLeagueConfirm}</p>
+                    <div className="flex gap-2">
+                      <button type="button" onClick={() => setConfirmDelete(false)} className="flex-1 py-2 bg-white text-slate-600 rounded-lg text-xs font-bold border border-slate-200">{t.cancel}</button>
+                      <button type="button" onClick={() => onDelete(league.id)} className="flex-1 py-2 bg-red-500 text-white rounded-lg text-xs font-bold">{t.delete}</button>
+                    </div>
+                  </div>
+                ) : (
+                  <button type="button" onClick={() => setConfirmDelete(true)} className="w-full py-2 text-xs font-bold text-red-500 hover:bg-red-50 rounded-lg">
+                    <i className="fas fa-trash-alt mr-1"></i>{t.deleteLeague}
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeagueDetail;
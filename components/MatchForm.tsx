@@ -1,12 +1,21 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
-import { MatchFormProps, MatchData, MatchType, PitchType, WeatherType, MatchFormat, MatchStructure } from '../types';
+import { MatchFormProps, MatchData, MatchEvent, PlayingSpell, GoalkeeperStats, MatchType, PitchType, WeatherType, MatchFormat, MatchStructure } from '../types';
 import { getTeamColorStyles, getTeamById } from '../utils/colors';
 import { useLanguage } from '../context/LanguageContext';
 import { useToast } from '../context/ToastContext';
 import MatchInfoFields from './match/MatchInfoFields';
 import MatchScoreboard from './match/MatchScoreboard';
 import MatchMedia from './match/MatchMedia';
+import MatchEventsEditor from './match/MatchEventsEditor';
+import PlayingTimeEditor from './match/PlayingTimeEditor';
+import GoalkeeperPanel from './match/GoalkeeperPanel';
+import MatchStatsEditor from './match/MatchStatsEditor';
+import { MatchAction, applyMatchAction, applyTeammateGoal } from '../utils/matchActions';
+import { getPeriodCount, getPeriodLength, hasPlayingTime, summariseSpells } from '../utils/playingTime';
+import { getMatchStatDefinitions, hasStats } from '../utils/matchStats';
+import { canFillKeeperStatsFromEvents, emptyKeeperStats, getPeriodsInGoal, keeperStatsFromEvents, playedInGoal } from '../utils/goalkeeping';
+import { createActionEvent, deriveTotalsFromEvents, eventsFromTotals, getScoringSide, hasEvents, removeEvent } from '../utils/matchEvents';
 
 // Add previousMatches prop to calculate H2H
 interface ExtendedMatchFormProps extends MatchFormProps {
@@ -24,7 +33,7 @@ type FormState = Omit<MatchData, 'id' | 'profileId' | 'pitchType' | 'weather' |
   periodsPlayed: number;
 };
 
-const MatchForm: React.FC<ExtendedMatchFormProps> = ({ isOpen, onClose, onSubmit, profile, initialData, previousMatches, onAddTeammate }) => {
+const MatchForm: React.FC<ExtendedMatchFormProps> = ({ isOpen, onClose, onSubmit, profile, initialData, previousMatches, onAddTeammate, onAddTournament }) => {
   const { t } = useLanguage();
   const { showToast } = useToast();
   
@@ -162,6 +171,18 @@ const MatchForm: React.FC<ExtendedMatchFormProps> = ({ isOpen, onClose, onSubmit
 
   const activeTeam = getTeamById(profile.teams, formData.teamId);
   const styles = getTeamColorStyles(activeTeam.themeColor);
+  const statDefinitions = getMatchStatDefinitions(formData, profile);
+
+  const teamTournaments = useMemo(() => (profile.tournaments || [])
+      .filter(tn => tn.teamId === formData.teamId)
+      .sort((a, b) => b.startDate.localeCompare(a.startDate)), [profile.tournaments, formData.teamId]);
+
+  // A tournament belongs to one team; switching team drops the link
+  useEffect(() => {
+      if (formData.tournamentId && !teamTournaments.some(tn => tn.id === formData.tournamentId)) {
+          setFormData(prev => ({ ...prev, tournamentId: undefined, tournamentRoundId: undefined }));
+      }
+  }, [teamTournaments, formData.tournamentId]);
 
   // --- AUTOCOMPLETE & SMART FILL ---
   const opponentOptions = useMemo(() => {
@@ -255,43 +276,60 @@ const MatchForm: React.FC<ExtendedMatchFormProps> = ({ isOpen, onClose, onSubmit
       setFormData(prev => {
           const max = structure === 'halves' ? 2 : 4;
           const newPeriods = Math.min(prev.periodsPlayed, max); // Cap if switching from 4 quarters to halves
+          if (hasPlayingTime(prev)) {
+              const playingTime = prev.playingTime!.filter(s => s.period <= max);
+              const summary = playingTime.length > 0 ? summariseSpells(playingTime, getPeriodLength({ ...prev, matchStructure: structure })) : {};
+              return { ...prev, matchStructure: structure, periodsPlayed: newPeriods, playingTime, ...summary };
+          }
           return { ...prev, matchStructure: structure, periodsPlayed: newPeriods };
       });
   };
 
-  const handleAction = (type: 'my_goal' | 'op_goal' | 'kid_goal' | 'kid_assist') => {
-    setFormData(prev => {
-      const newState = { ...prev };
-      switch (type) {
-        case 'my_goal': newState.scoreMyTeam += 1; break;
-        case 'op_goal': newState.scoreOpponent += 1; break;
-        case 'kid_goal': newState.scoreMyTeam += 1; newState.arthurGoals += 1; break;
-        case 'kid_assist': newState.arthurAssists += 1; break;
-      }
-      return newState;
-    });
+  // With an event list the totals follow the events, and scoreboard taps add events
+  const withEvents = (prev: FormState, events: MatchEvent[]): FormState =>
+      ({ ...prev, events, ...(events.length > 0 ? deriveTotalsFromEvents(events, prev.scorers) : {}) });
+
+  const setEvents = (events: MatchEvent[]) => {
+      setFormData(prev => withEvents(prev, events));
+  };
+
+  // Playing time records drive periodsPlayed and positionPlayed
+  const setPlayingTime = (playingTime: PlayingSpell[]) => {
+      setFormData(prev => ({
+          ...prev,
+          playingTime,
+          ...(playingTime.length > 0 ? summariseSpells(playingTime, getPeriodLength(prev)) : {})
+      }));
+  };
+
+  const setPeriodLength = (periodLength: number) => {
+      setFormData(prev => ({
+          ...prev,
+          periodLength,
+          ...(hasPlayingTime(prev) ? summariseSpells(prev.playingTime!, periodLength) : {})
+      }));
+  };
+
+  const setGoalkeeping = (goalkeeping: GoalkeeperStats) => {
+      setFormData(prev => ({ ...prev, goalkeeping }));
+  };
+
+  const fillKeeperStatsFromEvents = () => {
+      setFormData(prev => ({ ...prev, goalkeeping: { ...(prev.goalkeeping || emptyKeeperStats()), ...keeperStatsFromEvents(prev) } }));
+  };
+
+  const handleAction = (type: MatchAction) => {
+    setFormData(prev => hasEvents(prev)
+        ? withEvents(prev, [...prev.events!, createActionEvent(type)])
+        : applyMatchAction(prev, type));
   };
 
   const handleTeammateGoal = (teammateId: string, delta: number) => {
       setFormData(prev => {
-          const newScore = Math.max(0, prev.scoreMyTeam + delta);
-          const existingScorer = prev.scorers.find(s => s.teammateId === teammateId);
-          let newScorers;
-          if (existingScorer) {
-              const newCount = Math.max(0, existingScorer.count + delta);
-              if (newCount === 0) {
-                   newScorers = prev.scorers.filter(s => s.teammateId !== teammateId);
-              } else {
-                   newScorers = prev.scorers.map(s => 
-                      s.teammateId === teammateId ? { ...s, count: newCount } : s
-                   );
-              }
-          } else if (delta > 0) {
-              newScorers = [...prev.scorers, { teammateId, count: 1 }];
-          } else {
-              newScorers = prev.scorers;
-          }
-          return { ...prev, scoreMyTeam: newScore, scorers: newScorers };
+          if (!hasEvents(prev)) return applyTeammateGoal(prev, teammateId, delta);
+          if (delta > 0) return withEvents(prev, [...prev.events!, createActionEvent('teammate_goal', teammateId)]);
+          const last = [...prev.events!].reverse().find(e => getScoringSide(e) === 'us' && e.kind !== 'ownGoal' && e.playerIds[0] === teammateId);
+          return last ? withEvents(prev, removeEvent(prev.events!, last.id)) : prev;
       });
   };
 
@@ -304,6 +342,15 @@ const MatchForm: React.FC<ExtendedMatchFormProps> = ({ isOpen, onClose, onSubmit
       }
   };
 
+  const handleCreateTournament = (name: string): boolean => {
+      if (!onAddTournament || !formData.teamId) return false;
+      const created = onAddTournament(formData.teamId, name, formData.date);
+      if (!created) return false;
+      setFormData(prev => ({ ...prev, tournamentId: created.id, tournamentRoundId: undefined, matchType: prev.matchType === 'league' ? 'cup' : prev.matchType }));
+      showToast(t.tournamentCreated, 'success');
+      return true;
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!formData.opponent) return alert(t.alertOpponent);
@@ -311,12 +358,24 @@ const MatchForm: React.FC<ExtendedMatchFormProps> = ({ isOpen, onClose, onSubmit
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const { id, ...rest } = formData;
     
+    const tournament = teamTournaments.find(tn => tn.id === formData.tournamentId);
     const submitData: Omit<MatchData, 'id'> = {
         ...rest,
+        tournamentId: tournament?.id,
+        tournamentRoundId: tournament && tournament.rounds.some(r => r.id === formData.tournamentRoundId) ? formData.tournamentRoundId : undefined,
+        // Unlinking keeps a legacy name only when there never was a record
+        tournamentName: tournament ? tournament.name : (initialData?.tournamentId ? undefined : rest.tournamentName),
         profileId: profile.id,
         pitchType: formData.pitchType === '' ? undefined : formData.pitchType,
         weather: formData.weather === '' ? undefined : formData.weather,
         matchFormat: formData.matchFormat === '' ? undefined : formData.matchFormat,
+        events: hasEvents(formData) ? formData.events : undefined,
+        playingTime: hasPlayingTime(formData) ? formData.playingTime!.map(s => ({ ...s, off: Math.max(s.on, s.off) })) : undefined,
+        // The keeper sheet is kept only once filled in, and only while GK is still played
+        goalkeeping: formData.goalkeeping && playedInGoal(formData)
+            ? { ...formData.goalkeeping, periodsInGoal: hasPlayingTime(formData) ? undefined : getPeriodsInGoal(formData) }
+            : undefined,
+        stats: hasStats(formData) ? formData.stats : undefined,
         updatedAt: Date.now() // Always update timestamp on save
     };
 
@@ -397,6 +456,9 @@ const MatchForm: React.FC<ExtendedMatchFormProps> = ({ isOpen, onClose, onSubmit
             adjustPeriods={adjustPeriods}
             setMatchStructure={setMatchStructure}
             togglePosition={togglePosition}
+            tournaments={teamTournaments}
+            onCreateTournament={onAddTournament ? handleCreateTournament : undefined}
+            playingTimeTracked={hasPlayingTime(formData)}
           />
 
           {!isFixtureMode && (
@@ -414,7 +476,49 @@ const MatchForm: React.FC<ExtendedMatchFormProps> = ({ isOpen, onClose, onSubmit
                     newTeammateName={newTeammateName}
                     setNewTeammateName={setNewTeammateName}
                     handleQuickAdd={handleQuickAdd}
+                    totalsFromEvents={hasEvents(formData)}
+                />
+                {statDefinitions.length > 0 && (
+                    <MatchStatsEditor
+                        definitions={statDefinitions}
+                        stats={formData.stats || {}}
+                        onChange={stats => setFormData(prev => ({ ...prev, stats }))}
+                        t={t}
+                    />
+                )}
+                <MatchEventsEditor
+                    events={formData.events || []}
+                    onChange={setEvents}
+                    team={activeTeam}
+                    playerName={profile.name}
+                    scorers={formData.scorers}
+                    periods={getPeriodCount(formData)}
+                    periodLength={formData.periodLength}
+                    t={t}
+                    canStartFromScore={formData.scoreMyTeam + formData.scoreOpponent + formData.arthurAssists > 0}
+                    onStartFromScore={() => setEvents(eventsFromTotals(formData))}
+                />
+                <PlayingTimeEditor
+                    spells={formData.playingTime || []}
+                    onChange={setPlayingTime}
+                    periods={getPeriodCount(formData)}
+                    periodLength={getPeriodLength(formData)}
+                    onPeriodLengthChange={setPeriodLength}
+                    isHalves={formData.matchStructure === 'halves'}
+                    t={t}
                 />
+                {playedInGoal(formData) && (
+                    <GoalkeeperPanel
+                        stats={formData.goalkeeping || emptyKeeperStats()}
+                        onChange={setGoalkeeping}
+                        periodsInGoal={getPeriodsInGoal(formData)}
+                        periodsFromPlayingTime={hasPlayingTime(formData)}
+                        maxPeriods={getPeriodCount(formData)}
+                        t={t}
+                        canFillFromEvents={canFillKeeperStatsFromEvents(formData)}
+                        onFillFromEvents={fillKeeperStatsFromEvents}
+                    />
+                )}
                 <MatchMedia 
                     formData={formData}
                     setFormData={setFormData}
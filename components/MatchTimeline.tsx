@@ -1,7 +1,12 @@
 
 import React, { useMemo, useState, useEffect, useRef } from 'react';
-import { MatchData, UserProfile } from '../types';
+import { MatchData, Team, UserProfile } from '../types';
 import { getTeamById, getTeamColorStyles } from '../utils/colors';
+import { getTournamentById } from '../utils/tournaments';
+import { playedInGoal } from '../utils/goalkeeping';
+import { getMatchStatDefinitions, getStatLabel, hasStats } from '../utils/matchStats';
+import { getMinutesPlayed, getSpellMinutes, hasPlayingTime, sortSpells } from '../utils/playingTime';
+import { EVENT_ICONS, describeMatchEvent, formatEventMinute, getAssistFor, getEventPlayerName, hasEvents, sortEvents, withoutLinkedAssists } from '../utils/matchEvents';
 import { useLanguage } from '../context/LanguageContext';
 
 interface MatchTimelineProps {
@@ -20,11 +25,15 @@ interface MatchTimelineProps {
   onToggleExpansion: (e: React.MouseEvent, id: string) => void;
   onOpenVideo: (e: React.MouseEvent, url: string) => void;
   onOpponentClick: (e: React.MouseEvent, opponent: string) => void;
+  readOnly?: boolean; // Shared snapshot: no editing, every month open, videos as plain links
+  onOpenTournament?: (tournamentId: string) => void;
+  onStartLive?: (match: MatchData) => void;
+  liveMatchId?: string | null; // Scheduled match with a live session in progress
 }
 
 const MatchTimeline: React.FC<MatchTimelineProps> = ({
   matches, profile, isSelectionMode, selectedMatchIds, deleteConfirmId, expandedMatchIds,
-  onSelectMatch, onShare, onEdit, onTrashClick, onConfirmDelete, onCancelDelete, onToggleExpansion, onOpenVideo, onOpponentClick
+  onSelectMatch, onShare, onEdit, onTrashClick, onConfirmDelete, onCancelDelete, onToggleExpansion, onOpenVideo, onOpponentClick, readOnly = false, onOpenTournament, onStartLive, liveMatchId
 }) => {
   const { t } = useLanguage();
   
@@ -66,7 +75,7 @@ const MatchTimeline: React.FC<MatchTimelineProps> = ({
 
   useEffect(() => {
       if (groupKeys.length > 0 && expandedMonthGroups.size === 0) {
-          setExpandedMonthGroups(new Set([groupKeys[0]]));
+          setExpandedMonthGroups(new Set(readOnly ? groupKeys : [groupKeys[0]]));
       }
   }, [groupKeys.length]);
 
@@ -149,6 +158,49 @@ const MatchTimeline: React.FC<MatchTimelineProps> = ({
       }
   };
 
+  const renderTournamentChip = (match: MatchData) => {
+      const tournament = getTournamentById(profile.tournaments, match.tournamentId);
+      const name = tournament?.name || match.tournamentName;
+      if (!name) return null;
+      const round = tournament?.rounds.find(r => r.id === match.tournamentRoundId)?.name || match.matchLabel;
+      const label = <><i className="fas fa-trophy text-amber-500"></i><span className="truncate max-w-[140px]">{name}</span>{round && <span className="text-amber-600/70">· {round}</span>}</>;
+      const className = 'text-[10px] font-bold px-1.5 py-0.5 rounded border border-amber-200 bg-amber-50 text-amber-700 flex items-center gap-1';
+      if (!tournament || readOnly || isSelectionMode || !onOpenTournament) return <span className={className}>{label}</span>;
+      return <button onClick={(e) => { e.stopPropagation(); onOpenTournament(tournament.id); }} className={`${className} hover:bg-amber-100`}>{label}</button>;
+  };
+
+  // Vertical event timeline for the expanded card, our events marked green, theirs red
+  const renderEventTimeline = (match: MatchData, team: Team) => {
+      if (!hasEvents(match)) return null;
+      const events = match.events!;
+      const nameOf = (id?: string) => getEventPlayerName(id, team, profile.name, match.scorers);
+      const periodName = (n: number) => (match.matchStructure === 'halves' ? t.liveHalf : t.liveQuarter).replace('{n}', String(n));
+      const shown = sortEvents(withoutLinkedAssists(events));
+      return (
+          <div className="bg-white/70 rounded-lg p-3 border border-black/5">
+              <div className="text-[10px] font-bold text-slate-400 uppercase mb-2">{t.matchEvents}</div>
+              <ol className="relative ml-10 border-l-2 border-slate-200 space-y-2">
+                  {shown.map((event, i) => {
+                      const assist = getAssistFor(events, event.id);
+                      const isNewPeriod = event.period && event.period !== shown[i - 1]?.period;
+                      const isUs = event.side === 'us';
+                      return (
+                          <li key={event.id} className="relative pl-4">
+                              {isNewPeriod && <div className="text-[9px] font-black text-slate-300 uppercase -ml-1 mb-1">{periodName(event.period!)}</div>}
+                              <span className="absolute -left-11 w-8 text-right text-[10px] font-black text-slate-400 tabular-nums" style={{ bottom: assist ? '1rem' : 0 }}>{formatEventMinute(event, match.periodLength)}</span>
+                              <span className={`absolute -left-[9px] w-4 h-4 rounded-full bg-white border-2 flex items-center justify-center ${isUs ? 'border-emerald-400 text-emerald-600' : 'border-rose-300 text-rose-500'}`} style={{ bottom: assist ? '1rem' : 0 }}>
+                                  <i className={`fas ${EVENT_ICONS[event.kind]} text-[7px] ${event.kind === 'card' ? (event.card === 'red' ? 'text-red-500' : 'text-yellow-400') : ''}`}></i>
+                              </span>
+                              <div className={`text-xs font-bold ${isUs ? 'text-slate-700' : 'text-rose-600'}`}>{describeMatchEvent(event, nameOf, t)}</div>
+                              {assist && <div className="text-[10px] text-indigo-500 font-bold"><i className="fas fa-shoe-prints mr-1"></i>{t.eventAssistBy}: {nameOf(assist.playerIds[0]) || t.eventNoPlayer}</div>}
+                          </li>
+                      );
+                  })}
+              </ol>
+          </div>
+      );
+  };
+
   const handleOpenMaps = (e: React.MouseEvent, location: string) => {
       e.stopPropagation();
       const url = `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(location)}`;
@@ -183,8 +235,9 @@ const MatchTimeline: React.FC<MatchTimelineProps> = ({
                                                 {team.name}
                                             </span>
                                             {match.matchFormat && <span className="text-[10px] font-bold px-1.5 py-0.5 rounded border border-slate-200 bg-slate-50 text-slate-400">{match.matchFormat}</span>}
+                                            {renderTournamentChip(match)}
                                         </div>
-                                        {!isSelectionMode && (
+                                        {!isSelectionMode && !readOnly && (
                                             <div className="flex gap-2 -mr-2 -mt-2 items-center">
                                                 <button onClick={(e) => onEdit(e, match)} className="text-slate-400 hover:text-blue-500 p-2"><i className="fas fa-edit"></i></button>
                                                 {deleteConfirmId === match.id ? (
@@ -226,7 +279,7 @@ const MatchTimeline: React.FC<MatchTimelineProps> = ({
                                             <div className="text-[10px] font-bold text-slate-400 flex items-center gap-1 truncate">
                                                 <i className="fas fa-map-marker-alt"></i> {match.location}
                                             </div>
-                                            {!isSelectionMode && (
+                                            {!isSelectionMode && !readOnly && (
                                                 <button 
                                                     onClick={(e) => handleOpenMaps(e, match.location)}
                                                     className="bg-emerald-50 text-emerald-600 px-2 py-1 rounded text-[10px] font-bold border border-emerald-100 flex items-center gap-1 active:scale-90 transition-transform shrink-0"
@@ -237,16 +290,29 @@ const MatchTimeline: React.FC<MatchTimelineProps> = ({
                                         </div>
                                     )}
 
-                                    {!isSelectionMode && (
-                                        <button 
-                                            onClick={(e) => {
-                                                e.stopPropagation();
-                                                onEdit(e, { ...match, status: 'completed' });
-                                            }}
-                                            className="w-full py-2 bg-blue-600 text-white rounded-lg font-bold text-xs flex items-center justify-center gap-2 shadow-lg active:scale-95 transition-all"
-                                        >
-                                            <i className="fas fa-clipboard-check"></i> {t.reportResult}
-                                        </button>
+                                    {!isSelectionMode && !readOnly && (
+                                        <div className="flex gap-2">
+                                            {onStartLive && (
+                                                <button
+                                                    onClick={(e) => {
+                                                        e.stopPropagation();
+                                                        onStartLive(match);
+                                                    }}
+                                                    className={`flex-1 py-2 rounded-lg font-bold text-xs flex items-center justify-center gap-2 shadow-lg active:scale-95 transition-all ${liveMatchId === match.id ? 'bg-red-500 text-white' : 'bg-white text-red-500 border border-red-200'}`}
+                                                >
+                                                    <i className={`fas fa-circle text-[8px] ${liveMatchId === match.id ? 'animate-pulse' : ''}`}></i> {liveMatchId === match.id ? t.resumeLive : t.goLive}
+                                                </button>
+                                            )}
+                                            <button 
+                                                onClick={(e) => {
+                                                    e.stopPropagation();
+                                                    onEdit(e, { ...match, status: 'completed' });
+                                                }}
+                                                className="flex-1 py-2 bg-blue-600 text-white rounded-lg font-bold text-xs flex items-center justify-center gap-2 shadow-lg active:scale-95 transition-all"
+                                            >
+                                                <i className="fas fa-clipboard-check"></i> {t.reportResult}
+                                            </button>
+                                        </div>
                                     )}
                                 </div>
                             </div>
@@ -291,12 +357,14 @@ const MatchTimeline: React.FC<MatchTimelineProps> = ({
                         return (
                         <div key={match.id} className="relative overflow-hidden rounded-xl">
                             {/* Actions Behind (Revealed on swipe) */}
+                            {!readOnly && (
                             <div className="absolute inset-y-0 right-0 flex w-32">
                                 <button onClick={(e) => onEdit(e, match)} className="w-1/2 bg-blue-500 text-white flex items-center justify-center font-bold text-xs"><i className="fas fa-edit"></i></button>
                                 <button onClick={(e) => { if(deleteConfirmId === match.id) onConfirmDelete(e, match.id); else onTrashClick(e, match.id); }} className={`w-1/2 flex items-center justify-center font-bold text-xs text-white ${deleteConfirmId === match.id ? 'bg-red-700' : 'bg-red-500'}`}>
                                     {deleteConfirmId === match.id ? <i className="fas fa-check"></i> : <i className="fas fa-trash"></i>}
                                 </button>
                             </div>
+                            )}
 
                             {/* Foreground Card */}
                             <div 
@@ -318,8 +386,10 @@ const MatchTimeline: React.FC<MatchTimelineProps> = ({
                                         </span>
                                         {match.matchFormat && <span className="text-[10px] font-bold px-1.5 py-0.5 rounded border border-slate-200 bg-white text-slate-500">{match.matchFormat}</span>}
                                         {getResultBadge(match.scoreMyTeam, match.scoreOpponent)}
+                                        {renderTournamentChip(match)}
                                     </div>
                                     {/* Desktop Buttons (Hidden on touch if swipe acts, but keeping for desktop) */}
+                                    {!readOnly && <>
                                     <div className="hidden sm:flex gap-2 -mr-2 -mt-2 items-center">
                                         <button onClick={(e) => onShare(e, match)} className="text-slate-400 hover:text-emerald-500 p-2"><i className="fas fa-share-alt"></i></button>
                                         <button onClick={(e) => onEdit(e, match)} className="text-slate-400 hover:text-blue-500 p-2"><i className="fas fa-edit"></i></button>
@@ -329,6 +399,7 @@ const MatchTimeline: React.FC<MatchTimelineProps> = ({
                                     <div className="sm:hidden -mr-2 -mt-2">
                                         <button onClick={(e) => onShare(e, match)} className="text-slate-400 hover:text-emerald-500 p-2"><i className="fas fa-share-alt"></i></button>
                                     </div>
+                                    </>}
                                 </div>
 
                                 {/* Collapsed Info Row */}
@@ -380,7 +451,7 @@ const MatchTimeline: React.FC<MatchTimelineProps> = ({
 
                                     <div className="flex items-center gap-2">
                                         <div className="text-xs font-bold text-yellow-600 bg-yellow-50 px-2 py-0.5 rounded border border-yellow-200">{t.rating}: {match.rating}</div>
-                                        <button onClick={(e) => onToggleExpansion(e, match.id)} className="w-6 h-6 flex items-center justify-center rounded-full bg-slate-200/80 text-slate-500"><i className={`fas fa-chevron-${isExpanded ? 'up' : 'down'} text-[10px]`}></i></button>
+                                        {!readOnly && <button onClick={(e) => onToggleExpansion(e, match.id)} className="w-6 h-6 flex items-center justify-center rounded-full bg-slate-200/80 text-slate-500"><i className={`fas fa-chevron-${isExpanded ? 'up' : 'down'} text-[10px]`}></i></button>}
                                     </div>
                                 </div>
                                 
@@ -390,14 +461,37 @@ const MatchTimeline: React.FC<MatchTimelineProps> = ({
                                             {match.matchTime && <span className="flex items-center gap-1 bg-white px-2 py-1 rounded border border-slate-100 text-blue-600"><i className="far fa-clock"></i> {t.matchTime}: {match.matchTime}</span>}
                                             {match.assemblyTime && <span className="flex items-center gap-1 bg-white px-2 py-1 rounded border border-slate-100"><i className="fas fa-users"></i> {t.assemblyTime}: {match.assemblyTime}</span>}
                                             {match.periodsPlayed !== undefined && <span className="flex items-center gap-1 bg-white px-2 py-1 rounded border border-slate-100 text-slate-700"><i className="fas fa-hourglass-half text-slate-400"></i> {t.periodsPlayed}: {match.periodsPlayed} {t.unitPeriod}</span>}
+                                            {hasPlayingTime(match) && <span className="flex items-center gap-1 bg-white px-2 py-1 rounded border border-slate-100 text-teal-700"><i className="fas fa-stopwatch text-teal-400"></i> {getMinutesPlayed(match.playingTime!)} {t.unitMinutes}</span>}
+                                            {hasPlayingTime(match) && sortSpells(match.playingTime!).map((spell, i) => (
+                                                <span key={i} className="flex items-center gap-1 bg-white px-2 py-1 rounded border border-slate-100 text-slate-600">
+                                                    {(match.matchStructure === 'halves' ? t.liveHalf : t.liveQuarter).replace('{n}', String(spell.period))}
+                                                    {spell.position && <span className="text-slate-800">{spell.position}</span>}
+                                                    <span className="text-slate-400">{getSpellMinutes(spell)}'</span>
+                                                </span>
+                                            ))}
+                                            {match.goalkeeping && playedInGoal(match) && (
+                                                <span className="flex items-center gap-1 bg-amber-50 px-2 py-1 rounded border border-amber-100 text-amber-700">
+                                                    <i className="fas fa-mitten text-amber-400"></i> {t.keeperSaves} {match.goalkeeping.saves} · {t.keeperConceded} {match.goalkeeping.goalsConceded}
+                                                    {match.goalkeeping.penaltiesFaced > 0 && <span> · {t.keeperPenaltiesSaved} {match.goalkeeping.penaltiesSaved}/{match.goalkeeping.penaltiesFaced}</span>}
+                                                </span>
+                                            )}
+                                            {hasStats(match) && getMatchStatDefinitions(match, profile).filter(d => match.stats![d.id] !== undefined).map(d => (
+                                                <span key={d.id} className="flex items-center gap-1 bg-white px-2 py-1 rounded border border-slate-100 text-indigo-700">
+                                                    <i className={`fas ${d.icon} text-indigo-300`}></i> {getStatLabel(d, t)} {match.stats![d.id]}
+                                                </span>
+                                            ))}
                                             {match.pitchType && <span className="flex items-center gap-1 bg-white px-2 py-1 rounded border border-slate-100"><i className="fas fa-layer-group text-slate-400"></i> {getPitchLabel(match.pitchType)}</span>}
                                             {match.weather && <span className="flex items-center gap-1 bg-white px-2 py-1 rounded border border-slate-100"><i className={`fas ${getWeatherIcon(match.weather)} text-slate-400`}></i> {getWeatherLabel(match.weather)}</span>}
-                                            {match.location && <button onClick={(e) => handleOpenMaps(e, match.location)} className="flex items-center gap-1 bg-emerald-50 text-emerald-600 px-2 py-1 rounded border border-emerald-100 active:scale-95 transition-transform"><i className="fas fa-map"></i> {t.openInMaps}</button>}
+                                            {match.location && !readOnly && <button onClick={(e) => handleOpenMaps(e, match.location)} className="flex items-center gap-1 bg-emerald-50 text-emerald-600 px-2 py-1 rounded border border-emerald-100 active:scale-95 transition-transform"><i className="fas fa-map"></i> {t.openInMaps}</button>}
                                         </div>
 
+                                        {renderEventTimeline(match, team)}
+
                                         {match.dadComment && <div className="flex gap-2"><span className="text-xs font-bold text-slate-400 shrink-0 mt-0.5">{match.commenterIdentity || 'Dad'}:</span><p className="text-slate-700 italic text-sm">{match.dadComment}</p></div>}
                                         {match.kidInterview && <div className="flex gap-2"><span className="text-xs font-bold text-slate-400 shrink-0 mt-0.5">{t.interview}:</span><p className="text-slate-700 text-sm">{match.kidInterview}</p></div>}
-                                        {match.videos.length > 0 && <div className="pt-1 flex flex-wrap gap-2">{match.videos.map(v => <button key={v.id} onClick={(e) => onOpenVideo(e, v.url)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold border bg-red-100 text-red-700 border-red-200"><i className="fab fa-youtube"></i>{t.tagHighlight}</button>)}</div>}
+                                        {match.videos.length > 0 && <div className="pt-1 flex flex-wrap gap-2">{match.videos.map(v => readOnly
+                                            ? <a key={v.id} href={v.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold border bg-red-100 text-red-700 border-red-200"><i className="fab fa-youtube"></i>{v.note || t.tagHighlight}</a>
+                                            : <button key={v.id} onClick={(e) => onOpenVideo(e, v.url)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-xs font-bold border bg-red-100 text-red-700 border-red-200"><i className="fab fa-youtube"></i>{t.tagHighlight}</button>)}</div>}
                                     </div>
                                 )}
                                 </div>
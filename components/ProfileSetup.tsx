@@ -4,6 +4,8 @@ import { UserProfile, ProfileSetupProps, Team, Teammate, MatchFormat, MatchStruc
 import { COLORS, generateJerseyGradient } from '../utils/colors';
 import { useLanguage } from '../context/LanguageContext';
 import { compressImage } from '../utils/image';
+import { generateId } from '../services/ids';
+import TeamStatSettings from './TeamStatSettings';
 
 const ProfileSetup: React.FC<ProfileSetupProps> = ({ initialProfile, onSave, onCancel }) => {
   const { t, language, toggleLanguage } = useLanguage();
@@ -84,7 +86,7 @@ const ProfileSetup: React.FC<ProfileSetupProps> = ({ initialProfile, onSave, onC
 
   const addTeam = () => {
     setTeams([...teams, { 
-        id: Date.now().toString(), 
+        id: generateId(),
         name: '', 
         jerseyNumber: '', 
         themeColor: 'blue',
@@ -107,7 +109,7 @@ const ProfileSetup: React.FC<ProfileSetupProps> = ({ initialProfile, onSave, onC
   const addTeammate = (teamIndex: number) => {
       const newTeams = [...teams];
       newTeams[teamIndex].roster.push({
-          id: Date.now().toString() + Math.random().toString().slice(2,5),
+          id: generateId(),
           name: '',
           number: ''
       });
@@ -352,6 +354,9 @@ const ProfileSetup: React.FC<ProfileSetupProps> = ({ initialProfile, onSave, onC
                     </div>
                   </div>
 
+                  {/* Per-match Stats */}
+                  <TeamStatSettings team={team} onChange={(field, value) => handleTeamChange(index, field, value)} t={t} />
+
                   {/* Roster Section */}
                   <div className="mb-2 bg-white/50 rounded-lg p-2 border border-slate-100">
                       <div className="flex justify-between items-center mb-2">
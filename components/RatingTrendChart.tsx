@@ -0,0 +1,74 @@
+import React from 'react';
+
+interface RatingTrendChartProps {
+  data: { date: string; rating: number }[];
+  emptyText: string;
+  className?: string;
+  gradientId?: string; // Must be unique when several charts are on screen
+}
+
+// Colours and text sizes are SVG attributes rather than Tailwind classes so the
+// chart keeps its look when html2canvas rasterises it (PDF season report).
+const RatingTrendChart: React.FC<RatingTrendChartProps> = ({ data, emptyText, className = 'w-full h-48', gradientId = 'gradient' }) => {
+  if (data.length < 2) return <div className="text-center text-slate-400 py-10 text-xs">{emptyText}</div>;
+
+  const height = 150;
+  const width = 600; // High res internal width
+  const paddingX = 40;
+  const paddingY = 30;
+  const graphHeight = height - (paddingY * 2);
+  const graphWidth = width - (paddingX * 2);
+  const maxRating = 10;
+
+  const getX = (i: number) => (i / (data.length - 1)) * graphWidth + paddingX;
+  const getY = (r: number) => height - paddingY - (r / maxRating) * graphHeight;
+
+  const points = data.map((d, i) => `${getX(i)},${getY(d.rating)}`).join(' ');
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className={`${className} overflow-visible select-none`}>
+      {/* Grid Lines */}
+      <line x1={paddingX} y1={getY(5)} x2={width - paddingX} y2={getY(5)} stroke="#e2e8f0" strokeDasharray="5,5" strokeWidth="1" />
+      <line x1={paddingX} y1={getY(10)} x2={width - paddingX} y2={getY(10)} stroke="#e2e8f0" strokeDasharray="5,5" strokeWidth="1" />
+
+      {/* Axis Labels */}
+      <text x={paddingX - 10} y={getY(5) + 4} textAnchor="end" fontSize="10" fontWeight="700" fill="#cbd5e1">5</text>
+      <text x={paddingX - 10} y={getY(10) + 4} textAnchor="end" fontSize="10" fontWeight="700" fill="#cbd5e1">10</text>
+
+      {/* Connection Line */}
+      <polyline fill="none" stroke="#3b82f6" strokeWidth="3" points={points} strokeLinecap="round" strokeLinejoin="round" />
+
+      {/* Area fill (optional visual flair) */}
+      <path d={`M${points.split(' ')[0].split(',')[0]},${height-paddingY} L${points.replace(/ /g, ' L')} L${points.split(' ').pop()?.split(',')[0]},${height-paddingY} Z`} fill={`url(#${gradientId})`} opacity="0.1" />
+      <defs>
+        <linearGradient id={gradientId} x1="0" x2="0" y1="0" y2="1">
+          <stop offset="0%" stopColor="#3b82f6" />
+          <stop offset="100%" stopColor="transparent" />
+        </linearGradient>
+      </defs>
+
+      {/* Data Points */}
+      {data.map((d, i) => {
+         const x = getX(i);
+         const y = getY(d.rating);
+         const dateObj = new Date(d.date);
+         const dateStr = `${dateObj.getMonth() + 1}/${dateObj.getDate()}`;
+
+         return (
+             <g key={i}>
+                {/* The Dot */}
+                <circle cx={x} cy={y} r="5" fill="white" stroke="#3b82f6" strokeWidth="3" />
+
+                {/* Rating Value (Top) */}
+                <text x={x} y={y - 12} textAnchor="middle" fontSize="14" fontWeight="900" fill="#334155">{d.rating}</text>
+
+                {/* Date (Bottom) */}
+                <text x={x} y={height - 5} textAnchor="middle" fontSize="10" fontWeight="700" fill="#94a3b8">{dateStr}</text>
+             </g>
+         );
+      })}
+    </svg>
+  );
+};
+
+export default RatingTrendChart;
@@ -0,0 +1,323 @@
+
+import React, { useState, useRef, useMemo } from 'react';
+import html2canvas from 'html2canvas';
+import { MatchData, UserProfile } from '../types';
+import { useLanguage } from '../context/LanguageContext';
+import { getTeamColorStyles } from '../utils/colors';
+import { calculateBadges, getTierLabelKey } from '../utils/badges';
+import { createImagePdf, dataUrlToBytes, PdfPageImage } from '../services/pdf';
+import { downloadFile } from '../utils/download';
+import RatingTrendChart from './RatingTrendChart';
+
+interface SeasonReportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  matches: MatchData[]; // Already filtered and sorted by date
+  profile: UserProfile;
+  title: string;
+}
+
+// Pages are laid out at A4 proportions (96 dpi) and rasterised one by one
+const PAGE_WIDTH = 794;
+const PAGE_HEIGHT = 1123;
+const ROWS_PER_PAGE = 24;
+const COMMENTS_PER_PAGE = 4;
+const COMMENT_MAX_CHARS = 600;
+
+const chunk = (items: MatchData[], size: number): MatchData[][] => {
+  const pages: MatchData[][] = [];
+  for (let i = 0; i < items.length; i += size) pages.push(items.slice(i, i + size));
+  return pages;
+};
+
+const clip = (text: string) => text.length > COMMENT_MAX_CHARS ? `${text.slice(0, COMMENT_MAX_CHARS).trim()}…` : text;
+
+const SeasonReportModal: React.FC<SeasonReportModalProps> = ({ isOpen, onClose, matches, profile, title }) => {
+  const { t } = useLanguage();
+  const pagesRef = useRef<HTMLDivElement>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [progress, setProgress] = useState(0);
+
+  const withComments = useMemo(() => matches.filter(m => m.dadComment?.trim() || m.kidInterview?.trim()), [matches]);
+  // Every comment is included unless the parent unticks it
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  const stats = useMemo(() => {
+    const total = matches.length;
+    const wins = matches.filter(m => m.scoreMyTeam > m.scoreOpponent).length;
+    const draws = matches.filter(m => m.scoreMyTeam === m.scoreOpponent).length;
+    return {
+      total,
+      wins,
+      draws,
+      losses: total - wins - draws,
+      goals: matches.reduce((acc, m) => acc + m.arthurGoals, 0),
+      assists: matches.reduce((acc, m) => acc + m.arthurAssists, 0),
+      motm: matches.filter(m => m.isMotm).length,
+      avgRating: total > 0 ? (matches.reduce((acc, m) => acc + (m.rating || 0), 0) / total).toFixed(1) : '0.0',
+      winRate: total > 0 ? Math.round((wins / total) * 100) : 0
+    };
+  }, [matches]);
+
+  const { badges, totalLevel, maxLevel } = useMemo(() => calculateBadges(matches), [matches]);
+
+  if (!isOpen) return null;
+
+  const teams = profile.teams.filter(team => matches.some(m => m.teamId === team.id));
+  const dateRange = matches.length > 0 ? `${matches[0].date} – ${matches[matches.length - 1].date}` : '';
+  const selectedComments = withComments.filter(m => !excluded.has(m.id));
+  const tablePages = chunk(matches, ROWS_PER_PAGE);
+  const commentPages = chunk(selectedComments, COMMENTS_PER_PAGE);
+  const pageCount = 2 + tablePages.length + commentPages.length;
+
+  const toggleComment = (id: string) => {
+    const next = new Set(excluded);
+    if (next.has(id)) next.delete(id); else next.add(id);
+    setExcluded(next);
+  };
+
+  const resultLabel = (m: MatchData) => m.scoreMyTeam > m.scoreOpponent ? t.win : m.scoreMyTeam < m.scoreOpponent ? t.loss : t.draw;
+  const resultColor = (m: MatchData) => m.scoreMyTeam > m.scoreOpponent ? '#059669' : m.scoreMyTeam < m.scoreOpponent ? '#e11d48' : '#64748b';
+  const typeLabel = (m: MatchData) => {
+    const type = m.matchType || 'league';
+    return t[`type${type.charAt(0).toUpperCase()}${type.slice(1)}` as keyof typeof t] as string;
+  };
+
+  const handleGenerate = async () => {
+    if (!pagesRef.current) return;
+    setIsGenerating(true);
+    setProgress(0);
+
+    try {
+      await new Promise(r => setTimeout(r, 100));
+      const pageElements = Array.from(pagesRef.current.children) as HTMLElement[];
+      const images: PdfPageImage[] = [];
+      for (const element of pageElements) {
+        const canvas = await html2canvas(element, { useCORS: true, scale: 2, backgroundColor: '#ffffff' });
+        images.push({ jpeg: dataUrlToBytes(canvas.toDataURL('image/jpeg', 0.85)), width: canvas.width, height: canvas.height });
+        setProgress(images.length);
+      }
+      const pdf = createImagePdf(images, `${profile.name} · ${title}`);
+      downloadFile(pdf, `${profile.name}_${title}_Report.pdf`.replace(/[\\/:*?"<>|\s]+/g, '_'), 'application/pdf');
+    } catch (e) {
+      console.error('Report generation failed', e);
+      alert(t.reportFailed);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const renderFooter = (page: number) => (
+    <div className="absolute bottom-8 left-12 right-12 flex justify-between text-[11px] font-bold text-slate-400 border-t border-slate-100 pt-2">
+      <span>{profile.name} · {title}</span>
+      <span>{page} / {pageCount}</span>
+    </div>
+  );
+
+  const renderCrest = (team: typeof teams[number], size: number) => {
+    const styles = getTeamColorStyles(team.themeColor);
+    return team.logo ? (
+      <img src={team.logo} alt={team.name} style={{ width: size, height: size }} className="rounded-full object-cover border-4 border-white shadow" />
+    ) : (
+      <div style={{ width: size, height: size, backgroundColor: styles.hex, color: team.themeColor === 'white' ? '#334155' : '#ffffff' }} className="rounded-full flex items-center justify-center border-4 border-white shadow">
+        <i className="fas fa-shield-alt" style={{ fontSize: size / 2.5 }}></i>
+      </div>
+    );
+  };
+
+  const pageStyle = { width: PAGE_WIDTH, height: PAGE_HEIGHT };
+  const pageClass = 'relative bg-white text-slate-800 overflow-hidden px-12 pt-12';
+  let pageNumber = 2;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-center justify-center bg-black/90 backdrop-blur-md p-4 animate-fade-in">
+      <div className="w-full max-w-sm bg-white rounded-2xl p-5 flex flex-col gap-4 max-h-[90vh]">
+        <div className="flex justify-between items-center">
+          <h3 className="font-bold text-lg text-slate-800"><i className="fas fa-file-pdf mr-2 text-rose-500"></i>{t.seasonReport}</h3>
+          <button onClick={onClose} className="w-8 h-8 rounded-full bg-slate-100 text-slate-500 hover:bg-slate-200 flex items-center justify-center">
+            <i className="fas fa-times"></i>
+          </button>
+        </div>
+
+        <div className="bg-slate-50 rounded-xl p-3 text-xs text-slate-600 space-y-0.5">
+          <div className="font-bold text-slate-800">{title}</div>
+          <div>{dateRange}</div>
+          <div>{t.reportSummary.replace('{matches}', String(matches.length)).replace('{pages}', String(pageCount))}</div>
+        </div>
+
+        <div className="flex-1 min-h-0 flex flex-col">
+          <div className="text-[10px] font-bold text-slate-400 uppercase mb-1.5">{t.reportComments}</div>
+          {withComments.length === 0 ? (
+            <p className="text-xs text-slate-400 text-center py-4">{t.reportNoComments}</p>
+          ) : (
+            <div className="overflow-y-auto space-y-1.5 max-h-64">
+              {withComments.map(m => (
+                <label key={m.id} className={`flex items-start gap-2 p-2 rounded-lg border cursor-pointer ${excluded.has(m.id) ? 'bg-slate-50 border-slate-200' : 'bg-blue-50 border-blue-200'}`}>
+                  <input type="checkbox" checked={!excluded.has(m.id)} onChange={() => toggleComment(m.id)} className="w-4 h-4 mt-0.5 accent-blue-600" />
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs font-bold text-slate-700 truncate">{m.date} · vs {m.opponent}</div>
+                    <div className="text-[10px] text-slate-400 truncate">{m.dadComment || m.kidInterview}</div>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <button onClick={handleGenerate} disabled={isGenerating || matches.length === 0} className="w-full py-3 bg-rose-600 text-white rounded-xl font-bold disabled:opacity-50 flex items-center justify-center gap-2">
+          {isGenerating
+            ? <><i className="fas fa-spinner fa-spin"></i> {t.reportGenerating.replace('{n}', String(progress)).replace('{total}', String(pageCount))}</>
+            : <><i className="fas fa-download"></i> {t.reportDownload}</>}
+        </button>
+      </div>
+
+      {/* Offscreen pages, rasterised into the PDF */}
+      <div className="fixed top-0 pointer-events-none" style={{ left: -10000 }} aria-hidden="true">
+        <div ref={pagesRef}>
+          {/* Cover */}
+          <div style={pageStyle} className="relative overflow-hidden bg-gradient-to-br from-blue-900 via-indigo-950 to-slate-900 text-white flex flex-col items-center justify-center text-center px-16">
+            <div className="border border-white/30 px-4 py-1.5 rounded text-sm font-bold tracking-widest uppercase mb-10">{t.seasonReport}</div>
+            {profile.avatar ? (
+              <img src={profile.avatar} alt={profile.name} className="w-48 h-48 rounded-full object-cover border-8 border-white/20 shadow-2xl" />
+            ) : (
+              <div className="w-48 h-48 rounded-full bg-white/10 border-8 border-white/20 flex items-center justify-center text-7xl font-black">{profile.name.charAt(0)}</div>
+            )}
+            <h1 className="text-6xl font-black mt-8 leading-tight">{profile.name}</h1>
+            <h2 className="text-3xl font-bold italic uppercase opacity-80 mt-3">{title}</h2>
+            <div className="text-lg font-bold opacity-60 mt-2">{dateRange}</div>
+            {teams.length > 0 && (
+              <div className="flex flex-wrap justify-center gap-8 mt-14">
+                {teams.map(team => (
+                  <div key={team.id} className="flex flex-col items-center gap-2">
+                    {renderCrest(team, 96)}
+                    <span className="text-base font-bold">{team.name}{team.jerseyNumber && ` #${team.jerseyNumber}`}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Summary, trend and badges */}
+          <div style={pageStyle} className={pageClass}>
+            <h2 className="text-2xl font-black mb-6">{t.reportOverview}</h2>
+            <div className="grid grid-cols-4 gap-4 mb-4">
+              {[
+                { label: t.matchesPlayed, value: stats.total },
+                { label: t.totalGoals, value: stats.goals },
+                { label: t.totalAssists, value: stats.assists },
+                { label: t.avgRating, value: stats.avgRating }
+              ].map(item => (
+                <div key={item.label} className="bg-slate-50 border border-slate-100 rounded-xl p-4 text-center">
+                  <div className="text-4xl font-black text-slate-800">{item.value}</div>
+                  <div className="text-xs font-bold text-slate-400 uppercase mt-1">{item.label}</div>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-4 mb-8 text-center">
+              <div className="rounded-xl p-3 bg-emerald-50 text-emerald-700 font-bold">{t.win} {stats.wins} · {t.draw} {stats.draws} · {t.loss} {stats.losses}</div>
+              <div className="rounded-xl p-3 bg-blue-50 text-blue-700 font-bold">{t.winRate} {stats.winRate}%</div>
+              <div className="rounded-xl p-3 bg-yellow-50 text-yellow-700 font-bold">MOTM × {stats.motm}</div>
+            </div>
+
+            <h3 className="text-lg font-black mb-2">{t.ratingTrend}</h3>
+            <div className="border border-slate-100 rounded-xl p-4 mb-8">
+              <RatingTrendChart data={matches.map(m => ({ date: m.date, rating: m.rating || 0 }))} emptyText={t.trendNeedMoreData} gradientId="report-gradient" />
+            </div>
+
+            <h3 className="text-lg font-black mb-3">{t.achievements} <span className="text-sm text-slate-400 font-bold">{t.growthPoints} {totalLevel}/{maxLevel}</span></h3>
+            <div className="grid grid-cols-2 gap-3">
+              {badges.map(badge => (
+                <div key={badge.id} className={`flex items-center gap-3 p-3 rounded-xl border-2 ${badge.color}`}>
+                  <i className={`fas ${badge.icon} text-2xl w-8 text-center`}></i>
+                  <div className="flex-1">
+                    <div className="flex justify-between text-sm font-bold">
+                      <span>{t[badge.labelKey as keyof typeof t] as string}</span>
+                      <span>{t[getTierLabelKey(badge.currentTier) as keyof typeof t] as string}</span>
+                    </div>
+                    <div className="h-2 bg-white/80 rounded-full mt-1.5 overflow-hidden border border-slate-200">
+                      <div className="h-full bg-current rounded-full" style={{ width: `${badge.progressPercent}%` }}></div>
+                    </div>
+                    <div className="text-[11px] opacity-70 mt-1">{badge.currentValue} / {badge.nextThreshold}</div>
+                  </div>
+                </div>
+              ))}
+            </div>
+            {renderFooter(2)}
+          </div>
+
+          {/* Match by match */}
+          {tablePages.map((rows, pageIndex) => {
+            pageNumber++;
+            return (
+              <div key={`table-${pageIndex}`} style={pageStyle} className={pageClass}>
+                <h2 className="text-2xl font-black mb-6">{t.reportMatches}</h2>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-xs text-slate-400 uppercase border-b-2 border-slate-200">
+                      <th className="py-2 text-left">{t.date}</th>
+                      <th className="py-2 text-left">{t.opponent}</th>
+                      <th className="py-2 text-left">{t.matchType}</th>
+                      <th className="py-2 text-center">{t.diffScore}</th>
+                      <th className="py-2 text-center">⚽</th>
+                      <th className="py-2 text-center">👟</th>
+                      <th className="py-2 text-center">★</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(m => (
+                      <tr key={m.id} className="border-b border-slate-100">
+                        <td className="py-2 whitespace-nowrap text-slate-500">{m.date}</td>
+                        <td className="py-2 font-bold">{m.isHome ? '' : '@ '}{m.opponent}{m.isMotm && ' 🏅'}</td>
+                        <td className="py-2 text-slate-500">{typeLabel(m)}</td>
+                        <td className="py-2 text-center font-bold whitespace-nowrap" style={{ color: resultColor(m) }}>{m.scoreMyTeam}-{m.scoreOpponent} {resultLabel(m)}</td>
+                        <td className="py-2 text-center font-bold">{m.arthurGoals || ''}</td>
+                        <td className="py-2 text-center font-bold">{m.arthurAssists || ''}</td>
+                        <td className="py-2 text-center">{m.rating || ''}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {renderFooter(pageNumber)}
+              </div>
+            );
+          })}
+
+          {/* Parent comments and kid interviews */}
+          {commentPages.map((items, pageIndex) => {
+            pageNumber++;
+            return (
+              <div key={`comments-${pageIndex}`} style={pageStyle} className={pageClass}>
+                <h2 className="text-2xl font-black mb-6">{t.reportComments}</h2>
+                <div className="space-y-5">
+                  {items.map(m => (
+                    <div key={m.id} className="border border-slate-100 rounded-xl p-4">
+                      <div className="flex justify-between text-sm font-bold mb-2">
+                        <span>{m.date} · vs {m.opponent}</span>
+                        <span style={{ color: resultColor(m) }}>{m.scoreMyTeam}-{m.scoreOpponent}</span>
+                      </div>
+                      {m.dadComment?.trim() && (
+                        <div className="mb-2">
+                          <div className="text-xs font-bold text-blue-600 uppercase mb-0.5">{t.dadCommentLabel}</div>
+                          <p className="text-sm text-slate-700 whitespace-pre-wrap leading-relaxed">{clip(m.dadComment.trim())}</p>
+                        </div>
+                      )}
+                      {m.kidInterview?.trim() && (
+                        <div>
+                          <div className="text-xs font-bold text-orange-600 uppercase mb-0.5">{t.interviewLabel}</div>
+                          <p className="text-sm text-slate-700 whitespace-pre-wrap leading-relaxed italic">“{clip(m.kidInterview.trim())}”</p>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {renderFooter(pageNumber)}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SeasonReportModal;
@@ -130,7 +130,8 @@ const ShareModal: React.FC<ShareModalProps> = ({ isOpen, onClose, match, profile
     if (match.arthurGoals > 0) list.push(`${profile.name} x${match.arthurGoals}`);
     match.scorers.forEach(s => {
        const tm = matchTeam.roster.find(r => r.id === s.teammateId);
-       if (tm) list.push(`${tm.name} x${s.count}`);
+       const name = tm?.name || s.guestName;
+       if (name) list.push(`${name} x${s.count}`);
     });
     return list.join(' • ');
   };
@@ -2,7 +2,46 @@
 import React, { useState, useRef } from 'react';
 import { useLanguage } from '../context/LanguageContext';
 import { MatchData, UserProfile } from '../types';
-import { importMatches, importProfile, getFullBackupData, updateLastBackupDate } from '../services/storage';
+import { importMatches, importProfile, importJournals, getAllJournals, getFullBackupData, updateLastBackupDate, getAllProfiles, getMatches, getChangeLog, mergeChangeLog, previewChangeLogMerge } from '../services/storage';
+import { getDeviceId } from '../services/changeLog';
+import { collectMediaForExport } from '../services/media';
+import { migrateBackupData, getBackupSchemaVersion, getChangeLogSchemaVersion, CURRENT_SCHEMA_VERSION, MigrationReport } from '../services/migrations';
+import { validateBackupData, validateReplayedRecords, BackupValidationReport, ValidationReason } from '../services/validation';
+import { findMatchConflicts, resolveConflict, MatchConflict, ConflictChoice } from '../services/matchMerge';
+import { EncryptedBackup, encryptBackup, decryptBackup, isEncryptedBackup, isBackupEncryptionSupported, WRONG_PASSPHRASE } from '../services/backupCrypto';
+import MatchConflictReview from './sync/MatchConflictReview';
+import PeerSyncPanel from './sync/PeerSyncPanel';
+import AutoBackupSettings from './sync/AutoBackupSettings';
+import SnapshotHistory from './sync/SnapshotHistory';
+import TrashBin from './sync/TrashBin';
+import StorageHealth from './sync/StorageHealth';
+import DataCheck from './sync/DataCheck';
+import CsvImportWizard from './sync/CsvImportWizard';
+import { matchesToCsv } from '../services/csv';
+import { fixturesToIcs, isUpcomingFixture } from '../services/ical';
+import IcsImport from './sync/IcsImport';
+import ViewerExport from './sync/ViewerExport';
+import { buildKeepsakeArchive } from '../services/archive';
+import { renumberIdCollisions } from '../services/ids';
+import { downloadFile } from '../utils/download';
+
+const REASON_KEYS: Record<ValidationReason, string> = {
+  missing: 'valMissing',
+  notString: 'valNotString',
+  notNumber: 'valNotNumber',
+  notInteger: 'valNotInteger',
+  negative: 'valNegative',
+  outOfRange: 'valOutOfRange',
+  notArray: 'valNotArray',
+  notObject: 'valNotObject',
+  invalidDate: 'valInvalidDate',
+  invalidValue: 'valInvalidValue',
+  unknownTeam: 'valUnknownTeam',
+  unknownProfile: 'valUnknownProfile',
+  duplicateId: 'valDuplicateId'
+};
+
+const MIN_PASSPHRASE_LENGTH = 8;
 
 interface SyncModalProps {
   isOpen: boolean;
@@ -11,40 +50,114 @@ interface SyncModalProps {
   profile: UserProfile | null;
   onSyncComplete: () => void;
   syncOnlyMatches?: MatchData[] | null;
+  visibleMatches?: MatchData[]; // Timeline after search/filters, exported as CSV when nothing is selected
+  onBackupComplete?: () => void;
+  onDataRestored?: () => void;
 }
 
-const SyncModal: React.FC<SyncModalProps> = ({ isOpen, onClose, matches, profile, onSyncComplete, syncOnlyMatches }) => {
-  const { t } = useLanguage();
+const SyncModal: React.FC<SyncModalProps> = ({ isOpen, onClose, matches, profile, onSyncComplete, syncOnlyMatches, visibleMatches, onBackupComplete, onDataRestored }) => {
+  const { t, language } = useLanguage();
   const [error, setError] = useState<string>('');
-  const [conflictMode, setConflictMode] = useState(false);
-  const [pendingImportData, setPendingImportData] = useState<any>(null);
+  const [pendingImport, setPendingImport] = useState<{ data: any; conflicts: MatchConflict[] } | null>(null);
+  const [conflictChoices, setConflictChoices] = useState<Record<string, ConflictChoice>>({});
+  const [migrationPreview, setMigrationPreview] = useState<{ data: any; report: MigrationReport } | null>(null);
+  // `renumbered`: the merged records of a change-log file failed, ids were already renumbered
+  const [validationResult, setValidationResult] = useState<{ data: any; report: BackupValidationReport; renumbered?: boolean } | null>(null);
+
+  // Encrypted backups
+  const [encryptExport, setEncryptExport] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportPassphraseConfirm, setExportPassphraseConfirm] = useState('');
+  const [encryptedImport, setEncryptedImport] = useState<EncryptedBackup | null>(null);
+  const [importPassphrase, setImportPassphrase] = useState('');
+  const [passphraseError, setPassphraseError] = useState('');
+  const [isCrypting, setIsCrypting] = useState(false);
+
+  const [showHistory, setShowHistory] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showStorage, setShowStorage] = useState(false);
+  const [showDataCheck, setShowDataCheck] = useState(false);
+  const [csvImportText, setCsvImportText] = useState<string | null>(null);
+  const [icsImportText, setIcsImportText] = useState<string | null>(null);
+  const [showViewerExport, setShowViewerExport] = useState(false);
   
   const backupInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+  const icsInputRef = useRef<HTMLInputElement>(null);
+  // Records renumbered by the current import, mentioned in the success message
+  const renumberedRef = useRef(0);
 
   if (!isOpen) return null;
 
-  const handleProcessData = (data: any, forceMerge: boolean = false) => {
+  const handleProcessData = (data: any) => {
+      // Encrypted files ask for the passphrase first, then come back here decrypted
+      if (isEncryptedBackup(data)) {
+          setEncryptedImport(data);
+          setImportPassphrase('');
+          setPassphraseError('');
+          return;
+      }
+
       // Basic validation
       if (!data || (data.type !== 'arthur_sync_v1' && data.type !== 'arthur_full_backup_v1')) {
           setError(t.importError);
           return;
       }
 
-      // Conflict Check Logic (Simplified: If IDs exist, warn user)
-      if (!forceMerge && data.matches && Array.isArray(data.matches) && matches.length > 0) {
-           const localMap = new Map(matches.map(m => [m.id, m]));
-           let hasConflict = false;
-           
-           for (const incoming of data.matches) {
-               if (localMap.has(incoming.id)) {
-                   hasConflict = true;
-                   break;
-               }
-           }
+      // Older files are upgraded first; show a dry-run report if anything will change
+      if (getBackupSchemaVersion(data) < CURRENT_SCHEMA_VERSION) {
+          const { report } = migrateBackupData(data, { dryRun: true });
+          if (report.steps.some(step => step.changed > 0)) {
+              setMigrationPreview({ data, report });
+              return;
+          }
+          data = migrateBackupData(data).data;
+      }
 
-           if (hasConflict) {
-               setPendingImportData(data);
-               setConflictMode(true);
+      validateAndContinue(data);
+  };
+
+  const validateAndContinue = (data: any) => {
+      const result = validateBackupData(data, getAllProfiles());
+      if (result.report.invalid.length > 0) {
+          setValidationResult(result);
+          return;
+      }
+      checkConflictsAndImport(data);
+  };
+
+  const checkConflictsAndImport = (incoming: any) => {
+      // Records created elsewhere with an id already used here get new ids first
+      const { data, report } = renumberIdCollisions(incoming, { profiles: getAllProfiles(), matches: getMatches(), journals: getAllJournals(), changes: getChangeLog() });
+      renumberedRef.current = report.matches + report.journals + report.teammates;
+      reviewAndImport(data);
+  };
+
+  const reviewAndImport = (data: any) => {
+      // Files with a change log: validate what the merge would produce, then review
+      // matches that were edited on both devices
+      if (Array.isArray(data.changes) && data.changes.length > 0) {
+          const preview = previewChangeLogMerge(data.changes, getChangeLogSchemaVersion(data));
+          const result = validateReplayedRecords(data, preview.records, getAllProfiles());
+          if (result.report.invalid.length > 0) {
+              setValidationResult({ ...result, renumbered: true });
+              return;
+          }
+          if (preview.conflicts.length > 0) {
+              setConflictChoices(Object.fromEntries(preview.conflicts.map(c => [c.id, c.defaultChoice])));
+              setPendingImport({ data, conflicts: preview.conflicts });
+              return;
+          }
+          executeLogMerge(data);
+          return;
+      }
+
+      // Conflict Check: compare against ALL local matches (not just the active profile)
+      if (data.matches && Array.isArray(data.matches)) {
+           const conflicts = findMatchConflicts(getMatches(), data.matches);
+           if (conflicts.length > 0) {
+               setConflictChoices(Object.fromEntries(conflicts.map(c => [c.id, c.defaultChoice])));
+               setPendingImport({ data, conflicts });
                return;
            }
       }
@@ -52,7 +165,73 @@ const SyncModal: React.FC<SyncModalProps> = ({ isOpen, onClose, matches, profile
       executeImport(data);
   };
 
-  const executeImport = (data: any) => {
+  const handleChooseAllConflicts = (choice: ConflictChoice | 'default') => {
+      if (!pendingImport) return;
+      setConflictChoices(Object.fromEntries(pendingImport.conflicts.map(c => [c.id, choice === 'default' ? c.defaultChoice : choice])));
+  };
+
+  const handleConfirmConflicts = () => {
+      if (!pendingImport) return;
+      const { data, conflicts } = pendingImport;
+      setPendingImport(null);
+      if (Array.isArray(data.changes) && data.changes.length > 0) {
+          executeLogMerge(data, conflicts.map(c => resolveConflict(c.local, c.incoming, conflictChoices[c.id] || c.defaultChoice, c.merged)));
+      } else {
+          executeImport(data, conflictChoices);
+      }
+  };
+
+  const handleConfirmMigration = () => {
+      if (!migrationPreview) return;
+      const { data } = migrateBackupData(migrationPreview.data);
+      setMigrationPreview(null);
+      validateAndContinue(data);
+  };
+
+  const handleImportValidOnly = () => {
+      if (!validationResult) return;
+      const { data, renumbered } = validationResult;
+      setValidationResult(null);
+      if (renumbered) reviewAndImport(data);
+      else checkConflictsAndImport(data);
+  };
+
+  const handleDecryptImport = async () => {
+      if (!encryptedImport || !importPassphrase) return;
+      setIsCrypting(true);
+      setPassphraseError('');
+      try {
+          const data = await decryptBackup(encryptedImport, importPassphrase);
+          setEncryptedImport(null);
+          setImportPassphrase('');
+          handleProcessData(data);
+      } catch (e: any) {
+          console.error('Decrypt backup error', e);
+          setPassphraseError(e?.message === WRONG_PASSPHRASE ? t.wrongPassphrase : t.importError);
+      } finally {
+          setIsCrypting(false);
+      }
+  };
+
+  const handleRestored = () => {
+      setShowHistory(false);
+      alert(t.historyRestored);
+      onSyncComplete();
+      onClose();
+  };
+
+  const importSuccessMessage = () => renumberedRef.current > 0
+      ? `${t.syncSuccess}\n${t.idsRenumbered.replace('{n}', String(renumberedRef.current))}`
+      : t.syncSuccess;
+
+  const executeLogMerge = (data: any, resolved: MatchData[] = []) => {
+      mergeChangeLog(data.changes, data.media, resolved, getChangeLogSchemaVersion(data));
+      alert(importSuccessMessage());
+      onSyncComplete();
+      onClose();
+  };
+
+  const executeImport = (data: any, choices: Record<string, ConflictChoice> = {}) => {
       let importedCount = 0;
       
       // Handle Profiles
@@ -73,13 +252,19 @@ const SyncModal: React.FC<SyncModalProps> = ({ isOpen, onClose, matches, profile
       // Handle Matches
       if (data.matches && Array.isArray(data.matches)) {
           if (data.matches.length > 0) {
-              importMatches(data.matches);
+              importMatches(data.matches, choices);
               importedCount++;
           }
       }
 
+      // Handle Journals (full backups only)
+      if (data.journals && Array.isArray(data.journals) && data.journals.length > 0) {
+          importJournals(data.journals);
+          importedCount++;
+      }
+
       if (importedCount > 0) {
-          alert(t.syncSuccess);
+          alert(importSuccessMessage());
           onSyncComplete();
           onClose();
       } else {
@@ -87,9 +272,21 @@ const SyncModal: React.FC<SyncModalProps> = ({ isOpen, onClose, matches, profile
       }
   };
   
-  const handleExportBackup = () => {
+  const handleExportBackup = async () => {
+      setError('');
+      if (encryptExport) {
+          if (exportPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+              setError(t.passphraseTooShort.replace('{n}', String(MIN_PASSPHRASE_LENGTH)));
+              return;
+          }
+          if (exportPassphrase !== exportPassphraseConfirm) {
+              setError(t.passphraseMismatch);
+              return;
+          }
+      }
+
       // If syncOnlyMatches is present, export ONLY those. Otherwise, do full backup.
-      let data;
+      let data: any;
       let filename = 'football_diary_backup';
       const dateStr = new Date().toISOString().split('T')[0];
 
@@ -100,11 +297,14 @@ const SyncModal: React.FC<SyncModalProps> = ({ isOpen, onClose, matches, profile
           
           data = {
               type: 'arthur_sync_v1',
-              version: '1.0',
+              schemaVersion: CURRENT_SCHEMA_VERSION,
               timestamp: Date.now(),
+              deviceId: getDeviceId(),
               profile: profile, 
-              matches: syncOnlyMatches
+              matches: syncOnlyMatches,
+              changes: getChangeLog([...(profile ? [profile.id] : []), ...syncOnlyMatches.map(m => m.id)])
           };
+          data.media = collectMediaForExport(data.changes);
       } else {
           // Full Backup
           const pName = profile?.name ? profile.name.replace(/\s+/g, '_') : 'Full';
@@ -112,16 +312,22 @@ const SyncModal: React.FC<SyncModalProps> = ({ isOpen, onClose, matches, profile
           data = getFullBackupData();
       }
 
-      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${filename}.json`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      
+      if (encryptExport) {
+          setIsCrypting(true);
+          try {
+              data = await encryptBackup(data, exportPassphrase);
+              filename += '_Encrypted';
+          } catch (e) {
+              console.error('Encrypt backup error', e);
+              setError(t.encryptFailed);
+              return;
+          } finally {
+              setIsCrypting(false);
+          }
+      }
+
+      downloadFile(JSON.stringify(data, null, 2), `${filename}.json`, 'application/json');
+
       // Mark backup as done
       updateLastBackupDate();
       onSyncComplete(); // Trigger generic update to refresh sync status in parent
@@ -145,6 +351,91 @@ const SyncModal: React.FC<SyncModalProps> = ({ isOpen, onClose, matches, profile
       e.target.value = ''; // Reset input
   };
 
+  // --- CSV (spreadsheet) ---
+  const csvMatches = syncOnlyMatches && syncOnlyMatches.length > 0 ? syncOnlyMatches : (visibleMatches || matches);
+
+  const handleExportCsv = () => {
+      if (!profile || csvMatches.length === 0) return;
+      const dateStr = new Date().toISOString().split('T')[0];
+      downloadFile(matchesToCsv(csvMatches, profile), `${profile.name.replace(/\s+/g, '_')}_Matches_${dateStr}.csv`, 'text/csv;charset=utf-8');
+  };
+
+  const handleImportCsv = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (event) => setCsvImportText(event.target?.result as string);
+      reader.readAsText(file);
+      e.target.value = '';
+  };
+
+  const handleCsvImported = (count: number) => {
+      setCsvImportText(null);
+      alert(t.csvImported.replace('{n}', String(count)));
+      onSyncComplete();
+      onClose();
+  };
+
+  // --- Calendar (.ics) ---
+  const upcomingFixtures = (syncOnlyMatches && syncOnlyMatches.length > 0 ? syncOnlyMatches : matches).filter(m => isUpcomingFixture(m));
+
+  const handleExportIcs = () => {
+      if (!profile || upcomingFixtures.length === 0) return;
+      const ics = fixturesToIcs(upcomingFixtures, profile, {
+          calendarName: `${profile.name} · ${t.upcomingMatches}`,
+          kickOff: t.matchTime,
+          assembly: t.assemblyTime
+      });
+      downloadFile(ics, `${profile.name.replace(/\s+/g, '_')}_Fixtures.ics`, 'text/calendar;charset=utf-8');
+  };
+
+  const handleExportArchive = () => {
+      try {
+          const archive = buildKeepsakeArchive(getFullBackupData(), {
+              title: t.archiveTitle,
+              generatedAt: t.archiveGenerated,
+              season: t.archiveSeason,
+              backToIndex: t.archiveBack,
+              matches: t.matchesPlayed,
+              goals: t.totalGoals,
+              assists: t.totalAssists,
+              motm: t.manOfTheMatch,
+              win: t.win,
+              draw: t.draw,
+              loss: t.loss,
+              home: t.home,
+              away: t.away,
+              comment: t.dadCommentLabel,
+              interview: t.interviewLabel,
+              videos: t.videoTitle,
+              journal: t.navJournal,
+              matchTypes: { league: t.typeLeague, cup: t.typeCup, friendly: t.typeFriendly },
+              journalCategories: { match: t.journalCatMatch, training: t.journalCatTraining, growth: t.journalCatGrowth, other: t.journalCatOther },
+              stats: { shots: t.statShots, shotsOnTarget: t.statShotsOnTarget, tackles: t.statTackles, interceptions: t.statInterceptions, dribbles: t.statDribbles, keyPasses: t.statKeyPasses }
+          });
+          downloadFile(archive, `Football_Diary_Archive_${new Date().toISOString().split('T')[0]}.zip`, 'application/zip');
+      } catch (e) {
+          console.error("Archive export failed", e);
+          setError(t.archiveFailed);
+      }
+  };
+
+  const handleImportIcs = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (event) => setIcsImportText(event.target?.result as string);
+      reader.readAsText(file);
+      e.target.value = '';
+  };
+
+  const handleIcsImported = (count: number) => {
+      setIcsImportText(null);
+      alert(t.icsImported.replace('{n}', String(count)));
+      onSyncComplete();
+      onClose();
+  };
+
   return (
     <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 animate-fade-in">
       <div className="bg-white w-full max-w-sm rounded-2xl shadow-2xl overflow-hidden flex flex-col">
@@ -160,29 +451,142 @@ const SyncModal: React.FC<SyncModalProps> = ({ isOpen, onClose, matches, profile
 
         <div className="p-6">
             
-            {conflictMode ? (
+            {encryptedImport ? (
                 <div className="text-center space-y-4">
-                    <div className="w-16 h-16 rounded-full bg-yellow-100 text-yellow-600 flex items-center justify-center mx-auto text-2xl">
-                        <i className="fas fa-exclamation-triangle"></i>
+                    <div className="w-16 h-16 rounded-full bg-slate-100 text-slate-700 flex items-center justify-center mx-auto text-2xl">
+                        <i className="fas fa-lock"></i>
                     </div>
-                    <h3 className="text-xl font-bold text-slate-800">{t.syncConflictTitle}</h3>
-                    <p className="text-slate-500 text-sm">{t.syncConflictDesc}</p>
-                    
-                    <div className="space-y-3 pt-4">
+                    <h3 className="text-xl font-bold text-slate-800">{t.encryptedBackupTitle}</h3>
+                    <p className="text-slate-500 text-sm">{t.encryptedBackupDesc}</p>
+
+                    <input
+                        type="password"
+                        autoFocus
+                        value={importPassphrase}
+                        onChange={e => { setImportPassphrase(e.target.value); setPassphraseError(''); }}
+                        onKeyDown={e => { if (e.key === 'Enter') handleDecryptImport(); }}
+                        placeholder={t.passphrase}
+                        className="w-full p-3 rounded-xl border border-slate-200 text-sm"
+                    />
+                    {passphraseError && <div className="text-red-500 text-xs font-bold bg-red-50 p-2 rounded">{passphraseError}</div>}
+
+                    <div className="space-y-3 pt-2">
+                        <button 
+                            onClick={handleDecryptImport}
+                            disabled={!importPassphrase || isCrypting}
+                            className="w-full py-3 bg-blue-600 text-white rounded-xl font-bold shadow-lg hover:bg-blue-700 disabled:opacity-50"
+                        >
+                            {isCrypting ? <i className="fas fa-circle-notch fa-spin"></i> : t.unlockBackup}
+                        </button>
+                        <button 
+                            onClick={() => setEncryptedImport(null)}
+                            className="w-full py-3 bg-slate-100 text-slate-700 rounded-xl font-bold hover:bg-slate-200"
+                        >
+                            {t.cancel}
+                        </button>
+                    </div>
+                </div>
+            ) : showViewerExport && profile ? (
+                <ViewerExport t={t} language={language} profile={profile} matches={matches} minPassphraseLength={MIN_PASSPHRASE_LENGTH} onBack={() => setShowViewerExport(false)} />
+            ) : icsImportText !== null && profile ? (
+                <IcsImport t={t} text={icsImportText} profile={profile} matches={matches} onImported={handleIcsImported} onBack={() => setIcsImportText(null)} />
+            ) : csvImportText !== null && profile ? (
+                <CsvImportWizard t={t} text={csvImportText} profile={profile} onImported={handleCsvImported} onBack={() => setCsvImportText(null)} />
+            ) : showDataCheck ? (
+                <DataCheck t={t} onFixed={() => onDataRestored?.()} onBack={() => setShowDataCheck(false)} />
+            ) : showStorage ? (
+                <StorageHealth t={t} onBack={() => setShowStorage(false)} />
+            ) : showTrash ? (
+                <TrashBin t={t} language={language} onRestored={() => onDataRestored?.()} onBack={() => setShowTrash(false)} />
+            ) : showHistory ? (
+                <SnapshotHistory t={t} language={language} onRestored={handleRestored} onBack={() => setShowHistory(false)} />
+            ) : validationResult ? (
+                <div className="space-y-4">
+                    <div className="text-center">
+                        <div className="w-16 h-16 rounded-full bg-red-100 text-red-600 flex items-center justify-center mx-auto text-2xl mb-3">
+                            <i className="fas fa-file-medical-alt"></i>
+                        </div>
+                        <h3 className="text-xl font-bold text-slate-800">{t.validationTitle}</h3>
+                        <p className="text-slate-500 text-sm">{t.validationDesc.replace('{n}', String(validationResult.report.invalid.length))}</p>
+                    </div>
+
+                    <div className="max-h-64 overflow-y-auto space-y-2">
+                        {validationResult.report.invalid.map(record => (
+                            <div key={record.path} className="bg-red-50 border border-red-100 rounded-lg p-2 text-xs">
+                                <div className="font-bold text-slate-700 flex justify-between gap-2">
+                                    <span className="truncate">{record.label}</span>
+                                    <span className="shrink-0 text-[10px] uppercase text-red-400">{t[`valKind_${record.kind}` as keyof typeof t]}</span>
+                                </div>
+                                <ul className="mt-1 space-y-0.5">
+                                    {record.issues.map((issue, i) => (
+                                        <li key={i} className="text-[10px] text-slate-500">
+                                            <span className="font-mono text-red-600">{issue.path}</span> — {t[REASON_KEYS[issue.reason] as keyof typeof t]}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </div>
+                        ))}
+                    </div>
+
+                    <div className="space-y-3 pt-2">
+                        <button 
+                            onClick={handleImportValidOnly}
+                            disabled={validationResult.report.validCount === 0}
+                            className="w-full py-3 bg-blue-600 text-white rounded-xl font-bold shadow-lg hover:bg-blue-700 disabled:opacity-50"
+                        >
+                            {t.importValidOnly.replace('{n}', String(validationResult.report.validCount))}
+                        </button>
+                        <button 
+                            onClick={() => setValidationResult(null)}
+                            className="w-full py-3 bg-slate-100 text-slate-700 rounded-xl font-bold hover:bg-slate-200"
+                        >
+                            {t.cancel}
+                        </button>
+                    </div>
+                </div>
+            ) : migrationPreview ? (
+                <div className="text-center space-y-4">
+                    <div className="w-16 h-16 rounded-full bg-blue-100 text-blue-600 flex items-center justify-center mx-auto text-2xl">
+                        <i className="fas fa-level-up-alt"></i>
+                    </div>
+                    <h3 className="text-xl font-bold text-slate-800">{t.migrationTitle}</h3>
+                    <p className="text-slate-500 text-sm">{t.migrationDesc}</p>
+
+                    <ul className="text-left space-y-2">
+                        {migrationPreview.report.steps.filter(step => step.changed > 0).map(step => (
+                            <li key={step.version} className="flex justify-between items-center gap-2 bg-slate-50 border border-slate-100 rounded-lg px-3 py-2 text-xs">
+                                <span className="font-bold text-slate-700">{language === 'zh' ? step.descriptionZh : step.description}</span>
+                                <span className="shrink-0 text-slate-400 font-bold">{t.migrationRecords.replace('{n}', String(step.changed))}</span>
+                            </li>
+                        ))}
+                    </ul>
+
+                    <div className="space-y-3 pt-2">
                         <button 
-                            onClick={() => executeImport(pendingImportData)}
+                            onClick={handleConfirmMigration}
                             className="w-full py-3 bg-blue-600 text-white rounded-xl font-bold shadow-lg hover:bg-blue-700"
                         >
-                            {t.useIncoming}
+                            {t.migrationContinue}
                         </button>
                         <button 
-                            onClick={onClose}
+                            onClick={() => setMigrationPreview(null)}
                             className="w-full py-3 bg-slate-100 text-slate-700 rounded-xl font-bold hover:bg-slate-200"
                         >
-                            {t.keepLocal}
+                            {t.cancel}
                         </button>
                     </div>
                 </div>
+            ) : pendingImport ? (
+                <MatchConflictReview
+                    conflicts={pendingImport.conflicts}
+                    choices={conflictChoices}
+                    profiles={[...getAllProfiles(), ...(pendingImport.data.profiles || (pendingImport.data.profile ? [pendingImport.data.profile] : []))]}
+                    t={t}
+                    onChoose={(id, choice) => setConflictChoices(prev => ({ ...prev, [id]: choice }))}
+                    onChooseAll={handleChooseAllConflicts}
+                    onConfirm={handleConfirmConflicts}
+                    onCancel={() => setPendingImport(null)}
+                />
             ) : (
                 <div className="space-y-6">
                      <p className="text-sm text-slate-500 text-center mb-4">
@@ -191,13 +595,71 @@ const SyncModal: React.FC<SyncModalProps> = ({ isOpen, onClose, matches, profile
                             : t.syncDesc}
                      </p>
 
+                     {/* Encryption Option */}
+                     {isBackupEncryptionSupported() && (
+                         <div className="space-y-2">
+                             <label className="flex items-center gap-2 text-xs font-bold text-slate-600 cursor-pointer">
+                                 <input type="checkbox" checked={encryptExport} onChange={e => setEncryptExport(e.target.checked)} className="w-4 h-4 accent-blue-600" />
+                                 <i className="fas fa-lock text-slate-400"></i> {t.encryptBackup}
+                             </label>
+                             {encryptExport && (
+                                 <div className="space-y-2">
+                                     <input type="password" value={exportPassphrase} onChange={e => setExportPassphrase(e.target.value)} placeholder={t.passphrase} className="w-full p-2 rounded-lg border border-slate-200 text-sm" />
+                                     <input type="password" value={exportPassphraseConfirm} onChange={e => setExportPassphraseConfirm(e.target.value)} placeholder={t.passphraseConfirm} className="w-full p-2 rounded-lg border border-slate-200 text-sm" />
+                                     <p className="text-[10px] text-slate-400">{t.passphraseHint}</p>
+                                 </div>
+                             )}
+                         </div>
+                     )}
+
                      {/* Export Button */}
-                     <button onClick={handleExportBackup} className="w-full py-4 bg-blue-600 text-white rounded-xl font-bold flex flex-col items-center justify-center gap-1 hover:bg-blue-700 shadow-md transition-transform active:scale-95">
-                         <i className="fas fa-file-download text-2xl"></i> 
+                     <button onClick={handleExportBackup} disabled={isCrypting} className="w-full py-4 bg-blue-600 text-white rounded-xl font-bold flex flex-col items-center justify-center gap-1 hover:bg-blue-700 shadow-md transition-transform active:scale-95 disabled:opacity-50">
+                         <i className={`fas ${isCrypting ? 'fa-circle-notch fa-spin' : encryptExport ? 'fa-lock' : 'fa-file-download'} text-2xl`}></i> 
                          <span>{t.exportData}</span>
-                         <span className="text-[10px] opacity-70 font-normal">.json file</span>
+                         <span className="text-[10px] opacity-70 font-normal">{encryptExport ? t.encryptedFile : '.json file'}</span>
                      </button>
                     
+                    {profile && (
+                        <div className="grid grid-cols-2 gap-2">
+                            <button onClick={handleExportCsv} disabled={csvMatches.length === 0} className="py-3 bg-emerald-50 border border-emerald-100 text-emerald-700 rounded-xl text-xs font-bold flex flex-col items-center justify-center gap-0.5 hover:bg-emerald-100 disabled:opacity-50">
+                                <span><i className="fas fa-file-csv mr-1"></i> {t.csvExport}</span>
+                                <span className="text-[10px] font-normal opacity-70">{t.csvExportCount.replace('{n}', String(csvMatches.length))}</span>
+                            </button>
+                            {!syncOnlyMatches && (
+                                <button onClick={() => csvInputRef.current?.click()} className="py-3 bg-white border border-slate-200 text-slate-600 rounded-xl text-xs font-bold flex flex-col items-center justify-center gap-0.5 hover:bg-slate-50">
+                                    <span><i className="fas fa-table mr-1"></i> {t.csvImport}</span>
+                                    <span className="text-[10px] font-normal opacity-70">.csv</span>
+                                </button>
+                            )}
+                            <input ref={csvInputRef} type="file" accept=".csv,text/csv" className="hidden" onChange={handleImportCsv} />
+                            <button onClick={handleExportIcs} disabled={upcomingFixtures.length === 0} className="py-3 bg-indigo-50 border border-indigo-100 text-indigo-700 rounded-xl text-xs font-bold flex flex-col items-center justify-center gap-0.5 hover:bg-indigo-100 disabled:opacity-50">
+                                <span><i className="fas fa-calendar-alt mr-1"></i> {t.icsExport}</span>
+                                <span className="text-[10px] font-normal opacity-70">{t.icsExportCount.replace('{n}', String(upcomingFixtures.length))}</span>
+                            </button>
+                            {!syncOnlyMatches && (
+                                <button onClick={() => icsInputRef.current?.click()} className="py-3 bg-white border border-slate-200 text-slate-600 rounded-xl text-xs font-bold flex flex-col items-center justify-center gap-0.5 hover:bg-slate-50">
+                                    <span><i className="fas fa-calendar-plus mr-1"></i> {t.icsImport}</span>
+                                    <span className="text-[10px] font-normal opacity-70">.ics</span>
+                                </button>
+                            )}
+                            <input ref={icsInputRef} type="file" accept=".ics,text/calendar" className="hidden" onChange={handleImportIcs} />
+                        </div>
+                    )}
+
+                    {!syncOnlyMatches && (
+                        <button onClick={handleExportArchive} className="w-full py-3 bg-amber-50 border border-amber-100 text-amber-700 rounded-xl text-xs font-bold flex flex-col items-center justify-center gap-0.5 hover:bg-amber-100">
+                            <span><i className="fas fa-book mr-1"></i> {t.archiveExport}</span>
+                            <span className="text-[10px] font-normal opacity-70">{t.archiveExportHint}</span>
+                        </button>
+                    )}
+
+                    {profile && !syncOnlyMatches && (
+                        <button onClick={() => setShowViewerExport(true)} className="w-full py-3 bg-sky-50 border border-sky-100 text-sky-700 rounded-xl text-xs font-bold flex flex-col items-center justify-center gap-0.5 hover:bg-sky-100">
+                            <span><i className="fas fa-file-code mr-1"></i> {t.viewerExport}</span>
+                            <span className="text-[10px] font-normal opacity-70">{t.viewerExportHint}</span>
+                        </button>
+                    )}
+
                     {!syncOnlyMatches && (
                         <div className="relative border-t border-slate-100 pt-6">
                             <button onClick={() => backupInputRef.current?.click()} className="w-full py-4 bg-white border-2 border-slate-200 text-slate-600 rounded-xl font-bold flex flex-col items-center justify-center gap-1 hover:bg-slate-50 transition-transform active:scale-95">
@@ -209,6 +671,31 @@ const SyncModal: React.FC<SyncModalProps> = ({ isOpen, onClose, matches, profile
                         </div>
                     )}
 
+                    {!syncOnlyMatches && (
+                        <PeerSyncPanel t={t} getPayload={getFullBackupData} onReceived={handleProcessData} />
+                    )}
+
+                    {!syncOnlyMatches && (
+                        <AutoBackupSettings t={t} language={language} onBackup={() => onBackupComplete?.()} />
+                    )}
+
+                    {!syncOnlyMatches && (
+                        <div className="grid grid-cols-2 gap-2">
+                            <button onClick={() => setShowHistory(true)} className="py-3 bg-slate-50 border border-slate-200 text-slate-600 rounded-xl text-xs font-bold flex items-center justify-center gap-2 hover:bg-slate-100">
+                                <i className="fas fa-history"></i> {t.historyTitle}
+                            </button>
+                            <button onClick={() => setShowTrash(true)} className="py-3 bg-slate-50 border border-slate-200 text-slate-600 rounded-xl text-xs font-bold flex items-center justify-center gap-2 hover:bg-slate-100">
+                                <i className="fas fa-trash-restore"></i> {t.trashTitle}
+                            </button>
+                            <button onClick={() => setShowStorage(true)} className="py-3 bg-slate-50 border border-slate-200 text-slate-600 rounded-xl text-xs font-bold flex items-center justify-center gap-2 hover:bg-slate-100">
+                                <i className="fas fa-hdd"></i> {t.storageTitle}
+                            </button>
+                            <button onClick={() => setShowDataCheck(true)} className="py-3 bg-slate-50 border border-slate-200 text-slate-600 rounded-xl text-xs font-bold flex items-center justify-center gap-2 hover:bg-slate-100">
+                                <i className="fas fa-stethoscope"></i> {t.integrityTitle}
+                            </button>
+                        </div>
+                    )}
+
                     {error && <div className="text-red-500 text-center text-xs font-bold bg-red-50 p-2 rounded">{error}</div>}
                 </div>
             )}
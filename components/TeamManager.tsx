@@ -3,8 +3,9 @@ import React, { useState } from 'react';
 import { TeamManagerProps, Team, Teammate } from '../types';
 import { useLanguage } from '../context/LanguageContext';
 import { COLORS, getTeamColorStyles } from '../utils/colors';
+import { generateId } from '../services/ids';
 
-const TeamManager: React.FC<TeamManagerProps> = ({ profile, onUpdateProfile }) => {
+const TeamManager: React.FC<TeamManagerProps> = ({ profile, onUpdateProfile, onRemoveTeammate }) => {
   const { t } = useLanguage();
   const [activeTeamId, setActiveTeamId] = useState<string>(profile.teams[0]?.id || '');
 
@@ -19,7 +20,7 @@ const TeamManager: React.FC<TeamManagerProps> = ({ profile, onUpdateProfile }) =
   const addTeammate = () => {
       if (!activeTeam) return;
       const newTeammate: Teammate = {
-          id: Date.now().toString(),
+          id: generateId(),
           name: '',
           number: ''
       };
@@ -35,6 +36,11 @@ const TeamManager: React.FC<TeamManagerProps> = ({ profile, onUpdateProfile }) =
 
   const removeTeammate = (id: string) => {
       if (!activeTeam) return;
+      // Soft delete through the parent (Trash + undo) when available
+      if (onRemoveTeammate) {
+          onRemoveTeammate(activeTeam.id, id);
+          return;
+      }
       const updatedRoster = activeTeam.roster.filter(tm => tm.id !== id);
       updateTeam({ ...activeTeam, roster: updatedRoster });
   };
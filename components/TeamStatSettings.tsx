@@ -0,0 +1,100 @@
+import React from 'react';
+import { BuiltInStatId, CustomStatDefinition, Team } from '../types';
+import { generateId } from '../services/ids';
+import { BUILT_IN_STATS, STAT_AGGREGATIONS, STAT_ICONS } from '../utils/matchStats';
+
+interface TeamStatSettingsProps {
+    team: Team;
+    onChange: (field: 'enabledStats' | 'customStats', value: BuiltInStatId[] | CustomStatDefinition[]) => void;
+    t: any;
+}
+
+const AGGREGATION_LABELS = { sum: 'aggSum', average: 'aggAverage', max: 'aggMax' };
+
+const TeamStatSettings: React.FC<TeamStatSettingsProps> = ({ team, onChange, t }) => {
+    const enabled = team.enabledStats || [];
+    const custom = team.customStats || [];
+
+    const toggleStat = (id: BuiltInStatId) => {
+        onChange('enabledStats', enabled.includes(id) ? enabled.filter(s => s !== id) : [...enabled, id]);
+    };
+
+    const updateCustom = (index: number, patch: Partial<CustomStatDefinition>) => {
+        onChange('customStats', custom.map((c, i) => i === index ? { ...c, ...patch } : c));
+    };
+
+    const addCustom = () => {
+        onChange('customStats', [...custom, { id: generateId(), name: '', icon: STAT_ICONS[0], aggregation: 'sum' }]);
+    };
+
+    return (
+        <div className="mb-4 bg-white/50 rounded-lg p-2 border border-slate-100">
+            <label className="text-[10px] font-bold text-slate-400 uppercase block">{t.teamStats}</label>
+            <p className="text-[10px] text-slate-400 mb-2">{t.teamStatsHint}</p>
+            <div className="flex flex-wrap gap-1.5 mb-3">
+                {BUILT_IN_STATS.map(stat => (
+                    <button
+                        key={stat.id}
+                        type="button"
+                        onClick={() => toggleStat(stat.id)}
+                        className={`px-2 py-1 rounded-full text-[10px] font-bold border transition-colors ${enabled.includes(stat.id) ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-500 border-slate-200'}`}
+                    >
+                        <i className={`fas ${stat.icon} mr-1`}></i>{t[stat.labelKey!]}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex justify-between items-center mb-2">
+                <label className="text-[10px] font-bold text-slate-400 uppercase">{t.customStats}</label>
+                <button type="button" onClick={addCustom} className="text-[10px] bg-slate-200 px-2 py-0.5 rounded text-slate-600 hover:bg-slate-300">
+                    + {t.addCustomStat}
+                </button>
+            </div>
+            <div className="space-y-2">
+                {custom.map((stat, index) => (
+                    <div key={stat.id} className="bg-white rounded border border-slate-200 p-2 space-y-2">
+                        <div className="flex gap-2 items-center">
+                            <i className={`fas ${stat.icon} text-slate-500 w-4 text-center`}></i>
+                            <input
+                                required
+                                type="text"
+                                placeholder={t.customStatName}
+                                value={stat.name}
+                                onChange={(e) => updateCustom(index, { name: e.target.value })}
+                                className="flex-1 text-xs border border-slate-200 rounded p-1 text-slate-900 bg-white"
+                            />
+                            <select
+                                value={stat.aggregation}
+                                onChange={(e) => updateCustom(index, { aggregation: e.target.value as CustomStatDefinition['aggregation'] })}
+                                className="text-xs border border-slate-200 rounded p-1 bg-white text-slate-700"
+                                title={t.statAggregation}
+                            >
+                                {STAT_AGGREGATIONS.map(a => <option key={a} value={a}>{t[AGGREGATION_LABELS[a]]}</option>)}
+                            </select>
+                            <button type="button" onClick={() => onChange('customStats', custom.filter((_, i) => i !== index))} className="text-slate-300 hover:text-red-500">
+                                <i className="fas fa-times"></i>
+                            </button>
+                        </div>
+                        <div className="flex flex-wrap gap-1">
+                            {STAT_ICONS.map(icon => (
+                                <button
+                                    key={icon}
+                                    type="button"
+                                    onClick={() => updateCustom(index, { icon })}
+                                    className={`w-6 h-6 rounded flex items-center justify-center text-[10px] ${stat.icon === icon ? 'bg-slate-800 text-white' : 'bg-slate-100 text-slate-500'}`}
+                                >
+                                    <i className={`fas ${icon}`}></i>
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                ))}
+                {custom.length === 0 && (
+                    <div className="text-center text-[10px] text-slate-400 py-1">-</div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default TeamStatSettings;
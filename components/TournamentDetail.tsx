@@ -0,0 +1,325 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { MatchData, Tournament, TournamentFormat, TournamentRound, UserProfile } from '../types';
+import { useLanguage } from '../context/LanguageContext';
+import { getTeamById, getTeamColorStyles } from '../utils/colors';
+import { generateId } from '../services/ids';
+import {
+  buildGroupTable, createPresetRounds, formatPlacement, getTournamentContribution, getTournamentMatches, placementIcon
+} from '../utils/tournaments';
+
+interface TournamentDetailProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tournament: Tournament;
+  matches: MatchData[];
+  profile: UserProfile;
+  onSave: (tournament: Tournament) => void;
+  onDelete: (tournamentId: string) => void;
+  onOpenMatch?: (matchId: string) => void;
+}
+
+const FORMATS: TournamentFormat[] = ['groups', 'knockout', 'roundRobin'];
+
+const resultClass = (m: MatchData) =>
+  m.scoreMyTeam > m.scoreOpponent ? 'border-l-emerald-500' : m.scoreMyTeam < m.scoreOpponent ? 'border-l-rose-500' : 'border-l-slate-400';
+
+const TournamentDetail: React.FC<TournamentDetailProps> = ({ isOpen, onClose, tournament, matches, profile, onSave, onDelete, onOpenMatch }) => {
+  const { t } = useLanguage();
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState<Tournament>(tournament);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  useEffect(() => {
+    setDraft(tournament);
+    setIsEditing(false);
+    setConfirmDelete(false);
+  }, [tournament]);
+
+  const team = getTeamById(profile.teams, tournament.teamId);
+  const styles = getTeamColorStyles(team.themeColor);
+
+  const tMatches = useMemo(() => getTournamentMatches(tournament, matches), [tournament, matches]);
+  const played = tMatches.filter(m => m.status !== 'scheduled');
+  const contribution = useMemo(() => getTournamentContribution(tMatches), [tMatches]);
+
+  const roundName = (roundId?: string) => tournament.rounds.find(r => r.id === roundId)?.name || '';
+
+  // One table per group-stage round; a round robin without rounds is one table
+  const groupTables = useMemo(() => {
+    if (tournament.format === 'knockout') return [];
+    const groupRounds = tournament.rounds.filter(r => r.stage === 'group');
+    if (groupRounds.length === 0) {
+      return played.length > 0 ? [{ id: 'all', name: t.groupTable, rows: buildGroupTable(played, team.name) }] : [];
+    }
+    return groupRounds
+      .map(r => ({ id: r.id, name: r.name, rows: buildGroupTable(played.filter(m => m.tournamentRoundId === r.id), team.name) }))
+      .filter(table => table.rows.some(row => row.played > 0));
+  }, [tournament, played, team.name, t]);
+
+  const bracketRounds = useMemo(() => {
+    if (tournament.format === 'roundRobin') return [];
+    return tournament.rounds
+      .filter(r => r.stage === 'knockout')
+      .map(r => ({ round: r, matches: tMatches.filter(m => m.tournamentRoundId === r.id) }));
+  }, [tournament, tMatches]);
+
+  if (!isOpen) return null;
+
+  // --- Editing ---
+  const updateRound = (id: string, patch: Partial<TournamentRound>) =>
+    setDraft(prev => ({ ...prev, rounds: prev.rounds.map(r => r.id === id ? { ...r, ...patch } : r) }));
+
+  const moveRound = (index: number, delta: number) => setDraft(prev => {
+    const rounds = [...prev.rounds];
+    const target = index + delta;
+    if (target < 0 || target >= rounds.length) return prev;
+    [rounds[index], rounds[target]] = [rounds[target], rounds[index]];
+    return { ...prev, rounds };
+  });
+
+  const handleSave = () => {
+    if (!draft.name.trim()) return;
+    onSave({
+      ...draft,
+      name: draft.name.trim(),
+      endDate: draft.endDate || undefined,
+      finalPlacement: draft.finalPlacement || undefined,
+      rounds: draft.rounds.map(r => ({ ...r, name: r.name.trim() })).filter(r => r.name),
+      updatedAt: Date.now()
+    });
+    setIsEditing(false);
+  };
+
+  const dateRange = tournament.endDate && tournament.endDate !== tournament.startDate
+    ? `${tournament.startDate} – ${tournament.endDate}`
+    : tournament.startDate;
+
+  return (
+    <div className="fixed inset-0 z-[80] flex items-end sm:items-center justify-center bg-black/60 backdrop-blur-sm sm:p-4 animate-fade-in">
+      <div className="bg-white w-full sm:max-w-md sm:rounded-2xl rounded-t-2xl shadow-2xl h-[90vh] sm:h-auto sm:max-h-[90vh] flex flex-col">
+
+        {/* Header */}
+        <div className={`${styles.headerBg} p-4 rounded-t-2xl flex justify-between items-start flex-none`}>
+          <div className={`min-w-0 ${styles.headerText}`}>
+            <div className="text-[10px] font-bold uppercase tracking-wider opacity-70"><i className="fas fa-trophy mr-1"></i>{t.tournament} · {team.name}</div>
+            <h2 className="text-xl font-bold truncate">{tournament.name}</h2>
+            <div className="text-xs opacity-80 flex flex-wrap gap-x-3">
+              {dateRange && <span><i className="far fa-calendar mr-1"></i>{dateRange}</span>}
+              {tournament.venue && <span><i className="fas fa-map-marker-alt mr-1"></i>{tournament.venue}</span>}
+            </div>
+            {tournament.finalPlacement && (
+              <div className="mt-2 inline-flex items-center gap-1 bg-white/90 text-slate-800 text-xs font-black px-2 py-0.5 rounded-full">
+                {placementIcon(tournament.finalPlacement)} {formatPlacement(tournament.finalPlacement, t)}
+                {tournament.placementNote && <span className="font-medium text-slate-500">· {tournament.placementNote}</span>}
+              </div>
+            )}
+          </div>
+          <div className="flex gap-1 shrink-0">
+            {!isEditing && (
+              <button onClick={() => setIsEditing(true)} className={`w-8 h-8 flex items-center justify-center rounded-full hover:bg-black/10 ${styles.headerText}`}>
+                <i className="fas fa-edit"></i>
+              </button>
+            )}
+            <button onClick={onClose} className={`w-8 h-8 flex items-center justify-center rounded-full hover:bg-black/10 ${styles.headerText}`}>
+              <i className="fas fa-times"></i>
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 bg-slate-50 space-y-4 min-h-0">
+          {isEditing ? (
+            <div className="space-y-3">
+              <div>
+                <label className="text-xs font-bold text-slate-400 uppercase">{t.tournamentName}</label>
+                <input type="text" value={draft.name} onChange={e => setDraft(prev => ({ ...prev, name: e.target.value }))} className="w-full bg-white text-slate-900 border border-slate-200 rounded-lg p-2 text-sm" />
+              </div>
+              <div className="flex gap-3">
+                <div className="flex-1">
+                  <label className="text-xs font-bold text-slate-400 uppercase">{t.startDate}</label>
+                  <input type="date" value={draft.startDate} onChange={e => setDraft(prev => ({ ...prev, startDate: e.target.value }))} className="w-full bg-white text-slate-900 border border-slate-200 rounded-lg p-2 text-sm" />
+                </div>
+                <div className="flex-1">
+                  <label className="text-xs font-bold text-slate-400 uppercase">{t.endDate}</label>
+                  <input type="date" value={draft.endDate || ''} onChange={e => setDraft(prev => ({ ...prev, endDate: e.target.value }))} className="w-full bg-white text-slate-900 border border-slate-200 rounded-lg p-2 text-sm" />
+                </div>
+              </div>
+              <div>
+                <label className="text-xs font-bold text-slate-400 uppercase">{t.venue}</label>
+                <input type="text" value={draft.venue} onChange={e => setDraft(prev => ({ ...prev, venue: e.target.value }))} placeholder={t.locationPlaceholder} className="w-full bg-white text-slate-900 border border-slate-200 rounded-lg p-2 text-sm" />
+              </div>
+              <div>
+                <label className="text-xs font-bold text-slate-400 uppercase">{t.tournamentFormat}</label>
+                <div className="flex bg-white rounded-lg border border-slate-200 p-1 mt-1">
+                  {FORMATS.map(fmt => (
+                    <button key={fmt} type="button" onClick={() => setDraft(prev => ({ ...prev, format: fmt }))} className={`flex-1 text-xs py-1.5 rounded ${draft.format === fmt ? 'bg-slate-800 text-white font-bold' : 'text-slate-400'}`}>
+                      {t[`format_${fmt}`]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex gap-3">
+                <div className="w-1/3">
+                  <label className="text-xs font-bold text-slate-400 uppercase">{t.finalPlacement}</label>
+                  <input type="number" min={0} value={draft.finalPlacement || ''} onChange={e => setDraft(prev => ({ ...prev, finalPlacement: Number(e.target.value) || undefined }))} className="w-full bg-white text-slate-900 border border-slate-200 rounded-lg p-2 text-sm" />
+                </div>
+                <div className="flex-1">
+                  <label className="text-xs font-bold text-slate-400 uppercase">{t.placementNote}</label>
+                  <input type="text" value={draft.placementNote || ''} onChange={e => setDraft(prev => ({ ...prev, placementNote: e.target.value }))} placeholder={t.placementNotePlaceholder} className="w-full bg-white text-slate-900 border border-slate-200 rounded-lg p-2 text-sm" />
+                </div>
+              </div>
+
+              {/* Rounds */}
+              <div className="pt-2 border-t border-slate-100">
+                <div className="flex justify-between items-center mb-2">
+                  <label className="text-xs font-bold text-slate-400 uppercase">{t.tournamentRounds}</label>
+                  {draft.rounds.length === 0 && (
+                    <button type="button" onClick={() => setDraft(prev => ({ ...prev, rounds: createPresetRounds(prev.format, t) }))} className="text-[10px] font-bold text-blue-600 bg-blue-50 px-2 py-1 rounded">
+                      <i className="fas fa-magic mr-1"></i>{t.useDefaultRounds}
+                    </button>
+                  )}
+                </div>
+                <div className="space-y-2">
+                  {draft.rounds.map((round, i) => (
+                    <div key={round.id} className="flex items-center gap-2 bg-white border border-slate-200 rounded-lg p-1.5">
+                      <div className="flex flex-col">
+                        <button type="button" onClick={() => moveRound(i, -1)} disabled={i === 0} className="text-slate-400 disabled:opacity-20 text-[10px] leading-none p-0.5"><i className="fas fa-chevron-up"></i></button>
+                        <button type="button" onClick={() => moveRound(i, 1)} disabled={i === draft.rounds.length - 1} className="text-slate-400 disabled:opacity-20 text-[10px] leading-none p-0.5"><i className="fas fa-chevron-down"></i></button>
+                      </div>
+                      <input type="text" value={round.name} onChange={e => updateRound(round.id, { name: e.target.value })} className="flex-1 min-w-0 text-sm text-slate-900 outline-none" />
+                      <button type="button" onClick={() => updateRound(round.id, { stage: round.stage === 'group' ? 'knockout' : 'group' })} className={`text-[10px] font-bold px-2 py-1 rounded ${round.stage === 'group' ? 'bg-blue-100 text-blue-700' : 'bg-purple-100 text-purple-700'}`}>
+                        {round.stage === 'group' ? t.stageGroup : t.stageKnockout}
+                      </button>
+                      <button type="button" onClick={() => setDraft(prev => ({ ...prev, rounds: prev.rounds.filter(r => r.id !== round.id) }))} className="text-slate-300 hover:text-red-500 px-1">
+                        <i className="fas fa-times"></i>
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    type="button"
+                    onClick={() => setDraft(prev => ({ ...prev, rounds: [...prev.rounds, { id: generateId(), name: '', stage: prev.format === 'knockout' ? 'knockout' : 'group' }] }))}
+                    className="w-full py-2 border-2 border-dashed border-slate-200 rounded-lg text-xs font-bold text-slate-400 hover:border-slate-300"
+                  >
+                    <i className="fas fa-plus mr-1"></i>{t.addRound}
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex gap-2 pt-2">
+                <button type="button" onClick={() => { setDraft(tournament); setIsEditing(false); }} className="flex-1 py-2.5 bg-slate-100 text-slate-600 rounded-xl font-bold text-sm">{t.cancel}</button>
+                <button type="button" onClick={handleSave} disabled={!draft.name.trim()} className={`flex-1 py-2.5 ${styles.button} rounded-xl font-bold text-sm disabled:opacity-50`}>{t.save}</button>
+              </div>
+
+              <div className="pt-3 border-t border-slate-100">
+                {confirmDelete ? (
+                  <div className="bg-red-50 border border-red-100 rounded-xl p-3 space-y-2">
+                    <p className="text-xs text-red-600">{t.deleteTournamentConfirm}</p>
+                    <div className="flex gap-2">
+                      <button type="button" onClick={() => setConfirmDelete(false)} className="flex-1 py-2 bg-white text-slate-600 rounded-lg text-xs font-bold border border-slate-200">{t.cancel}</button>
+                      <button type="button" onClick={() => onDelete(tournament.id)} className="flex-1 py-2 bg-red-500 text-white rounded-lg text-xs font-bold">{t.delete}</button>
+                    </div>
+                  </div>
+                ) : (
+                  <button type="button" onClick={() => setConfirmDelete(true)} className="w-full py-2 text-xs font-bold text-red-500 hover:bg-red-50 rounded-lg">
+                    <i className="fas fa-trash-alt mr-1"></i>{t.deleteTournament}
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <>
+              {/* Player contribution */}
+              <div className="bg-white rounded-xl border border-slate-100 shadow-sm p-4">
+                <h3 className="text-xs font-bold text-slate-400 uppercase mb-3">{t.tournamentContribution.replace('{name}', profile.name)}</h3>
+                <div className="grid grid-cols-5 gap-2 text-center">
+                  <div><div className="text-xl font-black text-slate-800">{contribution.played}</div><div className="text-[9px] text-slate-400 font-bold uppercase">{t.played}</div></div>
+                  <div><div className="text-xl font-black text-emerald-600">{contribution.goals}</div><div className="text-[9px] text-slate-400 font-bold uppercase">{t.goals}</div></div>
+                  <div><div className="text-xl font-black text-indigo-600">{contribution.assists}</div><div className="text-[9px] text-slate-400 font-bold uppercase">{t.assists}</div></div>
+                  <div><div className="text-xl font-black text-yellow-600">{contribution.avgRating ? contribution.avgRating.toFixed(1) : '-'}</div><div className="text-[9px] text-slate-400 font-bold uppercase">{t.avgRating}</div></div>
+                  <div><div className="text-xl font-black text-amber-500">{contribution.motm}</div><div className="text-[9px] text-slate-400 font-bold uppercase">MOTM</div></div>
+                </div>
+              </div>
+
+              {/* Group tables */}
+              {groupTables.map(table => (
+                <div key={table.id} className="bg-white rounded-xl border border-slate-100 shadow-sm overflow-hidden">
+                  <h3 className="text-xs font-bold text-slate-500 uppercase px-4 py-2 bg-slate-50 border-b border-slate-100">{table.name}</h3>
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-[10px] text-slate-400 font-bold">
+                        <th className="text-left px-3 py-1.5">{t.tableTeam}</th><th>P</th><th>W</th><th>D</th><th>L</th><th>GD</th><th className="pr-3">Pts</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {table.rows.map(row => (
+                        <tr key={row.name} className={`border-t border-slate-50 text-center ${row.isUs ? `${styles.light} font-bold` : 'text-slate-600'}`}>
+                          <td className="text-left px-3 py-1.5 truncate max-w-[140px]">{row.name}</td>
+                          <td>{row.played}</td><td>{row.won}</td><td>{row.drawn}</td><td>{row.lost}</td>
+                          <td>{row.goalsFor - row.goalsAgainst > 0 ? '+' : ''}{row.goalsFor - row.goalsAgainst}</td>
+                          <td className="pr-3 font-black">{row.points}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-[9px] text-slate-400 px-3 py-1.5">{t.groupTableHint}</p>
+                </div>
+              ))}
+
+              {/* Knockout bracket */}
+              {bracketRounds.length > 0 && (
+                <div className="bg-white rounded-xl border border-slate-100 shadow-sm p-3">
+                  <h3 className="text-xs font-bold text-slate-400 uppercase mb-2 px-1">{t.knockoutBracket}</h3>
+                  <div className="flex gap-2 overflow-x-auto no-scrollbar pb-1">
+                    {bracketRounds.map(({ round, matches: roundMatches }) => (
+                      <div key={round.id} className="flex-none w-32 flex flex-col">
+                        <div className="text-[10px] font-bold text-purple-600 uppercase text-center mb-1 truncate">{round.name}</div>
+                        <div className="flex-1 flex flex-col justify-center gap-2">
+                          {roundMatches.length === 0 && (
+                            <div className="border-2 border-dashed border-slate-200 rounded-lg p-2 text-center text-[10px] text-slate-300 font-bold">{t.notReached}</div>
+                          )}
+                          {roundMatches.map(m => (
+                            <button key={m.id} onClick={() => onOpenMatch?.(m.id)} className={`text-left bg-slate-50 border border-slate-100 border-l-4 ${m.status === 'scheduled' ? 'border-l-blue-300' : resultClass(m)} rounded-lg p-2`}>
+                              <div className="flex justify-between text-[11px] font-bold text-slate-700"><span className="truncate">{team.name}</span><span className="font-mono">{m.status === 'scheduled' ? '' : m.scoreMyTeam}</span></div>
+                              <div className="flex justify-between text-[11px] text-slate-500"><span className="truncate">{m.opponent}</span><span className="font-mono">{m.status === 'scheduled' ? '' : m.scoreOpponent}</span></div>
+                            </button>
+                          ))}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Matches */}
+              <div>
+                <h3 className="text-xs font-bold text-slate-400 uppercase mb-2 pl-1">{t.matches}</h3>
+                {tMatches.length === 0 && <p className="text-center text-xs text-slate-400 py-6">{t.tournamentNoMatches}</p>}
+                <div className="space-y-2">
+                  {tMatches.map(m => (
+                    <button key={m.id} onClick={() => onOpenMatch?.(m.id)} className={`w-full text-left bg-white p-3 rounded-lg border-l-4 shadow-sm ${m.status === 'scheduled' ? 'border-l-blue-300' : resultClass(m)}`}>
+                      <div className="flex justify-between items-center mb-1">
+                        <span className="text-[10px] font-bold text-slate-400 bg-slate-100 px-1.5 py-0.5 rounded">{m.date}</span>
+                        {(roundName(m.tournamentRoundId) || m.matchLabel) && <span className="text-[10px] font-bold text-purple-600">{roundName(m.tournamentRoundId) || m.matchLabel}</span>}
+                      </div>
+                      <div className="flex justify-between items-center">
+                        <div className="text-sm font-bold text-slate-700 truncate"><span className="text-slate-300 mr-1">vs</span>{m.opponent}</div>
+                        <div className="font-mono font-black text-lg">{m.status === 'scheduled' ? m.matchTime || '' : `${m.scoreMyTeam}-${m.scoreOpponent}`}</div>
+                      </div>
+                      {(m.arthurGoals > 0 || m.arthurAssists > 0) && (
+                        <div className="mt-1 flex gap-3 text-xs">
+                          {m.arthurGoals > 0 && <span className="font-bold text-emerald-600"><i className="fas fa-futbol mr-1"></i>{m.arthurGoals}</span>}
+                          {m.arthurAssists > 0 && <span className="font-bold text-indigo-600"><i className="fas fa-shoe-prints mr-1"></i>{m.arthurAssists}</span>}
+                        </div>
+                      )}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TournamentDetail;
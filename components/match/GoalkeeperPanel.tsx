@@ -0,0 +1,83 @@
+import React from 'react';
+import { GoalkeeperStats } from '../../types';
+
+interface GoalkeeperPanelProps {
+    stats: GoalkeeperStats;
+    onChange: (stats: GoalkeeperStats) => void;
+    periodsInGoal: number;
+    periodsFromPlayingTime: boolean; // Periods come from the GK spells and are not editable here
+    maxPeriods: number;
+    t: any;
+    canFillFromEvents: boolean;
+    onFillFromEvents: () => void;
+}
+
+type CountField = Exclude<keyof GoalkeeperStats, 'periodsInGoal'>;
+
+const GoalkeeperPanel: React.FC<GoalkeeperPanelProps> = ({
+    stats, onChange, periodsInGoal, periodsFromPlayingTime, maxPeriods, t, canFillFromEvents, onFillFromEvents
+}) => {
+    // Saved penalties and completed passes can never exceed their totals
+    const adjust = (field: CountField, delta: number) => {
+        const next = { ...stats, [field]: Math.max(0, stats[field] + delta) };
+        next.penaltiesSaved = Math.min(next.penaltiesSaved, next.penaltiesFaced);
+        next.distributionCompleted = Math.min(next.distributionCompleted, next.distributionAttempted);
+        if (field === 'penaltiesSaved' && next.penaltiesSaved > stats.penaltiesFaced) next.penaltiesFaced = next.penaltiesSaved;
+        if (field === 'distributionCompleted' && next.distributionCompleted > stats.distributionAttempted) next.distributionAttempted = next.distributionCompleted;
+        onChange(next);
+    };
+
+    const stepper = (label: string, value: number, onStep: (delta: number) => void, unit?: string) => (
+        <div>
+            <span className="text-[10px] font-bold text-slate-400 uppercase block mb-1">{label}</span>
+            <div className="flex items-center justify-between bg-white rounded-lg border border-slate-200 px-2 py-1">
+                <button type="button" onClick={() => onStep(-1)} className="w-6 h-6 bg-slate-100 rounded text-slate-500 hover:bg-slate-200 flex items-center justify-center"><i className="fas fa-minus text-[10px]"></i></button>
+                <span className="font-black text-slate-800 text-sm tabular-nums">{value}{unit && <span className="text-[9px] text-slate-400 font-normal ml-1">{unit}</span>}</span>
+                <button type="button" onClick={() => onStep(1)} className="w-6 h-6 bg-slate-100 rounded text-slate-500 hover:bg-slate-200 flex items-center justify-center"><i className="fas fa-plus text-[10px]"></i></button>
+            </div>
+        </div>
+    );
+
+    const counter = (field: CountField, label: string) => stepper(label, stats[field], delta => adjust(field, delta));
+
+    return (
+        <div className="bg-white p-3 rounded-xl border border-amber-200 shadow-sm space-y-3">
+            <div className="flex justify-between items-center">
+                <label className="text-[10px] font-bold text-amber-600 uppercase"><i className="fas fa-mitten mr-1"></i>{t.goalkeeping}</label>
+                {canFillFromEvents && (
+                    <button type="button" onClick={onFillFromEvents} className="text-[10px] text-slate-500 font-bold hover:underline">{t.keeperFromEvents}</button>
+                )}
+            </div>
+            <p className="text-[10px] text-slate-400">{t.keeperHint}</p>
+
+            <div className="grid grid-cols-2 gap-2">
+                <div className="col-span-2">
+                    {periodsFromPlayingTime ? (
+                        <div>
+                            <span className="text-[10px] font-bold text-slate-400 uppercase block mb-1">{t.keeperPeriodsInGoal}</span>
+                            <div className="flex items-center justify-center h-8 bg-slate-50 rounded-lg border border-slate-200 font-black text-slate-800 text-sm">
+                                {periodsInGoal} <span className="text-[9px] text-slate-400 font-normal ml-1">{t.unitPeriod}</span>
+                            </div>
+                        </div>
+                    ) : (
+                        stepper(t.keeperPeriodsInGoal, periodsInGoal, delta => onChange({ ...stats, periodsInGoal: Math.min(maxPeriods, Math.max(0, periodsInGoal + delta * 0.5)) }), t.unitPeriod)
+                    )}
+                </div>
+                {counter('saves', t.keeperSaves)}
+                {counter('goalsConceded', t.keeperConceded)}
+                {counter('penaltiesFaced', t.keeperPenaltiesFaced)}
+                {counter('penaltiesSaved', t.keeperPenaltiesSaved)}
+            </div>
+
+            <div>
+                <span className="text-[10px] font-bold text-slate-400 uppercase block mb-1">{t.keeperDistribution}</span>
+                <div className="grid grid-cols-2 gap-2">
+                    {counter('distributionAttempted', t.keeperDistributionAttempted)}
+                    {counter('distributionCompleted', t.keeperDistributionCompleted)}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default GoalkeeperPanel;
@@ -0,0 +1,296 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LiveEventType, LiveMatchEvent, MatchData, MatchStructure, UserProfile } from '../../types';
+import { useLanguage } from '../../context/LanguageContext';
+import { getTeamById, getTeamColorStyles } from '../../utils/colors';
+import {
+  LiveMatchSession, addLiveEvent, canLogEvents, clearLiveSession, createLiveSession, endMatch, endPeriod,
+  finalizeLiveMatch, formatClock, getLiveSession, getLiveTotals, getPeriodElapsedMs,
+  pauseClock, saveLiveSession, startClock, undoLastEvent
+} from '../../services/liveMatch';
+import { formatEventMinute, getLiveEventMinute } from '../../utils/matchEvents';
+
+interface LiveMatchModeProps {
+  match: MatchData;
+  profile: UserProfile;
+  onMinimise: () => void; // Leaves the screen, the session keeps running
+  onFinish: (completed: MatchData) => void;
+  onDiscard: () => void;
+}
+
+const EVENT_STYLES: Record<LiveEventType, { icon: string; className: string }> = {
+  my_goal: { icon: 'fa-futbol', className: 'text-slate-600' },
+  teammate_goal: { icon: 'fa-futbol', className: 'text-emerald-600' },
+  op_goal: { icon: 'fa-futbol', className: 'text-rose-500' },
+  kid_goal: { icon: 'fa-star', className: 'text-amber-500' },
+  kid_assist: { icon: 'fa-shoe-prints', className: 'text-indigo-500' }
+};
+
+const LiveMatchMode: React.FC<LiveMatchModeProps> = ({ match, profile, onMinimise, onFinish, onDiscard }) => {
+  const { t } = useLanguage();
+  const team = getTeamById(profile.teams, match.teamId);
+  const styles = getTeamColorStyles(team.themeColor);
+  const structure: MatchStructure = match.matchStructure || team.defaultMatchStructure || 'quarters';
+
+  const [session, setSession] = useState<LiveMatchSession>(() => {
+    const stored = getLiveSession();
+    return stored && stored.matchId === match.id ? stored : createLiveSession(match, structure);
+  });
+  const [now, setNow] = useState(Date.now());
+  const [wakeLockSupported] = useState(() => 'wakeLock' in navigator);
+
+  // Persist from kick-off on, so the timeline can offer to resume
+  useEffect(() => {
+    if (session.phase !== 'ready') saveLiveSession(session);
+  }, [session]);
+
+  // Tick while the clock runs
+  useEffect(() => {
+    if (session.phase !== 'running') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [session.phase]);
+
+  // Keep the screen awake; browsers drop the lock whenever the page is hidden
+  useEffect(() => {
+    if (!wakeLockSupported) return;
+    let lock: WakeLockSentinel | null = null;
+    let released = false;
+    const request = async () => {
+      try {
+        lock = await navigator.wakeLock.request('screen');
+        if (released) lock.release();
+      } catch (e) {
+        console.error('Wake lock request failed', e);
+      }
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') request();
+    };
+    request();
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      released = true;
+      document.removeEventListener('visibilitychange', handleVisibility);
+      if (lock) lock.release().catch(() => {});
+    };
+  }, [wakeLockSupported]);
+
+  const totals = useMemo(() => getLiveTotals(session), [session]);
+  const elapsed = getPeriodElapsedMs(session, now);
+  const isOverTime = elapsed >= session.periodMinutes * 60 * 1000;
+  const canLog = canLogEvents(session);
+
+  const periodName = (n: number) =>
+    (session.structure === 'halves' ? t.liveHalf : t.liveQuarter).replace('{n}', String(n));
+
+  const update = (next: LiveMatchSession) => {
+    setNow(Date.now());
+    setSession(next);
+  };
+
+  const logEvent = (type: LiveEventType, teammateId?: string) => {
+    if (!canLog) return;
+    update(addLiveEvent(session, type, teammateId));
+  };
+
+  const handleFinalWhistle = () => {
+    if (session.phase !== 'break' && !window.confirm(t.liveFinalWhistleConfirm)) return;
+    update(endMatch(session));
+  };
+
+  const handleSave = () => {
+    onFinish(finalizeLiveMatch(match, session));
+  };
+
+  const handleDiscard = () => {
+    if (session.events.length > 0 && !window.confirm(t.liveDiscardConfirm)) return;
+    clearLiveSession();
+    onDiscard();
+  };
+
+  const eventLabel = (event: LiveMatchEvent): string => {
+    switch (event.type) {
+      case 'my_goal': return t.scoreMyTeam;
+      case 'op_goal': return t.scoreOpponent;
+      case 'kid_goal': return `${profile.name} · ${t.kidGoal}`;
+      case 'kid_assist': return `${profile.name} · ${t.kidAssist}`;
+      case 'teammate_goal':
+        return team.roster.find(tm => tm.id === event.teammateId)?.name
+          || match.scorers.find(s => s.teammateId === event.teammateId)?.guestName
+          || t.liveTeammateGoal;
+    }
+  };
+
+  const actionBtn = "flex flex-col items-center justify-center h-20 rounded-xl shadow-sm active:scale-95 transition-all border-2 disabled:opacity-40 disabled:active:scale-100";
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-slate-50 flex flex-col animate-fade-in">
+
+      {/* Header */}
+      <div className={`${styles.headerBg} ${styles.headerText} px-4 pt-4 pb-5 flex-none`}>
+        <div className="flex justify-between items-center mb-3">
+          <div className="text-[10px] font-bold uppercase tracking-wider opacity-80 flex items-center gap-2">
+            <span className={`w-2 h-2 rounded-full ${session.phase === 'running' ? 'bg-red-500 animate-pulse' : 'bg-white/50'}`}></span>
+            {t.liveMode} · {match.date}
+          </div>
+          <button onClick={onMinimise} className="w-8 h-8 rounded-full bg-black/10 flex items-center justify-center" title={t.close}>
+            <i className="fas fa-chevron-down"></i>
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="w-5/12 font-black text-sm leading-tight line-clamp-2">{team.name}</div>
+          <div className="text-4xl font-black tabular-nums shrink-0">{totals.scoreMyTeam} : {totals.scoreOpponent}</div>
+          <div className="w-5/12 font-black text-sm leading-tight line-clamp-2 text-right">{match.opponent}</div>
+        </div>
+
+        <div className="mt-3 text-center">
+          <div className="text-[10px] font-bold uppercase tracking-wider opacity-80">
+            {session.phase === 'break' ? t.liveBreak : session.phase === 'finished' ? t.liveFullTime : periodName(session.period)}
+          </div>
+          {session.phase !== 'finished' && (
+            <div className={`text-5xl font-black tabular-nums ${isOverTime && session.phase !== 'break' ? 'text-amber-300' : ''}`}>
+              {session.phase === 'break' ? formatClock(0) : formatClock(elapsed)}
+              <span className="text-base opacity-60 ml-1">/ {session.periodMinutes}:00</span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 min-h-0">
+
+        {/* Clock controls */}
+        {session.phase === 'ready' && (
+          <div className="bg-white p-3 rounded-xl border border-slate-200 shadow-sm space-y-3">
+            <label className="flex items-center justify-between text-sm font-bold text-slate-600">
+              {t.livePeriodLength}
+              <input
+                type="number"
+                min={1}
+                max={60}
+                value={session.periodMinutes}
+                onChange={e => update({ ...session, periodMinutes: Math.max(1, Math.min(60, Number(e.target.value) || 1)) })}
+                className="w-20 text-center border border-slate-200 rounded-lg px-2 py-1"
+              />
+            </label>
+            <button onClick={() => update(startClock(session))} className={`w-full py-3 ${styles.button} rounded-xl font-bold flex items-center justify-center gap-2 shadow-lg active:scale-95 transition-all`}>
+              <i className="fas fa-play"></i> {t.liveKickOff}
+            </button>
+            {!wakeLockSupported && <p className="text-[10px] text-slate-400 text-center">{t.liveNoWakeLock}</p>}
+          </div>
+        )}
+
+        {(session.phase === 'running' || session.phase === 'paused') && (
+          <div className="grid grid-cols-2 gap-2">
+            {session.phase === 'running' ? (
+              <button onClick={() => update(pauseClock(session))} className="py-3 bg-white border border-slate-200 text-slate-700 rounded-xl font-bold flex items-center justify-center gap-2 shadow-sm active:scale-95 transition-all">
+                <i className="fas fa-pause"></i> {t.livePause}
+              </button>
+            ) : (
+              <button onClick={() => update(startClock(session))} className={`py-3 ${styles.button} rounded-xl font-bold flex items-center justify-center gap-2 shadow-sm active:scale-95 transition-all`}>
+                <i className="fas fa-play"></i> {t.liveResume}
+              </button>
+            )}
+            <button onClick={() => update(endPeriod(session))} className="py-3 bg-slate-800 text-white rounded-xl font-bold flex items-center justify-center gap-2 shadow-sm active:scale-95 transition-all">
+              <i className="fas fa-stopwatch"></i> {session.period >= session.periods ? t.liveFinalWhistle : t.liveEndPeriod}
+            </button>
+          </div>
+        )}
+
+        {session.phase === 'break' && (
+          <button onClick={() => update(startClock(session))} className={`w-full py-3 ${styles.button} rounded-xl font-bold flex items-center justify-center gap-2 shadow-lg active:scale-95 transition-all`}>
+            <i className="fas fa-play"></i> {t.liveStartPeriod.replace('{period}', periodName(session.period + 1))}
+          </button>
+        )}
+
+        {session.phase === 'finished' && (
+          <button onClick={handleSave} className="w-full py-3 bg-emerald-600 text-white rounded-xl font-bold flex items-center justify-center gap-2 shadow-lg active:scale-95 transition-all">
+            <i className="fas fa-clipboard-check"></i> {t.liveSaveResult}
+          </button>
+        )}
+
+        {/* Actions */}
+        {session.phase !== 'finished' && (
+          <>
+            <div className="grid grid-cols-4 gap-2">
+              <button type="button" disabled={!canLog} onClick={() => logEvent('my_goal')} className={`${actionBtn} bg-white border-slate-200 text-slate-600`}>
+                <span className="font-bold text-xs">{t.scoreMyTeam}</span>
+                <span className="text-[10px] text-slate-400">+1</span>
+              </button>
+              <button type="button" disabled={!canLog} onClick={() => logEvent('op_goal')} className={`${actionBtn} bg-white border-rose-100 text-rose-600`}>
+                <span className="font-bold text-xs">{t.scoreOpponent}</span>
+                <span className="text-[10px] text-rose-300">-1</span>
+              </button>
+              <button type="button" disabled={!canLog} onClick={() => logEvent('kid_goal')} className={`${actionBtn} ${styles.badge} border-current`}>
+                <i className="fas fa-futbol text-lg mb-1"></i>
+                <span className="font-bold text-xs">{t.kidGoal}</span>
+              </button>
+              <button type="button" disabled={!canLog} onClick={() => logEvent('kid_assist')} className={`${actionBtn} bg-indigo-50 border-indigo-200 text-indigo-700`}>
+                <i className="fas fa-shoe-prints text-lg mb-1"></i>
+                <span className="font-bold text-xs">{t.kidAssist}</span>
+              </button>
+            </div>
+
+            {team.roster.length > 0 && (
+              <div className="bg-slate-100 rounded-lg p-3 border border-slate-200">
+                <label className="text-[10px] font-bold text-slate-400 uppercase block mb-2">{t.whoScored}</label>
+                <div className="flex flex-wrap gap-2">
+                  {team.roster.map(tm => (
+                    <button
+                      key={tm.id}
+                      type="button"
+                      disabled={!canLog}
+                      onClick={() => logEvent('teammate_goal', tm.id)}
+                      className="flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-slate-200 bg-white shadow-sm text-xs font-medium text-slate-700 active:bg-slate-50 disabled:opacity-40"
+                    >
+                      {tm.number && <span className="text-[9px] bg-slate-100 text-slate-500 w-4 h-4 rounded-full flex items-center justify-center">{tm.number}</span>}
+                      {tm.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Event log */}
+        <div className="bg-white rounded-xl border border-slate-200 shadow-sm">
+          <div className="flex justify-between items-center px-3 py-2 border-b border-slate-100">
+            <span className="text-[10px] font-bold text-slate-400 uppercase">{periodName(session.period)} / {session.periods}</span>
+            {session.events.length > 0 && session.phase !== 'finished' && (
+              <button onClick={() => update(undoLastEvent(session))} className="text-[10px] font-bold text-blue-500 hover:underline flex items-center gap-1">
+                <i className="fas fa-undo"></i> {t.undo}
+              </button>
+            )}
+          </div>
+          {session.events.length === 0 ? (
+            <p className="text-xs text-slate-400 text-center py-4">{t.liveTapHint}</p>
+          ) : (
+            <ul className="divide-y divide-slate-50">
+              {[...session.events].reverse().map(event => (
+                <li key={event.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                  <span className="w-12 text-right font-black text-slate-500 tabular-nums">{formatEventMinute({ minute: getLiveEventMinute(event, session.periodMinutes), period: event.period }, session.periodMinutes)}</span>
+                  <i className={`fas ${EVENT_STYLES[event.type].icon} ${EVENT_STYLES[event.type].className}`}></i>
+                  <span className="font-bold text-slate-700 truncate">{eventLabel(event)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex justify-between items-center pt-2 pb-6">
+          <button onClick={handleDiscard} className="text-xs font-bold text-slate-400 hover:text-red-500">
+            <i className="fas fa-trash-alt mr-1"></i>{t.liveDiscard}
+          </button>
+          {(session.phase === 'running' || session.phase === 'paused' || session.phase === 'break') && (
+            <button onClick={handleFinalWhistle} className="text-xs font-bold text-slate-500 hover:text-slate-800">
+              <i className="fas fa-flag-checkered mr-1"></i>{t.liveFinalWhistle}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LiveMatchMode;
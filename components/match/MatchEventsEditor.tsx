@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { MatchData, MatchEvent, MatchEventKind, Team } from '../../types';
+import { generateId } from '../../services/ids';
+import {
+    EVENT_ICONS, EVENT_KINDS, KID_PLAYER_ID, describeMatchEvent, formatEventMinute, getAssistFor, getEventPlayerName, getScoringSide, removeEvent, sortEvents, withoutLinkedAssists
+} from '../../utils/matchEvents';
+
+interface MatchEventsEditorProps {
+    events: MatchEvent[];
+    onChange: (events: MatchEvent[]) => void;
+    team: Team;
+    playerName: string;
+    scorers: MatchData['scorers'];
+    periods: number;
+    periodLength?: number;
+    t: any;
+    canStartFromScore: boolean;
+    onStartFromScore: () => void;
+}
+
+interface EventDraft {
+    kind: MatchEventKind;
+    side: MatchEvent['side'];
+    minute: string;
+    period: number;
+    playerId: string;
+    secondPlayerId: string; // Assist for goals, player off for substitutions
+    goalId: string;         // Goal an assist set up
+    scored: boolean;
+    card: 'yellow' | 'red';
+}
+
+const emptyDraft = (period: number): EventDraft => ({
+    kind: 'goal', side: 'us', minute: '', period, playerId: '', secondPlayerId: '', goalId: '', scored: true, card: 'yellow'
+});
+
+// Kinds that always belong to our side
+const OUR_SIDE_ONLY: MatchEventKind[] = ['assist', 'substitution'];
+
+const MatchEventsEditor: React.FC<MatchEventsEditorProps> = ({
+    events, onChange, team, playerName, scorers, periods, periodLength, t, canStartFromScore, onStartFromScore
+}) => {
+    const [isAdding, setIsAdding] = useState(false);
+    const [draft, setDraft] = useState<EventDraft>(emptyDraft(1));
+
+    const players = [{ id: KID_PLAYER_ID, name: playerName }, ...team.roster.map(tm => ({ id: tm.id, name: tm.name }))];
+    const nameOf = (id?: string) => getEventPlayerName(id, team, playerName, scorers);
+    const side = OUR_SIDE_ONLY.includes(draft.kind) ? 'us' : draft.side;
+    const isOurGoal = side === 'us' && (draft.kind === 'goal' || (draft.kind === 'penalty' && draft.scored));
+    const openGoals = events.filter(e => getScoringSide(e) === 'us' && e.kind !== 'ownGoal' && !getAssistFor(events, e.id));
+
+    const set = (patch: Partial<EventDraft>) => setDraft(prev => ({ ...prev, ...patch }));
+
+    const handleAdd = () => {
+        const minute = parseInt(draft.minute, 10);
+        const timing = { ...(minute > 0 && { minute }), period: draft.period };
+        const playerIds = draft.kind === 'substitution'
+            ? [draft.playerId, draft.secondPlayerId]
+            : side === 'us' && draft.playerId ? [draft.playerId] : [];
+        const event: MatchEvent = {
+            id: generateId(),
+            kind: draft.kind,
+            side,
+            ...timing,
+            playerIds,
+            ...(draft.kind === 'assist' && draft.goalId && { goalId: draft.goalId }),
+            ...(draft.kind === 'penalty' && { scored: draft.scored }),
+            ...(draft.kind === 'card' && { card: draft.card })
+        };
+        const added = [event];
+        if (isOurGoal && draft.secondPlayerId) {
+            added.push({ id: generateId(), kind: 'assist', side: 'us', ...timing, playerIds: [draft.secondPlayerId], goalId: event.id });
+        }
+        onChange([...events, ...added]);
+        setDraft(prev => ({ ...emptyDraft(prev.period), kind: prev.kind, side: prev.side }));
+        setIsAdding(false);
+    };
+
+    const canAdd = draft.kind !== 'substitution' || (draft.playerId && draft.secondPlayerId && draft.playerId !== draft.secondPlayerId);
+
+    const describe = (event: MatchEvent): string => {
+        const assist = getAssistFor(events, event.id);
+        const summary = describeMatchEvent(event, nameOf, t);
+        return assist ? `${summary} · ${t.eventAssistBy}: ${nameOf(assist.playerIds[0]) || t.eventNoPlayer}` : summary;
+    };
+
+    const selectClass = "w-full text-xs border border-slate-200 rounded-lg px-2 py-1.5 bg-white";
+    const labelClass = "text-[10px] font-bold text-slate-400 uppercase block mb-1";
+
+    return (
+        <div className="bg-white p-3 rounded-xl border border-slate-200 shadow-sm space-y-3">
+            <div className="flex justify-between items-center">
+                <label className="text-[10px] font-bold text-slate-400 uppercase">{t.matchEvents}</label>
+                <div className="flex gap-3">
+                    {events.length === 0 && canStartFromScore && (
+                        <button type="button" onClick={onStartFromScore} className="text-[10px] text-slate-500 font-bold hover:underline">{t.eventsFromScore}</button>
+                    )}
+                    <button type="button" onClick={() => setIsAdding(!isAdding)} className="text-[10px] text-blue-500 font-bold hover:underline">
+                        {isAdding ? t.cancel : `+ ${t.addEvent}`}
+                    </button>
+                </div>
+            </div>
+
+            {isAdding && (
+                <div className="bg-slate-50 rounded-lg p-3 border border-slate-200 space-y-3 animate-fade-in">
+                    <div className="flex flex-wrap gap-1.5">
+                        {EVENT_KINDS.map(kind => (
+                            <button key={kind} type="button" onClick={() => set({ kind, playerId: '', secondPlayerId: '', goalId: '' })}
+                                className={`px-2.5 py-1 rounded-full text-[11px] font-bold border transition-colors ${draft.kind === kind ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-500 border-slate-200'}`}>
+                                <i className={`fas ${EVENT_ICONS[kind]} mr-1`}></i>{t[`eventKind_${kind}`]}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="grid grid-cols-3 gap-2">
+                        {!OUR_SIDE_ONLY.includes(draft.kind) && (
+                            <div>
+                                <span className={labelClass}>&nbsp;</span>
+                                <div className="flex rounded-lg border border-slate-200 overflow-hidden text-xs font-bold">
+                                    {(['us', 'opponent'] as const).map(s => (
+                                        <button key={s} type="button" onClick={() => set({ side: s, playerId: '', secondPlayerId: '' })}
+                                            className={`flex-1 py-1.5 ${draft.side === s ? 'bg-blue-600 text-white' : 'bg-white text-slate-500'}`}>
+                                            {s === 'us' ? t.us : t.opponent}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        <div>
+                            <span className={labelClass}>{t.eventMinute}</span>
+                            <input type="number" min={1} value={draft.minute} onChange={e => set({ minute: e.target.value })} className={selectClass} />
+                        </div>
+                        <div>
+                            <span className={labelClass}>{t.eventPeriod}</span>
+                            <select value={draft.period} onChange={e => set({ period: Number(e.target.value) })} className={selectClass}>
+                                {Array.from({ length: periods }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                            </select>
+                        </div>
+                    </div>
+
+                    {draft.kind === 'penalty' && (
+                        <div className="flex gap-2">
+                            {[true, false].map(scored => (
+                                <button key={String(scored)} type="button" onClick={() => set({ scored, secondPlayerId: '' })}
+                                    className={`flex-1 py-1.5 rounded-lg text-xs font-bold border ${draft.scored === scored ? 'bg-emerald-600 text-white border-emerald-600' : 'bg-white text-slate-500 border-slate-200'}`}>
+                                    {scored ? t.eventPenaltyScored : t.eventPenaltyMissed}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    {draft.kind === 'card' && (
+                        <div className="flex gap-2">
+                            {(['yellow', 'red'] as const).map(card => (
+                                <button key={card} type="button" onClick={() => set({ card })}
+                                    className={`flex-1 py-1.5 rounded-lg text-xs font-bold border ${draft.card === card ? (card === 'red' ? 'bg-red-600 text-white border-red-600' : 'bg-yellow-400 text-slate-800 border-yellow-400') : 'bg-white text-slate-500 border-slate-200'}`}>
+                                    {card === 'red' ? t.eventCardRed : t.eventCardYellow}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    {side === 'us' && (
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <span className={labelClass}>{draft.kind === 'substitution' ? t.eventPlayerOn : t.eventPlayer}</span>
+                                <select value={draft.playerId} onChange={e => set({ playerId: e.target.value })} className={selectClass}>
+                                    <option value="">{t.eventNoPlayer}</option>
+                                    {players.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                </select>
+                            </div>
+                            {(isOurGoal || draft.kind === 'substitution') && (
+                                <div>
+                                    <span className={labelClass}>{draft.kind === 'substitution' ? t.eventPlayerOff : t.eventAssistBy}</span>
+                                    <select value={draft.secondPlayerId} onChange={e => set({ secondPlayerId: e.target.value })} className={selectClass}>
+                                        <option value="">{t.eventNoPlayer}</option>
+                                        {players.filter(p => p.id !== draft.playerId).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                                    </select>
+                                </div>
+                            )}
+                            {draft.kind === 'assist' && (
+                                <div>
+                                    <span className={labelClass}>{t.eventKind_goal}</span>
+                                    <select value={draft.goalId} onChange={e => set({ goalId: e.target.value })} className={selectClass}>
+                                        <option value="">{t.eventNoPlayer}</option>
+                                        {sortEvents(openGoals).map(g => (
+                                            <option key={g.id} value={g.id}>{[formatEventMinute(g, periodLength), nameOf(g.playerIds[0]) || t.us].filter(Boolean).join(' ')}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                            )}
+                        </div>
+                    )}
+
+                    <button type="button" onClick={handleAdd} disabled={!canAdd}
+                        className="w-full py-2 bg-blue-600 text-white rounded-lg font-bold text-xs disabled:opacity-50">
+                        {t.add}
+                    </button>
+                </div>
+            )}
+
+            {events.length === 0 ? (
+                !isAdding && <p className="text-xs text-slate-400 text-center py-1">{t.eventsEmpty}</p>
+            ) : (
+                <>
+                    <ul className="divide-y divide-slate-100">
+                        {sortEvents(withoutLinkedAssists(events)).map(event => (
+                            <li key={event.id} className={`flex items-center gap-2 py-1.5 text-xs ${event.side === 'opponent' ? 'text-rose-600' : 'text-slate-700'}`}>
+                                <span className="w-10 text-right font-black text-slate-400 tabular-nums shrink-0">{formatEventMinute(event, periodLength)}</span>
+                                <i className={`fas ${EVENT_ICONS[event.kind]} w-4 text-center ${event.kind === 'card' ? (event.card === 'red' ? 'text-red-500' : 'text-yellow-400') : ''}`}></i>
+                                <span className="flex-1 font-medium truncate">{describe(event)}</span>
+                                <button type="button" onClick={() => onChange(removeEvent(events, event.id))} className="w-5 h-5 flex items-center justify-center rounded-full bg-slate-100 text-slate-400 hover:bg-red-100 hover:text-red-500 shrink-0">
+                                    <i className="fas fa-times text-[9px]"></i>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                    <p className="text-[10px] text-slate-400"><i className="fas fa-info-circle mr-1"></i>{t.eventsTotalsHint}</p>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default MatchEventsEditor;
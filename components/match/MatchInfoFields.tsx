@@ -1,6 +1,7 @@
 
-import React from 'react';
-import { MatchType, PitchType, WeatherType, MatchFormat, MatchStructure } from '../../types';
+import React, { useState } from 'react';
+import { MatchType, PitchType, WeatherType, MatchFormat, MatchStructure, Tournament } from '../../types';
+import { POSITIONS } from '../../utils/playingTime';
 
 interface MatchInfoFieldsProps {
     formData: any;
@@ -14,13 +15,45 @@ interface MatchInfoFieldsProps {
     adjustPeriods: (delta: number) => void;
     setMatchStructure: (s: MatchStructure) => void;
     togglePosition: (pos: string) => void;
+    tournaments: Tournament[];
+    onCreateTournament?: (name: string) => boolean;
+    playingTimeTracked?: boolean; // Periods and positions come from the playing time records
 }
 
 const MatchInfoFields: React.FC<MatchInfoFieldsProps> = ({
-    formData, setFormData, handleChange, t, styles, isFixtureMode, opponentOptions, h2hStats, adjustPeriods, setMatchStructure, togglePosition
+    formData, setFormData, handleChange, t, styles, isFixtureMode, opponentOptions, h2hStats, adjustPeriods, setMatchStructure, togglePosition,
+    tournaments, onCreateTournament, playingTimeTracked = false
 }) => {
   const AVAILABLE_FORMATS: MatchFormat[] = ['5v5', '6v6', '7v7', '8v8', '9v9', '11v11'];
-  const POSITIONS = ['FW', 'LW', 'RW', 'MF', 'DF', 'GK'];
+  const NEW_TOURNAMENT = '__new';
+
+  const [isAddingTournament, setIsAddingTournament] = useState(false);
+  const [newTournamentName, setNewTournamentName] = useState('');
+
+  const selectedTournament = tournaments.find(tn => tn.id === formData.tournamentId);
+
+  const selectTournament = (value: string) => {
+      if (value === NEW_TOURNAMENT) {
+          setIsAddingTournament(true);
+          return;
+      }
+      const tournament = tournaments.find(tn => tn.id === value);
+      setFormData((p: any) => ({
+          ...p,
+          tournamentId: tournament?.id,
+          tournamentRoundId: undefined,
+          location: p.location || tournament?.venue || ''
+      }));
+  };
+
+  const createTournament = () => {
+      const name = newTournamentName.trim();
+      if (!name || !onCreateTournament) return;
+      if (onCreateTournament(name)) {
+          setNewTournamentName('');
+          setIsAddingTournament(false);
+      }
+  };
 
   return (
     <div className="space-y-3">
@@ -60,6 +93,53 @@ const MatchInfoFields: React.FC<MatchInfoFieldsProps> = ({
         </div>
         </div>
 
+        {/* Tournament */}
+        {(tournaments.length > 0 || onCreateTournament) && (
+        <div className="flex gap-3">
+            <div className="flex-1 min-w-0">
+                <label className="text-xs font-bold text-slate-400 uppercase">{t.tournament}</label>
+                {isAddingTournament ? (
+                    <div className="flex gap-2">
+                        <input
+                            type="text"
+                            autoFocus
+                            value={newTournamentName}
+                            onChange={(e) => setNewTournamentName(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); createTournament(); } }}
+                            placeholder={t.tournamentName}
+                            className="flex-1 min-w-0 bg-white text-slate-900 border border-slate-200 rounded-lg p-2 text-sm"
+                        />
+                        <button type="button" onClick={createTournament} className={`px-3 rounded-lg text-xs font-bold ${styles.button}`}><i className="fas fa-check"></i></button>
+                        <button type="button" onClick={() => setIsAddingTournament(false)} className="px-3 rounded-lg text-xs font-bold bg-slate-100 text-slate-500"><i className="fas fa-times"></i></button>
+                    </div>
+                ) : (
+                    <select
+                        value={formData.tournamentId || ''}
+                        onChange={(e) => selectTournament(e.target.value)}
+                        className="w-full bg-white text-slate-900 border border-slate-200 rounded-lg p-2 text-sm outline-none"
+                    >
+                        <option value="">{t.noTournament}</option>
+                        {tournaments.map(tn => <option key={tn.id} value={tn.id}>{tn.name}</option>)}
+                        {onCreateTournament && <option value={NEW_TOURNAMENT}>+ {t.newTournament}</option>}
+                    </select>
+                )}
+            </div>
+            {selectedTournament && selectedTournament.rounds.length > 0 && !isAddingTournament && (
+                <div className="w-2/5">
+                    <label className="text-xs font-bold text-slate-400 uppercase">{t.tournamentRound}</label>
+                    <select
+                        value={formData.tournamentRoundId || ''}
+                        onChange={(e) => setFormData((p: any) => ({ ...p, tournamentRoundId: e.target.value || undefined }))}
+                        className="w-full bg-white text-slate-900 border border-slate-200 rounded-lg p-2 text-sm outline-none"
+                    >
+                        <option value="">-</option>
+                        {selectedTournament.rounds.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+                    </select>
+                </div>
+            )}
+        </div>
+        )}
+
         <div className="flex gap-3 relative">
         <div className="flex-1 relative">
             <label className="text-xs font-bold text-slate-400 uppercase">{t.opponentName}</label>
@@ -119,10 +199,10 @@ const MatchInfoFields: React.FC<MatchInfoFieldsProps> = ({
                 </div>
                 <div className="flex-1">
                     <label className="text-xs font-bold text-slate-400 uppercase">{t.periodsPlayed}</label>
-                    <div className="flex items-center justify-between bg-white rounded-lg border border-slate-200 px-2 py-1 mt-1">
-                        <button type="button" onClick={() => adjustPeriods(-0.5)} className="w-6 h-6 bg-slate-100 rounded text-slate-500 hover:bg-slate-200 flex items-center justify-center"><i className="fas fa-minus text-[10px]"></i></button>
+                    <div className={`flex items-center ${playingTimeTracked ? 'justify-center h-8' : 'justify-between'} bg-white rounded-lg border border-slate-200 px-2 py-1 mt-1`}>
+                        {!playingTimeTracked && <button type="button" onClick={() => adjustPeriods(-0.5)} className="w-6 h-6 bg-slate-100 rounded text-slate-500 hover:bg-slate-200 flex items-center justify-center"><i className="fas fa-minus text-[10px]"></i></button>}
                         <span className="font-black text-slate-800 text-sm">{formData.periodsPlayed} <span className="text-[9px] text-slate-400 font-normal">{t.unitPeriod}</span></span>
-                        <button type="button" onClick={() => adjustPeriods(0.5)} className="w-6 h-6 bg-slate-100 rounded text-slate-500 hover:bg-slate-200 flex items-center justify-center"><i className="fas fa-plus text-[10px]"></i></button>
+                        {!playingTimeTracked && <button type="button" onClick={() => adjustPeriods(0.5)} className="w-6 h-6 bg-slate-100 rounded text-slate-500 hover:bg-slate-200 flex items-center justify-center"><i className="fas fa-plus text-[10px]"></i></button>}
                     </div>
                 </div>
             </div>
@@ -139,7 +219,8 @@ const MatchInfoFields: React.FC<MatchInfoFieldsProps> = ({
                         type="button"
                         key={pos}
                         onClick={() => togglePosition(pos)}
-                        className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${isSelected ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'}`}
+                        disabled={playingTimeTracked}
+                        className={`px-3 py-1.5 rounded-lg text-xs font-bold border transition-all ${isSelected ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'} disabled:cursor-default`}
                     >
                         {pos}
                     </button>
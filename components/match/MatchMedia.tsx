@@ -1,6 +1,7 @@
 
 import React, { useState } from 'react';
 import { VideoLink } from '../../types';
+import { generateId } from '../../services/ids';
 
 interface MatchMediaProps {
     formData: any;
@@ -18,7 +19,7 @@ const MatchMedia: React.FC<MatchMediaProps> = ({ formData, setFormData, handleCh
   const handleAddVideo = () => {
       if (!newVideoUrl) return;
       const newVideo: VideoLink = {
-          id: Date.now().toString(),
+          id: generateId(),
           url: newVideoUrl,
           tag: newVideoTag,
           note: newVideoNote
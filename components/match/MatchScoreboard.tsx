@@ -1,6 +1,9 @@
 
 import React from 'react';
 import { MatchData, Team } from '../../types';
+import { MatchAction } from '../../utils/matchActions';
+
+type Scorer = MatchData['scorers'][number];
 
 interface MatchScoreboardProps {
     formData: any;
@@ -8,18 +11,19 @@ interface MatchScoreboardProps {
     styles: any;
     t: any;
     adjustValue: (field: any, delta: number) => void;
-    handleAction: (type: 'my_goal' | 'op_goal' | 'kid_goal' | 'kid_assist') => void;
+    handleAction: (type: MatchAction) => void;
     handleTeammateGoal: (teammateId: string, delta: number) => void;
     isAddingTeammate: boolean;
     setIsAddingTeammate: (v: boolean) => void;
     newTeammateName: string;
     setNewTeammateName: (v: string) => void;
     handleQuickAdd: () => void;
+    totalsFromEvents?: boolean; // Totals are derived from the match events, so no manual +/-
 }
 
 const MatchScoreboard: React.FC<MatchScoreboardProps> = ({
     formData, activeTeam, styles, t, adjustValue, handleAction, handleTeammateGoal,
-    isAddingTeammate, setIsAddingTeammate, newTeammateName, setNewTeammateName, handleQuickAdd
+    isAddingTeammate, setIsAddingTeammate, newTeammateName, setNewTeammateName, handleQuickAdd, totalsFromEvents = false
 }) => {
   const btnClass = "flex flex-col items-center justify-center h-20 rounded-xl shadow-sm active:scale-95 transition-all border-2";
   const adjustBtnClass = "w-8 h-8 rounded-full bg-slate-100 text-slate-400 hover:bg-slate-200 hover:text-slate-600 flex items-center justify-center transition-colors shadow-sm active:scale-90";
@@ -36,9 +40,9 @@ const MatchScoreboard: React.FC<MatchScoreboardProps> = ({
             <div className="text-center w-5/12 flex flex-col items-center">
                 <span className={`text-xs font-bold uppercase truncate block mb-1 ${styles.text}`}>{activeTeam.name}</span>
                 <div className="flex items-center gap-2">
-                    <button type="button" onClick={() => adjustValue('scoreMyTeam', -1)} className={adjustBtnClass}><i className="fas fa-minus text-xs"></i></button>
+                    {!totalsFromEvents && <button type="button" onClick={() => adjustValue('scoreMyTeam', -1)} className={adjustBtnClass}><i className="fas fa-minus text-xs"></i></button>}
                     <span className="text-4xl font-black text-slate-800 min-w-[1.2em]">{formData.scoreMyTeam}</span>
-                    <button type="button" onClick={() => adjustValue('scoreMyTeam', 1)} className={adjustBtnClass}><i className="fas fa-plus text-xs"></i></button>
+                    {!totalsFromEvents && <button type="button" onClick={() => adjustValue('scoreMyTeam', 1)} className={adjustBtnClass}><i className="fas fa-plus text-xs"></i></button>}
                 </div>
             </div>
             
@@ -47,9 +51,9 @@ const MatchScoreboard: React.FC<MatchScoreboardProps> = ({
             <div className="text-center w-5/12 flex flex-col items-center">
                 <span className="text-xs font-bold text-slate-500 uppercase truncate block mb-1">{formData.opponent || t.opponent}</span>
                 <div className="flex items-center gap-2">
-                    <button type="button" onClick={() => adjustValue('scoreOpponent', -1)} className={adjustBtnClass}><i className="fas fa-minus text-xs"></i></button>
+                    {!totalsFromEvents && <button type="button" onClick={() => adjustValue('scoreOpponent', -1)} className={adjustBtnClass}><i className="fas fa-minus text-xs"></i></button>}
                     <span className="text-4xl font-black text-slate-800 min-w-[1.2em]">{formData.scoreOpponent}</span>
-                    <button type="button" onClick={() => adjustValue('scoreOpponent', 1)} className={adjustBtnClass}><i className="fas fa-plus text-xs"></i></button>
+                    {!totalsFromEvents && <button type="button" onClick={() => adjustValue('scoreOpponent', 1)} className={adjustBtnClass}><i className="fas fa-plus text-xs"></i></button>}
                 </div>
             </div>
         </div>
@@ -77,15 +81,15 @@ const MatchScoreboard: React.FC<MatchScoreboardProps> = ({
             <div className="bg-slate-50 rounded-lg p-2 flex justify-center gap-6 border border-slate-200 border-dashed">
                 <div className="flex items-center gap-2">
                 <span className="text-xs font-bold text-slate-400">{t.goals}:</span>
-                <button type="button" onClick={() => adjustValue('arthurGoals', -1)} className="w-5 h-5 rounded bg-slate-200 text-slate-500 flex items-center justify-center hover:bg-slate-300"><i className="fas fa-minus text-[10px]"></i></button>
+                {!totalsFromEvents && <button type="button" onClick={() => adjustValue('arthurGoals', -1)} className="w-5 h-5 rounded bg-slate-200 text-slate-500 flex items-center justify-center hover:bg-slate-300"><i className="fas fa-minus text-[10px]"></i></button>}
                 <span className="text-sm font-black text-slate-700 w-4 text-center">{formData.arthurGoals}</span>
-                <button type="button" onClick={() => adjustValue('arthurGoals', 1)} className="w-5 h-5 rounded bg-slate-200 text-slate-500 flex items-center justify-center hover:bg-slate-300"><i className="fas fa-plus text-[10px]"></i></button>
+                {!totalsFromEvents && <button type="button" onClick={() => adjustValue('arthurGoals', 1)} className="w-5 h-5 rounded bg-slate-200 text-slate-500 flex items-center justify-center hover:bg-slate-300"><i className="fas fa-plus text-[10px]"></i></button>}
                 </div>
                 <div className="flex items-center gap-2">
                 <span className="text-xs font-bold text-slate-400">{t.assists}:</span>
-                <button type="button" onClick={() => adjustValue('arthurAssists', -1)} className="w-5 h-5 rounded bg-slate-200 text-slate-500 flex items-center justify-center hover:bg-slate-300"><i className="fas fa-minus text-[10px]"></i></button>
+                {!totalsFromEvents && <button type="button" onClick={() => adjustValue('arthurAssists', -1)} className="w-5 h-5 rounded bg-slate-200 text-slate-500 flex items-center justify-center hover:bg-slate-300"><i className="fas fa-minus text-[10px]"></i></button>}
                 <span className="text-sm font-black text-slate-700 w-4 text-center">{formData.arthurAssists}</span>
-                <button type="button" onClick={() => adjustValue('arthurAssists', 1)} className="w-5 h-5 rounded bg-slate-200 text-slate-500 flex items-center justify-center hover:bg-slate-300"><i className="fas fa-plus text-[10px]"></i></button>
+                {!totalsFromEvents && <button type="button" onClick={() => adjustValue('arthurAssists', 1)} className="w-5 h-5 rounded bg-slate-200 text-slate-500 flex items-center justify-center hover:bg-slate-300"><i className="fas fa-plus text-[10px]"></i></button>}
                 </div>
             </div>
         )}
@@ -147,6 +151,24 @@ const MatchScoreboard: React.FC<MatchScoreboardProps> = ({
                         </div>
                     );
                 })}
+                {/* Guests: scorers kept by name after leaving the roster */}
+                {formData.scorers
+                    .filter((s: Scorer) => s.guestName && !activeTeam.roster.some(tm => tm.id === s.teammateId))
+                    .map((s: Scorer) => (
+                        <div key={s.teammateId} className="flex items-center rounded-full border border-dashed border-slate-300 bg-slate-50 pr-1">
+                            <span className="px-3 py-1.5 text-xs font-medium text-slate-500 italic">{s.guestName}</span>
+                            <div className="flex items-center border-l border-slate-200 pl-1">
+                                <span className="font-bold text-emerald-600 text-xs mx-1.5">{s.count}</span>
+                                <button
+                                    type="button"
+                                    onClick={() => handleTeammateGoal(s.teammateId, -1)}
+                                    className="w-5 h-5 flex items-center justify-center rounded-full bg-slate-100 text-slate-400 hover:bg-red-100 hover:text-red-500 transition-colors"
+                                >
+                                    <i className="fas fa-minus text-[9px]"></i>
+                                </button>
+                            </div>
+                        </div>
+                    ))}
             </div>
             </div>
         )}
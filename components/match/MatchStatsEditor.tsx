@@ -0,0 +1,55 @@
+import React from 'react';
+import { StatDefinition, getStatLabel } from '../../utils/matchStats';
+
+interface MatchStatsEditorProps {
+    definitions: StatDefinition[];
+    stats: Record<string, number>;
+    onChange: (stats: Record<string, number>) => void;
+    t: any;
+}
+
+const MatchStatsEditor: React.FC<MatchStatsEditorProps> = ({ definitions, stats, onChange, t }) => {
+    // The first tap on a stat records it, so an untouched counter stays "not recorded"
+    const adjust = (id: string, delta: number) => {
+        const next = { ...stats, [id]: Math.max(0, (stats[id] ?? 0) + delta) };
+        // Shots on target can never exceed the shots taken
+        if (id === 'shotsOnTarget' && next.shots !== undefined && next.shotsOnTarget > next.shots) next.shots = next.shotsOnTarget;
+        if (id === 'shots' && next.shotsOnTarget !== undefined && next.shotsOnTarget > next.shots) next.shotsOnTarget = next.shots;
+        onChange(next);
+    };
+
+    const clear = (id: string) => {
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        const { [id]: _, ...rest } = stats;
+        onChange(rest);
+    };
+
+    return (
+        <div className="bg-white p-3 rounded-xl border border-slate-200 shadow-sm space-y-3">
+            <label className="text-[10px] font-bold text-slate-400 uppercase block">{t.matchStats}</label>
+            <div className="grid grid-cols-2 gap-2">
+                {definitions.map(def => {
+                    const value = stats[def.id];
+                    return (
+                        <div key={def.id}>
+                            <div className="flex justify-between items-center mb-1">
+                                <span className="text-[10px] font-bold text-slate-400 uppercase truncate"><i className={`fas ${def.icon} mr-1`}></i>{getStatLabel(def, t)}</span>
+                                {value !== undefined && (
+                                    <button type="button" onClick={() => clear(def.id)} className="text-slate-300 hover:text-red-500 text-[9px]"><i className="fas fa-times"></i></button>
+                                )}
+                            </div>
+                            <div className="flex items-center justify-between bg-white rounded-lg border border-slate-200 px-2 py-1">
+                                <button type="button" onClick={() => adjust(def.id, -1)} className="w-6 h-6 bg-slate-100 rounded text-slate-500 hover:bg-slate-200 flex items-center justify-center"><i className="fas fa-minus text-[10px]"></i></button>
+                                <span className={`font-black text-sm tabular-nums ${value === undefined ? 'text-slate-300' : 'text-slate-800'}`}>{value ?? '–'}</span>
+                                <button type="button" onClick={() => adjust(def.id, 1)} className="w-6 h-6 bg-slate-100 rounded text-slate-500 hover:bg-slate-200 flex items-center justify-center"><i className="fas fa-plus text-[10px]"></i></button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+            <p className="text-[10px] text-slate-400"><i className="fas fa-info-circle mr-1"></i>{t.matchStatsHint}</p>
+        </div>
+    );
+};
+
+export default MatchStatsEditor;
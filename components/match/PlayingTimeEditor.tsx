@@ -0,0 +1,115 @@
+import React from 'react';
+import { PlayingSpell } from '../../types';
+import { POSITIONS, createNextSpell, getMinutesPlayed } from '../../utils/playingTime';
+
+interface PlayingTimeEditorProps {
+    spells: PlayingSpell[];
+    onChange: (spells: PlayingSpell[]) => void;
+    periods: number;
+    periodLength: number;
+    onPeriodLengthChange: (minutes: number) => void;
+    isHalves: boolean;
+    t: any;
+}
+
+const PlayingTimeEditor: React.FC<PlayingTimeEditorProps> = ({ spells, onChange, periods, periodLength, onPeriodLengthChange, isHalves, t }) => {
+    const periodName = (n: number) => (isHalves ? t.liveHalf : t.liveQuarter).replace('{n}', String(n));
+
+    // Spells keep their index in `spells` so edits go back to the right one
+    const indexed = spells.map((spell, index) => ({ spell, index }));
+
+    const updateSpell = (index: number, patch: Partial<PlayingSpell>) => {
+        onChange(spells.map((s, i) => i === index ? { ...s, ...patch } : s));
+    };
+
+    const minuteInput = (value: number, onValue: (v: number) => void) => (
+        <input
+            type="number"
+            min={0}
+            value={value}
+            onChange={e => onValue(Math.max(0, parseInt(e.target.value, 10) || 0))}
+            className="w-12 text-center text-xs border border-slate-200 rounded px-1 py-1 bg-white"
+        />
+    );
+
+    return (
+        <div className="bg-white p-3 rounded-xl border border-slate-200 shadow-sm space-y-3">
+            <div className="flex justify-between items-center">
+                <label className="text-[10px] font-bold text-slate-400 uppercase">{t.playingTime}</label>
+                <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400">
+                    {t.livePeriodLength}
+                    <input
+                        type="number"
+                        min={1}
+                        max={60}
+                        value={periodLength}
+                        onChange={e => onPeriodLengthChange(Math.max(1, Math.min(60, parseInt(e.target.value, 10) || 1)))}
+                        className="w-12 text-center text-xs border border-slate-200 rounded px-1 py-1"
+                    />
+                </label>
+            </div>
+            {spells.length === 0 && <p className="text-[10px] text-slate-400">{t.playingTimeHint}</p>}
+
+            <div className="space-y-2">
+                {Array.from({ length: periods }, (_, i) => i + 1).map(period => {
+                    const inPeriod = indexed.filter(({ spell }) => spell.period === period).sort((a, b) => a.spell.on - b.spell.on);
+                    return (
+                        <div key={period} className="flex gap-2 items-start">
+                            <span className="w-16 shrink-0 text-[10px] font-black text-slate-500 uppercase pt-1.5">{periodName(period)}</span>
+                            <div className="flex-1 space-y-1.5">
+                                {inPeriod.map(({ spell, index }) => (
+                                    <div key={index} className="flex items-center gap-1.5 animate-fade-in">
+                                        <select
+                                            value={spell.position || ''}
+                                            onChange={e => updateSpell(index, { position: e.target.value || undefined })}
+                                            className="text-xs font-bold border border-slate-200 rounded px-1 py-1 bg-white"
+                                        >
+                                            <option value="">-</option>
+                                            {POSITIONS.map(pos => <option key={pos} value={pos}>{pos}</option>)}
+                                        </select>
+                                        {minuteInput(spell.on, on => updateSpell(index, { on }))}
+                                        <span className="text-slate-300 text-xs">–</span>
+                                        {minuteInput(spell.off, off => updateSpell(index, { off }))}
+                                        <span className="text-[10px] text-slate-400">{t.unitMinutes}</span>
+                                        <button
+                                            type="button"
+                                            onClick={() => onChange(spells.filter((_, i) => i !== index))}
+                                            className="ml-auto w-5 h-5 flex items-center justify-center rounded-full bg-slate-100 text-slate-400 hover:bg-red-100 hover:text-red-500"
+                                        >
+                                            <i className="fas fa-times text-[9px]"></i>
+                                        </button>
+                                    </div>
+                                ))}
+                                <div className="flex gap-2">
+                                    {inPeriod.length === 0 && (
+                                        <button type="button" onClick={() => onChange([...spells, createNextSpell(spells, period, periodLength)])} className="text-[10px] font-bold text-blue-600 bg-blue-50 border border-blue-100 px-2 py-1 rounded">
+                                            <i className="fas fa-check mr-1"></i>{t.playingTimeFull}
+                                        </button>
+                                    )}
+                                    <button
+                                        type="button"
+                                        onClick={() => {
+                                            const next = createNextSpell(spells, period, periodLength);
+                                            onChange([...spells, inPeriod.length === 0 ? { ...next, on: Math.floor(periodLength / 2) } : next]);
+                                        }}
+                                        className="text-[10px] font-bold text-slate-500 bg-slate-50 border border-slate-200 px-2 py-1 rounded"
+                                    >
+                                        <i className="fas fa-exchange-alt mr-1"></i>{t.playingTimeAddSpell}
+                                    </button>
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {spells.length > 0 && (
+                <div className="text-xs font-bold text-slate-600 text-right">
+                    <i className="fas fa-stopwatch text-slate-400 mr-1"></i>{t.playingTimeTotal.replace('{min}', String(getMinutesPlayed(spells)))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default PlayingTimeEditor;
@@ -0,0 +1,155 @@
+
+import React, { useEffect, useState } from 'react';
+import {
+    AutoBackupSettings as Settings,
+    BackupFolderInfo,
+    LastAutoBackup,
+    getAutoBackupSettings,
+    saveAutoBackupSettings,
+    getLastAutoBackup,
+    getBackupFolder,
+    chooseBackupFolder,
+    reconnectBackupFolder,
+    forgetBackupFolder,
+    isFolderBackupSupported,
+    runAutoBackup
+} from '../../services/autoBackup';
+
+interface AutoBackupSettingsProps {
+    t: any;
+    language: 'zh' | 'en';
+    onBackup: () => void;
+}
+
+const CHANGE_OPTIONS = [10, 20, 50, 100];
+const KEEP_OPTIONS = [3, 7, 14, 30];
+
+export const formatBackupTime = (timestamp: number, language: 'zh' | 'en'): string => {
+    return new Date(timestamp).toLocaleString(language === 'zh' ? 'zh-HK' : 'en-GB', {
+        month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+    });
+};
+
+const AutoBackupSettings: React.FC<AutoBackupSettingsProps> = ({ t, language, onBackup }) => {
+  const [settings, setSettings] = useState<Settings>(getAutoBackupSettings());
+  const [lastBackup, setLastBackup] = useState<LastAutoBackup | null>(getLastAutoBackup());
+  const [folder, setFolder] = useState<BackupFolderInfo | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+
+  useEffect(() => {
+      if (isFolderBackupSupported()) getBackupFolder().then(setFolder).catch(e => console.error('Error reading backup folder', e));
+  }, []);
+
+  const updateSettings = (patch: Partial<Settings>) => {
+      const next = { ...settings, ...patch };
+      setSettings(next);
+      saveAutoBackupSettings(next);
+  };
+
+  const handleBackupNow = async () => {
+      setIsRunning(true);
+      const result = await runAutoBackup();
+      setIsRunning(false);
+      if (result) {
+          setLastBackup(result);
+          onBackup();
+      }
+  };
+
+  const handleChooseFolder = async () => {
+      const chosen = await chooseBackupFolder();
+      if (chosen) setFolder(chosen);
+  };
+
+  const handleReconnect = async () => {
+      setFolder(await reconnectBackupFolder());
+  };
+
+  const handleForgetFolder = async () => {
+      await forgetBackupFolder();
+      setFolder(null);
+  };
+
+  const lastLabel = lastBackup
+      ? t.autoBackupLast
+          .replace('{time}', formatBackupTime(lastBackup.timestamp, language))
+          .replace('{target}', lastBackup.target === 'folder' ? (lastBackup.fileName || t.autoBackupFolder) : t.autoBackupSnapshot)
+      : t.autoBackupNever;
+
+  return (
+    <div className="border-t border-slate-100 pt-6 space-y-3">
+        {/* Banner: last automatic backup */}
+        <button
+            onClick={() => setExpanded(!expanded)}
+            className={`w-full flex items-center gap-3 p-3 rounded-xl border text-left ${lastBackup && settings.enabled ? 'bg-emerald-50 border-emerald-100' : 'bg-amber-50 border-amber-100'}`}
+        >
+            <i className={`fas ${settings.enabled ? 'fa-history' : 'fa-pause-circle'} ${lastBackup && settings.enabled ? 'text-emerald-600' : 'text-amber-500'}`}></i>
+            <div className="flex-1 min-w-0">
+                <div className="text-xs font-bold text-slate-700">{t.autoBackupTitle}{!settings.enabled && ` · ${t.autoBackupOff}`}</div>
+                <div className="text-[10px] text-slate-500 truncate">{lastLabel}</div>
+            </div>
+            <i className={`fas fa-chevron-${expanded ? 'up' : 'down'} text-slate-300 text-xs`}></i>
+        </button>
+
+        {expanded && (
+            <div className="bg-slate-50 border border-slate-200 rounded-xl p-3 space-y-3 text-xs">
+                <label className="flex items-center justify-between font-bold text-slate-700">
+                    {t.autoBackupEnabled}
+                    <input type="checkbox" checked={settings.enabled} onChange={e => updateSettings({ enabled: e.target.checked })} className="w-4 h-4 accent-emerald-600" />
+                </label>
+
+                {/* Folder */}
+                {isFolderBackupSupported() ? (
+                    <div className="space-y-2">
+                        <div className="text-[10px] font-bold text-slate-400 uppercase">{t.autoBackupFolder}</div>
+                        {folder ? (
+                            <div className="flex items-center gap-2">
+                                <i className="fas fa-folder text-amber-500"></i>
+                                <span className="flex-1 font-bold text-slate-700 truncate">{folder.name}</span>
+                                {folder.permission !== 'granted' && (
+                                    <button onClick={handleReconnect} className="px-2 py-1 bg-amber-500 text-white rounded font-bold text-[10px]">{t.autoBackupReconnect}</button>
+                                )}
+                                <button onClick={handleForgetFolder} className="text-slate-400 hover:text-red-500"><i className="fas fa-times"></i></button>
+                            </div>
+                        ) : (
+                            <button onClick={handleChooseFolder} className="w-full py-2 bg-white border border-slate-200 rounded-lg font-bold text-slate-600">
+                                <i className="fas fa-folder-open mr-1"></i> {t.autoBackupChooseFolder}
+                            </button>
+                        )}
+                        {folder && folder.permission !== 'granted' && <p className="text-[10px] text-amber-600">{t.autoBackupReconnectHint}</p>}
+                    </div>
+                ) : (
+                    <p className="text-[10px] text-slate-500">{t.autoBackupNoFolderSupport}</p>
+                )}
+
+                {/* Schedule */}
+                <div className="grid grid-cols-2 gap-2">
+                    <label className="space-y-1">
+                        <span className="text-[10px] font-bold text-slate-400 uppercase block">{t.autoBackupEvery}</span>
+                        <select value={settings.everyChanges} onChange={e => updateSettings({ everyChanges: Number(e.target.value) })} className="w-full p-1.5 rounded border border-slate-200 bg-white">
+                            {CHANGE_OPTIONS.map(n => <option key={n} value={n}>{t.autoBackupChanges.replace('{n}', String(n))}</option>)}
+                        </select>
+                    </label>
+                    <label className="space-y-1">
+                        <span className="text-[10px] font-bold text-slate-400 uppercase block">{t.autoBackupKeep}</span>
+                        <select value={settings.keep} onChange={e => updateSettings({ keep: Number(e.target.value) })} className="w-full p-1.5 rounded border border-slate-200 bg-white">
+                            {KEEP_OPTIONS.map(n => <option key={n} value={n}>{t.autoBackupFiles.replace('{n}', String(n))}</option>)}
+                        </select>
+                    </label>
+                </div>
+                <label className="flex items-center gap-2 text-slate-600">
+                    <input type="checkbox" checked={settings.daily} onChange={e => updateSettings({ daily: e.target.checked })} className="w-4 h-4 accent-emerald-600" />
+                    {t.autoBackupDaily}
+                </label>
+
+                <button onClick={handleBackupNow} disabled={isRunning} className="w-full py-2 bg-emerald-600 text-white rounded-lg font-bold disabled:opacity-50">
+                    {isRunning ? <i className="fas fa-circle-notch fa-spin"></i> : <><i className="fas fa-save mr-1"></i> {t.autoBackupNow}</>}
+                </button>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default AutoBackupSettings;
@@ -0,0 +1,168 @@
+
+import React, { useMemo, useState } from 'react';
+import { UserProfile } from '../../types';
+import {
+    CsvField,
+    CsvDateFormat,
+    CsvMapping,
+    CSV_IMPORT_FIELDS,
+    parseCsv,
+    guessMapping,
+    detectDateFormat,
+    csvRowsToMatches
+} from '../../services/csv';
+import { importMatches } from '../../services/storage';
+import { generateId } from '../../services/ids';
+
+interface CsvImportWizardProps {
+    t: any;
+    text: string;
+    profile: UserProfile;
+    onImported: (count: number) => void;
+    onBack: () => void;
+}
+
+const DATE_FORMATS: CsvDateFormat[] = ['YMD', 'DMY', 'MDY'];
+const PREVIEW_ROWS = 8;
+
+const CsvImportWizard: React.FC<CsvImportWizardProps> = ({ t, text, profile, onImported, onBack }) => {
+  const parsed = useMemo(() => parseCsv(text), [text]);
+  const headers = parsed[0] || [];
+  const rows = useMemo(() => parsed.slice(1), [parsed]);
+  const [mapping, setMapping] = useState<CsvMapping>(() => guessMapping(headers));
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>(() => {
+      const column = guessMapping(headers).indexOf('date');
+      return detectDateFormat(column >= 0 ? rows.map(r => r[column] || '') : []);
+  });
+  const [teamId, setTeamId] = useState(profile.teams.find(team => !team.isArchived)?.id || profile.teams[0]?.id || '');
+  const [step, setStep] = useState<'map' | 'preview'>('map');
+
+  const fieldLabel = (field: CsvField): string => t[`csvField_${field}` as keyof typeof t] as string;
+
+  const result = useMemo(
+      () => step === 'preview' ? csvRowsToMatches(rows, mapping, dateFormat, profile, teamId) : null,
+      [step, rows, mapping, dateFormat, profile, teamId]
+  );
+
+  const setColumnField = (column: number, field: CsvField | null) => {
+      // A field maps to one column only
+      setMapping(mapping.map((f, i) => i === column ? field : (field && f === field ? null : f)));
+  };
+
+  const canPreview = mapping.includes('date') && mapping.includes('opponent') && !!teamId;
+
+  const handleImport = () => {
+      if (!result || result.matches.length === 0) return;
+      importMatches(result.matches.map(m => ({ ...m, id: generateId() })));
+      onImported(result.matches.length);
+  };
+
+  const teamName = (id: string) => profile.teams.find(team => team.id === id)?.name || '—';
+
+  return (
+    <div className="space-y-4">
+        <div className="flex items-center gap-2">
+            <button onClick={step === 'preview' ? () => setStep('map') : onBack} className="w-8 h-8 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center hover:bg-slate-200">
+                <i className="fas fa-arrow-left text-xs"></i>
+            </button>
+            <div>
+                <h3 className="font-bold text-slate-800">{t.csvImportTitle}</h3>
+                <p className="text-[10px] text-slate-400">{step === 'map' ? t.csvStepMap : t.csvStepPreview} · {t.csvRows.replace('{n}', String(rows.length))}</p>
+            </div>
+        </div>
+
+        {headers.length === 0 ? (
+            <div className="text-red-500 text-center text-xs font-bold bg-red-50 p-2 rounded">{t.csvEmpty}</div>
+        ) : step === 'map' ? (
+            <>
+                <div className="max-h-64 overflow-y-auto space-y-1.5">
+                    {headers.map((h, column) => (
+                        <div key={column} className="flex items-center gap-2 text-xs">
+                            <div className="flex-1 min-w-0">
+                                <div className="font-bold text-slate-700 truncate">{h || `#${column + 1}`}</div>
+                                <div className="text-[10px] text-slate-400 truncate">{rows[0]?.[column] || '—'}</div>
+                            </div>
+                            <i className="fas fa-arrow-right text-slate-300 text-[10px]"></i>
+                            <select
+                                value={mapping[column] || ''}
+                                onChange={e => setColumnField(column, (e.target.value || null) as CsvField | null)}
+                                className={`w-36 p-1.5 rounded border bg-white ${mapping[column] ? 'border-blue-300 text-slate-700' : 'border-slate-200 text-slate-400'}`}
+                            >
+                                <option value="">{t.csvIgnore}</option>
+                                {CSV_IMPORT_FIELDS.map(field => <option key={field} value={field}>{fieldLabel(field)}</option>)}
+                            </select>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2 text-xs">
+                    <label className="space-y-1">
+                        <span className="text-[10px] font-bold text-slate-400 uppercase block">{t.csvDateFormat}</span>
+                        <select value={dateFormat} onChange={e => setDateFormat(e.target.value as CsvDateFormat)} className="w-full p-1.5 rounded border border-slate-200 bg-white">
+                            {DATE_FORMATS.map(f => <option key={f} value={f}>{t[`csvDate_${f}` as keyof typeof t] as string}</option>)}
+                        </select>
+                    </label>
+                    <label className="space-y-1">
+                        <span className="text-[10px] font-bold text-slate-400 uppercase block">{t.csvDefaultTeam}</span>
+                        <select value={teamId} onChange={e => setTeamId(e.target.value)} className="w-full p-1.5 rounded border border-slate-200 bg-white">
+                            {profile.teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+                        </select>
+                    </label>
+                </div>
+
+                {!canPreview && <p className="text-[10px] text-amber-600 text-center">{t.csvNeedColumns}</p>}
+                <button onClick={() => setStep('preview')} disabled={!canPreview} className="w-full py-3 bg-blue-600 text-white rounded-xl font-bold disabled:opacity-50">
+                    {t.csvPreview}
+                </button>
+            </>
+        ) : result && (
+            <>
+                <div className="max-h-64 overflow-auto border border-slate-200 rounded-xl">
+                    <table className="w-full text-[10px]">
+                        <thead className="bg-slate-50 text-slate-400 uppercase">
+                            <tr>
+                                <th className="p-1.5 text-left">{fieldLabel('date')}</th>
+                                <th className="p-1.5 text-left">{fieldLabel('opponent')}</th>
+                                <th className="p-1.5 text-left">{fieldLabel('team')}</th>
+                                <th className="p-1.5">{fieldLabel('score')}</th>
+                                <th className="p-1.5">⚽</th>
+                                <th className="p-1.5">👟</th>
+                            </tr>
+                        </thead>
+                        <tbody className="text-slate-600">
+                            {result.matches.slice(0, PREVIEW_ROWS).map((m, i) => (
+                                <tr key={i} className="border-t border-slate-100">
+                                    <td className="p-1.5 whitespace-nowrap">{m.date}</td>
+                                    <td className="p-1.5 font-bold truncate max-w-[6rem]">{m.opponent}</td>
+                                    <td className="p-1.5 truncate max-w-[5rem]">{teamName(m.teamId)}</td>
+                                    <td className="p-1.5 text-center">{m.status === 'scheduled' ? '—' : `${m.scoreMyTeam}-${m.scoreOpponent}`}</td>
+                                    <td className="p-1.5 text-center">{m.arthurGoals}</td>
+                                    <td className="p-1.5 text-center">{m.arthurAssists}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                {result.matches.length > PREVIEW_ROWS && (
+                    <p className="text-[10px] text-slate-400 text-center">{t.csvMore.replace('{n}', String(result.matches.length - PREVIEW_ROWS))}</p>
+                )}
+
+                {result.errors.length > 0 && (
+                    <div className="bg-amber-50 border border-amber-100 rounded-xl p-2 text-[10px] text-amber-700 space-y-0.5 max-h-24 overflow-y-auto">
+                        <div className="font-bold">{t.csvSkipped.replace('{n}', String(result.errors.length))}</div>
+                        {result.errors.map(e => (
+                            <div key={e.row}>{t.csvRowError.replace('{row}', String(e.row)).replace('{reason}', e.reason === 'date' ? t.csvBadDate : t.csvNoOpponent)}</div>
+                        ))}
+                    </div>
+                )}
+
+                <button onClick={handleImport} disabled={result.matches.length === 0} className="w-full py-3 bg-emerald-600 text-white rounded-xl font-bold disabled:opacity-50">
+                    <i className="fas fa-file-import mr-1"></i> {t.csvImportCount.replace('{n}', String(result.matches.length)).replace('{name}', profile.name)}
+                </button>
+            </>
+        )}
+    </div>
+  );
+};
+
+export default CsvImportWizard;
@@ -0,0 +1,139 @@
+
+import React, { useMemo, useState } from 'react';
+import {
+    IntegrityReport,
+    IntegrityIssueKind,
+    checkDataIntegrity,
+    reassignMissingTeams,
+    convertOrphanScorers,
+    unlinkBrokenJournals,
+    normalizeLegacyPositions
+} from '../../services/integrity';
+import { getAllProfiles } from '../../services/storage';
+
+interface DataCheckProps {
+    t: any;
+    onFixed: () => void;
+    onBack: () => void;
+}
+
+const KINDS: { kind: IntegrityIssueKind; icon: string }[] = [
+    { kind: 'missingTeam', icon: 'fa-shield-alt' },
+    { kind: 'orphanScorer', icon: 'fa-user-slash' },
+    { kind: 'brokenJournalLink', icon: 'fa-unlink' },
+    { kind: 'legacyPosition', icon: 'fa-map-marker-alt' }
+];
+
+const DataCheck: React.FC<DataCheckProps> = ({ t, onFixed, onBack }) => {
+  const [report, setReport] = useState<IntegrityReport>(checkDataIntegrity());
+  const [expanded, setExpanded] = useState<IntegrityIssueKind | null>(null);
+  const [teamChoices, setTeamChoices] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState('');
+
+  const profiles = useMemo(() => getAllProfiles(), [report]);
+  const total = report.issues.length;
+
+  const kindLabel = (kind: IntegrityIssueKind): string => t[`integrity_${kind}` as keyof typeof t] as string;
+  const fixLabel = (kind: IntegrityIssueKind): string => t[`integrityFix_${kind}` as keyof typeof t] as string;
+
+  const afterFix = (count: number) => {
+      setMessage(t.integrityFixed.replace('{n}', String(count)));
+      setReport(checkDataIntegrity());
+      if (count > 0) onFixed();
+  };
+
+  const handleFix = (kind: IntegrityIssueKind) => {
+      if (kind === 'orphanScorer') afterFix(convertOrphanScorers(t.integrityUnknownPlayer));
+      else if (kind === 'brokenJournalLink') afterFix(unlinkBrokenJournals());
+      else if (kind === 'legacyPosition') afterFix(normalizeLegacyPositions());
+  };
+
+  const handleReassign = (profileId: string) => {
+      const profile = profiles.find(p => p.id === profileId);
+      const teamId = teamChoices[profileId] || profile?.teams[0]?.id;
+      if (teamId) afterFix(reassignMissingTeams(profileId, teamId));
+  };
+
+  return (
+    <div className="space-y-4">
+        <div className="flex items-center gap-2">
+            <button onClick={onBack} className="w-8 h-8 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center hover:bg-slate-200">
+                <i className="fas fa-arrow-left text-xs"></i>
+            </button>
+            <div className="flex-1">
+                <h3 className="font-bold text-slate-800">{t.integrityTitle}</h3>
+                <p className="text-[10px] text-slate-400">{t.integrityDesc}</p>
+            </div>
+            <button onClick={() => { setMessage(''); setReport(checkDataIntegrity()); }} className="text-[10px] font-bold text-blue-600 hover:underline">
+                <i className="fas fa-sync-alt mr-1"></i>{t.integrityRecheck}
+            </button>
+        </div>
+
+        {total === 0 ? (
+            <div className="text-center py-6 bg-emerald-50 border border-emerald-100 rounded-xl">
+                <i className="fas fa-check-circle text-emerald-500 text-2xl mb-2"></i>
+                <p className="text-xs font-bold text-emerald-700">{t.integrityAllGood}</p>
+            </div>
+        ) : (
+            <p className="text-xs font-bold text-amber-600 text-center">{t.integrityFound.replace('{n}', String(total))}</p>
+        )}
+
+        {message && <div className="text-xs font-bold text-center text-blue-700 bg-blue-50 p-2 rounded">{message}</div>}
+
+        <div className="max-h-80 overflow-y-auto space-y-2">
+            {KINDS.filter(({ kind }) => report.counts[kind] > 0).map(({ kind, icon }) => {
+                const issues = report.issues.filter(i => i.kind === kind);
+                const isOpen = expanded === kind;
+                return (
+                    <div key={kind} className="bg-slate-50 border border-slate-200 rounded-xl p-3 space-y-2">
+                        <button onClick={() => setExpanded(isOpen ? null : kind)} className="w-full flex items-center gap-2 text-left">
+                            <i className={`fas ${icon} w-4 text-center text-amber-500`}></i>
+                            <span className="flex-1 text-xs font-bold text-slate-700">{kindLabel(kind)}</span>
+                            <span className="px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full text-[10px] font-bold">{report.counts[kind]}</span>
+                            <i className={`fas fa-chevron-${isOpen ? 'up' : 'down'} text-slate-300 text-xs`}></i>
+                        </button>
+
+                        {isOpen && (
+                            <ul className="text-[10px] text-slate-500 space-y-0.5 pl-6 max-h-32 overflow-y-auto">
+                                {issues.map((issue, i) => <li key={`${issue.recordId}-${i}`} className="truncate">{issue.label}</li>)}
+                            </ul>
+                        )}
+
+                        {kind === 'missingTeam' ? (
+                            // The team to reassign to differs per profile
+                            issues.map(i => i.profileId).filter((id, i, ids) => ids.indexOf(id) === i).map(profileId => {
+                                const profile = profiles.find(p => p.id === profileId);
+                                if (!profile) return null;
+                                if (profile.teams.length === 0) {
+                                    return <p key={profileId} className="text-[10px] text-slate-400">{profile.name}: {t.integrityNoTeams}</p>;
+                                }
+                                return (
+                                    <div key={profileId} className="flex items-center gap-2">
+                                        <span className="text-[10px] font-bold text-slate-500 truncate max-w-[30%]">{profile.name}</span>
+                                        <select
+                                            value={teamChoices[profileId] || profile.teams[0].id}
+                                            onChange={e => setTeamChoices({ ...teamChoices, [profileId]: e.target.value })}
+                                            className="flex-1 min-w-0 p-1 text-xs rounded border border-slate-200 bg-white"
+                                        >
+                                            {profile.teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+                                        </select>
+                                        <button onClick={() => handleReassign(profileId)} className="px-2 py-1 bg-blue-600 text-white rounded text-[10px] font-bold">
+                                            {fixLabel(kind)}
+                                        </button>
+                                    </div>
+                                );
+                            })
+                        ) : (
+                            <button onClick={() => handleFix(kind)} className="w-full py-1.5 bg-blue-600 text-white rounded-lg text-[10px] font-bold hover:bg-blue-700">
+                                <i className="fas fa-wrench mr-1"></i> {fixLabel(kind)}
+                            </button>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
+
+export default DataCheck;
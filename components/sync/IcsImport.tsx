@@ -0,0 +1,83 @@
+
+import React, { useMemo, useState } from 'react';
+import { MatchData, UserProfile } from '../../types';
+import { parseIcs, icsEventsToMatches } from '../../services/ical';
+import { importMatches } from '../../services/storage';
+
+interface IcsImportProps {
+    t: any;
+    text: string;
+    profile: UserProfile;
+    matches: MatchData[];
+    onImported: (count: number) => void;
+    onBack: () => void;
+}
+
+const IcsImport: React.FC<IcsImportProps> = ({ t, text, profile, matches, onImported, onBack }) => {
+  const events = useMemo(() => parseIcs(text).sort((a, b) => a.date.localeCompare(b.date)), [text]);
+  const today = new Date().toISOString().split('T')[0];
+  // Past events are listed but not ticked: they are usually already played
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(events.filter(e => e.date >= today).map(e => e.uid)));
+  const [teamId, setTeamId] = useState(profile.teams.find(team => !team.isArchived)?.id || profile.teams[0]?.id || '');
+
+  const toggle = (uid: string) => {
+      const next = new Set(selected);
+      if (next.has(uid)) next.delete(uid); else next.add(uid);
+      setSelected(next);
+  };
+
+  const handleImport = () => {
+      const chosen = events.filter(e => selected.has(e.uid));
+      if (chosen.length === 0 || !teamId) return;
+      const imported = icsEventsToMatches(chosen, profile, teamId, matches);
+      importMatches(imported);
+      onImported(imported.length);
+  };
+
+  return (
+    <div className="space-y-4">
+        <div className="flex items-center gap-2">
+            <button onClick={onBack} className="w-8 h-8 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center hover:bg-slate-200">
+                <i className="fas fa-arrow-left text-xs"></i>
+            </button>
+            <div>
+                <h3 className="font-bold text-slate-800">{t.icsImportTitle}</h3>
+                <p className="text-[10px] text-slate-400">{t.icsEventsFound.replace('{n}', String(events.length))}</p>
+            </div>
+        </div>
+
+        {events.length === 0 ? (
+            <div className="text-red-500 text-center text-xs font-bold bg-red-50 p-2 rounded">{t.icsNoEvents}</div>
+        ) : (
+            <>
+                <label className="block space-y-1 text-xs">
+                    <span className="text-[10px] font-bold text-slate-400 uppercase block">{t.icsTeam}</span>
+                    <select value={teamId} onChange={e => setTeamId(e.target.value)} className="w-full p-2 rounded-lg border border-slate-200 bg-white">
+                        {profile.teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+                    </select>
+                </label>
+
+                <div className="max-h-64 overflow-y-auto space-y-1.5">
+                    {events.map(event => (
+                        <label key={event.uid} className={`flex items-center gap-2 p-2 rounded-lg border cursor-pointer ${selected.has(event.uid) ? 'bg-blue-50 border-blue-200' : 'bg-slate-50 border-slate-200'}`}>
+                            <input type="checkbox" checked={selected.has(event.uid)} onChange={() => toggle(event.uid)} className="w-4 h-4 accent-blue-600" />
+                            <div className="flex-1 min-w-0">
+                                <div className="text-xs font-bold text-slate-700 truncate">{event.summary || '—'}</div>
+                                <div className="text-[10px] text-slate-400 truncate">
+                                    {event.date}{event.startTime && ` · ${event.startTime}`}{event.location && ` · ${event.location}`}
+                                </div>
+                            </div>
+                        </label>
+                    ))}
+                </div>
+
+                <button onClick={handleImport} disabled={selected.size === 0 || !teamId} className="w-full py-3 bg-blue-600 text-white rounded-xl font-bold disabled:opacity-50">
+                    <i className="fas fa-calendar-plus mr-1"></i> {t.icsImportCount.replace('{n}', String(selected.size))}
+                </button>
+            </>
+        )}
+    </div>
+  );
+};
+
+export default IcsImport;
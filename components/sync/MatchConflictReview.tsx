@@ -0,0 +1,143 @@
+
+import React from 'react';
+import { MatchData, UserProfile } from '../../types';
+import { MatchConflict, ConflictChoice, DiffField } from '../../services/matchMerge';
+
+interface MatchConflictReviewProps {
+    conflicts: MatchConflict[];
+    choices: Record<string, ConflictChoice>;
+    profiles: UserProfile[];
+    t: any;
+    onChoose: (id: string, choice: ConflictChoice) => void;
+    onChooseAll: (choice: ConflictChoice | 'default') => void;
+    onConfirm: () => void;
+    onCancel: () => void;
+}
+
+const CHOICES: ConflictChoice[] = ['local', 'incoming', 'merged'];
+
+const MatchConflictReview: React.FC<MatchConflictReviewProps> = ({
+    conflicts, choices, profiles, t, onChoose, onChooseAll, onConfirm, onCancel
+}) => {
+  const teammateNames = new Map<string, string>();
+  profiles.forEach(p => (p.teams || []).forEach(team => (team.roster || []).forEach(tm => teammateNames.set(tm.id, tm.name))));
+
+  const fieldLabel = (field: DiffField): string => {
+      switch (field) {
+          case 'score': return t.diffScore;
+          case 'kidStats': return `${t.goals} / ${t.assists}`;
+          case 'scorers': return t.whoScored;
+          case 'rating': return t.rating;
+          case 'dadComment': return t.dadCommentLabel;
+          case 'kidInterview': return t.interviewLabel;
+          case 'videos': return t.diffVideos;
+          default: return t.diffDetails;
+      }
+  };
+
+  const formatValue = (field: DiffField, m: MatchData, keys?: (keyof MatchData)[]): string => {
+      switch (field) {
+          case 'score': return `${m.scoreMyTeam} - ${m.scoreOpponent}`;
+          case 'kidStats': return `⚽ ${m.arthurGoals}  👟 ${m.arthurAssists}${m.isMotm ? '  🏆' : ''}`;
+          case 'scorers': {
+              const list = (m.scorers || []).filter(s => s.count > 0);
+              return list.length > 0 ? list.map(s => `${teammateNames.get(s.teammateId) || s.guestName || '?'}×${s.count}`).join(', ') : '—';
+          }
+          case 'rating': return String(m.rating ?? '—');
+          case 'dadComment': return m.dadComment ? `${m.commenterIdentity || 'Dad'}: ${m.dadComment}` : '—';
+          case 'kidInterview': return m.kidInterview || '—';
+          case 'videos': return (m.videos || []).length > 0 ? `🎬 ${(m.videos || []).length}` : '—';
+          default:
+              return (keys || []).map(k => {
+                  const v: unknown = m[k];
+                  return `${k}: ${v === undefined || v === '' ? '—' : typeof v === 'object' ? JSON.stringify(v) : String(v)}`;
+              }).join('\n');
+      }
+  };
+
+  const choiceLabel = (choice: ConflictChoice) =>
+      choice === 'local' ? t.choiceLocal : choice === 'incoming' ? t.choiceIncoming : t.choiceMerged;
+
+  return (
+    <div className="space-y-4">
+        <div className="text-center">
+            <div className="w-16 h-16 rounded-full bg-yellow-100 text-yellow-600 flex items-center justify-center mx-auto text-2xl mb-3">
+                <i className="fas fa-exclamation-triangle"></i>
+            </div>
+            <h3 className="text-xl font-bold text-slate-800">{t.syncConflictTitle}</h3>
+            <p className="text-slate-500 text-sm">{t.conflictReviewDesc.replace('{n}', String(conflicts.length))}</p>
+        </div>
+
+        <div className="flex gap-2 text-[10px] font-bold">
+            <button type="button" onClick={() => onChooseAll('default')} className="flex-1 py-1.5 rounded-lg bg-blue-50 text-blue-600 border border-blue-100">{t.conflictNewerWins}</button>
+            <button type="button" onClick={() => onChooseAll('local')} className="flex-1 py-1.5 rounded-lg bg-slate-100 text-slate-600 border border-slate-200">{t.conflictAllLocal}</button>
+            <button type="button" onClick={() => onChooseAll('incoming')} className="flex-1 py-1.5 rounded-lg bg-slate-100 text-slate-600 border border-slate-200">{t.conflictAllIncoming}</button>
+        </div>
+
+        <div className="max-h-72 overflow-y-auto space-y-3">
+            {conflicts.map(conflict => {
+                const choice = choices[conflict.id] || conflict.defaultChoice;
+                const localNewer = (conflict.local.updatedAt || 0) > (conflict.incoming.updatedAt || 0);
+                const incomingNewer = (conflict.incoming.updatedAt || 0) > (conflict.local.updatedAt || 0);
+
+                return (
+                    <div key={conflict.id} className="bg-slate-50 border border-slate-200 rounded-xl p-3">
+                        <div className="flex justify-between items-center mb-2 gap-2">
+                            <span className="text-xs font-black text-slate-700 truncate">{conflict.local.date} · VS {conflict.local.opponent}</span>
+                        </div>
+
+                        <div className="flex bg-white rounded-lg border border-slate-200 p-1 mb-2">
+                            {CHOICES.map(c => (
+                                <button
+                                    type="button"
+                                    key={c}
+                                    onClick={() => onChoose(conflict.id, c)}
+                                    className={`flex-1 text-[10px] py-1.5 rounded font-bold ${choice === c ? 'bg-slate-800 text-white' : 'text-slate-400'}`}
+                                >
+                                    {choiceLabel(c)}
+                                </button>
+                            ))}
+                        </div>
+
+                        <table className="w-full text-[10px] table-fixed">
+                            <thead>
+                                <tr className="text-slate-400 uppercase">
+                                    <th className="text-left font-bold w-1/4"></th>
+                                    <th className="text-left font-bold">{t.choiceLocal}{localNewer && <span className="ml-1 text-emerald-500">· {t.conflictNewer}</span>}</th>
+                                    <th className="text-left font-bold">{t.choiceIncoming}{incomingNewer && <span className="ml-1 text-emerald-500">· {t.conflictNewer}</span>}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {conflict.diffs.map(diff => (
+                                    <tr key={diff.field} className="border-t border-slate-200 align-top">
+                                        <td className="py-1 pr-1 font-bold text-slate-500">{fieldLabel(diff.field)}</td>
+                                        <td className={`py-1 pr-1 whitespace-pre-wrap break-words ${choice === 'local' ? 'text-slate-800 font-bold' : 'text-slate-500'}`}>{formatValue(diff.field, conflict.local, diff.keys)}</td>
+                                        <td className={`py-1 whitespace-pre-wrap break-words ${choice === 'incoming' ? 'text-slate-800 font-bold' : 'text-slate-500'}`}>{formatValue(diff.field, conflict.incoming, diff.keys)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                );
+            })}
+        </div>
+
+        <div className="space-y-3 pt-2">
+            <button
+                onClick={onConfirm}
+                className="w-full py-3 bg-blue-600 text-white rounded-xl font-bold shadow-lg hover:bg-blue-700"
+            >
+                {t.conflictImport}
+            </button>
+            <button
+                onClick={onCancel}
+                className="w-full py-3 bg-slate-100 text-slate-700 rounded-xl font-bold hover:bg-slate-200"
+            >
+                {t.cancel}
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default MatchConflictReview;
@@ -0,0 +1,215 @@
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import QRCode from 'qrcode';
+import QrScanner, { isQrScanSupported } from './QrScanner';
+import {
+    PairingInfo,
+    PeerSyncStatus,
+    LOCAL_RELAY,
+    PEER_SYNC_TIMEOUT,
+    PEER_SYNC_UNVERIFIED,
+    createPairing,
+    createSignaling,
+    decodePairing,
+    encodePairing,
+    formatPairingCode,
+    getRelayUrl,
+    setRelayUrl,
+    hostPeerSync,
+    joinPeerSync,
+    isPeerSyncSupported
+} from '../../services/peerSync';
+
+interface PeerSyncPanelProps {
+    t: any;
+    getPayload: () => any;
+    onReceived: (data: any) => void;
+}
+
+type Mode = 'idle' | 'host' | 'join';
+
+const PeerSyncPanel: React.FC<PeerSyncPanelProps> = ({ t, getPayload, onReceived }) => {
+  const [mode, setMode] = useState<Mode>('idle');
+  const [status, setStatus] = useState<PeerSyncStatus | null>(null);
+  const [error, setError] = useState('');
+  const [pairing, setPairing] = useState<PairingInfo | null>(null);
+  const [qrDataUrl, setQrDataUrl] = useState('');
+  const [codeInput, setCodeInput] = useState('');
+  const [relayInput, setRelayInput] = useState(getRelayUrl());
+  const [showRelaySettings, setShowRelaySettings] = useState(false);
+  // Data from the other device waits here until the user accepts it
+  const [received, setReceived] = useState<any>(null);
+
+  // A cancelled session keeps running until it times out; its result is ignored
+  const sessionRef = useRef(0);
+
+  useEffect(() => () => { sessionRef.current++; }, []);
+
+  const reset = () => {
+      sessionRef.current++;
+      setMode('idle');
+      setStatus(null);
+      setPairing(null);
+      setQrDataUrl('');
+      setCodeInput('');
+  };
+
+  const runSession = async (run: (onStatus: (s: PeerSyncStatus) => void) => Promise<any>) => {
+      const session = ++sessionRef.current;
+      const onStatus = (s: PeerSyncStatus) => { if (sessionRef.current === session) setStatus(s); };
+      setError('');
+      try {
+          const data = await run(onStatus);
+          if (sessionRef.current !== session) return;
+          reset();
+          setReceived(data);
+      } catch (e: any) {
+          console.error('Peer sync failed', e);
+          if (sessionRef.current !== session) return;
+          reset();
+          setError(e?.message === PEER_SYNC_TIMEOUT ? t.peerTimeout : e?.message === PEER_SYNC_UNVERIFIED ? t.peerUnverified : t.peerFailed);
+      }
+  };
+
+  const handleAcceptReceived = () => {
+      const data = received;
+      setReceived(null);
+      onReceived(data);
+  };
+
+  const handleHost = async () => {
+      const info = createPairing(getRelayUrl());
+      setMode('host');
+      setPairing(info);
+      try {
+          setQrDataUrl(await QRCode.toDataURL(encodePairing(info), { margin: 1, width: 220 }));
+      } catch (e) {
+          console.error('QR code error', e);
+      }
+      runSession(onStatus => hostPeerSync(createSignaling(info.relay), info, getPayload(), onStatus));
+  };
+
+  const handleJoin = useCallback((text: string) => {
+      const info = decodePairing(text);
+      if (!info) {
+          setError(t.peerInvalidCode);
+          return;
+      }
+      setPairing(info);
+      runSession(onStatus => joinPeerSync(createSignaling(info.relay), info, getPayload(), onStatus));
+  }, [t, getPayload]);
+
+  const handleSaveRelay = () => {
+      setRelayUrl(relayInput === LOCAL_RELAY ? '' : relayInput);
+      setRelayInput(getRelayUrl());
+      setShowRelaySettings(false);
+  };
+
+  const statusLabel = (s: PeerSyncStatus | null): string => {
+      switch (s) {
+          case 'waiting': return t.peerWaiting;
+          case 'connecting': return t.peerConnecting;
+          case 'transferring': return t.peerTransferring;
+          case 'done': return t.peerDone;
+          default: return '';
+      }
+  };
+
+  if (!isPeerSyncSupported()) return null;
+
+  return (
+    <div className="relative border-t border-slate-100 pt-6 space-y-3">
+        <div className="flex justify-between items-center">
+            <h3 className="text-xs font-bold text-slate-500 uppercase tracking-wider flex items-center gap-2">
+                <i className="fas fa-wifi"></i> {t.peerSyncTitle}
+            </h3>
+            {mode === 'idle' && !received && (
+                <button onClick={() => setShowRelaySettings(!showRelaySettings)} className="text-slate-400 hover:text-slate-600 text-xs">
+                    <i className="fas fa-cog"></i>
+                </button>
+            )}
+        </div>
+
+        {showRelaySettings && mode === 'idle' && (
+            <div className="bg-slate-50 border border-slate-200 rounded-xl p-3 space-y-2">
+                <label className="text-[10px] font-bold text-slate-400 uppercase">{t.peerRelay}</label>
+                <input
+                    value={relayInput}
+                    onChange={e => setRelayInput(e.target.value)}
+                    placeholder="https://relay.example.com"
+                    className="w-full p-2 rounded-lg border border-slate-200 text-xs font-mono"
+                />
+                <p className="text-[10px] text-slate-400">{t.peerRelayHint}</p>
+                <button onClick={handleSaveRelay} className="w-full py-2 bg-slate-800 text-white rounded-lg text-xs font-bold">{t.save}</button>
+            </div>
+        )}
+
+        {received && (
+            <div className="bg-emerald-50 border border-emerald-200 rounded-xl p-3 space-y-2 text-center">
+                <p className="text-xs font-bold text-emerald-800">{t.peerReceivedTitle}</p>
+                <p className="text-[10px] text-emerald-700">
+                    {t.peerReceivedDesc
+                        .replace('{m}', String(Array.isArray(received.matches) ? received.matches.length : 0))
+                        .replace('{p}', String(Array.isArray(received.profiles) ? received.profiles.length : received.profile ? 1 : 0))}
+                </p>
+                <div className="grid grid-cols-2 gap-2">
+                    <button onClick={() => setReceived(null)} className="py-2 bg-white border border-slate-200 text-slate-600 rounded-lg text-xs font-bold">{t.peerDiscard}</button>
+                    <button onClick={handleAcceptReceived} className="py-2 bg-emerald-600 text-white rounded-lg text-xs font-bold">{t.peerImport}</button>
+                </div>
+            </div>
+        )}
+
+        {mode === 'idle' && !received && (
+            <div className="grid grid-cols-2 gap-2">
+                <button onClick={handleHost} className="py-3 bg-emerald-600 text-white rounded-xl font-bold flex flex-col items-center gap-1 text-xs hover:bg-emerald-700 active:scale-95 transition-transform">
+                    <i className="fas fa-qrcode text-xl"></i>
+                    {t.peerShowCode}
+                </button>
+                <button onClick={() => { setMode('join'); setError(''); }} className="py-3 bg-white border-2 border-emerald-200 text-emerald-700 rounded-xl font-bold flex flex-col items-center gap-1 text-xs hover:bg-emerald-50 active:scale-95 transition-transform">
+                    <i className="fas fa-camera text-xl"></i>
+                    {t.peerScanCode}
+                </button>
+            </div>
+        )}
+
+        {mode === 'host' && pairing && (
+            <div className="text-center space-y-2">
+                {qrDataUrl && <img src={qrDataUrl} alt="QR" className="mx-auto w-44 h-44 rounded-lg border border-slate-200" />}
+                <div className="font-mono text-xl font-black tracking-[0.2em] text-slate-800">{formatPairingCode(pairing)}</div>
+                <p className="text-[10px] text-slate-400">{pairing.relay === LOCAL_RELAY ? t.peerLocalRelayHint : t.peerHostHint}</p>
+            </div>
+        )}
+
+        {mode === 'join' && !status && (
+            <div className="space-y-2">
+                {isQrScanSupported() && <QrScanner onDetected={handleJoin} t={t} />}
+                <div className="flex gap-2">
+                    <input
+                        value={codeInput}
+                        onChange={e => setCodeInput(e.target.value)}
+                        placeholder={t.peerCodePlaceholder}
+                        maxLength={15}
+                        className="flex-1 p-2 rounded-lg border border-slate-200 text-sm font-mono uppercase tracking-widest text-center"
+                    />
+                    <button onClick={() => handleJoin(codeInput)} className="px-4 bg-emerald-600 text-white rounded-lg text-xs font-bold">{t.peerConnect}</button>
+                </div>
+            </div>
+        )}
+
+        {status && (
+            <div className="flex items-center justify-center gap-2 text-xs font-bold text-emerald-700 bg-emerald-50 p-2 rounded">
+                {status !== 'done' && <i className="fas fa-circle-notch fa-spin"></i>}
+                {statusLabel(status)}
+            </div>
+        )}
+
+        {mode !== 'idle' && (
+            <button onClick={reset} className="w-full py-2 bg-slate-100 text-slate-600 rounded-xl text-xs font-bold hover:bg-slate-200">{t.cancel}</button>
+        )}
+
+        {error && <div className="text-red-500 text-center text-xs font-bold bg-red-50 p-2 rounded">{error}</div>}
+    </div>
+  );
+};
+
+export default PeerSyncPanel;
@@ -0,0 +1,77 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+
+interface QrScannerProps {
+    onDetected: (text: string) => void;
+    t: any;
+}
+
+// BarcodeDetector is not in the TS DOM lib yet (Chrome/Android, Safari 17+)
+export const isQrScanSupported = (): boolean =>
+    typeof window !== 'undefined' && 'BarcodeDetector' in window && !!navigator.mediaDevices?.getUserMedia;
+
+const SCAN_INTERVAL_MS = 400;
+
+const QrScanner: React.FC<QrScannerProps> = ({ onDetected, t }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraError, setCameraError] = useState(false);
+
+  useEffect(() => {
+      let stream: MediaStream | null = null;
+      let timer: number | undefined;
+      let stopped = false;
+
+      const start = async () => {
+          try {
+              const detector = new (window as any).BarcodeDetector({ formats: ['qr_code'] });
+              stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+              if (stopped || !videoRef.current) {
+                  // Unmounted while the camera was starting; the cleanup has already run
+                  stream.getTracks().forEach(track => track.stop());
+                  return;
+              }
+              videoRef.current.srcObject = stream;
+              await videoRef.current.play();
+
+              const scan = async () => {
+                  if (stopped || !videoRef.current) return;
+                  try {
+                      const codes = await detector.detect(videoRef.current);
+                      if (codes.length > 0 && codes[0].rawValue) {
+                          onDetected(codes[0].rawValue);
+                          return;
+                      }
+                  } catch (e) {
+                      // Frame not ready yet, try again
+                  }
+                  timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+              };
+              scan();
+          } catch (e) {
+              console.error('Camera error', e);
+              setCameraError(true);
+          }
+      };
+
+      start();
+
+      return () => {
+          stopped = true;
+          if (timer) clearTimeout(timer);
+          stream?.getTracks().forEach(track => track.stop());
+      };
+  }, [onDetected]);
+
+  if (cameraError) {
+      return <div className="text-xs text-red-500 font-bold bg-red-50 p-2 rounded text-center">{t.peerCameraError}</div>;
+  }
+
+  return (
+    <div className="relative rounded-xl overflow-hidden bg-black aspect-square">
+        <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+        <div className="absolute inset-8 border-2 border-white/70 rounded-xl pointer-events-none"></div>
+    </div>
+  );
+};
+
+export default QrScanner;
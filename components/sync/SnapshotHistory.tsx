@@ -0,0 +1,123 @@
+
+import React, { useEffect, useState } from 'react';
+import { Snapshot, SnapshotReason, getSnapshots, deleteSnapshots } from '../../services/snapshots';
+import { restoreSnapshot } from '../../services/storage';
+import { formatBackupTime } from './AutoBackupSettings';
+
+interface SnapshotHistoryProps {
+    t: any;
+    language: 'zh' | 'en';
+    onRestored: () => void;
+    onBack: () => void;
+}
+
+const REASON_ICONS: Record<SnapshotReason, string> = {
+    auto: 'fa-clock',
+    import: 'fa-file-import',
+    profileDelete: 'fa-user-times',
+    bulkEdit: 'fa-layer-group',
+    restore: 'fa-undo'
+};
+
+const SnapshotHistory: React.FC<SnapshotHistoryProps> = ({ t, language, onRestored, onBack }) => {
+  const [snapshots, setSnapshots] = useState<Snapshot[] | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const load = () => {
+      getSnapshots()
+          .then(setSnapshots)
+          .catch(e => {
+              console.error('Error loading snapshots', e);
+              setSnapshots([]);
+          });
+  };
+
+  useEffect(load, []);
+
+  const reasonLabel = (reason: SnapshotReason): string => t[`snapshotReason_${reason}` as keyof typeof t] as string;
+
+  const handleRestoreAll = (snapshot: Snapshot) => {
+      if (!window.confirm(t.historyConfirmAll.replace('{time}', formatBackupTime(snapshot.createdAt, language)))) return;
+      restoreSnapshot(snapshot);
+      onRestored();
+  };
+
+  const handleRestoreProfile = (snapshot: Snapshot, profileId: string, name: string) => {
+      if (!window.confirm(t.historyConfirmProfile.replace('{name}', name).replace('{time}', formatBackupTime(snapshot.createdAt, language)))) return;
+      restoreSnapshot(snapshot, profileId);
+      onRestored();
+  };
+
+  const handleDelete = async (snapshot: Snapshot) => {
+      await deleteSnapshots([snapshot.id]);
+      load();
+  };
+
+  return (
+    <div className="space-y-4">
+        <div className="flex items-center gap-2">
+            <button onClick={onBack} className="w-8 h-8 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center hover:bg-slate-200">
+                <i className="fas fa-arrow-left text-xs"></i>
+            </button>
+            <div>
+                <h3 className="font-bold text-slate-800">{t.historyTitle}</h3>
+                <p className="text-[10px] text-slate-400">{t.historyDesc}</p>
+            </div>
+        </div>
+
+        <div className="max-h-96 overflow-y-auto space-y-2">
+            {snapshots === null && <div className="text-center py-6 text-slate-300"><i className="fas fa-circle-notch fa-spin"></i></div>}
+            {snapshots?.length === 0 && <div className="text-center py-6 text-xs text-slate-400">{t.historyEmpty}</div>}
+
+            {snapshots?.map(snapshot => {
+                const expanded = expandedId === snapshot.id;
+                return (
+                    <div key={snapshot.id} className="bg-slate-50 border border-slate-200 rounded-xl p-3">
+                        <button onClick={() => setExpandedId(expanded ? null : snapshot.id)} className="w-full flex items-center gap-3 text-left">
+                            <div className="w-8 h-8 rounded-full bg-white border border-slate-200 text-slate-500 flex items-center justify-center shrink-0">
+                                <i className={`fas ${REASON_ICONS[snapshot.reason] || 'fa-save'} text-xs`}></i>
+                            </div>
+                            <div className="flex-1 min-w-0">
+                                <div className="text-xs font-bold text-slate-700">{formatBackupTime(snapshot.createdAt, language)}</div>
+                                <div className="text-[10px] text-slate-400">{reasonLabel(snapshot.reason)}</div>
+                            </div>
+                            <div className="text-[10px] text-slate-500 font-bold text-right shrink-0 space-x-2">
+                                <span><i className="fas fa-user mr-0.5"></i>{snapshot.counts.profiles}</span>
+                                <span><i className="fas fa-futbol mr-0.5"></i>{snapshot.counts.matches}</span>
+                                <span><i className="fas fa-book mr-0.5"></i>{snapshot.counts.journals}</span>
+                            </div>
+                        </button>
+
+                        {expanded && (
+                            <div className="mt-3 pt-3 border-t border-slate-200 space-y-2">
+                                {snapshot.data.profiles.map(p => {
+                                    const matchCount = snapshot.data.matches.filter(m => m.profileId === p.id).length;
+                                    return (
+                                        <div key={p.id} className="flex items-center gap-2 text-xs">
+                                            <span className="flex-1 truncate font-bold text-slate-600">{p.name}</span>
+                                            <span className="text-[10px] text-slate-400">{t.historyMatches.replace('{n}', String(matchCount))}</span>
+                                            <button onClick={() => handleRestoreProfile(snapshot, p.id, p.name)} className="px-2 py-1 bg-white border border-slate-200 rounded text-[10px] font-bold text-blue-600 hover:bg-blue-50">
+                                                {t.historyRestoreProfile}
+                                            </button>
+                                        </div>
+                                    );
+                                })}
+                                <div className="flex gap-2 pt-1">
+                                    <button onClick={() => handleRestoreAll(snapshot)} className="flex-1 py-2 bg-blue-600 text-white rounded-lg text-xs font-bold hover:bg-blue-700">
+                                        <i className="fas fa-undo mr-1"></i> {t.historyRestoreAll}
+                                    </button>
+                                    <button onClick={() => handleDelete(snapshot)} className="px-3 py-2 bg-white border border-slate-200 text-slate-400 rounded-lg text-xs hover:text-red-500">
+                                        <i className="fas fa-trash"></i>
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
+
+export default SnapshotHistory;
@@ -0,0 +1,145 @@
+
+import React, { useEffect, useState } from 'react';
+import {
+    StorageUsage,
+    StorageEstimate,
+    UsageType,
+    QUOTA_WARNING_RATIO,
+    measureUsage,
+    getStorageEstimate,
+    formatBytes
+} from '../../services/storageHealth';
+import { offloadLargeImages } from '../../services/storage';
+
+interface StorageHealthProps {
+    t: any;
+    onBack: () => void;
+}
+
+const TYPES: { type: UsageType; icon: string }[] = [
+    { type: 'avatars', icon: 'fa-user-circle' },
+    { type: 'logos', icon: 'fa-shield-alt' },
+    { type: 'matches', icon: 'fa-futbol' },
+    { type: 'journals', icon: 'fa-book' },
+    { type: 'history', icon: 'fa-stream' },
+    { type: 'snapshots', icon: 'fa-history' },
+    { type: 'trash', icon: 'fa-trash-restore' }
+];
+
+const StorageHealth: React.FC<StorageHealthProps> = ({ t, onBack }) => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [isOffloading, setIsOffloading] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const load = () => {
+      measureUsage().then(setUsage).catch(e => console.error('Error measuring storage', e));
+      getStorageEstimate().then(setEstimate);
+  };
+
+  useEffect(load, []);
+
+  const typeLabel = (type: UsageType): string => t[`storageType_${type}` as keyof typeof t] as string;
+
+  const handleOffload = async () => {
+      setIsOffloading(true);
+      setMessage('');
+      try {
+          const { count, bytes } = await offloadLargeImages();
+          setMessage(t.storageOffloadDone.replace('{n}', String(count)).replace('{size}', formatBytes(bytes)));
+          load();
+      } catch (e) {
+          console.error('Error offloading images', e);
+          setMessage(t.saveFailedError);
+      }
+      setIsOffloading(false);
+  };
+
+  const maxTypeBytes = usage ? Math.max(1, ...TYPES.map(({ type }) => usage.byType[type])) : 1;
+  const nearlyFull = !!estimate && estimate.ratio >= QUOTA_WARNING_RATIO;
+
+  return (
+    <div className="space-y-4">
+        <div className="flex items-center gap-2">
+            <button onClick={onBack} className="w-8 h-8 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center hover:bg-slate-200">
+                <i className="fas fa-arrow-left text-xs"></i>
+            </button>
+            <div>
+                <h3 className="font-bold text-slate-800">{t.storageTitle}</h3>
+                <p className="text-[10px] text-slate-400">{t.storageDesc}</p>
+            </div>
+        </div>
+
+        {/* Quota */}
+        <div className={`p-3 rounded-xl border ${nearlyFull ? 'bg-red-50 border-red-100' : 'bg-slate-50 border-slate-200'}`}>
+            {estimate ? (
+                <>
+                    <div className="flex justify-between text-xs font-bold text-slate-700 mb-1.5">
+                        <span>{t.storageUsed.replace('{used}', formatBytes(estimate.usage)).replace('{quota}', formatBytes(estimate.quota))}</span>
+                        <span className={nearlyFull ? 'text-red-600' : 'text-slate-500'}>{Math.round(estimate.ratio * 100)}%</span>
+                    </div>
+                    <div className="h-2 bg-white rounded-full overflow-hidden border border-slate-200">
+                        <div className={`h-full ${nearlyFull ? 'bg-red-500' : 'bg-emerald-500'}`} style={{ width: `${Math.min(100, estimate.ratio * 100)}%` }}></div>
+                    </div>
+                    {nearlyFull && <p className="text-[10px] text-red-600 mt-1.5">{t.storageNearlyFull}</p>}
+                </>
+            ) : (
+                <p className="text-[10px] text-slate-500">{t.storageNoEstimate}</p>
+            )}
+        </div>
+
+        {usage === null ? (
+            <div className="text-center py-6 text-slate-300"><i className="fas fa-circle-notch fa-spin"></i></div>
+        ) : (
+            <div className="max-h-80 overflow-y-auto space-y-4">
+                {/* By type */}
+                <div className="space-y-1.5">
+                    <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{t.storageByType}</h4>
+                    {TYPES.map(({ type, icon }) => (
+                        <div key={type} className="flex items-center gap-2 text-xs">
+                            <i className={`fas ${icon} w-4 text-center text-slate-400`}></i>
+                            <span className="w-20 truncate text-slate-600">{typeLabel(type)}</span>
+                            <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                                <div className="h-full bg-blue-400" style={{ width: `${(usage.byType[type] / maxTypeBytes) * 100}%` }}></div>
+                            </div>
+                            <span className="w-16 text-right text-[10px] font-bold text-slate-500">{formatBytes(usage.byType[type])}</span>
+                        </div>
+                    ))}
+                </div>
+
+                {/* By profile */}
+                {usage.byProfile.length > 0 && (
+                    <div className="space-y-1.5">
+                        <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">{t.storageByProfile}</h4>
+                        {usage.byProfile.map(p => (
+                            <div key={p.profileId} className="flex items-center justify-between text-xs bg-slate-50 border border-slate-200 rounded-lg px-2.5 py-1.5">
+                                <span className="font-bold text-slate-700 truncate">{p.name}</span>
+                                <span className="text-[10px] font-bold text-slate-500">{formatBytes(p.bytes)}</span>
+                            </div>
+                        ))}
+                    </div>
+                )}
+
+                {/* Offloading */}
+                <div className="bg-blue-50 border border-blue-100 rounded-xl p-3 space-y-2">
+                    <p className="text-[10px] text-blue-700">{t.storageOffloadDesc}</p>
+                    <button
+                        onClick={handleOffload}
+                        disabled={isOffloading || usage.offloadable.count === 0}
+                        className="w-full py-2 bg-blue-600 text-white rounded-lg text-xs font-bold disabled:opacity-50"
+                    >
+                        {isOffloading
+                            ? <i className="fas fa-circle-notch fa-spin"></i>
+                            : usage.offloadable.count > 0
+                                ? <><i className="fas fa-images mr-1"></i> {t.storageOffload.replace('{n}', String(usage.offloadable.count)).replace('{size}', formatBytes(usage.offloadable.bytes))}</>
+                                : t.storageOffloadNone}
+                    </button>
+                    {message && <p className="text-[10px] font-bold text-blue-700 text-center">{message}</p>}
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
+
+export default StorageHealth;
@@ -0,0 +1,130 @@
+
+import React, { useState } from 'react';
+import {
+    TrashItem,
+    TrashKind,
+    getTrash,
+    restoreFromTrash,
+    deleteFromTrash,
+    getTrashRetentionDays,
+    setTrashRetentionDays
+} from '../../services/storage';
+import { formatBackupTime } from './AutoBackupSettings';
+
+interface TrashBinProps {
+    t: any;
+    language: 'zh' | 'en';
+    onRestored: () => void;
+    onBack: () => void;
+}
+
+const GROUPS: { kind: TrashKind; icon: string }[] = [
+    { kind: 'profile', icon: 'fa-user' },
+    { kind: 'match', icon: 'fa-futbol' },
+    { kind: 'journal', icon: 'fa-book' },
+    { kind: 'teammate', icon: 'fa-user-friends' }
+];
+
+const RETENTION_OPTIONS = [7, 14, 30, 90];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TrashBin: React.FC<TrashBinProps> = ({ t, language, onRestored, onBack }) => {
+  const [items, setItems] = useState<TrashItem[]>(getTrash());
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays());
+  const [error, setError] = useState('');
+
+  const groupLabel = (kind: TrashKind): string => t[`trashGroup_${kind}` as keyof typeof t] as string;
+
+  const daysLeft = (item: TrashItem) => Math.max(0, Math.ceil((item.deletedAt + retentionDays * DAY_MS - Date.now()) / DAY_MS));
+
+  const handleRestore = (item: TrashItem) => {
+      setError('');
+      if (!restoreFromTrash(item.id)) {
+          setError(t.trashRestoreFailed);
+          return;
+      }
+      setItems(getTrash());
+      onRestored();
+  };
+
+  const handleDeleteForever = (item: TrashItem) => {
+      if (!window.confirm(t.trashConfirmDelete)) return;
+      deleteFromTrash([item.id]);
+      setItems(getTrash());
+  };
+
+  const handleEmpty = () => {
+      if (!window.confirm(t.trashConfirmEmpty)) return;
+      deleteFromTrash(items.map(i => i.id));
+      setItems([]);
+  };
+
+  const handleRetentionChange = (days: number) => {
+      setTrashRetentionDays(days);
+      setRetentionDays(days);
+      setItems(getTrash());
+  };
+
+  return (
+    <div className="space-y-4">
+        <div className="flex items-center gap-2">
+            <button onClick={onBack} className="w-8 h-8 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center hover:bg-slate-200">
+                <i className="fas fa-arrow-left text-xs"></i>
+            </button>
+            <div className="flex-1">
+                <h3 className="font-bold text-slate-800">{t.trashTitle}</h3>
+                <p className="text-[10px] text-slate-400">{t.trashDesc}</p>
+            </div>
+            {items.length > 0 && (
+                <button onClick={handleEmpty} className="text-[10px] font-bold text-red-500 hover:underline">{t.trashEmptyAll}</button>
+            )}
+        </div>
+
+        <label className="flex items-center justify-between text-xs bg-slate-50 border border-slate-200 rounded-xl px-3 py-2">
+            <span className="font-bold text-slate-600">{t.trashRetention}</span>
+            <select value={retentionDays} onChange={e => handleRetentionChange(Number(e.target.value))} className="p-1 rounded border border-slate-200 bg-white">
+                {RETENTION_OPTIONS.map(d => <option key={d} value={d}>{t.trashDays.replace('{n}', String(d))}</option>)}
+            </select>
+        </label>
+
+        {error && <div className="text-red-500 text-center text-xs font-bold bg-red-50 p-2 rounded">{error}</div>}
+
+        <div className="max-h-80 overflow-y-auto space-y-4">
+            {items.length === 0 && <div className="text-center py-6 text-xs text-slate-400">{t.trashIsEmpty}</div>}
+
+            {GROUPS.map(({ kind, icon }) => {
+                const groupItems = items.filter(i => i.kind === kind);
+                if (groupItems.length === 0) return null;
+                return (
+                    <div key={kind}>
+                        <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1.5 flex items-center gap-1.5">
+                            <i className={`fas ${icon}`}></i> {groupLabel(kind)} ({groupItems.length})
+                        </h4>
+                        <div className="space-y-1.5">
+                            {groupItems.map(item => (
+                                <div key={item.id} className="flex items-center gap-2 bg-slate-50 border border-slate-200 rounded-lg px-2.5 py-2">
+                                    <div className="flex-1 min-w-0">
+                                        <div className="text-xs font-bold text-slate-700 truncate">{item.label}</div>
+                                        <div className="text-[10px] text-slate-400">
+                                            {formatBackupTime(item.deletedAt, language)} · {t.trashDaysLeft.replace('{n}', String(daysLeft(item)))}
+                                            {item.kind === 'profile' && ` · ${t.historyMatches.replace('{n}', String(item.matches.length))}`}
+                                        </div>
+                                    </div>
+                                    <button onClick={() => handleRestore(item)} className="px-2 py-1 bg-white border border-slate-200 rounded text-[10px] font-bold text-blue-600 hover:bg-blue-50">
+                                        <i className="fas fa-undo mr-1"></i>{t.trashRestore}
+                                    </button>
+                                    <button onClick={() => handleDeleteForever(item)} className="w-7 h-7 flex items-center justify-center text-slate-300 hover:text-red-500">
+                                        <i className="fas fa-trash"></i>
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    </div>
+  );
+};
+
+export default TrashBin;
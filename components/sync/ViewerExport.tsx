@@ -0,0 +1,175 @@
+
+import React, { useState } from 'react';
+import { createRoot } from 'react-dom/client';
+import { MatchData, UserProfile } from '../../types';
+import { LanguageProvider } from '../../context/LanguageContext';
+import MatchTimeline from '../MatchTimeline';
+import AnalyticsDashboard from '../AnalyticsDashboard';
+import { encryptBackup, isBackupEncryptionSupported } from '../../services/backupCrypto';
+import { buildViewerHtml, renderViewerBody, ViewerContent } from '../../services/viewer';
+import { downloadFile } from '../../utils/download';
+
+interface ViewerExportProps {
+    t: any;
+    language: string;
+    profile: UserProfile;
+    matches: MatchData[];
+    minPassphraseLength: number;
+    onBack: () => void;
+}
+
+// Wait for effects (open month groups) and for the Tailwind CDN to generate
+// the classes of the freshly rendered markup
+const RENDER_SETTLE_MS = 600;
+
+// Classes only used by the viewer shell, so their CSS gets generated too
+const SHELL_CLASSES = 'hidden sticky top-0 z-30 bg-white border-b border-slate-200 flex max-w-md mx-auto bg-slate-50 min-h-screen bg-slate-200';
+
+const noop = () => {};
+
+// Renders the real timeline and analytics offscreen and captures their markup
+// plus every style sheet the page currently has
+const renderSnapshot = async (profile: UserProfile, matches: MatchData[], header: React.ReactNode): Promise<{ content: ViewerContent; css: string }> => {
+    const container = document.createElement('div');
+    container.style.cssText = 'position:fixed;left:-10000px;top:0;width:448px;pointer-events:none;';
+    document.body.appendChild(container);
+    const root = createRoot(container);
+
+    try {
+        root.render(
+            <LanguageProvider>
+                <div className={SHELL_CLASSES}></div>
+                <div data-part="header">{header}</div>
+                <div data-part="timeline">
+                    <MatchTimeline
+                        matches={matches}
+                        profile={profile}
+                        readOnly
+                        isSelectionMode={false}
+                        selectedMatchIds={new Set()}
+                        deleteConfirmId={null}
+                        expandedMatchIds={new Set(matches.map(m => m.id))}
+                        onSelectMatch={noop}
+                        onShare={noop}
+                        onEdit={noop}
+                        onTrashClick={noop}
+                        onConfirmDelete={noop}
+                        onCancelDelete={noop}
+                        onToggleExpansion={noop}
+                        onOpenVideo={noop}
+                        onOpponentClick={noop}
+                    />
+                </div>
+                <div data-part="stats">
+                    <AnalyticsDashboard matches={matches} profile={profile} readOnly />
+                </div>
+            </LanguageProvider>
+        );
+        await new Promise(r => setTimeout(r, RENDER_SETTLE_MS));
+
+        const part = (name: string) => container.querySelector(`[data-part="${name}"]`)?.innerHTML || '';
+        const css = Array.from(document.querySelectorAll('style')).map(s => s.textContent || '').join('\n');
+        return { content: { header: part('header'), timeline: part('timeline'), stats: part('stats') }, css };
+    } finally {
+        root.unmount();
+        container.remove();
+    }
+};
+
+const ViewerExport: React.FC<ViewerExportProps> = ({ t, language, profile, matches, minPassphraseLength, onBack }) => {
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirm, setPassphraseConfirm] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const completed = matches.filter(m => m.status !== 'scheduled');
+
+  const handleExport = async () => {
+      setError('');
+      if (encrypt) {
+          if (passphrase.length < minPassphraseLength) {
+              setError(t.passphraseTooShort.replace('{n}', String(minPassphraseLength)));
+              return;
+          }
+          if (passphrase !== passphraseConfirm) {
+              setError(t.passphraseMismatch);
+              return;
+          }
+      }
+
+      setIsWorking(true);
+      try {
+          const header = (
+              <div className="bg-slate-900 text-white p-5 flex items-center gap-4">
+                  {profile.avatar
+                      ? <img src={profile.avatar} alt="" className="w-16 h-16 rounded-full object-cover border-2 border-white/30" />
+                      : <div className="w-16 h-16 rounded-full bg-white/10 flex items-center justify-center text-2xl font-black">{profile.name.charAt(0)}</div>}
+                  <div className="min-w-0">
+                      <div className="text-xl font-black truncate">{profile.name}</div>
+                      <div className="text-xs opacity-70 truncate">{profile.teams.filter(team => !team.isArchived).map(team => team.name).join(' · ')}</div>
+                      <div className="text-[10px] opacity-50 mt-1">{t.viewerUpdated} {new Date().toLocaleDateString(language === 'zh' ? 'zh-HK' : 'en-GB')}</div>
+                  </div>
+              </div>
+          );
+          const { content, css } = await renderSnapshot(profile, matches, header);
+          const labels = {
+              title: t.viewerTitle.replace('{name}', profile.name),
+              matchesTab: t.navMatches,
+              statsTab: t.navStats,
+              passphrase: t.passphrase,
+              unlock: t.viewerUnlock,
+              wrongPassphrase: t.wrongPassphrase
+          };
+          const body = renderViewerBody(content, labels);
+          const payload = encrypt ? { envelope: await encryptBackup({ html: body }, passphrase) } : { body };
+          const html = buildViewerHtml(css, labels, language, payload);
+          downloadFile(html, `${profile.name.replace(/\s+/g, '_')}_Viewer.html`, 'text/html;charset=utf-8');
+      } catch (e) {
+          console.error("Viewer export failed", e);
+          setError(t.viewerFailed);
+      } finally {
+          setIsWorking(false);
+      }
+  };
+
+  return (
+    <div className="space-y-4">
+        <div className="flex items-center gap-2">
+            <button onClick={onBack} className="w-8 h-8 rounded-full bg-slate-100 text-slate-500 flex items-center justify-center hover:bg-slate-200">
+                <i className="fas fa-arrow-left text-xs"></i>
+            </button>
+            <div>
+                <h3 className="font-bold text-slate-800">{t.viewerExport}</h3>
+                <p className="text-[10px] text-slate-400">{t.viewerMatches.replace('{n}', String(completed.length))}</p>
+            </div>
+        </div>
+
+        <p className="text-xs text-slate-500 bg-slate-50 p-3 rounded-xl">{t.viewerDesc}</p>
+
+        {isBackupEncryptionSupported() && (
+            <div className="space-y-2">
+                <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                    <input type="checkbox" checked={encrypt} onChange={e => setEncrypt(e.target.checked)} className="w-4 h-4 accent-blue-600" />
+                    <i className="fas fa-lock text-slate-400 text-xs"></i> {t.viewerEncrypt}
+                </label>
+                {encrypt && (
+                    <>
+                        <input type="password" value={passphrase} onChange={e => setPassphrase(e.target.value)} placeholder={t.passphrase} className="w-full p-3 rounded-xl border border-slate-200 text-sm" />
+                        <input type="password" value={passphraseConfirm} onChange={e => setPassphraseConfirm(e.target.value)} placeholder={t.passphraseConfirm} className="w-full p-3 rounded-xl border border-slate-200 text-sm" />
+                        <p className="text-[10px] text-slate-400">{t.viewerEncryptHint}</p>
+                    </>
+                )}
+            </div>
+        )}
+
+        {error && <div className="text-red-500 text-xs font-bold bg-red-50 p-2 rounded">{error}</div>}
+
+        <button onClick={handleExport} disabled={isWorking || completed.length === 0} className="w-full py-3 bg-blue-600 text-white rounded-xl font-bold disabled:opacity-50 flex items-center justify-center gap-2">
+            {isWorking ? <i className="fas fa-circle-notch fa-spin"></i> : <i className="fas fa-file-code"></i>} {t.viewerDownload}
+        </button>
+    </div>
+  );
+};
+
+export default ViewerExport;
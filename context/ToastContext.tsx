@@ -2,14 +2,20 @@ import React, { createContext, useContext, useState, useCallback, ReactNode } fr
 
 type ToastType = 'success' | 'error' | 'info';
 
+interface ToastAction {
+  label: string;
+  onClick: () => void;
+}
+
 interface Toast {
   id: string;
   message: string;
   type: ToastType;
+  action?: ToastAction;
 }
 
 interface ToastContextType {
-  showToast: (message: string, type?: ToastType) => void;
+  showToast: (message: string, type?: ToastType, action?: ToastAction) => void;
 }
 
 const ToastContext = createContext<ToastContextType | undefined>(undefined);
@@ -17,14 +23,14 @@ const ToastContext = createContext<ToastContextType | undefined>(undefined);
 export const ToastProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [toasts, setToasts] = useState<Toast[]>([]);
 
-  const showToast = useCallback((message: string, type: ToastType = 'success') => {
-    const id = Date.now().toString();
-    setToasts(prev => [...prev, { id, message, type }]);
+  const showToast = useCallback((message: string, type: ToastType = 'success', action?: ToastAction) => {
+    const id = Date.now().toString() + Math.random().toString(36).substr(2, 4);
+    setToasts(prev => [...prev, { id, message, type, action }]);
     
-    // Auto remove after 3 seconds
+    // Auto remove after 3 seconds (6 when there is an action to tap)
     setTimeout(() => {
       setToasts(prev => prev.filter(t => t.id !== id));
-    }, 3000);
+    }, action ? 6000 : 3000);
   }, []);
 
   const removeToast = (id: string) => {
@@ -53,7 +59,15 @@ export const ToastProvider: React.FC<{ children: ReactNode }> = ({ children }) =
               toast.type === 'success' ? 'fa-check-circle' : 
               toast.type === 'error' ? 'fa-exclamation-circle' : 'fa-info-circle'
             }`}></i>
-            <span className="text-sm font-bold">{toast.message}</span>
+            <span className="text-sm font-bold flex-1">{toast.message}</span>
+            {toast.action && (
+              <button
+                onClick={(e) => { e.stopPropagation(); toast.action!.onClick(); removeToast(toast.id); }}
+                className="text-xs font-black uppercase tracking-wide px-2 py-1 rounded-lg bg-white/20 hover:bg-white/30"
+              >
+                {toast.action.label}
+              </button>
+            )}
           </div>
         ))}
       </div>
@@ -0,0 +1,86 @@
+
+// --- Peer Sync Signalling Relay ---
+// Tiny dependency-free relay used by the "Nearby device" sync mode to pass one
+// WebRTC offer and one answer between two phones. It sees the connection details
+// of both devices (including their local addresses) but not the pairing secret
+// the app signs them with, so it cannot swap in its own offer or answer.
+//
+//   PUT /rooms/:room/:kind   store the offer or answer (kind = offer | answer),
+//                            409 when one was already posted for that room
+//   GET /rooms/:room/:kind   200 with the stored body, 204 while not posted yet
+//
+// Run with `npm run relay` (PORT defaults to 8787) and set SYNC_RELAY_URL for
+// the app build, or enter the relay address in the sync screen.
+
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+const ROOM_TTL_MS = 5 * 60 * 1000;
+const MAX_BODY_BYTES = 64 * 1024;
+const KINDS = new Set(['offer', 'answer']);
+
+// room -> { offer?: string, answer?: string, expiresAt: number }
+const rooms = new Map();
+
+const sweepExpired = () => {
+    const now = Date.now();
+    rooms.forEach((room, id) => {
+        if (room.expiresAt < now) rooms.delete(id);
+    });
+};
+
+const send = (res, status, body = '') => {
+    res.writeHead(status, {
+        'Access-Control-Allow-Origin': '*',
+        'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+        'Access-Control-Allow-Headers': 'Content-Type',
+        'Content-Type': 'text/plain; charset=utf-8'
+    });
+    res.end(body);
+};
+
+const server = http.createServer((req, res) => {
+    if (req.method === 'OPTIONS') return send(res, 204);
+
+    const match = /^\/rooms\/([A-Za-z0-9_-]{4,32})\/(offer|answer)$/.exec(req.url || '');
+    if (!match || !KINDS.has(match[2])) return send(res, 404, 'Not found');
+    const [, roomId, kind] = match;
+
+    sweepExpired();
+
+    if (req.method === 'GET') {
+        const value = rooms.get(roomId)?.[kind];
+        return value ? send(res, 200, value) : send(res, 204);
+    }
+
+    if (req.method === 'PUT') {
+        // First writer wins, a later PUT cannot replace the signal
+        if (rooms.get(roomId)?.[kind]) return send(res, 409, 'Already posted');
+        let size = 0;
+        const chunks = [];
+        req.on('data', chunk => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                send(res, 413, 'Too large');
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            if (size > MAX_BODY_BYTES) return;
+            const room = rooms.get(roomId) || { expiresAt: Date.now() + ROOM_TTL_MS };
+            if (room[kind]) return send(res, 409, 'Already posted');
+            room[kind] = Buffer.concat(chunks).toString('utf8');
+            rooms.set(roomId, room);
+            send(res, 204);
+        });
+        return;
+    }
+
+    send(res, 405, 'Method not allowed');
+});
+
+server.listen(PORT, () => {
+    console.log(`Sync relay listening on http://0.0.0.0:${PORT}`);
+});
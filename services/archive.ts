@@ -0,0 +1,207 @@
+
+import { BuiltInStatId, JournalEntry, MatchData, Team, UserProfile } from '../types';
+import { getMatchStatDefinitions } from '../utils/matchStats';
+import type { FullBackupData } from './storage';
+import { isMediaRef } from './media';
+import { createZip, ZipEntry } from './zip';
+import { dataUrlToBytes } from './pdf';
+
+// --- Keepsake Archive ---
+// A zip of plain HTML pages (an index plus one page per season) that opens in
+// any browser without the app. Built from getFullBackupData() so it contains
+// exactly what a backup contains; avatars and team logos are written as image
+// files next to the pages, and the backup itself is included for re-import.
+
+export interface ArchiveLabels {
+    title: string;
+    generatedAt: string;
+    season: string;
+    backToIndex: string;
+    matches: string;
+    goals: string;
+    assists: string;
+    motm: string;
+    win: string;
+    draw: string;
+    loss: string;
+    home: string;
+    away: string;
+    comment: string;
+    interview: string;
+    videos: string;
+    journal: string;
+    matchTypes: Record<MatchData['matchType'], string>;
+    journalCategories: Record<JournalEntry['category'], string>;
+    stats: Record<BuiltInStatId, string>;
+}
+
+const STYLE = `
+body { font-family: -apple-system, "Segoe UI", "PingFang TC", "Microsoft JhengHei", sans-serif; background: #f1f5f9; color: #1e293b; margin: 0; padding: 24px; }
+main { max-width: 760px; margin: 0 auto; }
+a { color: #2563eb; }
+h1 { margin: 0 0 4px; }
+.muted { color: #94a3b8; font-size: 13px; }
+.card { background: #fff; border-radius: 14px; padding: 16px 20px; margin: 16px 0; box-shadow: 0 1px 3px rgba(0,0,0,.08); }
+.profile { display: flex; align-items: center; gap: 16px; }
+.avatar { width: 72px; height: 72px; border-radius: 50%; object-fit: cover; background: #e2e8f0; }
+.crest { width: 28px; height: 28px; border-radius: 50%; object-fit: cover; vertical-align: middle; margin-right: 6px; }
+.teams { margin: 8px 0 0; padding: 0; list-style: none; }
+.teams li { display: inline-block; margin: 4px 12px 0 0; font-weight: 600; }
+table { width: 100%; border-collapse: collapse; font-size: 14px; }
+th, td { text-align: left; padding: 6px 4px; border-bottom: 1px solid #f1f5f9; }
+th { color: #94a3b8; font-size: 12px; text-transform: uppercase; }
+.match h3 { margin: 0; display: flex; justify-content: space-between; }
+.win { color: #059669; } .loss { color: #e11d48; } .draw { color: #64748b; }
+.stats span { display: inline-block; margin-right: 14px; font-weight: 600; }
+blockquote { margin: 8px 0; padding: 8px 12px; background: #f8fafc; border-left: 4px solid #3b82f6; white-space: pre-wrap; }
+blockquote.kid { border-color: #f97316; font-style: italic; }
+.entry { white-space: pre-wrap; }
+`;
+
+const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const page = (title: string, body: string, cssPath: string) =>
+    `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n<meta name="viewport" content="width=device-width, initial-scale=1">\n<title>${escapeHtml(title)}</title>\n<link rel="stylesheet" href="${cssPath}">\n</head>\n<body>\n<main>\n${body}\n</main>\n</body>\n</html>\n`;
+
+const EXTENSIONS: Record<string, string> = { 'image/jpeg': 'jpg', 'image/png': 'png', 'image/webp': 'webp', 'image/gif': 'gif' };
+
+const seasonOf = (date: string) => date.slice(0, 4);
+
+const resultClass = (m: MatchData) => m.scoreMyTeam > m.scoreOpponent ? 'win' : m.scoreMyTeam < m.scoreOpponent ? 'loss' : 'draw';
+
+const isWebLink = (url: string) => /^https?:\/\//i.test(url);
+
+export const buildKeepsakeArchive = (data: FullBackupData, labels: ArchiveLabels): Blob => {
+    const files: ZipEntry[] = [];
+    const images = new Map<string, string>(); // Image key → path inside the zip
+
+    // Images may be inline data URLs or references into data.media
+    const addImage = (key: string, value: string | null | undefined): string | null => {
+        const dataUrl = isMediaRef(value) ? data.media?.[value.slice(value.indexOf(':') + 1)] : value;
+        if (!dataUrl || !dataUrl.startsWith('data:')) return null;
+        if (!images.has(key)) {
+            const mime = dataUrl.slice(5, dataUrl.indexOf(';'));
+            const path = `images/${key}.${EXTENSIONS[mime] || 'img'}`;
+            files.push({ path, data: dataUrlToBytes(dataUrl) });
+            images.set(key, path);
+        }
+        return images.get(key)!;
+    };
+
+    const matches = data.matches
+        .filter(m => m.status !== 'scheduled')
+        .sort((a, b) => a.date.localeCompare(b.date));
+    const journals = [...data.journals].sort((a, b) => a.date.localeCompare(b.date));
+    const seasons = [...matches.map(m => seasonOf(m.date)), ...journals.map(j => seasonOf(j.date))]
+        .filter((s, i, arr) => /^\d{4}$/.test(s) && arr.indexOf(s) === i)
+        .sort()
+        .reverse();
+
+    const findTeam = (profile: UserProfile | undefined, teamId: string): Team | undefined => profile?.teams.find(t => t.id === teamId);
+
+    const crest = (team: Team | undefined, prefix: string) => {
+        const path = team ? addImage(`logo-${team.id}`, team.logo) : null;
+        return path ? `<img class="crest" src="${prefix}${path}" alt="">` : '';
+    };
+
+    const summarise = (list: MatchData[]) => {
+        const total = list.length;
+        const rating = total > 0 ? (list.reduce((acc, m) => acc + (m.rating || 0), 0) / total).toFixed(1) : '–';
+        return `<span>${labels.matches} ${total}</span>`
+            + `<span>${labels.win} ${list.filter(m => resultClass(m) === 'win').length} · ${labels.draw} ${list.filter(m => resultClass(m) === 'draw').length} · ${labels.loss} ${list.filter(m => resultClass(m) === 'loss').length}</span>`
+            + `<span>⚽ ${list.reduce((acc, m) => acc + m.arthurGoals, 0)}</span>`
+            + `<span>👟 ${list.reduce((acc, m) => acc + m.arthurAssists, 0)}</span>`
+            + `<span>★ ${rating}</span>`;
+    };
+
+    const scorerNames = (m: MatchData, profile: UserProfile | undefined) => {
+        const roster = findTeam(profile, m.teamId)?.roster || [];
+        return m.scorers
+            .map(s => {
+                const name = roster.find(p => p.id === s.teammateId)?.name || s.guestName;
+                return name ? `${escapeHtml(name)}${s.count > 1 ? ` ×${s.count}` : ''}` : '';
+            })
+            .filter(Boolean)
+            .join(', ');
+    };
+
+    const statLine = (m: MatchData, profile: UserProfile | undefined) => profile
+        ? getMatchStatDefinitions(m, profile)
+            .filter(d => m.stats?.[d.id] !== undefined)
+            .map(d => `<span>${escapeHtml(d.name ?? labels.stats[d.id as BuiltInStatId])} ${m.stats![d.id]}</span>`)
+            .join('')
+        : '';
+
+    const renderMatch = (m: MatchData, profile: UserProfile | undefined) => {
+        const team = findTeam(profile, m.teamId);
+        const linked = journals.filter(j => j.linkedMatchId === m.id);
+        const videos = m.videos.filter(v => isWebLink(v.url));
+        const scorers = scorerNames(m, profile);
+        const stats = statLine(m, profile);
+        return `<div class="card match" id="match-${escapeHtml(m.id)}">
+<h3><span>${crest(team, '../')}${escapeHtml(team?.name || '')} vs ${escapeHtml(m.opponent)}</span><span class="${resultClass(m)}">${m.scoreMyTeam} - ${m.scoreOpponent}</span></h3>
+<div class="muted">${m.date}${m.matchTime ? ` ${m.matchTime}` : ''} · ${m.isHome ? labels.home : labels.away} · ${labels.matchTypes[m.matchType || 'league']}${m.location ? ` · ${escapeHtml(m.location)}` : ''}${m.matchFormat ? ` · ${m.matchFormat}` : ''}</div>
+<p class="stats"><span>⚽ ${m.arthurGoals}</span><span>👟 ${m.arthurAssists}</span><span>★ ${m.rating || '–'}</span>${m.isMotm ? `<span>🏅 ${labels.motm}</span>` : ''}</p>
+${stats ? `<p class="stats muted">${stats}</p>` : ''}
+${scorers ? `<p class="muted">${scorers}</p>` : ''}
+${m.dadComment?.trim() ? `<div class="muted">${labels.comment}</div><blockquote>${escapeHtml(m.dadComment.trim())}</blockquote>` : ''}
+${m.kidInterview?.trim() ? `<div class="muted">${labels.interview}</div><blockquote class="kid">${escapeHtml(m.kidInterview.trim())}</blockquote>` : ''}
+${videos.length > 0 ? `<div class="muted">${labels.videos}</div><ul>${videos.map(v => `<li><a href="${escapeHtml(v.url)}">${escapeHtml(v.note || v.url)}</a></li>`).join('')}</ul>` : ''}
+${linked.map(j => `<div class="muted">${labels.journal}</div><blockquote class="entry">${escapeHtml(j.content)}</blockquote>`).join('')}
+</div>`;
+    };
+
+    // --- Season pages ---
+    seasons.forEach(season => {
+        const seasonMatches = matches.filter(m => seasonOf(m.date) === season);
+        const linkedIds = seasonMatches.map(m => m.id);
+        // Entries linked to a match are already shown on that match
+        const seasonJournals = journals.filter(j => seasonOf(j.date) === season && !(j.linkedMatchId && linkedIds.includes(j.linkedMatchId)));
+
+        const sections = data.profiles
+            .map(profile => {
+                const list = seasonMatches.filter(m => m.profileId === profile.id);
+                if (list.length === 0) return '';
+                return `<h2>${escapeHtml(profile.name)}</h2>\n<div class="card stats">${summarise(list)}</div>\n${list.map(m => renderMatch(m, profile)).join('\n')}`;
+            })
+            .join('\n');
+
+        const journalSection = seasonJournals.length === 0 ? '' : `<h2>${labels.journal}</h2>\n${seasonJournals.map(j =>
+            `<div class="card"><div class="muted">${j.date} · ${labels.journalCategories[j.category] || j.category}${j.linkedMatchName ? ` · ${escapeHtml(j.linkedMatchName)}` : ''}</div><p class="entry">${escapeHtml(j.content)}</p></div>`
+        ).join('\n')}`;
+
+        const body = `<p><a href="../index.html">← ${labels.backToIndex}</a></p>\n<h1>${labels.season} ${season}</h1>\n${sections}\n${journalSection}`;
+        files.push({ path: `seasons/${season}.html`, data: page(`${labels.title} · ${season}`, body, '../style.css') });
+    });
+
+    // --- Index ---
+    const profileCards = data.profiles.map(profile => {
+        const avatar = addImage(`avatar-${profile.id}`, profile.avatar);
+        const list = matches.filter(m => m.profileId === profile.id);
+        const rows = seasons
+            .map(season => {
+                const seasonList = list.filter(m => seasonOf(m.date) === season);
+                if (seasonList.length === 0) return '';
+                return `<tr><td><a href="seasons/${season}.html">${season}</a></td><td>${seasonList.length}</td><td>${seasonList.reduce((acc, m) => acc + m.arthurGoals, 0)}</td><td>${seasonList.reduce((acc, m) => acc + m.arthurAssists, 0)}</td></tr>`;
+            })
+            .join('');
+        return `<div class="card">
+<div class="profile">${avatar ? `<img class="avatar" src="${avatar}" alt="">` : '<div class="avatar"></div>'}<div><h2 style="margin:0">${escapeHtml(profile.name)}</h2><ul class="teams">${profile.teams.map(team => `<li>${crest(team, '')}${escapeHtml(team.name)}${team.jerseyNumber ? ` #${escapeHtml(team.jerseyNumber)}` : ''}</li>`).join('')}</ul></div></div>
+<p class="stats">${summarise(list)}</p>
+${rows ? `<table><thead><tr><th>${labels.season}</th><th>${labels.matches}</th><th>${labels.goals}</th><th>${labels.assists}</th></tr></thead><tbody>${rows}</tbody></table>` : ''}
+</div>`;
+    }).join('\n');
+
+    const seasonLinks = seasons.map(season => `<a href="seasons/${season}.html">${season}</a>`).join(' · ');
+    const indexBody = `<h1>${escapeHtml(labels.title)}</h1>\n<p class="muted">${labels.generatedAt} ${new Date().toLocaleString()}</p>\n${seasonLinks ? `<p>${seasonLinks}</p>` : ''}\n${profileCards}`;
+
+    files.push({ path: 'index.html', data: page(labels.title, indexBody, 'style.css') });
+    files.push({ path: 'style.css', data: STYLE.trimStart() });
+    files.push({ path: 'backup.json', data: JSON.stringify(data) });
+
+    return createZip(files);
+};
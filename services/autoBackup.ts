@@ -0,0 +1,204 @@
+
+import { getMetaValue, setMetaValue } from './db';
+import { getFullBackupData, getChangeCount, subscribeToChanges, updateLastBackupDate } from './storage';
+import { saveSnapshot } from './snapshots';
+
+// --- Automatic Backups ---
+// After every N tracked changes, or once a day, writes a full backup into a
+// folder chosen with the File System Access API and keeps the newest K files.
+// Browsers without that API (or without folder permission after a restart)
+// get a local snapshot instead.
+
+export interface AutoBackupSettings {
+    enabled: boolean;
+    everyChanges: number;
+    daily: boolean;
+    keep: number;
+}
+
+export interface LastAutoBackup {
+    timestamp: number;
+    target: 'folder' | 'snapshot';
+    changeCount: number;
+    fileName?: string;
+}
+
+export interface BackupFolderInfo {
+    name: string;
+    permission: 'granted' | 'denied' | 'prompt';
+}
+
+const SETTINGS_KEY = 'arthur_auto_backup_settings';
+const LAST_AUTO_BACKUP_KEY = 'arthur_last_auto_backup';
+const FOLDER_HANDLE_KEY = 'autoBackupFolder';
+const FILE_PREFIX = 'football_diary_auto_';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEBOUNCE_MS = 5000;
+
+export const DEFAULT_AUTO_BACKUP_SETTINGS: AutoBackupSettings = {
+    enabled: true,
+    everyChanges: 20,
+    daily: true,
+    keep: 7
+};
+
+// --- Settings ---
+
+export const getAutoBackupSettings = (): AutoBackupSettings => {
+    try {
+        const stored = localStorage.getItem(SETTINGS_KEY);
+        return stored ? { ...DEFAULT_AUTO_BACKUP_SETTINGS, ...JSON.parse(stored) } : DEFAULT_AUTO_BACKUP_SETTINGS;
+    } catch (e) {
+        console.error('Error reading auto backup settings', e);
+        return DEFAULT_AUTO_BACKUP_SETTINGS;
+    }
+};
+
+export const saveAutoBackupSettings = (settings: AutoBackupSettings): void => {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+export const getLastAutoBackup = (): LastAutoBackup | null => {
+    try {
+        const stored = localStorage.getItem(LAST_AUTO_BACKUP_KEY);
+        return stored ? JSON.parse(stored) : null;
+    } catch (e) {
+        return null;
+    }
+};
+
+// --- Backup folder (File System Access API, not in the TS DOM lib yet) ---
+
+export const isFolderBackupSupported = (): boolean => typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+
+const getFolderHandle = async (): Promise<any | null> => {
+    try {
+        return (await getMetaValue<any>(FOLDER_HANDLE_KEY)) || null;
+    } catch (e) {
+        console.error('Error reading backup folder', e);
+        return null;
+    }
+};
+
+export const getBackupFolder = async (): Promise<BackupFolderInfo | null> => {
+    const handle = await getFolderHandle();
+    if (!handle) return null;
+    const permission = await handle.queryPermission({ mode: 'readwrite' });
+    return { name: handle.name, permission };
+};
+
+// Must be called from a click handler (user gesture)
+export const chooseBackupFolder = async (): Promise<BackupFolderInfo | null> => {
+    try {
+        const handle = await (window as any).showDirectoryPicker({ id: 'football-diary-backups', mode: 'readwrite' });
+        await setMetaValue(FOLDER_HANDLE_KEY, handle);
+        return { name: handle.name, permission: 'granted' };
+    } catch (e: any) {
+        if (e?.name !== 'AbortError') console.error('Error choosing backup folder', e);
+        return null;
+    }
+};
+
+// Browsers forget the permission on restart; asking again needs a user gesture
+export const reconnectBackupFolder = async (): Promise<BackupFolderInfo | null> => {
+    const handle = await getFolderHandle();
+    if (!handle) return null;
+    const permission = await handle.requestPermission({ mode: 'readwrite' });
+    return { name: handle.name, permission };
+};
+
+export const forgetBackupFolder = (): Promise<void> => setMetaValue(FOLDER_HANDLE_KEY, null);
+
+const timestampForFile = (date: Date) => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}_${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+};
+
+const writeToFolder = async (handle: any, json: string, keep: number): Promise<string> => {
+    const fileName = `${FILE_PREFIX}${timestampForFile(new Date())}.json`;
+    const fileHandle = await handle.getFileHandle(fileName, { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.write(json);
+    await writable.close();
+
+    // Rotate: names sort chronologically, only our own files are touched
+    const ours: string[] = [];
+    for await (const [name, entry] of handle.entries()) {
+        if (entry.kind === 'file' && name.startsWith(FILE_PREFIX) && name.endsWith('.json')) ours.push(name);
+    }
+    const stale = ours.sort().reverse().slice(keep);
+    for (const name of stale) await handle.removeEntry(name);
+
+    return fileName;
+};
+
+// --- Scheduling ---
+
+export const isAutoBackupDue = (settings = getAutoBackupSettings()): boolean => {
+    if (!settings.enabled) return false;
+    const last = getLastAutoBackup();
+    const changesSince = getChangeCount() - (last?.changeCount ?? 0);
+    if (changesSince <= 0) return false; // Nothing new to save
+    if (!last) return true;
+    if (settings.everyChanges > 0 && changesSince >= settings.everyChanges) return true;
+    return settings.daily && Date.now() - last.timestamp >= DAY_MS;
+};
+
+let running: Promise<LastAutoBackup | null> | null = null;
+
+export const runAutoBackup = (): Promise<LastAutoBackup | null> => {
+    if (running) return running;
+
+    running = (async () => {
+        const settings = getAutoBackupSettings();
+        const changeCount = getChangeCount();
+        const data = getFullBackupData();
+        let result: LastAutoBackup | null = null;
+
+        try {
+            const handle = isFolderBackupSupported() ? await getFolderHandle() : null;
+            if (handle && (await handle.queryPermission({ mode: 'readwrite' })) === 'granted') {
+                const fileName = await writeToFolder(handle, JSON.stringify(data, null, 2), settings.keep);
+                result = { timestamp: Date.now(), target: 'folder', changeCount, fileName };
+            }
+        } catch (e) {
+            console.error('Automatic folder backup failed, keeping a local snapshot instead', e);
+        }
+
+        try {
+            if (!result) {
+                await saveSnapshot('auto', data, settings.keep);
+                result = { timestamp: Date.now(), target: 'snapshot', changeCount };
+            }
+            localStorage.setItem(LAST_AUTO_BACKUP_KEY, JSON.stringify(result));
+            // Snapshots stay on this device, so only a file in the folder resets the backup reminder
+            if (result.target === 'folder') updateLastBackupDate();
+        } catch (e) {
+            console.error('Automatic backup failed', e);
+        }
+        return result;
+    })().finally(() => { running = null; });
+
+    return running;
+};
+
+// Checks once now and again (debounced) after every change. Returns a stop function.
+export const startAutoBackup = (onBackup?: (backup: LastAutoBackup) => void): (() => void) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const check = () => {
+        if (!isAutoBackupDue()) return;
+        runAutoBackup().then(result => { if (result && onBackup) onBackup(result); });
+    };
+    const schedule = () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(check, DEBOUNCE_MS);
+    };
+
+    schedule();
+    const unsubscribe = subscribeToChanges(schedule);
+    return () => {
+        if (timer) clearTimeout(timer);
+        unsubscribe();
+    };
+};
@@ -0,0 +1,78 @@
+
+// --- Passphrase-encrypted Backups ---
+// Wraps a backup object in an envelope: AES-GCM (authenticated) with a key
+// derived from the passphrase by PBKDF2. Salt and IV are random per file.
+
+export const ENCRYPTED_BACKUP_TYPE = 'arthur_encrypted_backup_v1';
+export const WRONG_PASSPHRASE = 'wrong_passphrase';
+
+const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedBackup {
+    type: typeof ENCRYPTED_BACKUP_TYPE;
+    kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+    cipher: { name: 'AES-GCM'; iv: string };
+    data: string; // base64 ciphertext of the JSON backup
+}
+
+export const isEncryptedBackup = (data: any): data is EncryptedBackup => {
+    return !!data && data.type === ENCRYPTED_BACKUP_TYPE && typeof data.data === 'string';
+};
+
+export const isBackupEncryptionSupported = (): boolean => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+// Chunked so large backups (photos) don't overflow the call stack
+const toBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => {
+    const binary = atob(text);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt']
+    );
+};
+
+export const encryptBackup = async (backup: unknown, passphrase: string): Promise<EncryptedBackup> => {
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const plaintext = new TextEncoder().encode(JSON.stringify(backup));
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+
+    return {
+        type: ENCRYPTED_BACKUP_TYPE,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+        cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+        data: toBase64(new Uint8Array(ciphertext))
+    };
+};
+
+// Throws Error(WRONG_PASSPHRASE) when authentication fails (wrong passphrase or tampered file)
+export const decryptBackup = async (envelope: EncryptedBackup, passphrase: string): Promise<any> => {
+    const key = await deriveKey(passphrase, fromBase64(envelope.kdf.salt), envelope.kdf.iterations);
+    let plaintext: ArrayBuffer;
+    try {
+        plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(envelope.cipher.iv) }, key, fromBase64(envelope.data));
+    } catch (e) {
+        throw new Error(WRONG_PASSPHRASE);
+    }
+    return JSON.parse(new TextDecoder().decode(plaintext));
+};
@@ -0,0 +1,235 @@
+
+// --- Change Log & Three-way Merge ---
+// Every mutation in storage.ts appends an entry here. Two devices that sync
+// exchange their logs; the entries both sides already share are the common
+// ancestor, so replaying the union of both logs merges them without a
+// last-write-wins overwrite: edits to different fields both survive and a
+// delete (tombstone) is never undone by a stale copy of the record.
+
+export type ChangeStore = 'profiles' | 'matches' | 'journals';
+
+export interface ChangeEntry {
+    id: string;
+    deviceId: string;
+    timestamp: number;
+    store: ChangeStore;
+    recordId: string;
+    op: 'put' | 'delete';
+    // 'put' only: changed top-level fields and their new values
+    fields?: Record<string, unknown>;
+    // 'put' only: fields removed from the record
+    unset?: string[];
+    // 'put' only: `fields` is the complete record (creation or baseline)
+    full?: boolean;
+}
+
+export interface ChangeLogMergeResult {
+    // Entries that were only in the incoming log
+    added: ChangeEntry[];
+    // Records whose merged state must be re-applied locally (null = deleted)
+    records: { store: ChangeStore; recordId: string; record: any | null }[];
+}
+
+const DEVICE_ID_KEY = 'arthur_device_id';
+
+let deviceId: string | null = null;
+let lastTimestamp = 0;
+let entryCounter = 0;
+
+export const getDeviceId = (): string => {
+    if (deviceId) return deviceId;
+    try {
+        deviceId = localStorage.getItem(DEVICE_ID_KEY);
+        if (!deviceId) {
+            deviceId = 'dev_' + Date.now().toString(36) + Math.random().toString(36).substr(2, 8);
+            localStorage.setItem(DEVICE_ID_KEY, deviceId);
+        }
+    } catch (e) {
+        console.error('Error reading device id', e);
+        deviceId = 'dev_' + Math.random().toString(36).substr(2, 8);
+    }
+    return deviceId;
+};
+
+// Strictly increasing per device so two edits in the same millisecond keep their order
+const nextTimestamp = (): number => {
+    lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+    return lastTimestamp;
+};
+
+const createEntry = (store: ChangeStore, recordId: string, op: ChangeEntry['op'], timestamp = nextTimestamp()): ChangeEntry => {
+    entryCounter += 1;
+    return {
+        id: `${getDeviceId()}:${timestamp.toString(36)}:${entryCounter}`,
+        deviceId: getDeviceId(),
+        timestamp,
+        store,
+        recordId,
+        op
+    };
+};
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+// Returns null when nothing changed
+export const createPutEntry = (store: ChangeStore, previous: any | undefined, next: any): ChangeEntry | null => {
+    if (!previous) {
+        return { ...createEntry(store, next.id, 'put'), fields: { ...next }, full: true };
+    }
+
+    const fields: Record<string, unknown> = {};
+    Object.keys(next).forEach(key => {
+        if (next[key] !== undefined && !sameValue(previous[key], next[key])) fields[key] = next[key];
+    });
+    const unset = Object.keys(previous).filter(key => previous[key] !== undefined && next[key] === undefined);
+
+    if (Object.keys(fields).length === 0 && unset.length === 0) return null;
+
+    const entry: ChangeEntry = { ...createEntry(store, next.id, 'put'), fields };
+    if (unset.length > 0) entry.unset = unset;
+    return entry;
+};
+
+export const createDeleteEntry = (store: ChangeStore, recordId: string): ChangeEntry => createEntry(store, recordId, 'delete');
+
+// Seeds the log with records that existed before change tracking started.
+// Their own updatedAt is used so any tracked edit is ordered after them.
+export const createBaselineEntry = (store: ChangeStore, record: any): ChangeEntry => {
+    return { ...createEntry(store, record.id, 'put', record.updatedAt || 0), fields: { ...record }, full: true };
+};
+
+export const isChangeEntry = (value: any): value is ChangeEntry => {
+    return !!value
+        && typeof value.id === 'string'
+        && typeof value.deviceId === 'string'
+        && typeof value.timestamp === 'number'
+        && ['profiles', 'matches', 'journals'].includes(value.store)
+        && typeof value.recordId === 'string'
+        && (value.op === 'delete' || (value.op === 'put' && !!value.fields && typeof value.fields === 'object'));
+};
+
+// Total order shared by every device: timestamp, then device, then entry id
+export const compareEntries = (a: ChangeEntry, b: ChangeEntry): number => {
+    if (a.timestamp !== b.timestamp) return a.timestamp - b.timestamp;
+    if (a.deviceId !== b.deviceId) return a.deviceId < b.deviceId ? -1 : 1;
+    return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+};
+
+const recordKey = (store: ChangeStore, recordId: string) => `${store}:${recordId}`;
+
+// Folds the entries of one record into its current state (null = deleted or unknown).
+// A tombstone ignores later field edits; only a full put (re-creation) revives the record.
+export const replayRecord = (entries: ChangeEntry[]): any | null => {
+    let record: any | null = null;
+    let deleted = false;
+
+    [...entries].sort(compareEntries).forEach(entry => {
+        if (entry.op === 'delete') {
+            record = null;
+            deleted = true;
+            return;
+        }
+        if (entry.full) {
+            record = { ...entry.fields };
+            deleted = false;
+            return;
+        }
+        if (deleted) return;
+        record = { ...(record || { id: entry.recordId }), ...entry.fields };
+        (entry.unset || []).forEach(key => delete record[key]);
+    });
+
+    return record;
+};
+
+// Latest tombstone time per record id, for records still deleted (not re-created since)
+export const collectTombstones = (entries: ChangeEntry[], store: ChangeStore): Map<string, number> => {
+    const tombstones = new Map<string, number>();
+    entries
+        .filter(e => e.store === store)
+        .sort(compareEntries)
+        .forEach(e => {
+            if (e.op === 'delete') tombstones.set(e.recordId, e.timestamp);
+            else if (e.full) tombstones.delete(e.recordId);
+        });
+    return tombstones;
+};
+
+// Deterministic: both devices end up with the same records whatever the sync direction
+export const mergeChangeLogs = (localLog: ChangeEntry[], incomingLog: unknown[]): ChangeLogMergeResult => {
+    const knownIds = new Set(localLog.map(e => e.id));
+    const added = incomingLog.filter(isChangeEntry).filter(e => {
+        if (knownIds.has(e.id)) return false;
+        knownIds.add(e.id);
+        return true;
+    });
+
+    const touched = new Map<string, { store: ChangeStore; recordId: string }>();
+    added.forEach(e => touched.set(recordKey(e.store, e.recordId), { store: e.store, recordId: e.recordId }));
+
+    const byRecord = new Map<string, ChangeEntry[]>();
+    [...localLog, ...added].forEach(e => {
+        const key = recordKey(e.store, e.recordId);
+        if (!touched.has(key)) return;
+        const list = byRecord.get(key) || [];
+        list.push(e);
+        byRecord.set(key, list);
+    });
+
+    const records = Array.from(touched.entries()).map(([key, { store, recordId }]) => ({
+        store,
+        recordId,
+        record: replayRecord(byRecord.get(key) || [])
+    }));
+
+    return { added, records };
+};
+
+const COMPACTED_SUFFIX = '#compact';
+
+export interface ChangeLogCompaction {
+    entries: ChangeEntry[];
+    removed: ChangeEntry[];
+    added: ChangeEntry[];
+}
+
+// Folds each record's history from before `before` into one entry: the last
+// tombstone of a deleted record, otherwise a full put of its state at that time.
+// The folded entry takes the place and timestamp of the last entry it replaces and
+// its id is derived from that entry's, so devices compacting the same history
+// produce the same entry. History that old is assumed to be shared by every device.
+export const compactChangeLog = (entries: ChangeEntry[], before: number): ChangeLogCompaction => {
+    const byRecord = new Map<string, ChangeEntry[]>();
+    entries.filter(e => e.timestamp < before).forEach(e => {
+        const key = recordKey(e.store, e.recordId);
+        byRecord.set(key, [...(byRecord.get(key) || []), e]);
+    });
+
+    const removed: ChangeEntry[] = [];
+    const added: ChangeEntry[] = [];
+    byRecord.forEach(group => {
+        if (group.length < 2) return;
+        const sorted = [...group].sort(compareEntries);
+        const last = sorted[sorted.length - 1];
+        const state = replayRecord(sorted);
+
+        let folded: ChangeEntry | undefined;
+        if (state) {
+            const id = last.id.endsWith(COMPACTED_SUFFIX) ? last.id : last.id + COMPACTED_SUFFIX;
+            folded = { id, deviceId: last.deviceId, timestamp: last.timestamp, store: last.store, recordId: last.recordId, op: 'put', fields: state, full: true };
+        } else {
+            folded = [...sorted].reverse().find(e => e.op === 'delete');
+        }
+        // Edits to a record this device never had in full are left as they are
+        if (!folded) return;
+
+        removed.push(...sorted.filter(e => e.id !== folded!.id));
+        if (!sorted.some(e => e.id === folded!.id)) added.push(folded);
+    });
+
+    const removedIds = new Set(removed.map(e => e.id));
+    return { entries: [...entries.filter(e => !removedIds.has(e.id)), ...added], removed, added };
+};
+
+// Compaction entries only restate history, they are not edits of their own
+export const isCompactedEntry = (entry: ChangeEntry): boolean => entry.id.endsWith(COMPACTED_SUFFIX);
@@ -0,0 +1,296 @@
+
+import { MatchData, UserProfile, Team, MatchType, PitchType, WeatherType, MatchFormat, BuiltInStatId } from '../types';
+import { getProfileStatDefinitions } from '../utils/matchStats';
+
+// --- CSV Export / Import ---
+// Matches flattened to one row each for spreadsheets. Columns use fixed
+// English headers so an exported file maps itself on re-import; other files
+// go through the column mapping in CsvImportWizard.
+
+export type CsvField =
+    | 'date' | 'team' | 'opponent' | 'homeAway' | 'matchType' | 'location'
+    | 'score' | 'scoreMyTeam' | 'scoreOpponent' | 'goals' | 'assists' | 'rating' | 'motm'
+    | 'positions' | 'pitch' | 'weather' | 'format' | 'scorers' | 'comment';
+
+export type CsvDateFormat = 'YMD' | 'DMY' | 'MDY';
+
+export type CsvMapping = (CsvField | null)[]; // One entry per column, null = ignored
+
+export interface CsvRowError {
+    row: number; // 1-based data row
+    reason: 'date' | 'opponent';
+}
+
+export type CsvMatch = Omit<MatchData, 'id'>;
+
+// Export order; `score` stands in for scoreMyTeam/scoreOpponent
+export const CSV_EXPORT_FIELDS: CsvField[] = [
+    'date', 'team', 'opponent', 'homeAway', 'matchType', 'location', 'score', 'goals', 'assists',
+    'rating', 'motm', 'positions', 'pitch', 'weather', 'format', 'scorers', 'comment'
+];
+
+export const CSV_IMPORT_FIELDS: CsvField[] = [...CSV_EXPORT_FIELDS.slice(0, 7), 'scoreMyTeam', 'scoreOpponent', ...CSV_EXPORT_FIELDS.slice(7)];
+
+const HEADERS: Record<CsvField, string> = {
+    date: 'Date', team: 'Team', opponent: 'Opponent', homeAway: 'Home/Away', matchType: 'Type', location: 'Location',
+    score: 'Score', scoreMyTeam: 'Goals For', scoreOpponent: 'Goals Against', goals: 'Goals', assists: 'Assists',
+    rating: 'Rating', motm: 'MOTM', positions: 'Positions', pitch: 'Pitch', weather: 'Weather', format: 'Format',
+    scorers: 'Scorers', comment: 'Comment'
+};
+
+// Per-match stats follow the fixed columns, one per stat recorded in any exported match
+const STAT_HEADERS: Record<BuiltInStatId, string> = {
+    shots: 'Shots', shotsOnTarget: 'Shots on Target', tackles: 'Tackles', interceptions: 'Interceptions',
+    dribbles: 'Dribbles', keyPasses: 'Key Passes'
+};
+
+// Extra header spellings recognised when guessing the mapping (lower case)
+const ALIASES: Partial<Record<CsvField, string[]>> = {
+    date: ['日期', 'match date', 'day'],
+    team: ['球隊', 'my team', 'club'],
+    opponent: ['對手', 'opposition', 'vs', 'against'],
+    homeAway: ['主客', 'home', 'venue type'],
+    matchType: ['類型', 'competition', 'match type'],
+    location: ['地點', 'venue', 'ground', 'pitch location'],
+    score: ['比分', 'result'],
+    scoreMyTeam: ['for', 'gf', 'our score'],
+    scoreOpponent: ['ga', 'their score', 'opponent score'],
+    goals: ['入球', 'my goals'],
+    assists: ['助攻', 'my assists'],
+    rating: ['評分', 'mark'],
+    motm: ['最佳球員', 'man of the match', 'potm'],
+    positions: ['位置', 'position'],
+    pitch: ['場地', 'surface', 'pitch type'],
+    weather: ['天氣'],
+    format: ['賽制', 'match format'],
+    scorers: ['入球者', 'goalscorers', 'team scorers'],
+    comment: ['評語', 'notes', 'note', 'comments']
+};
+
+const MATCH_TYPES: MatchType[] = ['league', 'cup', 'friendly'];
+const PITCH_TYPES: PitchType[] = ['turf', 'artificial', 'hard', 'indoor', 'other'];
+const WEATHER_TYPES: WeatherType[] = ['sunny', 'rain', 'cloudy', 'night', 'hot', 'windy'];
+const MATCH_FORMATS: MatchFormat[] = ['5v5', '6v6', '7v7', '8v8', '9v9', '11v11', 'other'];
+
+const LIST_SEPARATOR = ', ';
+const SCORER_MARK = '×';
+
+// --- Writing ---
+
+const escapeCell = (value: string): string =>
+    /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (rows: string[][]): string =>
+    rows.map(row => row.map(escapeCell).join(',')).join('\r\n');
+
+const scorerName = (team: Team | undefined, scorer: MatchData['scorers'][number]): string =>
+    team?.roster.find(tm => tm.id === scorer.teammateId)?.name || scorer.guestName || '?';
+
+const exportValue = (field: CsvField, match: MatchData, team: Team | undefined): string => {
+    switch (field) {
+        case 'date': return match.date;
+        case 'team': return team?.name || '';
+        case 'opponent': return match.opponent;
+        case 'homeAway': return match.isHome ? 'home' : 'away';
+        case 'matchType': return match.matchType || '';
+        case 'location': return match.location || '';
+        case 'score': return match.status === 'scheduled' ? '' : `${match.scoreMyTeam}-${match.scoreOpponent}`;
+        case 'scoreMyTeam': return String(match.scoreMyTeam);
+        case 'scoreOpponent': return String(match.scoreOpponent);
+        case 'goals': return String(match.arthurGoals || 0);
+        case 'assists': return String(match.arthurAssists || 0);
+        case 'rating': return match.rating ? String(match.rating) : '';
+        case 'motm': return match.isMotm ? 'yes' : '';
+        case 'positions': return (Array.isArray(match.positionPlayed) ? match.positionPlayed : [match.positionPlayed].filter(Boolean)).join(LIST_SEPARATOR);
+        case 'pitch': return match.pitchType || '';
+        case 'weather': return match.weather || '';
+        case 'format': return match.matchFormat || '';
+        case 'scorers': return (match.scorers || []).filter(s => s.count > 0).map(s => `${scorerName(team, s)}${SCORER_MARK}${s.count}`).join(LIST_SEPARATOR);
+        case 'comment': return match.dadComment || '';
+    }
+};
+
+export const matchesToCsv = (matches: MatchData[], profile: UserProfile): string => {
+    const sorted = [...matches].sort((a, b) => a.date.localeCompare(b.date));
+    const stats = getProfileStatDefinitions(profile.teams, sorted).filter(d => sorted.some(m => m.stats?.[d.id] !== undefined));
+    const rows = sorted.map(match => {
+        const team = profile.teams.find(t => t.id === match.teamId);
+        return [
+            ...CSV_EXPORT_FIELDS.map(field => exportValue(field, match, team)),
+            ...stats.map(d => match.stats?.[d.id] !== undefined ? String(match.stats[d.id]) : '')
+        ];
+    });
+    const headers = [...CSV_EXPORT_FIELDS.map(f => HEADERS[f]), ...stats.map(d => d.name ?? STAT_HEADERS[d.id as BuiltInStatId])];
+    // BOM so Excel opens the file as UTF-8 (names in Chinese)
+    return '﻿' + toCsv([headers, ...rows]);
+};
+
+// --- Reading ---
+
+const detectDelimiter = (firstLine: string): string => {
+    const counts = [',', ';', '\t'].map(d => ({ d, n: firstLine.split(d).length }));
+    return counts.sort((a, b) => b.n - a.n)[0].d;
+};
+
+// RFC 4180 with quoted cells; the delimiter is guessed from the first line
+export const parseCsv = (text: string): string[][] => {
+    const input = text.replace(/^﻿/, '');
+    const delimiter = detectDelimiter(input.split(/\r?\n/)[0] || '');
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+        if (inQuotes) {
+            if (ch === '"' && input[i + 1] === '"') { cell += '"'; i++; }
+            else if (ch === '"') inQuotes = false;
+            else cell += ch;
+        } else if (ch === '"') {
+            inQuotes = true;
+        } else if (ch === delimiter) {
+            row.push(cell); cell = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && input[i + 1] === '\n') i++;
+            row.push(cell); cell = '';
+            rows.push(row); row = [];
+        } else {
+            cell += ch;
+        }
+    }
+    if (cell !== '' || row.length > 0) { row.push(cell); rows.push(row); }
+
+    return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+export const guessMapping = (headers: string[]): CsvMapping => {
+    const used = new Set<CsvField>();
+    return headers.map(header => {
+        const name = normalizeHeader(header);
+        const field = CSV_IMPORT_FIELDS.find(f =>
+            !used.has(f) && (normalizeHeader(HEADERS[f]) === name || f.toLowerCase() === name || (ALIASES[f] || []).includes(name)));
+        if (!field) return null;
+        used.add(field);
+        return field;
+    });
+};
+
+const DATE_PATTERN = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})/;
+
+// Picks the reading that makes every value a valid date. YMD needs a four-digit
+// year first, so it never competes with the others; DMY wins over MDY on a tie.
+export const detectDateFormat = (values: string[]): CsvDateFormat => {
+    const formats: CsvDateFormat[] = ['YMD', 'DMY', 'MDY'];
+    const samples = values.map(v => v.trim()).filter(Boolean);
+    return formats.find(format => samples.length > 0 && samples.every(v => parseCsvDate(v, format) !== null)) || 'DMY';
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const parseCsvDate = (value: string, format: CsvDateFormat): string | null => {
+    const match = DATE_PATTERN.exec(value.trim());
+    if (!match) return null;
+    const [a, b, c] = [match[1], match[2], match[3]].map(Number);
+    let year: number, month: number, day: number;
+    if (format === 'YMD' && match[1].length !== 4) return null;
+    if (format === 'YMD') [year, month, day] = [a, b, c];
+    else if (format === 'DMY') [day, month, year] = [a, b, c];
+    else [month, day, year] = [a, b, c];
+
+    if (year < 100) year += 2000;
+    const date = new Date(year, month - 1, day);
+    if (year < 1900 || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+    return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+const toNumber = (value: string): number => {
+    const n = parseFloat(value.replace(',', '.'));
+    return isNaN(n) ? 0 : n;
+};
+
+const pickEnum = <T extends string>(value: string, options: T[]): T | undefined =>
+    options.find(o => o.toLowerCase() === value.trim().toLowerCase());
+
+const isTruthy = (value: string) => /^(1|y|yes|true|x|✓|是)$/i.test(value.trim());
+
+const splitList = (value: string) => value.split(/[,;/]/).map(v => v.trim()).filter(Boolean);
+
+// "Tom×2, Ben x1, Sam" → roster ids where the name matches, guests otherwise
+const parseScorers = (value: string, team: Team | undefined): MatchData['scorers'] => {
+    return splitList(value).map(item => {
+        const match = /^(.*?)\s*[×xX*]\s*(\d+)$/.exec(item);
+        const name = (match ? match[1] : item).trim();
+        const count = match ? parseInt(match[2]) : 1;
+        const teammate = team?.roster.find(tm => tm.name.trim().toLowerCase() === name.toLowerCase());
+        return teammate
+            ? { teammateId: teammate.id, count }
+            : { teammateId: `guest_${name.toLowerCase().replace(/\s+/g, '_')}`, count, guestName: name };
+    }).filter(s => s.count > 0);
+};
+
+export const csvRowsToMatches = (
+    rows: string[][],
+    mapping: CsvMapping,
+    dateFormat: CsvDateFormat,
+    profile: UserProfile,
+    defaultTeamId: string
+): { matches: CsvMatch[]; errors: CsvRowError[] } => {
+    const matches: CsvMatch[] = [];
+    const errors: CsvRowError[] = [];
+
+    rows.forEach((row, index) => {
+        const get = (field: CsvField): string => {
+            const column = mapping.indexOf(field);
+            return column >= 0 ? (row[column] || '').trim() : '';
+        };
+
+        const date = parseCsvDate(get('date'), dateFormat);
+        if (!date) { errors.push({ row: index + 1, reason: 'date' }); return; }
+        const opponent = get('opponent');
+        if (!opponent) { errors.push({ row: index + 1, reason: 'opponent' }); return; }
+
+        const teamName = get('team').toLowerCase();
+        const team = profile.teams.find(t => teamName && t.name.trim().toLowerCase() === teamName)
+            || profile.teams.find(t => t.id === defaultTeamId);
+
+        let scoreMyTeam = toNumber(get('scoreMyTeam'));
+        let scoreOpponent = toNumber(get('scoreOpponent'));
+        const score = /(\d+)\s*[-:–]\s*(\d+)/.exec(get('score'));
+        if (score) [scoreMyTeam, scoreOpponent] = [parseInt(score[1]), parseInt(score[2])];
+        const hasResult = !!score || get('scoreMyTeam') !== '' || get('scoreOpponent') !== '';
+
+        const homeAway = get('homeAway').toLowerCase();
+        const rating = toNumber(get('rating'));
+
+        matches.push({
+            profileId: profile.id,
+            date,
+            teamId: team?.id || defaultTeamId,
+            opponent,
+            location: get('location'),
+            isHome: !/^(a|away|客|作客)/.test(homeAway),
+            matchType: pickEnum(get('matchType'), MATCH_TYPES) || 'friendly',
+            pitchType: pickEnum(get('pitch'), PITCH_TYPES),
+            weather: pickEnum(get('weather'), WEATHER_TYPES),
+            matchFormat: pickEnum(get('format'), MATCH_FORMATS),
+            positionPlayed: splitList(get('positions')).map(p => p.toUpperCase()),
+            scoreMyTeam,
+            scoreOpponent,
+            scorers: parseScorers(get('scorers'), team),
+            arthurGoals: toNumber(get('goals')),
+            arthurAssists: toNumber(get('assists')),
+            rating: rating > 0 ? Math.min(10, rating) : 8,
+            isMotm: isTruthy(get('motm')),
+            dadComment: get('comment'),
+            kidInterview: '',
+            videos: [],
+            status: hasResult || date <= new Date().toISOString().split('T')[0] ? 'completed' : 'scheduled',
+            updatedAt: Date.now()
+        });
+    });
+
+    return { matches, errors };
+};
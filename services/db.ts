@@ -0,0 +1,127 @@
+
+// --- IndexedDB Repository ---
+// Thin promise wrapper around IndexedDB. Every record is written individually,
+// so saving one match no longer rewrites the whole diary.
+
+const DB_NAME = 'arthur_match_diary_db';
+const DB_VERSION = 5;
+
+export type StoreName = 'profiles' | 'matches' | 'journals' | 'changes' | 'snapshots' | 'trash' | 'media' | 'meta';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (dbPromise) return dbPromise;
+
+    dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+        request.onupgradeneeded = () => {
+            const db = request.result;
+
+            if (!db.objectStoreNames.contains('profiles')) {
+                db.createObjectStore('profiles', { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains('matches')) {
+                const matches = db.createObjectStore('matches', { keyPath: 'id' });
+                matches.createIndex('profileId', 'profileId', { unique: false });
+                matches.createIndex('teamId', 'teamId', { unique: false });
+                matches.createIndex('date', 'date', { unique: false });
+            }
+            if (!db.objectStoreNames.contains('journals')) {
+                const journals = db.createObjectStore('journals', { keyPath: 'id' });
+                journals.createIndex('profileId', 'profileId', { unique: false });
+            }
+            // v2: change log used for three-way sync merges
+            if (!db.objectStoreNames.contains('changes')) {
+                const changes = db.createObjectStore('changes', { keyPath: 'id' });
+                changes.createIndex('recordId', 'recordId', { unique: false });
+            }
+            // v3: local snapshot history (automatic backup fallback)
+            if (!db.objectStoreNames.contains('snapshots')) {
+                const snapshots = db.createObjectStore('snapshots', { keyPath: 'id' });
+                snapshots.createIndex('createdAt', 'createdAt', { unique: false });
+            }
+            // v4: soft-deleted records (Trash)
+            if (!db.objectStoreNames.contains('trash')) {
+                const trash = db.createObjectStore('trash', { keyPath: 'id' });
+                trash.createIndex('deletedAt', 'deletedAt', { unique: false });
+            }
+            // v5: large images moved out of profile records
+            if (!db.objectStoreNames.contains('media')) {
+                db.createObjectStore('media', { keyPath: 'id' });
+            }
+            if (!db.objectStoreNames.contains('meta')) {
+                db.createObjectStore('meta', { keyPath: 'key' });
+            }
+        };
+
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+            dbPromise = null; // Allow a retry on next call
+            reject(request.error);
+        };
+    });
+
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
+
+// --- Reads ---
+
+export const getAllRecords = async <T>(store: StoreName): Promise<T[]> => {
+    const db = await openDatabase();
+    const tx = db.transaction(store, 'readonly');
+    return requestToPromise(tx.objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+// --- Writes (one record per put, batched in a single transaction) ---
+
+export const putRecords = async <T>(store: StoreName, records: T[]): Promise<void> => {
+    if (records.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    records.forEach(record => objectStore.put(record));
+    return transactionDone(tx);
+};
+
+export const putRecord = <T>(store: StoreName, record: T): Promise<void> => putRecords(store, [record]);
+
+export const deleteRecords = async (store: StoreName, ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction(store, 'readwrite');
+    const objectStore = tx.objectStore(store);
+    ids.forEach(id => objectStore.delete(id));
+    return transactionDone(tx);
+};
+
+export const deleteRecord = (store: StoreName, id: string): Promise<void> => deleteRecords(store, [id]);
+
+// --- Meta (key/value flags such as migration state) ---
+
+export const getMetaValue = async <T>(key: string): Promise<T | undefined> => {
+    const db = await openDatabase();
+    const tx = db.transaction('meta', 'readonly');
+    const entry = await requestToPromise(tx.objectStore('meta').get(key) as IDBRequest<{ key: string; value: T } | undefined>);
+    return entry?.value;
+};
+
+export const setMetaValue = <T>(key: string, value: T): Promise<void> => putRecord('meta', { key, value });
@@ -0,0 +1,260 @@
+
+import { MatchData, UserProfile } from '../types';
+
+// --- iCalendar (.ics) Export / Import ---
+// Scheduled fixtures become calendar events running from assembly time to
+// kick-off (marked with X-FOOTBALL-DIARY-START), or for an hour from kick-off
+// when there is no assembly time. The UID is derived from the match id, so importing a re-exported
+// file into a calendar app updates the events instead of duplicating them.
+// Imported club calendars become scheduled matches; their ids come from the
+// event UID for the same reason.
+
+export interface IcsEvent {
+    uid: string;
+    summary: string;
+    location: string;
+    description: string;
+    date: string;       // YYYY-MM-DD (local)
+    startTime?: string; // HH:mm (local), missing for all-day events
+    endTime?: string;
+    startsAtAssembly?: boolean; // Our exports: the event starts at assembly and ends at kick-off
+}
+
+const UID_DOMAIN = 'football-diary';
+const DEFAULT_DURATION_MIN = 60; // Fixtures with a kick-off time only
+const PRODUCT_ID = '-//Football Diary//Fixtures//EN';
+const START_PROPERTY = 'X-FOOTBALL-DIARY-START';
+const START_ASSEMBLY = 'ASSEMBLY';
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// --- Writing ---
+
+const escapeText = (value: string) => value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space
+const foldLine = (line: string): string => {
+    let folded = '';
+    let octets = 0;
+    for (const char of line) {
+        const size = char.codePointAt(0)! < 0x80 ? 1 : char.codePointAt(0)! < 0x800 ? 2 : char.length > 1 ? 4 : 3;
+        if (octets + size > 75) {
+            folded += '\r\n ';
+            octets = 1;
+        }
+        folded += char;
+        octets += size;
+    }
+    return folded;
+};
+
+const formatLocal = (date: string, time: string) => `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+
+const formatUtc = (d: Date) =>
+    `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+
+const addMinutes = (date: string, time: string, minutes: number) => {
+    const [y, m, d] = date.split('-').map(Number);
+    const [h, min] = time.split(':').map(Number);
+    const end = new Date(y, m - 1, d, h, min + minutes);
+    return { date: `${end.getFullYear()}-${pad(end.getMonth() + 1)}-${pad(end.getDate())}`, time: `${pad(end.getHours())}:${pad(end.getMinutes())}` };
+};
+
+const nextDay = (date: string) => addMinutes(date, '00:00', 24 * 60).date;
+
+const isTime = (value?: string): value is string => !!value && /^\d{1,2}:\d{2}$/.test(value);
+
+export const getMatchUid = (match: MatchData) => `${match.id}@${UID_DOMAIN}`;
+
+export const isUpcomingFixture = (match: MatchData, today = new Date().toISOString().split('T')[0]) =>
+    match.status === 'scheduled' && match.date >= today;
+
+const matchToEvent = (match: MatchData, profile: UserProfile, labels: IcsLabels, stamp: string): string[] => {
+    const team = profile.teams.find(t => t.id === match.teamId);
+    const teamName = team?.name || profile.name;
+    const summary = match.isHome ? `${teamName} vs ${match.opponent}` : `${match.opponent} vs ${teamName}`;
+
+    const start = isTime(match.assemblyTime) ? match.assemblyTime : match.matchTime;
+    let timing: string[];
+    if (isTime(start)) {
+        const endsAtKickOff = isTime(match.matchTime) && match.matchTime > start;
+        const end = endsAtKickOff
+            ? { date: match.date, time: match.matchTime }
+            : addMinutes(match.date, start, DEFAULT_DURATION_MIN);
+        timing = [`DTSTART:${formatLocal(match.date, start)}`, `DTEND:${formatLocal(end.date, end.time)}`];
+        if (endsAtKickOff) timing.push(`${START_PROPERTY}:${START_ASSEMBLY}`);
+    } else {
+        timing = [`DTSTART;VALUE=DATE:${match.date.replace(/-/g, '')}`, `DTEND;VALUE=DATE:${nextDay(match.date).replace(/-/g, '')}`];
+    }
+
+    const description = [
+        isTime(match.matchTime) ? `${labels.kickOff}: ${match.matchTime}` : '',
+        isTime(match.assemblyTime) ? `${labels.assembly}: ${match.assemblyTime}` : '',
+        match.matchFormat || ''
+    ].filter(Boolean).join('\n');
+
+    return [
+        'BEGIN:VEVENT',
+        `UID:${getMatchUid(match)}`,
+        `DTSTAMP:${stamp}`,
+        `SEQUENCE:${Math.floor((match.updatedAt || 0) / 1000)}`, // Later edits win in calendar apps
+        ...timing,
+        `SUMMARY:${escapeText(`⚽ ${summary}`)}`,
+        ...(match.location ? [`LOCATION:${escapeText(match.location)}`] : []),
+        ...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+        'END:VEVENT'
+    ];
+};
+
+export interface IcsLabels {
+    calendarName: string;
+    kickOff: string;
+    assembly: string;
+}
+
+export const fixturesToIcs = (matches: MatchData[], profile: UserProfile, labels: IcsLabels): string => {
+    const stamp = formatUtc(new Date());
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        `X-WR-CALNAME:${escapeText(labels.calendarName)}`,
+        ...matches.flatMap(m => matchToEvent(m, profile, labels, stamp)),
+        'END:VCALENDAR'
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// --- Reading ---
+
+const unescapeText = (value: string) => value
+    .replace(/\\n/gi, '\n')
+    .replace(/\\([,;\\])/g, '$1');
+
+// "20240503T181500Z" / "20240503T181500" / "20240503" → local date and time
+const parseDateTime = (value: string, params: string): { date: string; time?: string } | null => {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+    if (!match) return null;
+    const [, y, m, d, h, min, , utc] = match;
+    if (h === undefined || /VALUE=DATE(?!-)/i.test(params)) return { date: `${y}-${m}-${d}` };
+    if (utc) {
+        const local = new Date(Date.UTC(+y, +m - 1, +d, +h, +min));
+        return {
+            date: `${local.getFullYear()}-${pad(local.getMonth() + 1)}-${pad(local.getDate())}`,
+            time: `${pad(local.getHours())}:${pad(local.getMinutes())}`
+        };
+    }
+    // Floating or TZID times are taken as local wall-clock time
+    return { date: `${y}-${m}-${d}`, time: `${h}:${min}` };
+};
+
+export const parseIcs = (text: string): IcsEvent[] => {
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const events: IcsEvent[] = [];
+    let current: Record<string, { value: string; params: string }> | null = null;
+
+    lines.forEach(line => {
+        if (line === 'BEGIN:VEVENT') { current = {}; return; }
+        if (line === 'END:VEVENT') {
+            const props = current;
+            current = null;
+            if (!props?.DTSTART) return;
+            const start = parseDateTime(props.DTSTART.value, props.DTSTART.params);
+            if (!start) return;
+            const end = props.DTEND ? parseDateTime(props.DTEND.value, props.DTEND.params) : null;
+            events.push({
+                uid: props.UID?.value || `${start.date}-${props.SUMMARY?.value || ''}`,
+                summary: unescapeText(props.SUMMARY?.value || ''),
+                location: unescapeText(props.LOCATION?.value || ''),
+                description: unescapeText(props.DESCRIPTION?.value || ''),
+                date: start.date,
+                startTime: start.time,
+                endTime: end && end.date === start.date ? end.time : undefined,
+                startsAtAssembly: props[START_PROPERTY]?.value === START_ASSEMBLY
+            });
+            return;
+        }
+        if (!current) return;
+        const colon = line.indexOf(':');
+        if (colon < 0) return;
+        const [name, ...params] = line.slice(0, colon).split(';');
+        current[name.toUpperCase()] = { value: line.slice(colon + 1), params: params.join(';') };
+    });
+
+    return events;
+};
+
+// "Lions vs Tigers" with team "Lions" → opponent "Tigers", home
+const splitSummary = (summary: string, teamName: string): { opponent: string; isHome: boolean } => {
+    const clean = summary.replace(/^⚽\s*/, '').trim();
+    const parts = clean.split(/\s+(?:vs\.?|v\.?|-|–|@)\s+/i);
+    if (parts.length !== 2) return { opponent: clean, isHome: true };
+    const isOurs = (part: string) => !!teamName && part.trim().toLowerCase().includes(teamName.trim().toLowerCase());
+    if (isOurs(parts[1]) && !isOurs(parts[0])) return { opponent: parts[0].trim(), isHome: /\s@\s/.test(clean) };
+    return { opponent: (isOurs(parts[0]) ? parts[1] : clean).trim(), isHome: !/\s@\s/.test(clean) };
+};
+
+// Small stable hash so foreign UIDs give short, repeatable match ids
+const hashUid = (uid: string) => {
+    let hash = 0;
+    for (let i = 0; i < uid.length; i++) hash = (hash * 31 + uid.charCodeAt(i)) | 0;
+    return (hash >>> 0).toString(36);
+};
+
+// Events already in the diary (same id) only get their date, times and
+// location refreshed, everything else recorded for them is kept. That only
+// happens for fixtures of the chosen team that have not been played yet;
+// other known events, and ones that did not change, are left out.
+export const icsEventsToMatches = (events: IcsEvent[], profile: UserProfile, teamId: string, existing: MatchData[] = []): MatchData[] => {
+    const team = profile.teams.find(t => t.id === teamId);
+    const suffix = `@${UID_DOMAIN}`;
+
+    return events.flatMap((event): MatchData[] => {
+        const ours = event.uid.endsWith(suffix);
+        // Our own exports keep their match id; others get one derived from the UID
+        const id = ours ? event.uid.slice(0, -suffix.length) : `ics_${hashUid(event.uid)}`;
+        // Only our marked events run assembly → kick-off; everything else starts at kick-off
+        const fromAssembly = ours && event.startsAtAssembly && !!event.endTime;
+        const assemblyTime = fromAssembly ? event.startTime || '' : '';
+        const matchTime = (fromAssembly ? event.endTime : event.startTime) || '';
+
+        const known = existing.find(m => m.id === id);
+        if (known) {
+            if (known.status !== 'scheduled' || known.teamId !== teamId) return [];
+            const location = event.location || known.location;
+            const unchanged = known.date === event.date && (known.assemblyTime || '') === assemblyTime
+                && (known.matchTime || '') === matchTime && known.location === location;
+            return unchanged ? [] : [{ ...known, date: event.date, assemblyTime, matchTime, location, updatedAt: Date.now() }];
+        }
+
+        const { opponent, isHome } = splitSummary(event.summary, team?.name || '');
+        return [{
+            id,
+            profileId: profile.id,
+            date: event.date,
+            assemblyTime,
+            matchTime,
+            teamId,
+            location: event.location,
+            isHome,
+            matchType: 'friendly',
+            opponent: opponent || event.summary,
+            scoreMyTeam: 0,
+            scoreOpponent: 0,
+            scorers: [],
+            arthurGoals: 0,
+            arthurAssists: 0,
+            rating: 8,
+            dadComment: '',
+            kidInterview: '',
+            videos: [],
+            status: 'scheduled',
+            updatedAt: Date.now()
+        }];
+    });
+};
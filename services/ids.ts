@@ -0,0 +1,188 @@
+
+import { MatchData, UserProfile, Team } from '../types';
+import { ChangeEntry, ChangeStore, isChangeEntry, replayRecord } from './changeLog';
+import type { StoredJournalEntry } from './storage';
+
+// --- Record IDs ---
+// New records get random UUIDs. Earlier versions used Date.now(), so two
+// devices (or two taps in the same millisecond) could create different
+// records with the same id; renumberIdCollisions() repairs those on import.
+
+const fallbackUuid = (): string => {
+    const bytes = new Uint8Array(16);
+    if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+        crypto.getRandomValues(bytes);
+    } else {
+        for (let i = 0; i < bytes.length; i++) bytes[i] = Math.floor(Math.random() * 256);
+    }
+    bytes[6] = (bytes[6] & 0x0f) | 0x40; // Version 4
+    bytes[8] = (bytes[8] & 0x3f) | 0x80; // Variant 10
+    const hex = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+// randomUUID needs a secure context; plain http on the LAN falls back
+export const generateId = (): string =>
+    typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function' ? crypto.randomUUID() : fallbackUuid();
+
+// --- Collision repair on import ---
+
+export interface IdCollisionReport {
+    matches: number;
+    journals: number;
+    teammates: number;
+}
+
+interface LocalRecords {
+    profiles: UserProfile[];
+    matches: MatchData[];
+    journals: StoredJournalEntry[];
+    changes: ChangeEntry[];
+}
+
+type RenumberStore = Exclude<ChangeStore, 'profiles'>;
+
+const recordKey = (store: ChangeStore, recordId: string) => `${store}:${recordId}`;
+
+// Same id but clearly not the same record. Only called for records without a
+// common history. A match of the same child on another date or against another
+// opponent may just have been rescheduled, so it goes to the conflict review
+// instead; journals keep createdAt.
+const isUnrelated = (store: RenumberStore, local: any, incoming: any): boolean => {
+    if (local.profileId && incoming.profileId && local.profileId !== incoming.profileId) return true;
+    if (store === 'matches') return false;
+    return !!local.createdAt && !!incoming.createdAt && local.createdAt !== incoming.createdAt;
+};
+
+const teammateKey = (teamId: string, teammateId: string) => `${teamId}:${teammateId}`;
+
+// Finds incoming matches and journals whose id is already used locally by a
+// different record and gives them new ids, in the records and in the change
+// log alike. Journal links follow their match. Records that share change log
+// entries with the local copy have a common history and are never renumbered.
+// Teammates are renumbered when their id belongs to someone else in another
+// local team; the scorers and events of that team's matches follow.
+export const renumberIdCollisions = (data: any, local: LocalRecords): { data: any; report: IdCollisionReport } => {
+    const report: IdCollisionReport = { matches: 0, journals: 0, teammates: 0 };
+    if (!data || typeof data !== 'object') return { data, report };
+
+    const incomingLog: ChangeEntry[] = Array.isArray(data.changes) ? data.changes.filter(isChangeEntry) : [];
+    const group = (entries: ChangeEntry[]) => {
+        const map = new Map<string, ChangeEntry[]>();
+        entries.forEach(e => {
+            const key = recordKey(e.store, e.recordId);
+            map.set(key, [...(map.get(key) || []), e]);
+        });
+        return map;
+    };
+    const localByRecord = group(local.changes);
+    const incomingByRecord = group(incomingLog);
+
+    // Last known content, ignoring deletes, so a deleted record still counts
+    const fromLog = (entries: ChangeEntry[] | undefined) => entries ? replayRecord(entries.filter(e => e.op === 'put')) : null;
+
+    const idMaps: Record<RenumberStore, Map<string, string>> = { matches: new Map(), journals: new Map() };
+
+    const detect = (store: RenumberStore, incomingRecords: any[], localRecords: { id: string }[]) => {
+        const ids = [
+            ...incomingRecords.map(r => r?.id),
+            ...incomingLog.filter(e => e.store === store).map(e => e.recordId)
+        ].filter((id, i, arr): id is string => typeof id === 'string' && arr.indexOf(id) === i);
+
+        ids.forEach(id => {
+            const key = recordKey(store, id);
+            const localEntries = localByRecord.get(key) || [];
+            const incomingEntries = incomingByRecord.get(key) || [];
+            const localIds = new Set(localEntries.map(e => e.id));
+            if (incomingEntries.some(e => localIds.has(e.id))) return; // Common history
+
+            const localRecord = localRecords.find(r => r.id === id) || fromLog(localByRecord.get(key));
+            const incomingRecord = incomingRecords.find(r => r?.id === id) || fromLog(incomingByRecord.get(key));
+            if (!localRecord || !incomingRecord) return;
+            if (isUnrelated(store, localRecord, incomingRecord)) idMaps[store].set(id, generateId());
+        });
+    };
+
+    detect('matches', Array.isArray(data.matches) ? data.matches : [], local.matches);
+    detect('journals', Array.isArray(data.journals) ? data.journals : [], local.journals);
+
+    // Teammates: keyed by team, since the same id in the same team is the same player
+    const localTeammates = new Map<string, { teamId: string; name: string }[]>();
+    local.profiles.forEach(p => (p.teams || []).forEach(team => (team.roster || []).forEach(tm => {
+        localTeammates.set(tm.id, [...(localTeammates.get(tm.id) || []), { teamId: team.id, name: tm.name }]);
+    })));
+    const incomingProfiles: any[] = [
+        ...(Array.isArray(data.profiles) ? data.profiles : data.profile ? [data.profile] : []),
+        ...[...incomingByRecord.entries()].filter(([key]) => key.startsWith('profiles:')).map(([, entries]) => fromLog(entries))
+    ];
+    const teammateIds = new Map<string, string>();
+    incomingProfiles.forEach(p => (Array.isArray(p?.teams) ? p.teams : []).forEach((team: any) => {
+        (Array.isArray(team?.roster) ? team.roster : []).forEach((tm: any) => {
+            const key = teammateKey(team.id, tm?.id);
+            const owners = localTeammates.get(tm?.id);
+            if (!owners || teammateIds.has(key) || owners.some(o => o.teamId === team.id)) return;
+            if (owners.some(o => o.name !== tm.name)) teammateIds.set(key, generateId());
+        });
+    }));
+
+    report.matches = idMaps.matches.size;
+    report.journals = idMaps.journals.size;
+    report.teammates = teammateIds.size;
+    if (report.matches === 0 && report.journals === 0 && report.teammates === 0) return { data, report };
+
+    const teammateId = (teamId: string, id: string) => teammateIds.get(teammateKey(teamId, id)) || id;
+    const renumberTeams = (teams: unknown) => Array.isArray(teams)
+        ? teams.map((team: Team) => Array.isArray(team?.roster) && team.roster.some(tm => teammateIds.has(teammateKey(team.id, tm?.id)))
+            ? { ...team, roster: team.roster.map(tm => ({ ...tm, id: teammateId(team.id, tm.id) })) }
+            : team)
+        : teams;
+    const renumberProfile = (profile: any) => profile?.teams ? { ...profile, teams: renumberTeams(profile.teams) } : profile;
+    // Match fields that point at teammates; `teamId` comes from the whole record,
+    // since a change entry only carries the fields that changed
+    const renumberPlayers = (fields: any, teamId: unknown) => {
+        if (typeof teamId !== 'string' || teammateIds.size === 0) return fields;
+        const next = { ...fields };
+        if (Array.isArray(fields.scorers)) next.scorers = fields.scorers.map((s: any) => s?.teammateId ? { ...s, teammateId: teammateId(teamId, s.teammateId) } : s);
+        if (Array.isArray(fields.events)) next.events = fields.events.map((e: any) => Array.isArray(e?.playerIds) ? { ...e, playerIds: e.playerIds.map((id: string) => teammateId(teamId, id)) } : e);
+        if (Array.isArray(fields.liveEvents)) next.liveEvents = fields.liveEvents.map((e: any) => e?.teammateId ? { ...e, teammateId: teammateId(teamId, e.teammateId) } : e);
+        return next;
+    };
+    const incomingMatchTeam = (id: string) =>
+        (Array.isArray(data.matches) ? data.matches.find((m: any) => m?.id === id)?.teamId : undefined)
+        ?? fromLog(incomingByRecord.get(recordKey('matches', id)))?.teamId;
+
+    const matchId = (id: string) => idMaps.matches.get(id) || id;
+    const journalId = (id: string) => idMaps.journals.get(id) || id;
+    const relinkJournal = (journal: any) => journal.linkedMatchId && idMaps.matches.has(journal.linkedMatchId)
+        ? { ...journal, linkedMatchId: matchId(journal.linkedMatchId) }
+        : journal;
+
+    const renumberEntry = (entry: any) => {
+        if (!isChangeEntry(entry)) return entry;
+        if (entry.store === 'profiles') {
+            return entry.fields?.teams && teammateIds.size > 0 ? { ...entry, fields: renumberProfile(entry.fields) } : entry;
+        }
+        const map = idMaps[entry.store];
+        let next: ChangeEntry = map.has(entry.recordId) ? { ...entry, recordId: map.get(entry.recordId)! } : entry;
+        if (next.fields) {
+            let fields = next.fields;
+            if (typeof fields.id === 'string' && map.has(fields.id)) fields = { ...fields, id: map.get(fields.id) };
+            if (entry.store === 'journals') fields = relinkJournal(fields);
+            if (entry.store === 'matches') fields = renumberPlayers(fields, fields.teamId ?? incomingMatchTeam(entry.recordId));
+            if (fields !== next.fields) next = { ...next, fields };
+        }
+        return next;
+    };
+
+    return {
+        data: {
+            ...data,
+            ...(Array.isArray(data.profiles) && { profiles: data.profiles.map(renumberProfile) }),
+            ...(data.profile && { profile: renumberProfile(data.profile) }),
+            ...(Array.isArray(data.matches) && { matches: data.matches.map((m: any) => m?.id ? renumberPlayers({ ...m, id: matchId(m.id) }, m.teamId) : m) }),
+            ...(Array.isArray(data.journals) && { journals: data.journals.map((j: any) => j?.id ? relinkJournal({ ...j, id: journalId(j.id) }) : j) }),
+            ...(Array.isArray(data.changes) && { changes: data.changes.map(renumberEntry) })
+        },
+        report
+    };
+};
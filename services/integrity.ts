@@ -0,0 +1,159 @@
+
+import { MatchData, UserProfile, Team } from '../types';
+import { getAllProfiles, getMatches, getJournals, saveJournal, updateMatchesInStorage, getTrash } from './storage';
+
+// --- Data Integrity Check ---
+// Finds references that no longer resolve: matches whose team was removed
+// (getTeamById would silently fall back to the first team), scorers whose
+// teammate left the roster, journals linked to a deleted match or tournament,
+// and matches still holding the legacy single-string position.
+// Every fix goes through storage.ts, so it is tracked and synced like an edit.
+
+export type IntegrityIssueKind = 'missingTeam' | 'orphanScorer' | 'brokenJournalLink' | 'legacyPosition';
+
+export interface IntegrityIssue {
+    kind: IntegrityIssueKind;
+    profileId: string;
+    recordId: string;
+    label: string;
+}
+
+export interface IntegrityReport {
+    issues: IntegrityIssue[];
+    counts: Record<IntegrityIssueKind, number>;
+}
+
+type Scorer = MatchData['scorers'][number];
+
+const TOURNAMENT_LINK_PREFIX = 'tournament:';
+
+const matchLabel = (m: MatchData) => `${m.date} · ${m.opponent || '?'}`;
+
+const findTeam = (profile: UserProfile, teamId: string): Team | undefined =>
+    (profile.teams || []).find(team => team.id === teamId);
+
+// Scorers are checked against the match's team, or every roster if that team is gone
+const rosterIdsFor = (profile: UserProfile, match: MatchData): Set<string> => {
+    const team = findTeam(profile, match.teamId);
+    const teams = team ? [team] : profile.teams || [];
+    return new Set(teams.flatMap(t => (t.roster || []).map(tm => tm.id)));
+};
+
+const isOrphanScorer = (scorer: Scorer, rosterIds: Set<string>) =>
+    !scorer.guestName && !rosterIds.has(scorer.teammateId);
+
+const hasLegacyPosition = (match: MatchData) =>
+    match.positionPlayed !== undefined && !Array.isArray(match.positionPlayed);
+
+// Tournament links hold the tournament name; a match counts by the tournament's
+// id, or by name for older records that only have the name
+const isBrokenLink = (linkedMatchId: string, profile: UserProfile, matches: MatchData[]) => {
+    if (linkedMatchId.startsWith(TOURNAMENT_LINK_PREFIX)) {
+        const name = linkedMatchId.slice(TOURNAMENT_LINK_PREFIX.length);
+        const tournamentIds = new Set((profile.tournaments || []).filter(tn => tn.name === name).map(tn => tn.id));
+        return !matches.some(m => (m.tournamentId && tournamentIds.has(m.tournamentId)) || m.tournamentName === name);
+    }
+    return !matches.some(m => m.id === linkedMatchId);
+};
+
+export const checkDataIntegrity = (): IntegrityReport => {
+    const issues: IntegrityIssue[] = [];
+
+    getAllProfiles().forEach(profile => {
+        const matches = getMatches(profile.id);
+
+        matches.forEach(match => {
+            if (!findTeam(profile, match.teamId)) {
+                issues.push({ kind: 'missingTeam', profileId: profile.id, recordId: match.id, label: matchLabel(match) });
+            }
+            const rosterIds = rosterIdsFor(profile, match);
+            (match.scorers || []).filter(s => isOrphanScorer(s, rosterIds)).forEach(() => {
+                issues.push({ kind: 'orphanScorer', profileId: profile.id, recordId: match.id, label: matchLabel(match) });
+            });
+            if (hasLegacyPosition(match)) {
+                issues.push({ kind: 'legacyPosition', profileId: profile.id, recordId: match.id, label: `${matchLabel(match)} · ${String(match.positionPlayed)}` });
+            }
+        });
+
+        getJournals(profile.id).forEach(journal => {
+            if (journal.linkedMatchId && isBrokenLink(journal.linkedMatchId, profile, matches)) {
+                issues.push({ kind: 'brokenJournalLink', profileId: profile.id, recordId: journal.id, label: `${journal.date} · ${journal.linkedMatchName || journal.linkedMatchId}` });
+            }
+        });
+    });
+
+    const counts: Record<IntegrityIssueKind, number> = { missingTeam: 0, orphanScorer: 0, brokenJournalLink: 0, legacyPosition: 0 };
+    issues.forEach(issue => counts[issue.kind]++);
+    return { issues, counts };
+};
+
+// --- Fixes (each returns the number of records changed) ---
+
+const saveFixedMatches = (profileId: string, fixed: MatchData[]): number => {
+    if (fixed.length > 0) updateMatchesInStorage(fixed.map(m => ({ ...m, updatedAt: Date.now() })), profileId);
+    return fixed.length;
+};
+
+export const reassignMissingTeams = (profileId: string, teamId: string): number => {
+    const profile = getAllProfiles().find(p => p.id === profileId);
+    if (!profile || !findTeam(profile, teamId)) return 0;
+
+    const fixed = getMatches(profileId)
+        .filter(m => !findTeam(profile, m.teamId))
+        .map(m => ({ ...m, teamId }));
+    return saveFixedMatches(profileId, fixed);
+};
+
+// Keeps the goals but stores the scorer's name on the match itself. The name
+// comes from another roster or the Trash, else `fallbackName`.
+export const convertOrphanScorers = (fallbackName: string): number => {
+    const trashedNames = new Map<string, string>();
+    getTrash().forEach(item => {
+        if (item.kind === 'teammate' && item.teammate.name) trashedNames.set(item.teammate.id, item.teammate.name);
+    });
+
+    let changed = 0;
+    getAllProfiles().forEach(profile => {
+        const knownNames = new Map((profile.teams || []).flatMap(t => (t.roster || []).map(tm => [tm.id, tm.name] as [string, string])));
+        const fixed = getMatches(profile.id).flatMap(match => {
+            const rosterIds = rosterIdsFor(profile, match);
+            if (!(match.scorers || []).some(s => isOrphanScorer(s, rosterIds))) return [];
+            const scorers = match.scorers.map(s => isOrphanScorer(s, rosterIds)
+                ? { ...s, guestName: knownNames.get(s.teammateId) || trashedNames.get(s.teammateId) || fallbackName }
+                : s);
+            return [{ ...match, scorers }];
+        });
+        changed += saveFixedMatches(profile.id, fixed);
+    });
+    return changed;
+};
+
+export const unlinkBrokenJournals = (): number => {
+    let changed = 0;
+    getAllProfiles().forEach(profile => {
+        const matches = getMatches(profile.id);
+        getJournals(profile.id)
+            .filter(j => j.linkedMatchId && isBrokenLink(j.linkedMatchId, profile, matches))
+            .forEach(journal => {
+                const { linkedMatchId, linkedMatchName, ...unlinked } = journal;
+                saveJournal(profile.id, unlinked);
+                changed++;
+            });
+    });
+    return changed;
+};
+
+// "LW, ST" → ['LW', 'ST']
+export const normalizeLegacyPositions = (): number => {
+    let changed = 0;
+    getAllProfiles().forEach(profile => {
+        const fixed = getMatches(profile.id)
+            .filter(hasLegacyPosition)
+            .map(m => ({
+                ...m,
+                positionPlayed: String(m.positionPlayed || '').split(/[,/]/).map(p => p.trim()).filter(Boolean)
+            }));
+        changed += saveFixedMatches(profile.id, fixed);
+    });
+    return changed;
+};
@@ -0,0 +1,152 @@
+import { LiveEventType, LiveMatchEvent, MatchData, MatchStructure } from '../types';
+import { generateId } from './ids';
+import { MatchTotals, applyMatchAction, applyTeammateGoal } from '../utils/matchActions';
+import { deriveTotalsFromEvents, eventsFromTotals, hasEvents, liveEventsToMatchEvents } from '../utils/matchEvents';
+
+// --- Live Match Mode ---
+// One running session at a time, kept in localStorage so a reload or a locked
+// phone does not lose the clock. Totals are always recomputed from the totals
+// the match had before kick-off plus the logged events, so undo is just
+// dropping the last event.
+
+export type LivePhase = 'ready' | 'running' | 'paused' | 'break' | 'finished';
+
+export interface LiveMatchSession {
+    matchId: string;
+    profileId: string;
+    structure: MatchStructure;
+    periods: number;
+    periodMinutes: number;
+    period: number;          // 1-based, the current (or next after a break) period
+    phase: LivePhase;
+    runningSince?: number;   // Wall clock time the clock was last started
+    elapsedMs: number;       // Clock time in the current period before runningSince
+    base: MatchTotals;
+    events: LiveMatchEvent[];
+}
+
+const SESSION_KEY = 'arthur_live_match';
+
+export const DEFAULT_PERIOD_MINUTES: Record<MatchStructure, number> = {
+    halves: 20,
+    quarters: 10
+};
+
+export const getLiveSession = (): LiveMatchSession | null => {
+    try {
+        const stored = localStorage.getItem(SESSION_KEY);
+        return stored ? JSON.parse(stored) : null;
+    } catch (e) {
+        console.error('Error reading live match session', e);
+        return null;
+    }
+};
+
+export const saveLiveSession = (session: LiveMatchSession): void => {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+};
+
+export const clearLiveSession = (): void => {
+    localStorage.removeItem(SESSION_KEY);
+};
+
+export const createLiveSession = (match: MatchData, structure: MatchStructure, periodMinutes?: number): LiveMatchSession => ({
+    matchId: match.id,
+    profileId: match.profileId,
+    structure,
+    periods: structure === 'halves' ? 2 : 4,
+    periodMinutes: periodMinutes || match.periodLength || DEFAULT_PERIOD_MINUTES[structure],
+    period: 1,
+    phase: 'ready',
+    elapsedMs: 0,
+    base: {
+        scoreMyTeam: match.scoreMyTeam || 0,
+        scoreOpponent: match.scoreOpponent || 0,
+        arthurGoals: match.arthurGoals || 0,
+        arthurAssists: match.arthurAssists || 0,
+        scorers: match.scorers || []
+    },
+    events: []
+});
+
+// --- Clock ---
+
+export const getPeriodElapsedMs = (session: LiveMatchSession, now: number = Date.now()): number =>
+    session.elapsedMs + (session.phase === 'running' && session.runningSince !== undefined ? now - session.runningSince : 0);
+
+export const startClock = (session: LiveMatchSession, now: number = Date.now()): LiveMatchSession => {
+    if (session.phase === 'running' || session.phase === 'finished') return session;
+    // Coming out of a break starts the next period from zero
+    const fromBreak = session.phase === 'break';
+    return {
+        ...session,
+        phase: 'running',
+        runningSince: now,
+        elapsedMs: fromBreak ? 0 : session.elapsedMs,
+        period: fromBreak ? session.period + 1 : session.period
+    };
+};
+
+export const pauseClock = (session: LiveMatchSession, now: number = Date.now()): LiveMatchSession => {
+    if (session.phase !== 'running') return session;
+    return { ...session, phase: 'paused', elapsedMs: getPeriodElapsedMs(session, now), runningSince: undefined };
+};
+
+// Ends the current period; the last one ends the match
+export const endPeriod = (session: LiveMatchSession, now: number = Date.now()): LiveMatchSession => {
+    const stopped = pauseClock(session, now);
+    return { ...stopped, phase: session.period >= session.periods ? 'finished' : 'break' };
+};
+
+export const endMatch = (session: LiveMatchSession, now: number = Date.now()): LiveMatchSession =>
+    ({ ...pauseClock(session, now), phase: 'finished' });
+
+// --- Events ---
+
+export const canLogEvents = (session: LiveMatchSession): boolean =>
+    session.phase === 'running' || session.phase === 'paused';
+
+export const addLiveEvent = (session: LiveMatchSession, type: LiveEventType, teammateId?: string, now: number = Date.now()): LiveMatchSession => {
+    const event: LiveMatchEvent = {
+        id: generateId(),
+        type,
+        period: session.period,
+        second: Math.floor(getPeriodElapsedMs(session, now) / 1000),
+        at: now,
+        ...(teammateId ? { teammateId } : {})
+    };
+    return { ...session, events: [...session.events, event] };
+};
+
+export const undoLastEvent = (session: LiveMatchSession): LiveMatchSession =>
+    ({ ...session, events: session.events.slice(0, -1) });
+
+export const getLiveTotals = (session: LiveMatchSession): MatchTotals =>
+    session.events.reduce((totals, event) =>
+        event.type === 'teammate_goal'
+            ? applyTeammateGoal(totals, event.teammateId || '', 1)
+            : applyMatchAction(totals, event.type),
+        session.base);
+
+export const formatClock = (ms: number): string => {
+    const totalSeconds = Math.floor(ms / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+};
+
+// The completed match to store after the final whistle. Goals already on the
+// match before kick-off become untimed events so the derived totals keep them.
+export const finalizeLiveMatch = (match: MatchData, session: LiveMatchSession): MatchData => {
+    const prior = hasEvents(match) ? match.events! : eventsFromTotals(session.base);
+    const events = [...prior, ...liveEventsToMatchEvents(session.events, session.periodMinutes)];
+    return {
+        ...match,
+        ...deriveTotalsFromEvents(events, match.scorers),
+        matchStructure: session.structure,
+        periodLength: session.periodMinutes,
+        events,
+        status: 'completed',
+        updatedAt: Date.now()
+    };
+};
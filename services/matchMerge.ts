@@ -0,0 +1,130 @@
+
+import { MatchData, VideoLink } from '../types';
+
+// --- Field-level Match Diff & Conflict Resolution ---
+// Used by SyncModal to review incoming matches that already exist locally.
+
+export type ConflictChoice = 'local' | 'incoming' | 'merged';
+
+export type DiffField = 'score' | 'kidStats' | 'scorers' | 'rating' | 'dadComment' | 'kidInterview' | 'videos' | 'details';
+
+export interface FieldDiff {
+    field: DiffField;
+    // For 'details', the names of the changed match properties
+    keys?: (keyof MatchData)[];
+}
+
+export interface MatchConflict {
+    id: string;
+    local: MatchData;
+    incoming: MatchData;
+    diffs: FieldDiff[];
+    defaultChoice: ConflictChoice;
+    // Change-log files: the three-way result, used for the 'merged' choice
+    merged?: MatchData;
+}
+
+// Properties covered by a dedicated diff field (everything else is 'details')
+const FIELD_KEYS: Record<Exclude<DiffField, 'details'>, (keyof MatchData)[]> = {
+    score: ['scoreMyTeam', 'scoreOpponent'],
+    kidStats: ['arthurGoals', 'arthurAssists', 'isMotm'],
+    scorers: ['scorers'],
+    rating: ['rating'],
+    dadComment: ['dadComment', 'commenterIdentity'],
+    kidInterview: ['kidInterview'],
+    videos: ['videos']
+};
+
+const IGNORED_KEYS = new Set<keyof MatchData>(['id', 'updatedAt']);
+
+const isEmptyValue = (v: unknown) => v === undefined || v === null || v === '' || (Array.isArray(v) && v.length === 0);
+
+// Own property names of a match; records can carry keys from other versions,
+// which are compared like any other property
+const matchKeys = (m: MatchData) => Object.keys(m) as (keyof MatchData)[];
+
+const sameValue = (a: unknown, b: unknown): boolean => {
+    // Treat missing, null and empty values as equal so legacy records don't show noise
+    if (isEmptyValue(a) && isEmptyValue(b)) return true;
+    return JSON.stringify(a) === JSON.stringify(b);
+};
+
+const sameScorers = (a: MatchData['scorers'] = [], b: MatchData['scorers'] = []): boolean => {
+    const toKey = (list: MatchData['scorers']) => list
+        .filter(s => s.count > 0)
+        .map(s => `${s.teammateId}:${s.count}`)
+        .sort()
+        .join('|');
+    return toKey(a) === toKey(b);
+};
+
+export const diffMatches = (local: MatchData, incoming: MatchData): FieldDiff[] => {
+    const diffs: FieldDiff[] = [];
+    const covered = new Set<keyof MatchData>(IGNORED_KEYS);
+
+    (Object.keys(FIELD_KEYS) as (keyof typeof FIELD_KEYS)[]).forEach(field => {
+        const keys = FIELD_KEYS[field];
+        keys.forEach(k => covered.add(k));
+        const changed = field === 'scorers'
+            ? !sameScorers(local.scorers, incoming.scorers)
+            : keys.some(k => !sameValue(local[k], incoming[k]));
+        if (changed) diffs.push({ field });
+    });
+
+    const allKeys = new Set([...matchKeys(local), ...matchKeys(incoming)]);
+    const detailKeys = Array.from(allKeys).filter(k =>
+        !covered.has(k) && !sameValue(local[k], incoming[k])
+    );
+    if (detailKeys.length > 0) diffs.push({ field: 'details', keys: detailKeys.sort() });
+
+    return diffs;
+};
+
+// Newer updatedAt wins; on a tie (or no timestamps) the local copy is kept
+export const getDefaultChoice = (local: MatchData, incoming: MatchData): ConflictChoice => {
+    return (incoming.updatedAt || 0) > (local.updatedAt || 0) ? 'incoming' : 'local';
+};
+
+const mergeVideos = (primary: VideoLink[] = [], secondary: VideoLink[] = []): VideoLink[] => {
+    const urls = new Set(primary.map(v => v.url));
+    return [...primary, ...secondary.filter(v => !urls.has(v.url))];
+};
+
+// Starts from the newer copy and fills in anything the newer copy left empty;
+// videos from both sides are kept.
+export const mergeMatchPair = (local: MatchData, incoming: MatchData): MatchData => {
+    const incomingIsNewer = getDefaultChoice(local, incoming) === 'incoming';
+    const newer = incomingIsNewer ? incoming : local;
+    const older = incomingIsNewer ? local : incoming;
+
+    const merged: MatchData = { ...older, ...newer };
+    const fillFromOlder = <K extends keyof MatchData>(key: K) => {
+        if (isEmptyValue(newer[key])) merged[key] = older[key];
+    };
+    matchKeys(older).forEach(fillFromOlder);
+    merged.videos = mergeVideos(newer.videos, older.videos);
+    merged.updatedAt = Math.max(local.updatedAt || 0, incoming.updatedAt || 0) || undefined;
+    return merged;
+};
+
+export const resolveConflict = (local: MatchData, incoming: MatchData, choice: ConflictChoice, merged?: MatchData): MatchData => {
+    if (choice === 'local') return local;
+    if (choice === 'incoming') return incoming;
+    return merged ?? mergeMatchPair(local, incoming);
+};
+
+// Incoming matches whose id exists locally with different content
+export const findMatchConflicts = (localMatches: MatchData[], incomingMatches: MatchData[]): MatchConflict[] => {
+    const localMap = new Map(localMatches.map(m => [m.id, m]));
+    const conflicts: MatchConflict[] = [];
+
+    incomingMatches.forEach(incoming => {
+        const local = localMap.get(incoming.id);
+        if (!local) return;
+        const diffs = diffMatches(local, incoming);
+        if (diffs.length === 0) return;
+        conflicts.push({ id: incoming.id, local, incoming, diffs, defaultChoice: getDefaultChoice(local, incoming) });
+    });
+
+    return conflicts;
+};
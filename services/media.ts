@@ -0,0 +1,151 @@
+
+import { UserProfile } from '../types';
+import { getAllRecords, putRecords, deleteRecords } from './db';
+import { generateId } from './ids';
+
+// --- Media Store ---
+// Large base64 images (avatars, team logos) can be moved out of the profile
+// records into their own store as binary Blobs. Stored profiles (and their
+// change log entries) then hold a short "media:<id>" reference instead of
+// megabytes of base64. The in-memory caches in storage.ts stay hydrated,
+// so components keep using plain data URLs.
+
+interface MediaRecord {
+    id: string;
+    blob: Blob;
+    createdAt: number;
+}
+
+const MEDIA_REF_PREFIX = 'media:';
+const MEDIA_REF_PATTERN = /"media:([A-Za-z0-9_-]+)"/g;
+
+const dataUrlsById = new Map<string, string>();
+const idsByDataUrl = new Map<string, string>();
+
+const register = (id: string, dataUrl: string) => {
+    dataUrlsById.set(id, dataUrl);
+    idsByDataUrl.set(dataUrl, id);
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+});
+
+const dataUrlToBlob = (dataUrl: string): Blob => {
+    const [header, base64] = dataUrl.split(',');
+    const mime = /data:([^;]+)/.exec(header)?.[1] || 'application/octet-stream';
+    const binary = atob(base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: mime });
+};
+
+export const isDataUrl = (value: unknown): value is string => typeof value === 'string' && value.startsWith('data:');
+
+export const isMediaRef = (value: unknown): value is string => typeof value === 'string' && value.startsWith(MEDIA_REF_PREFIX);
+
+export const isOffloaded = (dataUrl: string | null | undefined): boolean => !!dataUrl && idsByDataUrl.has(dataUrl);
+
+// Called once by initStorage() before profiles are hydrated
+export const loadMedia = async (): Promise<void> => {
+    const records = await getAllRecords<MediaRecord>('media');
+    for (const record of records) {
+        register(record.id, await blobToDataUrl(record.blob));
+    }
+};
+
+// Moves one data URL into the store; resolves with its reference
+export const storeMedia = async (dataUrl: string): Promise<string> => {
+    const existing = idsByDataUrl.get(dataUrl);
+    if (existing) return MEDIA_REF_PREFIX + existing;
+
+    const id = generateId();
+    await putRecords<MediaRecord>('media', [{ id, blob: dataUrlToBlob(dataUrl), createdAt: Date.now() }]);
+    register(id, dataUrl);
+    return MEDIA_REF_PREFIX + id;
+};
+
+// --- Profile (de)hydration ---
+
+// Unknown references are kept as-is so nothing is lost if the media arrives later
+const resolve = (value: string | null | undefined): string | null | undefined => {
+    if (!isMediaRef(value)) return value;
+    return dataUrlsById.get(value.slice(MEDIA_REF_PREFIX.length)) ?? value;
+};
+
+const toRef = (value: string | null | undefined): string | null | undefined => {
+    if (!isDataUrl(value)) return value;
+    const id = idsByDataUrl.get(value);
+    return id ? MEDIA_REF_PREFIX + id : value;
+};
+
+type ImageFields = Pick<UserProfile, 'avatar' | 'teams'>;
+
+// Works on whole profiles and on the partial field sets of change log entries
+const mapImages = <T extends Partial<ImageFields>>(profile: T, map: (value: string | null | undefined) => string | null | undefined): T => {
+    if (!profile) return profile;
+    const next = { ...profile };
+    if ('avatar' in profile) next.avatar = map(profile.avatar) ?? null;
+    if (Array.isArray(profile.teams)) {
+        next.teams = profile.teams.map(team => team && team.logo !== undefined ? { ...team, logo: map(team.logo) } : team);
+    }
+    return next;
+};
+
+export const hydrateProfile = <T extends Partial<ImageFields>>(profile: T): T => mapImages(profile, resolve);
+
+export const dehydrateProfile = <T extends Partial<ImageFields>>(profile: T): T => mapImages(profile, toRef);
+
+// --- Sync support ---
+
+// Media referenced anywhere inside `value` (e.g. exported change log entries)
+export const collectMediaForExport = (value: unknown): Record<string, string> => {
+    const media: Record<string, string> = {};
+    const text = JSON.stringify(value) || '';
+    for (const match of text.matchAll(MEDIA_REF_PATTERN)) {
+        const dataUrl = dataUrlsById.get(match[1]);
+        if (dataUrl) media[match[1]] = dataUrl;
+    }
+    return media;
+};
+
+// Registers media from a sync file so incoming references resolve immediately
+export const importMedia = (media: unknown): void => {
+    if (!media || typeof media !== 'object') return;
+    const records: MediaRecord[] = [];
+    Object.entries(media as Record<string, unknown>).forEach(([id, dataUrl]) => {
+        if (!isDataUrl(dataUrl) || dataUrlsById.has(id)) return;
+        register(id, dataUrl);
+        records.push({ id, blob: dataUrlToBlob(dataUrl), createdAt: Date.now() });
+    });
+    putRecords('media', records).catch(error => console.error('Error persisting media', error));
+};
+
+// --- Garbage collection ---
+
+// How often each media id is referenced inside `values` (stored records, log entries...)
+export const countMediaRefs = (values: unknown[]): Map<string, number> => {
+    const counts = new Map<string, number>();
+    values.forEach(value => {
+        const text = JSON.stringify(value) || '';
+        for (const match of text.matchAll(MEDIA_REF_PATTERN)) counts.set(match[1], (counts.get(match[1]) || 0) + 1);
+    });
+    return counts;
+};
+
+// Deletes stored media nothing refers to any more (replaced or deleted images).
+// Resolves with the number of items removed.
+export const sweepMedia = async (refCounts: Map<string, number>): Promise<number> => {
+    const unused = Array.from(dataUrlsById.keys()).filter(id => !refCounts.get(id));
+    if (unused.length === 0) return 0;
+    await deleteRecords('media', unused);
+    unused.forEach(id => {
+        const dataUrl = dataUrlsById.get(id);
+        dataUrlsById.delete(id);
+        if (dataUrl && idsByDataUrl.get(dataUrl) === id) idsByDataUrl.delete(dataUrl);
+    });
+    return unused.length;
+};
@@ -0,0 +1,314 @@
+
+import { MatchData, UserProfile, JournalEntry, Tournament, TournamentRound, LiveMatchEvent } from '../types';
+import { hasEvents, liveEventsToMatchEvents } from '../utils/matchEvents';
+import { DEFAULT_PERIOD_MINUTES } from './liveMatch';
+import type { ChangeLogMergeResult } from './changeLog';
+
+// --- Versioned Schema Migrations ---
+// Each step upgrades the whole data set by exactly one version. Steps run in
+// order from the stored version up to CURRENT_SCHEMA_VERSION, both at startup
+// and when an older backup file is imported.
+
+export type MigratableJournal = JournalEntry & { profileId?: string };
+
+export interface MigrationDataSet {
+    profiles: UserProfile[];
+    matches: MatchData[];
+    journals: MigratableJournal[];
+}
+
+interface Migration {
+    version: number;
+    description: string;
+    descriptionZh: string;
+    // Returns the upgraded data set and how many records were touched
+    up: (data: MigrationDataSet) => { data: MigrationDataSet; changed: number };
+}
+
+export interface MigrationStepReport {
+    version: number;
+    description: string;
+    descriptionZh: string;
+    changed: number;
+}
+
+export interface MigrationReport {
+    fromVersion: number;
+    toVersion: number;
+    steps: MigrationStepReport[];
+    dryRun: boolean;
+}
+
+// FNV-1a, so every device derives the same tournament id from the same name
+const stableHash = (value: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193) >>> 0;
+    }
+    return hash.toString(36);
+};
+
+const GROUP_LABEL = /group|pool|組|小組/i;
+
+// Builds a tournament record from the matches that carried its name
+const tournamentFromMatches = (profileId: string, teamId: string, name: string, matches: MatchData[]): { tournament: Tournament; roundOf: Map<string, string> } => {
+    const id = `tn_${stableHash(`${profileId}|${teamId}|${name}`)}`;
+    const sorted = [...matches].sort((a, b) => a.date.localeCompare(b.date));
+    const labels = sorted.map(m => (m.matchLabel || '').trim()).filter((l, i, arr) => l && arr.indexOf(l) === i);
+    const rounds: TournamentRound[] = labels.map((label, i) => ({
+        id: `${id}_r${i + 1}`,
+        name: label,
+        stage: GROUP_LABEL.test(label) ? 'group' : 'knockout'
+    }));
+    const hasGroups = rounds.some(r => r.stage === 'group');
+    const hasKnockout = rounds.some(r => r.stage === 'knockout');
+    const roundOf = new Map<string, string>();
+    sorted.forEach(m => {
+        const round = rounds.find(r => r.name === (m.matchLabel || '').trim());
+        if (round) roundOf.set(m.id, round.id);
+    });
+    const first = sorted[0]?.date || '';
+    const last = sorted[sorted.length - 1]?.date || '';
+    return {
+        tournament: {
+            id,
+            teamId,
+            name,
+            startDate: first,
+            endDate: last !== first ? last : undefined,
+            venue: sorted.find(m => m.location)?.location || '',
+            format: hasGroups && !hasKnockout ? 'roundRobin' : hasGroups ? 'groups' : 'knockout',
+            rounds
+        },
+        roundOf
+    };
+};
+
+const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Convert legacy single-team profiles into a teams list',
+        descriptionZh: '將舊版單一球隊檔案轉換為球隊列表',
+        up: (data) => {
+            let changed = 0;
+            const profiles = data.profiles.map(p => {
+                if (Array.isArray(p.teams) && p.teams.length > 0) {
+                    const needsRoster = p.teams.some(t => !Array.isArray(t.roster));
+                    if (!needsRoster) return p;
+                    changed++;
+                    return { ...p, teams: p.teams.map(t => ({ ...t, roster: t.roster || [] })) };
+                }
+                if (!p.teamName && Array.isArray(p.teams)) return p;
+                changed++;
+                if (!p.teamName) return { ...p, teams: [] };
+                return {
+                    ...p,
+                    teams: [{
+                        id: 'legacy_1', // Same id ProfileSetup assigns when editing a legacy profile
+                        name: p.teamName,
+                        jerseyNumber: p.jerseyNumber || '',
+                        themeColor: p.themeColor || 'blue',
+                        themePattern: 'solid' as const,
+                        roster: []
+                    }]
+                };
+            });
+            return { data: { ...data, profiles }, changed };
+        }
+    },
+    {
+        version: 2,
+        description: 'Assign matches without a profile to the only profile',
+        descriptionZh: '將未有檔案的比賽歸入唯一檔案',
+        up: (data) => {
+            if (data.profiles.length !== 1) return { data, changed: 0 };
+            const profileId = data.profiles[0].id;
+            let changed = 0;
+            const matches = data.matches.map(m => {
+                if (m.profileId) return m;
+                changed++;
+                return { ...m, profileId };
+            });
+            return { data: { ...data, matches }, changed };
+        }
+    },
+    {
+        version: 3,
+        description: 'Move legacy YouTube links into the videos list',
+        descriptionZh: '將舊版 YouTube 連結移至影片列表',
+        up: (data) => {
+            let changed = 0;
+            const matches = data.matches.map(m => {
+                const { youtubeUrl, ...rest } = m as MatchData & { youtubeUrl?: string };
+                const videos = rest.videos || [];
+                if (!youtubeUrl && rest.videos) return m;
+                changed++;
+                if (youtubeUrl && videos.length === 0) {
+                    return { ...rest, videos: [{ id: 'legacy_' + m.id, url: youtubeUrl, tag: 'highlight' as const, note: '' }] };
+                }
+                return { ...rest, videos };
+            });
+            return { data: { ...data, matches }, changed };
+        }
+    },
+    {
+        version: 4,
+        description: 'Create tournament records from tournament names and link their matches',
+        descriptionZh: '由杯賽名稱建立杯賽紀錄並連結比賽',
+        up: (data) => {
+            let changed = 0;
+            const links = new Map<string, { tournamentId: string; roundId?: string }>();
+            const profiles = data.profiles.map(p => {
+                const groups = new Map<string, MatchData[]>();
+                data.matches.forEach(m => {
+                    const name = (m.tournamentName || '').trim();
+                    if (m.profileId !== p.id || !name || m.tournamentId) return;
+                    const key = `${m.teamId}|${name}`;
+                    groups.set(key, [...(groups.get(key) || []), m]);
+                });
+                if (groups.size === 0) return p;
+
+                const existing = p.tournaments || [];
+                const created: Tournament[] = [];
+                groups.forEach((matches, key) => {
+                    const [teamId] = key.split('|');
+                    const name = key.slice(teamId.length + 1);
+                    const { tournament, roundOf } = tournamentFromMatches(p.id, teamId, name, matches);
+                    if (!existing.some(t => t.id === tournament.id)) created.push(tournament);
+                    matches.forEach(m => links.set(m.id, { tournamentId: tournament.id, roundId: roundOf.get(m.id) }));
+                });
+                if (created.length === 0) return p;
+                changed++;
+                return { ...p, tournaments: [...existing, ...created] };
+            });
+            const matches = data.matches.map(m => {
+                const link = links.get(m.id);
+                if (!link) return m;
+                changed++;
+                return { ...m, tournamentId: link.tournamentId, ...(link.roundId && { tournamentRoundId: link.roundId }) };
+            });
+            return { data: { ...data, profiles, matches }, changed };
+        }
+    },
+    {
+        version: 5,
+        description: 'Turn live mode taps into match events',
+        descriptionZh: '將即時模式記錄轉為比賽事件',
+        up: (data) => {
+            let changed = 0;
+            const matches = data.matches.map(m => {
+                const { liveEvents, ...rest } = m as MatchData & { liveEvents?: LiveMatchEvent[] };
+                if (!Array.isArray(liveEvents)) return m;
+                changed++;
+                if (liveEvents.length === 0 || hasEvents(rest)) return rest;
+                const periodMinutes = rest.periodLength || DEFAULT_PERIOD_MINUTES[rest.matchStructure || 'quarters'];
+                return { ...rest, events: liveEventsToMatchEvents(liveEvents, periodMinutes) };
+            });
+            return { data: { ...data, matches }, changed };
+        }
+    }
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Files exported before versioning carry `version: '1.0'` (or nothing) and are schema 0
+export const getBackupSchemaVersion = (data: any): number => {
+    return typeof data?.schemaVersion === 'number' ? data.schemaVersion : 0;
+};
+
+export const runMigrations = (
+    data: MigrationDataSet,
+    fromVersion: number,
+    options: { dryRun?: boolean } = {}
+): { data: MigrationDataSet; report: MigrationReport } => {
+    let current = data;
+    const steps: MigrationStepReport[] = [];
+
+    MIGRATIONS.filter(m => m.version > fromVersion).forEach(migration => {
+        const result = migration.up(current);
+        current = result.data;
+        steps.push({
+            version: migration.version,
+            description: migration.description,
+            descriptionZh: migration.descriptionZh,
+            changed: result.changed
+        });
+    });
+
+    return {
+        data: options.dryRun ? data : current,
+        report: {
+            fromVersion,
+            toVersion: Math.max(fromVersion, CURRENT_SCHEMA_VERSION),
+            steps,
+            dryRun: !!options.dryRun
+        }
+    };
+};
+
+// The version the change log of a sync file was written in. The log itself is
+// replayed as written, so migrateBackupData() keeps the original version for it.
+export const getChangeLogSchemaVersion = (data: any): number => {
+    return typeof data?.changesSchemaVersion === 'number' ? data.changesSchemaVersion : getBackupSchemaVersion(data);
+};
+
+// Upgrades the records a change-log merge replays from a log written in an
+// older version. Local profiles are passed in because some steps update them
+// (v4 adds tournaments); the ones that changed are returned as extra records.
+export const migrateReplayedRecords = (
+    records: ChangeLogMergeResult['records'],
+    localProfiles: UserProfile[],
+    fromVersion: number
+): ChangeLogMergeResult['records'] => {
+    if (fromVersion >= CURRENT_SCHEMA_VERSION) return records;
+
+    const replayed = (store: 'profiles' | 'matches' | 'journals') => records.filter(r => r.store === store && r.record).map(r => r.record);
+    const replayedProfiles: UserProfile[] = replayed('profiles');
+    const context = localProfiles.filter(p => !replayedProfiles.some(r => r.id === p.id));
+    const { data } = runMigrations({
+        profiles: [...context, ...replayedProfiles],
+        matches: replayed('matches'),
+        journals: replayed('journals')
+    }, fromVersion);
+
+    const upgraded = new Map<string, any>();
+    data.profiles.forEach(p => upgraded.set(`profiles:${p.id}`, p));
+    data.matches.forEach(m => upgraded.set(`matches:${m.id}`, m));
+    data.journals.forEach(j => upgraded.set(`journals:${j.id}`, j));
+
+    const changedContext = data.profiles
+        .filter(p => context.some(c => c.id === p.id) && !context.includes(p))
+        .map(p => ({ store: 'profiles' as const, recordId: p.id, record: p }));
+
+    return [
+        ...records.map(r => r.record ? { ...r, record: upgraded.get(`${r.store}:${r.recordId}`) ?? r.record } : r),
+        ...changedContext
+    ];
+};
+
+// Upgrades the profiles/matches/journals carried by a backup or sync file
+export const migrateBackupData = (backup: any, options: { dryRun?: boolean } = {}) => {
+    const profiles: UserProfile[] = Array.isArray(backup.profiles)
+        ? backup.profiles
+        : backup.profile ? [backup.profile] : [];
+    const input: MigrationDataSet = {
+        profiles,
+        matches: Array.isArray(backup.matches) ? backup.matches : [],
+        journals: Array.isArray(backup.journals) ? backup.journals : []
+    };
+
+    const { data, report } = runMigrations(input, getBackupSchemaVersion(backup), options);
+
+    const migrated = {
+        ...backup,
+        schemaVersion: report.toVersion,
+        matches: data.matches,
+        journals: data.journals
+    };
+    if (Array.isArray(backup.profiles)) migrated.profiles = data.profiles;
+    else if (backup.profile) migrated.profile = data.profiles[0];
+    if (Array.isArray(backup.changes)) migrated.changesSchemaVersion = getChangeLogSchemaVersion(backup);
+
+    return { data: migrated, report };
+};
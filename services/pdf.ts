@@ -0,0 +1,94 @@
+
+// --- Minimal PDF Writer ---
+// Builds a PDF where every page is one full-page JPEG. Pages are rendered as
+// HTML and rasterised with html2canvas first, so Chinese text, icons and
+// charts need no embedded fonts and everything runs on the device.
+
+export interface PdfPageImage {
+    jpeg: Uint8Array;
+    width: number;  // Pixel size of the JPEG
+    height: number;
+}
+
+// A4 in PDF points
+export const A4 = { width: 595.28, height: 841.89 };
+
+const encoder = new TextEncoder();
+
+const latin1 = (text: string): Uint8Array => {
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+    return bytes;
+};
+
+// Metadata strings as UTF-16BE hex so any language survives
+const pdfTextString = (text: string): string => {
+    let hex = 'FEFF';
+    for (let i = 0; i < text.length; i++) hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+    return `<${hex}>`;
+};
+
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+    const binary = atob(dataUrl.split(',')[1] || '');
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+export const createImagePdf = (pages: PdfPageImage[], title: string, pageSize = A4): Blob => {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+
+    const write = (data: string | Uint8Array) => {
+        const bytes = typeof data === 'string' ? latin1(data) : data;
+        chunks.push(bytes);
+        length += bytes.length;
+    };
+    const beginObject = (id: number) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+
+    // Object ids: 1 catalog, 2 page tree, 3 info, then 3 per page (page, content, image)
+    const pageIds = pages.map((_, i) => 4 + i * 3);
+
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+    beginObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+    beginObject(2);
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+    beginObject(3);
+    write(`<< /Title ${pdfTextString(title)} /Producer ${pdfTextString('Football Diary')} >>\nendobj\n`);
+
+    pages.forEach((page, i) => {
+        const [pageId, contentId, imageId] = [pageIds[i], pageIds[i] + 1, pageIds[i] + 2];
+        const w = pageSize.width.toFixed(2);
+        const h = pageSize.height.toFixed(2);
+        const content = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q`;
+
+        beginObject(pageId);
+        write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`);
+
+        beginObject(contentId);
+        write(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+        beginObject(imageId);
+        write(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+        write(page.jpeg);
+        write('\nendstream\nendobj\n');
+    });
+
+    const objectCount = 4 + pages.length * 3;
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) {
+        write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    return new Blob(chunks, { type: 'application/pdf' });
+};
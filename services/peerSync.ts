@@ -0,0 +1,368 @@
+
+// --- Device-to-device Sync (WebRTC) ---
+// One device hosts a session and shows a QR pairing code (relay address, room
+// and a secret); the other scans it. The relay carries one offer and one answer,
+// each signed with the secret, after which both devices send each other a full
+// backup over a data channel. The user confirms before it goes through the
+// normal import pipeline in SyncModal.
+
+export interface PairingInfo {
+    relay: string; // Relay base URL, or LOCAL_RELAY for the in-browser stand-in
+    room: string;
+    secret: string; // Never sent to the relay; signs the offer and answer
+}
+
+export type SignalKind = 'offer' | 'answer';
+
+export interface SignalingChannel {
+    send: (room: string, kind: SignalKind, payload: string) => Promise<void>;
+    receive: (room: string, kind: SignalKind, timeoutMs: number) => Promise<string>;
+    close?: () => void; // Called once pairing is over, whatever the outcome
+}
+
+export type PeerSyncStatus = 'waiting' | 'connecting' | 'transferring' | 'done';
+
+export const LOCAL_RELAY = 'local';
+export const PEER_SYNC_TIMEOUT = 'peer_sync_timeout';
+export const PEER_SYNC_UNVERIFIED = 'peer_sync_unverified';
+
+const RELAY_URL_KEY = 'arthur_sync_relay_url';
+const PAIRING_PREFIX = 'arthursync://pair';
+const ROOM_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // No 0/O or 1/I, the code can be typed
+const ROOM_LENGTH = 6;
+const SECRET_LENGTH = 8;
+const PAIRING_TIMEOUT_MS = 5 * 60 * 1000;
+const CONNECT_TIMEOUT_MS = 30 * 1000;
+const POLL_INTERVAL_MS = 1000;
+const CHUNK_SIZE = 16 * 1024;
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const withTimeout = <T>(promise: Promise<T>, ms: number): Promise<T> => {
+    return Promise.race([
+        promise,
+        new Promise<T>((_, reject) => setTimeout(() => reject(new Error(PEER_SYNC_TIMEOUT)), ms))
+    ]);
+};
+
+// Build-time default from SYNC_RELAY_URL (see vite.config.ts); `process` is absent without a build
+const buildRelayUrl = (): string => {
+    try {
+        return process.env.SYNC_RELAY_URL || '';
+    } catch {
+        return '';
+    }
+};
+
+// --- Relay address ---
+
+export const getRelayUrl = (): string => {
+    return localStorage.getItem(RELAY_URL_KEY) || buildRelayUrl() || LOCAL_RELAY;
+};
+
+export const setRelayUrl = (url: string): void => {
+    const trimmed = url.trim().replace(/\/+$/, '');
+    if (trimmed) localStorage.setItem(RELAY_URL_KEY, trimmed);
+    else localStorage.removeItem(RELAY_URL_KEY);
+};
+
+// --- Pairing code ---
+
+const randomCode = (length: number): string => {
+    const bytes = crypto.getRandomValues(new Uint8Array(length));
+    return Array.from(bytes, b => ROOM_ALPHABET[b % ROOM_ALPHABET.length]).join('');
+};
+
+export const createPairing = (relay: string): PairingInfo => ({
+    relay,
+    room: randomCode(ROOM_LENGTH),
+    secret: randomCode(SECRET_LENGTH)
+});
+
+// The code shown under the QR code for typing it in by hand
+export const formatPairingCode = (info: PairingInfo): string => `${info.room}-${info.secret}`;
+
+export const encodePairing = (info: PairingInfo): string => {
+    return `${PAIRING_PREFIX}?room=${encodeURIComponent(info.room)}&secret=${encodeURIComponent(info.secret)}&relay=${encodeURIComponent(info.relay)}`;
+};
+
+// Accepts a scanned QR payload or a typed pairing code (which uses this device's relay)
+export const decodePairing = (text: string): PairingInfo | null => {
+    const value = text.trim();
+    if (value.startsWith(PAIRING_PREFIX)) {
+        const params = new URLSearchParams(value.slice(value.indexOf('?') + 1));
+        const room = params.get('room');
+        const secret = params.get('secret');
+        const relay = params.get('relay');
+        return room && secret && relay ? { room, secret, relay } : null;
+    }
+    const code = value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    if (code.length !== ROOM_LENGTH + SECRET_LENGTH) return null;
+    return { room: code.slice(0, ROOM_LENGTH), secret: code.slice(ROOM_LENGTH), relay: getRelayUrl() };
+};
+
+// --- Signal authentication ---
+// The relay is not trusted: each offer/answer carries an HMAC keyed with the
+// pairing secret. The SDP holds the DTLS certificate fingerprint, so a relay
+// that swaps in its own offer or answer fails verification on the other side.
+
+const signalKey = (secret: string): Promise<CryptoKey> =>
+    crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+
+const signedContent = (room: string, kind: SignalKind, description: string) =>
+    new TextEncoder().encode(`${room}:${kind}:${description}`);
+
+const signSignal = async (pairing: PairingInfo, kind: SignalKind, description: RTCSessionDescription | null): Promise<string> => {
+    const text = JSON.stringify(description);
+    const mac = await crypto.subtle.sign('HMAC', await signalKey(pairing.secret), signedContent(pairing.room, kind, text));
+    return JSON.stringify({ description: text, mac: btoa(String.fromCharCode(...new Uint8Array(mac))) });
+};
+
+const openSignal = async (pairing: PairingInfo, kind: SignalKind, payload: string): Promise<RTCSessionDescriptionInit> => {
+    try {
+        const { description, mac } = JSON.parse(payload);
+        const macBytes = Uint8Array.from(atob(mac), c => c.charCodeAt(0));
+        const valid = await crypto.subtle.verify('HMAC', await signalKey(pairing.secret), macBytes, signedContent(pairing.room, kind, description));
+        if (valid) return JSON.parse(description);
+    } catch (e) {
+        console.error('Unreadable pairing signal', e);
+    }
+    throw new Error(PEER_SYNC_UNVERIFIED);
+};
+
+// --- Signalling ---
+
+// Self-hostable relay (relay/server.mjs), polled over plain HTTP
+export const createRelaySignaling = (baseUrl: string): SignalingChannel => ({
+    send: async (room, kind, payload) => {
+        const res = await fetch(`${baseUrl}/rooms/${room}/${kind}`, { method: 'PUT', body: payload });
+        if (!res.ok) throw new Error(`Relay rejected ${kind} (${res.status})`);
+    },
+    receive: async (room, kind, timeoutMs) => {
+        const deadline = Date.now() + timeoutMs;
+        while (Date.now() < deadline) {
+            const res = await fetch(`${baseUrl}/rooms/${room}/${kind}`, { cache: 'no-store' });
+            if (res.status === 200) return res.text();
+            if (res.status !== 204) throw new Error(`Relay error (${res.status})`);
+            await wait(POLL_INTERVAL_MS);
+        }
+        throw new Error(PEER_SYNC_TIMEOUT);
+    }
+});
+
+// Local stand-in for the relay: tabs of the same browser (and the same tab)
+// exchange signals through a BroadcastChannel. Used for development and tests.
+export const createLocalSignaling = (): SignalingChannel => {
+    const received = new Map<string, string>();
+    const listeners = new Set<() => void>();
+    const channel = new BroadcastChannel('arthur_peer_sync');
+
+    const store = (key: string, payload: string) => {
+        received.set(key, payload);
+        listeners.forEach(listener => listener());
+    };
+    channel.onmessage = (event: MessageEvent) => {
+        const { key, payload } = event.data || {};
+        if (typeof key === 'string' && typeof payload === 'string') store(key, payload);
+    };
+
+    return {
+        send: async (room, kind, payload) => {
+            const key = `${room}:${kind}`;
+            // Like the relay, the first signal for a room wins
+            if (received.has(key)) throw new Error(`Relay rejected ${kind} (409)`);
+            channel.postMessage({ key, payload });
+            store(key, payload);
+        },
+        receive: (room, kind, timeoutMs) => new Promise((resolve, reject) => {
+            const key = `${room}:${kind}`;
+            const check = () => {
+                const payload = received.get(key);
+                if (payload === undefined) return;
+                cleanup();
+                resolve(payload);
+            };
+            const timer = setTimeout(() => {
+                cleanup();
+                reject(new Error(PEER_SYNC_TIMEOUT));
+            }, timeoutMs);
+            const cleanup = () => {
+                clearTimeout(timer);
+                listeners.delete(check);
+            };
+            listeners.add(check);
+            check();
+        }),
+        close: () => {
+            listeners.clear();
+            channel.close();
+        }
+    };
+};
+
+export const createSignaling = (relay: string): SignalingChannel => {
+    return relay === LOCAL_RELAY ? createLocalSignaling() : createRelaySignaling(relay);
+};
+
+// --- WebRTC ---
+
+// No STUN/TURN: both devices are expected on the same network, host candidates are enough
+const createPeerConnection = () => new RTCPeerConnection({ iceServers: [] });
+
+// Offer/answer are sent once, so wait until every candidate is inside the SDP
+const waitForIceGathering = (pc: RTCPeerConnection): Promise<void> => {
+    if (pc.iceGatheringState === 'complete') return Promise.resolve();
+    return new Promise(resolve => {
+        const onChange = () => {
+            if (pc.iceGatheringState !== 'complete') return;
+            pc.removeEventListener('icegatheringstatechange', onChange);
+            resolve();
+        };
+        pc.addEventListener('icegatheringstatechange', onChange);
+    });
+};
+
+const waitForOpen = (channel: RTCDataChannel): Promise<void> => {
+    if (channel.readyState === 'open') return Promise.resolve();
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(PEER_SYNC_TIMEOUT)), CONNECT_TIMEOUT_MS);
+        channel.onopen = () => { clearTimeout(timer); resolve(); };
+        channel.onerror = () => { clearTimeout(timer); reject(new Error('Data channel error')); };
+    });
+};
+
+const waitForBuffer = (channel: RTCDataChannel): Promise<void> => {
+    if (channel.bufferedAmount < MAX_BUFFERED_BYTES) return Promise.resolve();
+    return new Promise(resolve => {
+        channel.bufferedAmountLowThreshold = MAX_BUFFERED_BYTES / 2;
+        channel.onbufferedamountlow = () => {
+            channel.onbufferedamountlow = null;
+            resolve();
+        };
+    });
+};
+
+type PeerMessage =
+    | { type: 'chunk'; index: number; total: number; data: string }
+    | { type: 'received' };
+
+// Sends our payload in chunks and resolves with the peer's payload once both
+// sides have confirmed receipt, so neither closes the connection early.
+const exchangePayload = (channel: RTCDataChannel, payload: unknown, onStatus: (s: PeerSyncStatus) => void): Promise<any> => {
+    return new Promise((resolve, reject) => {
+        const chunks: string[] = [];
+        let receivedCount = 0;
+        let theirPayload: any = undefined;
+        let peerConfirmed = false;
+
+        const finishIfDone = () => {
+            if (theirPayload !== undefined && peerConfirmed) resolve(theirPayload);
+        };
+
+        channel.onmessage = (event: MessageEvent) => {
+            try {
+                const message: PeerMessage = JSON.parse(event.data);
+                if (message.type === 'received') {
+                    peerConfirmed = true;
+                } else if (message.type === 'chunk') {
+                    if (chunks[message.index] === undefined) receivedCount++;
+                    chunks[message.index] = message.data;
+                    if (receivedCount === message.total) {
+                        theirPayload = JSON.parse(chunks.join(''));
+                        channel.send(JSON.stringify({ type: 'received' }));
+                    }
+                }
+                finishIfDone();
+            } catch (e) {
+                reject(e);
+            }
+        };
+        channel.onclose = () => {
+            if (theirPayload === undefined || !peerConfirmed) reject(new Error('Connection closed'));
+        };
+
+        onStatus('transferring');
+        (async () => {
+            const text = JSON.stringify(payload);
+            const total = Math.max(1, Math.ceil(text.length / CHUNK_SIZE));
+            for (let index = 0; index < total; index++) {
+                await waitForBuffer(channel);
+                const data = text.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE);
+                channel.send(JSON.stringify({ type: 'chunk', index, total, data }));
+            }
+        })().catch(reject);
+    });
+};
+
+const runSession = async (pc: RTCPeerConnection, channel: RTCDataChannel, payload: unknown, onStatus: (s: PeerSyncStatus) => void) => {
+    try {
+        await waitForOpen(channel);
+        const theirPayload = await exchangePayload(channel, payload, onStatus);
+        onStatus('done');
+        return theirPayload;
+    } finally {
+        channel.close();
+        pc.close();
+    }
+};
+
+// Device showing the QR code
+export const hostPeerSync = async (
+    signaling: SignalingChannel,
+    pairing: PairingInfo,
+    payload: unknown,
+    onStatus: (s: PeerSyncStatus) => void
+): Promise<any> => {
+    const pc = createPeerConnection();
+    try {
+        const channel = pc.createDataChannel('sync', { ordered: true });
+        await pc.setLocalDescription(await pc.createOffer());
+        await waitForIceGathering(pc);
+        await signaling.send(pairing.room, 'offer', await signSignal(pairing, 'offer', pc.localDescription));
+
+        onStatus('waiting');
+        const answer = await signaling.receive(pairing.room, 'answer', PAIRING_TIMEOUT_MS);
+        onStatus('connecting');
+        await pc.setRemoteDescription(await openSignal(pairing, 'answer', answer));
+
+        return await runSession(pc, channel, payload, onStatus);
+    } catch (e) {
+        pc.close();
+        throw e;
+    } finally {
+        signaling.close?.();
+    }
+};
+
+// Device that scanned the QR code
+export const joinPeerSync = async (
+    signaling: SignalingChannel,
+    pairing: PairingInfo,
+    payload: unknown,
+    onStatus: (s: PeerSyncStatus) => void
+): Promise<any> => {
+    const pc = createPeerConnection();
+    try {
+        onStatus('connecting');
+        const channelPromise = new Promise<RTCDataChannel>(resolve => {
+            pc.ondatachannel = event => resolve(event.channel);
+        });
+
+        const offer = await signaling.receive(pairing.room, 'offer', CONNECT_TIMEOUT_MS);
+        await pc.setRemoteDescription(await openSignal(pairing, 'offer', offer));
+        await pc.setLocalDescription(await pc.createAnswer());
+        await waitForIceGathering(pc);
+        await signaling.send(pairing.room, 'answer', await signSignal(pairing, 'answer', pc.localDescription));
+
+        const channel = await withTimeout(channelPromise, CONNECT_TIMEOUT_MS);
+        return await runSession(pc, channel, payload, onStatus);
+    } catch (e) {
+        pc.close();
+        throw e;
+    } finally {
+        signaling.close?.();
+    }
+};
+
+export const isPeerSyncSupported = (): boolean => typeof RTCPeerConnection !== 'undefined';
@@ -0,0 +1,72 @@
+
+import { getAllRecords, putRecord, putRecords, deleteRecords } from './db';
+import { dehydrateProfile } from './media';
+import { generateId } from './ids';
+import type { FullBackupData } from './storage';
+
+// --- Local Snapshot History ---
+// Full copies of the diary kept inside IndexedDB: taken by storage.ts before
+// imports, profile deletions, bulk edits and restores, and by the automatic
+// backup when it cannot write to a folder. The change log (and the media it
+// refers to) is left out, snapshots are for restore only. Profiles are stored
+// with offloaded images as references, like the profiles store (see media.ts).
+
+export type SnapshotReason = 'auto' | 'import' | 'profileDelete' | 'bulkEdit' | 'restore';
+
+export type SnapshotData = Omit<FullBackupData, 'changes' | 'media'>;
+
+export interface Snapshot {
+    id: string;
+    createdAt: number;
+    reason: SnapshotReason;
+    counts: { profiles: number; matches: number; journals: number };
+    data: SnapshotData;
+    bytes?: number; // Size of `data` as JSON (missing on older snapshots)
+}
+
+const MAX_TOTAL_BYTES = 20 * 1024 * 1024; // All snapshots together, whatever their reason
+
+// Newest first
+export const getSnapshots = async (): Promise<Snapshot[]> => {
+    const snapshots = await getAllRecords<Snapshot>('snapshots');
+    return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteSnapshots = (ids: string[]): Promise<void> => deleteRecords('snapshots', ids);
+
+// Saves a snapshot, drops the oldest ones of the same reason beyond `keep`, then
+// the oldest of any reason until all of them fit MAX_TOTAL_BYTES. The new one always stays.
+export const saveSnapshot = async (reason: SnapshotReason, backup: FullBackupData, keep: number): Promise<Snapshot> => {
+    const { changes, media, ...rest } = backup;
+    const data: SnapshotData = { ...rest, profiles: rest.profiles.map(p => dehydrateProfile(p)) };
+    const snapshot: Snapshot = {
+        id: `snap_${generateId()}`,
+        createdAt: Date.now(),
+        reason,
+        counts: { profiles: data.profiles.length, matches: data.matches.length, journals: data.journals.length },
+        data,
+        bytes: JSON.stringify(data).length
+    };
+    await putRecord('snapshots', snapshot);
+
+    const snapshots = await getSnapshots();
+    const stale = new Set(snapshots.filter(s => s.reason === reason).slice(keep).map(s => s.id));
+    let total = 0;
+    snapshots.forEach(s => {
+        if (stale.has(s.id)) return;
+        total += s.bytes ?? JSON.stringify(s.data).length;
+        if (total > MAX_TOTAL_BYTES && s.id !== snapshot.id) stale.add(s.id);
+    });
+    await deleteSnapshots(Array.from(stale));
+    return snapshot;
+};
+
+// Rewrites stored snapshots after images were moved into the media store
+export const dehydrateSnapshots = async (): Promise<void> => {
+    const snapshots = await getSnapshots();
+    const rewritten = snapshots.map(s => {
+        const data = { ...s.data, profiles: s.data.profiles.map(p => dehydrateProfile(p)) };
+        return { ...s, data, bytes: JSON.stringify(data).length };
+    });
+    await putRecords('snapshots', rewritten);
+};
@@ -1,13 +1,359 @@
 
-import { MatchData, UserProfile } from '../types';
+import { MatchData, UserProfile, JournalEntry, Teammate } from '../types';
+import {
+    openDatabase,
+    isIndexedDbAvailable,
+    getAllRecords,
+    putRecord,
+    putRecords,
+    deleteRecord,
+    deleteRecords,
+    getMetaValue,
+    setMetaValue,
+    StoreName
+} from './db';
+import { runMigrations, migrateBackupData, migrateReplayedRecords, CURRENT_SCHEMA_VERSION } from './migrations';
+import { resolveConflict, getDefaultChoice, diffMatches, ConflictChoice, MatchConflict } from './matchMerge';
+import {
+    ChangeEntry,
+    ChangeStore,
+    createPutEntry,
+    createDeleteEntry,
+    createBaselineEntry,
+    collectTombstones,
+    mergeChangeLogs,
+    replayRecord,
+    compactChangeLog,
+    isCompactedEntry,
+    isChangeEntry,
+    getDeviceId,
+    ChangeLogMergeResult
+} from './changeLog';
+import { saveSnapshot, getSnapshots, dehydrateSnapshots, Snapshot, SnapshotReason } from './snapshots';
+import { generateId } from './ids';
+import { withDerivedTotals } from '../utils/matchEvents';
+import {
+    loadMedia,
+    storeMedia,
+    importMedia,
+    hydrateProfile,
+    dehydrateProfile,
+    collectMediaForExport,
+    isDataUrl,
+    isOffloaded,
+    countMediaRefs,
+    sweepMedia
+} from './media';
 
 const MATCH_STORAGE_KEY = 'arthur_match_diary_v1';
 const PROFILES_STORAGE_KEY = 'arthur_match_profiles_list_v1';
 const LEGACY_PROFILE_KEY = 'arthur_match_profile_v1';
+const JOURNAL_KEY_PREFIX = 'journals_';
 const BACKUP_TIMESTAMP_KEY = 'arthur_last_backup_timestamp';
+const LOCAL_STORAGE_MIGRATED_FLAG = 'localStorageMigrated';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const CHANGE_LOG_SEEDED_FLAG = 'changeLogSeeded';
+const CHANGE_LOG_COMPACTED_KEY = 'changeLogCompacted';
+const CHANGE_LOG_COMPACT_DAYS = 90; // History older than this is folded per record
+const SAFETY_SNAPSHOT_KEEP = 10; // Per reason, within the overall size limit in snapshots.ts
+const SNAPSHOT_COALESCE_MS = 10000;
+const TRASH_RETENTION_KEY = 'arthur_trash_retention_days';
+const DEFAULT_TRASH_RETENTION_DAYS = 30;
+const OFFLOAD_MIN_BYTES = 50 * 1024; // Images smaller than this stay inline
 
-// --- Helper: Generate ID ---
-const generateId = () => Date.now().toString(36) + Math.random().toString(36).substr(2);
+// Journal entries are stored in one table for all profiles
+export type StoredJournalEntry = JournalEntry & { profileId: string };
+
+// Soft-deleted records, restorable until purged
+export type TrashItem = {
+    id: string;
+    deletedAt: number;
+    label: string;
+    profileId: string;
+} & (
+    | { kind: 'profile'; profile: UserProfile; matches: MatchData[]; journals: StoredJournalEntry[] }
+    | { kind: 'match'; match: MatchData }
+    | { kind: 'journal'; journal: StoredJournalEntry }
+    | { kind: 'teammate'; teamId: string; index: number; teammate: Teammate }
+);
+
+export type TrashKind = TrashItem['kind'];
+
+// --- In-memory cache ---
+// IndexedDB is async, but App.tsx reads synchronously. The cache is hydrated
+// once by initStorage() and every mutation writes the touched records through.
+let profilesCache: UserProfile[] = [];
+let matchesCache: MatchData[] = [];
+let journalsCache: StoredJournalEntry[] = [];
+let changesCache: ChangeEntry[] = [];
+let compactedCount = 0; // Entries folded away by compaction, so getChangeCount() keeps growing
+let trashCache: TrashItem[] = [];
+let initPromise: Promise<void> | null = null;
+let initError: unknown = null; // Set when IndexedDB could not be opened or read
+
+// Notified after every tracked mutation (used by the automatic backup)
+const changeListeners = new Set<() => void>();
+// Notified when a background write fails (used for the error toast)
+const writeErrorListeners = new Set<(label: string, error: unknown) => void>();
+
+// --- Helper: Write-through (fire and forget, errors are logged) ---
+const persist = (label: string, task: Promise<void>) => {
+    task.catch(error => {
+        console.error(`Error persisting ${label}`, error);
+        writeErrorListeners.forEach(listener => listener(label, error));
+    });
+};
+
+// Profiles (also inside trash items) are stored with offloaded images replaced
+// by references (see media.ts)
+const mapTrashProfile = <I extends TrashItem>(item: I, map: (profile: UserProfile) => UserProfile): I =>
+    item.kind === 'profile' ? { ...item, profile: map(item.profile) } : item;
+
+// The store a record is written to tells its type
+const isProfileRecord = (store: StoreName, record: unknown): record is UserProfile => store === 'profiles' && !!record;
+const isTrashRecord = (store: StoreName, record: unknown): record is TrashItem => store === 'trash' && !!record;
+
+const toStored = <T>(store: StoreName, record: T): T =>
+    isProfileRecord(store, record) ? dehydrateProfile(record)
+    : isTrashRecord(store, record) ? mapTrashProfile(record, p => dehydrateProfile(p))
+    : record;
+
+const persistPut = <T>(store: StoreName, record: T) => persist(store, putRecord(store, toStored(store, record)));
+const persistPutAll = <T>(store: StoreName, records: T[]) => persist(store, putRecords(store, records.map(r => toStored(store, r))));
+const persistDelete = (store: StoreName, id: string) => persist(store, deleteRecord(store, id));
+const persistDeleteAll = (store: StoreName, ids: string[]) => persist(store, deleteRecords(store, ids));
+
+// --- Helper: Change tracking (see changeLog.ts) ---
+const dehydrateEntry = (entry: ChangeEntry): ChangeEntry =>
+    entry.store === 'profiles' && entry.fields ? { ...entry, fields: dehydrateProfile(entry.fields) } : entry;
+
+const recordChanges = (entries: (ChangeEntry | null)[]) => {
+    const added = entries.filter((e): e is ChangeEntry => e !== null).map(dehydrateEntry);
+    if (added.length === 0) return;
+    changesCache = [...changesCache, ...added];
+    persistPutAll('changes', added);
+    notifyChange();
+};
+
+const notifyChange = () => {
+    changeListeners.forEach(listener => {
+        try {
+            listener();
+        } catch (e) {
+            console.error('Storage change listener error', e);
+        }
+    });
+};
+
+const trackPut = <T extends { id: string }>(store: ChangeStore, previous: T | undefined, next: T) =>
+    recordChanges([createPutEntry(store, previous, next)]);
+
+const trackDeletes = (store: ChangeStore, ids: string[]) =>
+    recordChanges(ids.map(id => createDeleteEntry(store, id)));
+
+// --- Helper: Safety snapshots (see snapshots.ts) ---
+// Captured synchronously before the mutation, written in the background.
+// One import calls several import functions; they share a single snapshot.
+const lastSnapshotAt: Partial<Record<SnapshotReason, number>> = {};
+
+const snapshotBefore = (reason: SnapshotReason) => {
+    const now = Date.now();
+    if (now - (lastSnapshotAt[reason] || 0) < SNAPSHOT_COALESCE_MS) return;
+    lastSnapshotAt[reason] = now;
+    saveSnapshot(reason, getFullBackupData(), SAFETY_SNAPSHOT_KEEP)
+        .catch(error => console.error(`Error saving ${reason} snapshot`, error));
+};
+
+// --- Helper: Trash ---
+// One item per record; deleting the same record again replaces its item
+export const getTrashId = (kind: TrashKind, recordId: string) => `${kind}:${recordId}`;
+
+const moveToTrash = (item: TrashItem) => {
+    trashCache = [item, ...trashCache.filter(i => i.id !== item.id)];
+    persistPut('trash', item);
+};
+
+// --- One-time migration from localStorage ---
+const readLocalStorageJson = <T>(key: string): T | null => {
+    try {
+        const data = localStorage.getItem(key);
+        return data ? JSON.parse(data) : null;
+    } catch (e) {
+        console.error(`Error reading ${key} from local storage`, e);
+        return null;
+    }
+};
+
+const migrateFromLocalStorage = async (): Promise<void> => {
+    const alreadyMigrated = await getMetaValue<boolean>(LOCAL_STORAGE_MIGRATED_FLAG);
+    if (alreadyMigrated) return;
+
+    let profiles = readLocalStorageJson<UserProfile[]>(PROFILES_STORAGE_KEY) || [];
+    const matches = readLocalStorageJson<MatchData[]>(MATCH_STORAGE_KEY) || [];
+
+    // Legacy single profile (pre multi-profile versions) only needs an ID here;
+    // its teams and orphaned matches are upgraded by the schema migrations
+    if (profiles.length === 0) {
+        const legacyProfile = readLocalStorageJson<any>(LEGACY_PROFILE_KEY);
+        if (legacyProfile) {
+            profiles = [{ ...legacyProfile, id: generateId() }];
+        }
+    }
+
+    const journalKeys: string[] = [];
+    const journals: StoredJournalEntry[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        if (!key || !key.startsWith(JOURNAL_KEY_PREFIX)) continue;
+        const profileId = key.slice(JOURNAL_KEY_PREFIX.length);
+        const entries = readLocalStorageJson<JournalEntry[]>(key) || [];
+        entries.forEach(entry => journals.push({ ...entry, profileId }));
+        journalKeys.push(key);
+    }
+
+    await putRecords('profiles', profiles);
+    await putRecords('matches', matches);
+    await putRecords('journals', journals);
+    await setMetaValue(LOCAL_STORAGE_MIGRATED_FLAG, true);
+
+    // Only free the quota once everything is safely in IndexedDB
+    localStorage.removeItem(PROFILES_STORAGE_KEY);
+    localStorage.removeItem(MATCH_STORAGE_KEY);
+    localStorage.removeItem(LEGACY_PROFILE_KEY);
+    journalKeys.forEach(key => localStorage.removeItem(key));
+};
+
+// --- Schema migrations on the local store ---
+const applySchemaMigrations = async (): Promise<void> => {
+    const storedVersion = (await getMetaValue<number>(SCHEMA_VERSION_KEY)) ?? 0;
+    if (storedVersion >= CURRENT_SCHEMA_VERSION) return;
+
+    const { data, report } = runMigrations(
+        { profiles: profilesCache, matches: matchesCache, journals: journalsCache },
+        storedVersion
+    );
+
+    if (report.steps.some(step => step.changed > 0)) {
+        await putRecords('profiles', data.profiles.map(p => dehydrateProfile(p)));
+        await putRecords('matches', data.matches);
+        await putRecords('journals', data.journals);
+
+        // Log what the migration changed so merges on other devices pick it up.
+        // Before the log is seeded, the baseline entries already carry it.
+        if (await getMetaValue<boolean>(CHANGE_LOG_SEEDED_FLAG)) {
+            // Unchanged records come back as the same object
+            const changed = <T extends { id: string }>(before: T[], after: T[]) =>
+                after.flatMap(next => {
+                    const previous = before.find(r => r.id === next.id);
+                    return previous && previous !== next ? [{ previous, next }] : [];
+                });
+            const entries = [
+                ...changed(profilesCache, data.profiles).map(({ previous, next }) => createPutEntry('profiles', dehydrateProfile(previous), dehydrateProfile(next))),
+                ...changed(matchesCache, data.matches).map(({ previous, next }) => createPutEntry('matches', previous, next)),
+                ...changed<JournalEntry>(journalsCache, data.journals).map(({ previous, next }) => createPutEntry('journals', previous, next))
+            ].filter((e): e is ChangeEntry => e !== null);
+            await putRecords('changes', entries);
+            changesCache = [...changesCache, ...entries];
+        }
+    }
+    await setMetaValue(SCHEMA_VERSION_KEY, report.toVersion);
+
+    profilesCache = data.profiles;
+    matchesCache = data.matches;
+    journalsCache = data.journals as StoredJournalEntry[];
+    console.info('Storage schema migrated', report);
+};
+
+// --- Change log baseline ---
+// Records stored before change tracking existed get one full entry each,
+// otherwise a merge could not rebuild them.
+const seedChangeLog = async (): Promise<void> => {
+    const seeded = await getMetaValue<boolean>(CHANGE_LOG_SEEDED_FLAG);
+    if (seeded) return;
+
+    const baseline = [
+        ...profilesCache.map(p => createBaselineEntry('profiles', p)),
+        ...matchesCache.map(m => createBaselineEntry('matches', m)),
+        ...journalsCache.map(j => createBaselineEntry('journals', j))
+    ].map(dehydrateEntry);
+    await putRecords('changes', baseline);
+    await setMetaValue(CHANGE_LOG_SEEDED_FLAG, true);
+    changesCache = [...changesCache, ...baseline];
+};
+
+// Keeps the log proportional to the number of records plus recent edits
+const compactChanges = async (): Promise<void> => {
+    const cutoff = Date.now() - CHANGE_LOG_COMPACT_DAYS * 24 * 60 * 60 * 1000;
+    const { entries, removed, added } = compactChangeLog(changesCache, cutoff);
+    if (removed.length === 0) return;
+    await putRecords('changes', added);
+    await deleteRecords('changes', removed.map(e => e.id));
+    compactedCount += removed.length - added.length;
+    await setMetaValue(CHANGE_LOG_COMPACTED_KEY, compactedCount);
+    changesCache = entries;
+};
+
+// Media is kept while any stored profile, change log entry, trash item or
+// snapshot still refers to it
+const sweepUnusedMedia = async (): Promise<void> => {
+    const snapshots = await getSnapshots();
+    const refCounts = countMediaRefs([
+        profilesCache.map(p => dehydrateProfile(p)),
+        changesCache,
+        trashCache.map(item => toStored('trash', item)),
+        snapshots.map(s => s.data)
+    ]);
+    await sweepMedia(refCounts);
+};
+
+// --- Initialisation (must complete before any read) ---
+export const initStorage = (): Promise<void> => {
+    if (initPromise) return initPromise;
+
+    initPromise = (async () => {
+        try {
+            if (!isIndexedDbAvailable()) throw new Error('IndexedDB is not available');
+            await openDatabase();
+            await migrateFromLocalStorage();
+            await loadMedia().catch(error => console.error('Error loading media', error));
+
+            profilesCache = (await getAllRecords<UserProfile>('profiles')).map(p => hydrateProfile(p));
+            matchesCache = await getAllRecords<MatchData>('matches');
+            journalsCache = await getAllRecords<StoredJournalEntry>('journals');
+            changesCache = await getAllRecords<ChangeEntry>('changes');
+            trashCache = (await getAllRecords<TrashItem>('trash')).map(item => mapTrashProfile(item, p => hydrateProfile(p)));
+            compactedCount = (await getMetaValue<number>(CHANGE_LOG_COMPACTED_KEY)) || 0;
+
+            await applySchemaMigrations();
+            await seedChangeLog();
+            await compactChanges().catch(error => console.error('Error compacting change log', error));
+            purgeExpiredTrash();
+            await sweepUnusedMedia().catch(error => console.error('Error sweeping media', error));
+        } catch (error) {
+            console.error('Error initialising storage', error);
+            initError = error;
+        }
+    })();
+
+    return initPromise;
+};
+
+// The app opens without data when this is set; nothing will be saved either
+export const getStorageInitError = (): unknown => initError;
+
+// --- Change Notifications ---
+export const subscribeToChanges = (listener: () => void): (() => void) => {
+    changeListeners.add(listener);
+    return () => { changeListeners.delete(listener); };
+};
+
+// Grows with every tracked mutation; compared against a stored count to see how much changed
+export const getChangeCount = (): number => changesCache.length + compactedCount;
+
+export const subscribeToWriteErrors = (listener: (label: string, error: unknown) => void): (() => void) => {
+    writeErrorListeners.add(listener);
+    return () => { writeErrorListeners.delete(listener); };
+};
 
 // --- Backup Tracking ---
 export const updateLastBackupDate = (): void => {
@@ -25,64 +371,28 @@ export const isBackupNeeded = (): boolean => {
 // --- User Profiles ---
 
 export const getAllProfiles = (): UserProfile[] => {
-  try {
-    const data = localStorage.getItem(PROFILES_STORAGE_KEY);
-    if (data) {
-      return JSON.parse(data);
-    }
-
-    // Migration: Check for legacy single profile
-    const legacyData = localStorage.getItem(LEGACY_PROFILE_KEY);
-    if (legacyData) {
-      const legacyProfile = JSON.parse(legacyData);
-      // Create a new ID for the legacy profile
-      const newId = generateId();
-      const migratedProfile: UserProfile = {
-        ...legacyProfile,
-        id: newId,
-        teams: legacyProfile.teams || []
-      };
-      
-      // Save to new list
-      localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify([migratedProfile]));
-      
-      // Migrate matches to this new ID
-      migrateMatchesToProfile(newId);
-      
-      // Remove legacy key to finish migration
-      localStorage.removeItem(LEGACY_PROFILE_KEY);
-      
-      return [migratedProfile];
-    }
-
-    return [];
-  } catch (error) {
-    console.error('Error reading profiles', error);
-    return [];
-  }
+  return [...profilesCache];
 };
 
 export const saveUserProfile = (profile: UserProfile): void => {
   try {
-    const profiles = getAllProfiles();
-    
     if (!profile.id) {
       profile.id = generateId(); // Ensure ID exists
     }
 
-    const index = profiles.findIndex(p => p.id === profile.id);
-    let updatedProfiles;
-    
+    const index = profilesCache.findIndex(p => p.id === profile.id);
+    trackPut('profiles', index >= 0 ? profilesCache[index] : undefined, profile);
+
     if (index >= 0) {
       // Update existing
-      updatedProfiles = [...profiles];
-      updatedProfiles[index] = profile;
+      profilesCache = [...profilesCache];
+      profilesCache[index] = profile;
     } else {
       // Add new
-      updatedProfiles = [...profiles, profile];
+      profilesCache = [...profilesCache, profile];
     }
 
-    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(updatedProfiles));
+    persistPut('profiles', profile);
   } catch (error) {
     console.error('Error saving profile', error);
   }
@@ -90,43 +400,87 @@ export const saveUserProfile = (profile: UserProfile): void => {
 
 export const deleteUserProfile = (profileId: string): UserProfile[] => {
     try {
-        const profiles = getAllProfiles();
-        const updatedProfiles = profiles.filter(p => p.id !== profileId);
-        localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(updatedProfiles));
+        snapshotBefore('profileDelete');
+        const profile = profilesCache.find(p => p.id === profileId);
+        const matches = matchesCache.filter(m => m.profileId === profileId);
+        const journals = journalsCache.filter(j => j.profileId === profileId);
+        if (profile) {
+            // The whole cascade goes into one Trash item so it comes back together
+            moveToTrash({ id: getTrashId('profile', profileId), kind: 'profile', deletedAt: Date.now(), label: profile.name, profileId, profile, matches, journals });
+        }
 
-        // Also delete all matches associated with this profile
-        const allMatches = getMatches();
-        const updatedMatches = allMatches.filter(m => m.profileId !== profileId);
-        saveMatches(updatedMatches);
+        profilesCache = profilesCache.filter(p => p.id !== profileId);
+        persistDelete('profiles', profileId);
 
-        return updatedProfiles;
+        // Also delete all matches and journals associated with this profile
+        const matchIds = matches.map(m => m.id);
+        matchesCache = matchesCache.filter(m => m.profileId !== profileId);
+        persistDeleteAll('matches', matchIds);
+
+        const journalIds = journals.map(j => j.id);
+        journalsCache = journalsCache.filter(j => j.profileId !== profileId);
+        persistDeleteAll('journals', journalIds);
+
+        trackDeletes('profiles', [profileId]);
+        trackDeletes('matches', matchIds);
+        trackDeletes('journals', journalIds);
+
+        return getAllProfiles();
     } catch (e) {
         console.error("Error deleting profile", e);
         return [];
     }
 };
 
+// Removes a teammate from a team roster; returns the updated profile
+export const removeTeammateFromStorage = (profileId: string, teamId: string, teammateId: string): UserProfile | null => {
+    const profile = profilesCache.find(p => p.id === profileId);
+    const team = profile?.teams.find(t => t.id === teamId);
+    const index = team ? team.roster.findIndex(tm => tm.id === teammateId) : -1;
+    if (!profile || !team || index < 0) return null;
+
+    const teammate = team.roster[index];
+    moveToTrash({
+        id: getTrashId('teammate', teammateId), kind: 'teammate', deletedAt: Date.now(),
+        label: `${teammate.name || '?'}${teammate.number ? ` #${teammate.number}` : ''} · ${team.name}`,
+        profileId, teamId, index, teammate
+    });
+
+    const updated: UserProfile = {
+        ...profile,
+        teams: profile.teams.map(t => t.id === teamId ? { ...t, roster: t.roster.filter(tm => tm.id !== teammateId) } : t)
+    };
+    saveUserProfile(updated);
+    return updated;
+};
+
 // --- MERGE LOGIC FOR SYNC (Profile) ---
 export const importProfile = (incomingProfile: UserProfile): void => {
     try {
-        const localProfiles = getAllProfiles();
-        const existingIndex = localProfiles.findIndex(p => p.id === incomingProfile.id);
-        
+        snapshotBefore('import');
+        const existingIndex = profilesCache.findIndex(p => p.id === incomingProfile.id);
+        let saved: UserProfile = incomingProfile;
+
         if (existingIndex >= 0) {
             // Merge logic: Keep local avatar if incoming is null (common in sync)
-            const existing = localProfiles[existingIndex];
-            const merged: UserProfile = {
+            const existing = profilesCache[existingIndex];
+            saved = {
                 ...incomingProfile,
                 avatar: incomingProfile.avatar || existing.avatar, // Preserve local avatar if remote is missing
                 teams: incomingProfile.teams // Trust incoming teams structure usually
             };
-            localProfiles[existingIndex] = merged;
+            profilesCache = [...profilesCache];
+            profilesCache[existingIndex] = saved;
+            trackPut('profiles', existing, saved);
         } else {
+            // A profile deleted here stays deleted
+            if (collectTombstones(changesCache, 'profiles').has(incomingProfile.id)) return;
             // New profile
-            localProfiles.push(incomingProfile);
+            profilesCache = [...profilesCache, incomingProfile];
+            trackPut('profiles', undefined, saved);
         }
-        
-        localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(localProfiles));
+
+        persistPut('profiles', saved);
     } catch (e) {
         console.error("Import profile error", e);
     }
@@ -134,137 +488,444 @@ export const importProfile = (incomingProfile: UserProfile): void => {
 
 // --- Match Data ---
 
-const migrateMatchesToProfile = (profileId: string) => {
-  try {
-    const data = localStorage.getItem(MATCH_STORAGE_KEY);
-    if (data) {
-      const matches: MatchData[] = JSON.parse(data);
-      const migratedMatches = matches.map(m => ({
-        ...m,
-        profileId: m.profileId || profileId // Assign ID if missing
-      }));
-      localStorage.setItem(MATCH_STORAGE_KEY, JSON.stringify(migratedMatches));
-    }
-  } catch (e) {
-    console.error("Migration error", e);
-  }
-};
-
 export const getMatches = (profileId?: string): MatchData[] => {
-  try {
-    const data = localStorage.getItem(MATCH_STORAGE_KEY);
-    const allMatches: any[] = data ? JSON.parse(data) : [];
-    
-    // Auto-migrate legacy youtubeUrl to videos array on read
-    const migratedAllMatches: MatchData[] = allMatches.map(m => {
-        let videos = m.videos || [];
-        // If has old url but no videos array, migrate it
-        if (m.youtubeUrl && videos.length === 0) {
-            videos = [{
-                id: 'legacy_' + m.id,
-                url: m.youtubeUrl,
-                tag: 'highlight',
-                note: ''
-            }];
-        }
-        return { ...m, videos };
-    });
-    
-    if (profileId) {
-      return migratedAllMatches.filter(m => m.profileId === profileId);
-    }
-    return migratedAllMatches;
-  } catch (error) {
-    console.error('Error reading matches from local storage', error);
-    return [];
-  }
-};
-
-// Standard Save (Overwrites everything with provided list - used for Deletion)
-export const saveMatches = (matches: MatchData[]): void => {
-  try {
-    localStorage.setItem(MATCH_STORAGE_KEY, JSON.stringify(matches));
-  } catch (error) {
-    console.error('Error saving matches to local storage', error);
+  if (profileId) {
+    return matchesCache.filter(m => m.profileId === profileId);
   }
+  return [...matchesCache];
 };
 
 // --- MERGE LOGIC FOR SYNC (Matches) ---
-// This ensures we don't wipe local data if we sync from a source with fewer matches
-export const importMatches = (incomingMatches: MatchData[]): void => {
+// This ensures we don't wipe local data if we sync from a source with fewer matches.
+// Incoming matches must already be upgraded with migrateBackupData().
+// Matches that exist on both sides are resolved per id with `choices`
+// (from the SyncModal review screen); unresolved ones default to "newer updatedAt wins".
+// Matches deleted here are not brought back unless the incoming copy was edited after the delete.
+// Files that carry a change log go through mergeChangeLog() instead.
+export const importMatches = (incomingMatches: MatchData[], choices: Record<string, ConflictChoice> = {}): void => {
     try {
-        const currentMatches = getMatches(); // Get ALL matches (all profiles)
-        
+        snapshotBefore('import');
         // Create a map of existing matches by ID for easy lookup
         const matchMap = new Map<string, MatchData>();
-        currentMatches.forEach(m => matchMap.set(m.id, m));
-        
-        // Merge incoming matches
+        matchesCache.forEach(m => matchMap.set(m.id, m));
+
+        const tombstones = collectTombstones(changesCache, 'matches');
+        const changed: MatchData[] = [];
         incomingMatches.forEach(incoming => {
-            // We overwrite if ID exists, otherwise add. 
-            // This assumes "Last Sync" is the truth. 
-            // For a simple app, this is better than complex conflict resolution.
-            matchMap.set(incoming.id, incoming);
+            const deletedAt = tombstones.get(incoming.id);
+            if (deletedAt !== undefined && (incoming.updatedAt || 0) <= deletedAt) return;
+
+            const local = matchMap.get(incoming.id);
+            const chosen = local
+                ? resolveConflict(local, incoming, choices[incoming.id] || getDefaultChoice(local, incoming))
+                : incoming;
+            if (chosen === local) return;
+            // A merged pair can mix one side's events with the other side's score
+            const resolved = withDerivedTotals(chosen);
+            matchMap.set(incoming.id, resolved);
+            changed.push(resolved);
+            trackPut('matches', local, resolved);
         });
-        
-        // Convert back to array
-        const mergedList = Array.from(matchMap.values());
-        
-        localStorage.setItem(MATCH_STORAGE_KEY, JSON.stringify(mergedList));
+
+        matchesCache = Array.from(matchMap.values());
+        persistPutAll('matches', changed);
     } catch (e) {
         console.error("Import matches error", e);
     }
 };
 
 export const addMatchToStorage = (match: MatchData): MatchData[] => {
-  try {
-    const allMatches = getMatches(); // Use getMatches to ensure migration happens if needed
-    
-    const updatedAll = [match, ...allMatches];
-    localStorage.setItem(MATCH_STORAGE_KEY, JSON.stringify(updatedAll));
-    
-    return updatedAll.filter(m => m.profileId === match.profileId);
-  } catch (e) {
-    console.error(e);
-    return [];
-  }
+  trackPut('matches', undefined, match);
+  matchesCache = [match, ...matchesCache];
+  persistPut('matches', match);
+  return getMatches(match.profileId);
+};
+
+// Bulk edit (e.g. tournament details applied to several matches)
+export const updateMatchesInStorage = (updated: MatchData[], currentProfileId: string): MatchData[] => {
+  snapshotBefore('bulkEdit');
+  const byId = new Map(updated.map(m => [m.id, m]));
+  recordChanges(matchesCache.filter(m => byId.has(m.id)).map(m => createPutEntry('matches', m, byId.get(m.id)!)));
+  matchesCache = matchesCache.map(m => byId.get(m.id) || m);
+  persistPutAll('matches', updated);
+  return getMatches(currentProfileId);
 };
 
 export const updateMatchInStorage = (match: MatchData): MatchData[] => {
-  try {
-    const allMatches = getMatches(); // Use getMatches to ensure migration
-    
-    const updatedAll = allMatches.map(m => m.id === match.id ? match : m);
-    localStorage.setItem(MATCH_STORAGE_KEY, JSON.stringify(updatedAll));
-    
-    return updatedAll.filter(m => m.profileId === match.profileId);
-  } catch (e) {
-    console.error(e);
-    return [];
-  }
+  trackPut('matches', matchesCache.find(m => m.id === match.id), match);
+  matchesCache = matchesCache.map(m => m.id === match.id ? match : m);
+  persistPut('matches', match);
+  return getMatches(match.profileId);
 };
 
 export const deleteMatchFromStorage = (id: string, currentProfileId: string): MatchData[] => {
-  try {
-    const allMatches = getMatches();
-    
-    const updatedAll = allMatches.filter(m => m.id !== id);
-    localStorage.setItem(MATCH_STORAGE_KEY, JSON.stringify(updatedAll));
-    
-    return updatedAll.filter(m => m.profileId === currentProfileId);
-  } catch (e) {
-    console.error(e);
-    return [];
+  const match = matchesCache.find(m => m.id === id);
+  if (match) {
+    moveToTrash({ id: getTrashId('match', id), kind: 'match', deletedAt: Date.now(), label: `${match.date} VS ${match.opponent}`, profileId: match.profileId || currentProfileId, match });
   }
+  matchesCache = matchesCache.filter(m => m.id !== id);
+  persistDelete('matches', id);
+  trackDeletes('matches', [id]);
+  return getMatches(currentProfileId);
+};
+
+// --- Journals ---
+
+const stripProfileId = ({ profileId, ...entry }: StoredJournalEntry): JournalEntry => entry;
+
+// Every profile's entries, with their profileId (import checks)
+export const getAllJournals = (): StoredJournalEntry[] => [...journalsCache];
+
+export const getJournals = (profileId: string): JournalEntry[] => {
+    return journalsCache.filter(j => j.profileId === profileId).map(stripProfileId);
+};
+
+export const saveJournal = (profileId: string, entry: JournalEntry): JournalEntry[] => {
+    const stored: StoredJournalEntry = { ...entry, profileId, updatedAt: Date.now() };
+    const existing = journalsCache.find(j => j.id === entry.id);
+    trackPut('journals', existing, stored);
+    journalsCache = existing
+        ? journalsCache.map(j => j.id === entry.id ? stored : j)
+        : [...journalsCache, stored];
+    persistPut('journals', stored);
+    return getJournals(profileId);
+};
+
+export const deleteJournal = (profileId: string, id: string): JournalEntry[] => {
+    const journal = journalsCache.find(j => j.id === id);
+    if (journal) {
+        const label = `${journal.date} · ${journal.content.slice(0, 40)}`;
+        moveToTrash({ id: getTrashId('journal', id), kind: 'journal', deletedAt: Date.now(), label, profileId, journal });
+    }
+    journalsCache = journalsCache.filter(j => j.id !== id);
+    persistDelete('journals', id);
+    trackDeletes('journals', [id]);
+    return getJournals(profileId);
+};
+
+// Journals from a full backup carry their profileId; existing entries are overwritten by id
+// and entries deleted here are skipped
+export const importJournals = (incomingJournals: StoredJournalEntry[]): void => {
+    try {
+        snapshotBefore('import');
+        const tombstones = collectTombstones(changesCache, 'journals');
+        const valid = incomingJournals.filter(j => {
+            if (!j || !j.id || !j.profileId) return false;
+            // Edited after it was deleted here: the edit wins, as for matches
+            const deletedAt = tombstones.get(j.id);
+            return deletedAt === undefined || (j.updatedAt || j.createdAt || 0) > deletedAt;
+        });
+        const journalMap = new Map<string, StoredJournalEntry>();
+        journalsCache.forEach(j => journalMap.set(j.id, j));
+        recordChanges(valid.map(j => createPutEntry('journals', journalMap.get(j.id), j)));
+        valid.forEach(j => journalMap.set(j.id, j));
+
+        journalsCache = Array.from(journalMap.values());
+        persistPutAll('journals', valid);
+    } catch (e) {
+        console.error("Import journals error", e);
+    }
+};
+
+// --- THREE-WAY MERGE FOR SYNC (Change log) ---
+
+// Entries for the given records only (all entries when omitted), for partial sync files
+export const getChangeLog = (recordIds?: string[]): ChangeEntry[] => {
+    if (!recordIds) return [...changesCache];
+    const ids = new Set(recordIds);
+    return changesCache.filter(e => ids.has(e.recordId));
+};
+
+export interface ChangeLogPreview {
+    records: ChangeLogMergeResult['records'];
+    // Matches edited on both devices since they last synced
+    conflicts: MatchConflict[];
+}
+
+// Replayed records as they will be stored: upgraded when the incoming log was
+// written by an older version (`fromVersion`), and with match totals following
+// the events, since edits merged from both devices can leave them out of step
+const upgradeReplayed = (records: ChangeLogMergeResult['records'], fromVersion: number): ChangeLogMergeResult['records'] =>
+    migrateReplayedRecords(records, profilesCache, fromVersion).map(r =>
+        r.store === 'matches' && r.record ? { ...r, record: withDerivedTotals(r.record as MatchData) } : r
+    );
+
+// Dry run of mergeChangeLog(): the records the merge would produce, for validation
+// and the conflict review. A match only conflicts when this device also has edits
+// the incoming log has not seen, or when the two copies share no history at all
+// (the same id created on both devices); otherwise the merge just catches up.
+export const previewChangeLogMerge = (incomingLog: unknown[], fromVersion = CURRENT_SCHEMA_VERSION): ChangeLogPreview => {
+    const records = upgradeReplayed(mergeChangeLogs(changesCache, incomingLog).records, fromVersion);
+    const incomingEntries = incomingLog.filter(isChangeEntry);
+    const incomingIds = new Set(incomingEntries.map(e => e.id));
+
+    const conflicts: MatchConflict[] = [];
+    records.forEach(({ store, recordId, record: merged }) => {
+        if (store !== 'matches' || !merged) return;
+        const local = matchesCache.find(m => m.id === recordId);
+        const localEntries = changesCache.filter(e => e.store === 'matches' && e.recordId === recordId);
+        const editedHere = localEntries.some(e => !incomingIds.has(e.id) && !isCompactedEntry(e));
+        const sharedHistory = localEntries.some(e => incomingIds.has(e.id));
+        if (!local || (!editedHere && sharedHistory)) return;
+
+        const incoming = replayRecord(incomingEntries.filter(e => e.store === 'matches' && e.recordId === recordId)) || merged;
+        const diffs = diffMatches(local, merged);
+        if (diffs.length > 0) conflicts.push({ id: recordId, local, incoming, merged, diffs, defaultChoice: 'merged' });
+    });
+
+    return { records, conflicts };
+};
+
+// Replays the union of the local and incoming logs and applies every record
+// the incoming log touched. Returns the number of records that changed.
+// `incomingMedia` carries the images the incoming log refers to; `resolved` holds
+// the matches picked in the conflict review, saved as local edits on top of the merge.
+// Records changed by upgradeReplayed() are logged as local edits too, so the log
+// replays to what is stored.
+export const mergeChangeLog = (incomingLog: unknown[], incomingMedia?: unknown, resolved: MatchData[] = [], fromVersion = CURRENT_SCHEMA_VERSION): number => {
+    try {
+        importMedia(incomingMedia);
+        const { added, records: replayedRecords } = mergeChangeLogs(changesCache, incomingLog);
+        if (added.length === 0) return 0;
+        snapshotBefore('import');
+
+        const stored = added.map(dehydrateEntry);
+        changesCache = [...changesCache, ...stored];
+        persistPutAll('changes', stored);
+
+        const logged = new Map(replayedRecords.map(r => [`${r.store}:${r.recordId}`, r.record]));
+        const upgrades: (ChangeEntry | null)[] = [];
+
+        let applied = 0;
+        upgradeReplayed(replayedRecords, fromVersion).forEach(({ store, recordId, record: upgraded }) => {
+            if (upgraded) {
+                const key = `${store}:${recordId}`;
+                // Local profiles updated by a migration were not in the replay
+                const previous = logged.has(key) ? logged.get(key) : profilesCache.find(p => p.id === recordId);
+                const next = store === 'profiles' ? dehydrateProfile(upgraded as UserProfile) : upgraded;
+                if (previous && JSON.stringify(toStored(store, previous)) !== JSON.stringify(next)) {
+                    upgrades.push(createPutEntry(store, toStored(store, previous), next));
+                }
+            }
+            const record = upgraded && store === 'profiles' ? hydrateProfile(upgraded as UserProfile) : upgraded;
+            const cache: { id: string }[] = store === 'profiles' ? profilesCache : store === 'matches' ? matchesCache : journalsCache;
+            const exists = cache.some(r => r.id === recordId);
+            if (!record && !exists) return;
+
+            const next = record
+                ? (exists ? cache.map(r => r.id === recordId ? record : r) : [...cache, record])
+                : cache.filter(r => r.id !== recordId);
+
+            if (store === 'profiles') profilesCache = next as UserProfile[];
+            else if (store === 'matches') matchesCache = next as MatchData[];
+            else journalsCache = next as StoredJournalEntry[];
+
+            if (record) persistPut(store, record);
+            else persistDelete(store, recordId);
+            applied++;
+        });
+        recordChanges(upgrades);
+
+        resolved.forEach(match => {
+            const current = matchesCache.find(m => m.id === match.id);
+            if (!current) return;
+            matchesCache = matchesCache.map(m => m.id === match.id ? match : m);
+            persistPut('matches', match);
+            trackPut('matches', current, match);
+        });
+        notifyChange();
+        return applied;
+    } catch (e) {
+        console.error("Merge change log error", e);
+        return 0;
+    }
+};
+
+// --- TRASH (Soft deletion) ---
+
+export const getTrash = (): TrashItem[] => [...trashCache].sort((a, b) => b.deletedAt - a.deletedAt);
+
+export const getTrashRetentionDays = (): number => {
+    const stored = parseInt(localStorage.getItem(TRASH_RETENTION_KEY) || '');
+    return stored > 0 ? stored : DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const setTrashRetentionDays = (days: number): void => {
+    localStorage.setItem(TRASH_RETENTION_KEY, String(days));
+    purgeExpiredTrash();
+};
+
+export const deleteFromTrash = (ids: string[]): void => {
+    const remove = new Set(ids);
+    trashCache = trashCache.filter(i => !remove.has(i.id));
+    persistDeleteAll('trash', ids);
+};
+
+export const purgeExpiredTrash = (): void => {
+    const cutoff = Date.now() - getTrashRetentionDays() * 24 * 60 * 60 * 1000;
+    const expired = trashCache.filter(i => i.deletedAt < cutoff).map(i => i.id);
+    if (expired.length > 0) deleteFromTrash(expired);
+};
+
+// Re-creates the records (as new puts, so the restore syncs like an edit).
+// Returns false when the item is gone or its team no longer exists.
+export const restoreFromTrash = (trashId: string): boolean => {
+    const item = trashCache.find(i => i.id === trashId);
+    if (!item) return false;
+
+    try {
+        const restoreAll = <T extends { id: string }>(store: ChangeStore, current: T[], records: T[]): T[] => {
+            const existing = new Set(current.map(r => r.id));
+            const missing = records.filter(r => !existing.has(r.id));
+            recordChanges(missing.map(r => createPutEntry(store, undefined, r)));
+            persistPutAll(store, missing);
+            return [...current, ...missing];
+        };
+
+        switch (item.kind) {
+            case 'profile':
+                profilesCache = restoreAll('profiles', profilesCache, [item.profile]);
+                matchesCache = restoreAll('matches', matchesCache, item.matches);
+                journalsCache = restoreAll('journals', journalsCache, item.journals);
+                break;
+            case 'match':
+                matchesCache = restoreAll('matches', matchesCache, [item.match]);
+                break;
+            case 'journal':
+                journalsCache = restoreAll('journals', journalsCache, [item.journal]);
+                break;
+            case 'teammate': {
+                const profile = profilesCache.find(p => p.id === item.profileId);
+                const team = profile?.teams.find(t => t.id === item.teamId);
+                if (!profile || !team) return false;
+                if (!team.roster.some(tm => tm.id === item.teammate.id)) {
+                    const roster = [...team.roster];
+                    roster.splice(Math.min(item.index, roster.length), 0, item.teammate);
+                    saveUserProfile({ ...profile, teams: profile.teams.map(t => t.id === team.id ? { ...t, roster } : t) });
+                }
+                break;
+            }
+        }
+
+        deleteFromTrash([trashId]);
+        return true;
+    } catch (e) {
+        console.error("Restore from trash error", e);
+        return false;
+    }
+};
+
+// --- POINT-IN-TIME RESTORE (Snapshots) ---
+
+// Replaces the records in scope with the restored ones; changes are tracked
+// like normal edits so the restore also reaches other devices on the next sync.
+const restoreRecords = <T extends { id: string }>(
+    store: ChangeStore,
+    current: T[],
+    restored: T[],
+    inScope: (record: T) => boolean
+): T[] => {
+    const currentMap = new Map(current.map(r => [r.id, r]));
+    const restoredIds = new Set(restored.map(r => r.id));
+    const removedIds = current.filter(r => inScope(r) && !restoredIds.has(r.id)).map(r => r.id);
+
+    recordChanges([
+        ...restored.map(r => createPutEntry(store, currentMap.get(r.id), r)),
+        ...removedIds.map(id => createDeleteEntry(store, id))
+    ]);
+    persistDeleteAll(store, removedIds);
+    persistPutAll(store, restored);
+
+    return [...current.filter(r => !inScope(r) && !restoredIds.has(r.id)), ...restored];
+};
+
+// Restores the whole store, or only one profile (with its matches and journals)
+export const restoreSnapshot = (snapshot: Snapshot, profileId?: string): void => {
+    try {
+        snapshotBefore('restore');
+        const { data } = migrateBackupData(snapshot.data); // Snapshot may predate a schema change
+
+        const profiles: UserProfile[] = (data.profiles || []).map((p: UserProfile) => hydrateProfile(p));
+        const matches: MatchData[] = data.matches || [];
+        const journals: StoredJournalEntry[] = data.journals || [];
+
+        if (profileId) {
+            profilesCache = restoreRecords('profiles', profilesCache, profiles.filter(p => p.id === profileId), p => p.id === profileId);
+            matchesCache = restoreRecords('matches', matchesCache, matches.filter(m => m.profileId === profileId), m => m.profileId === profileId);
+            journalsCache = restoreRecords('journals', journalsCache, journals.filter(j => j.profileId === profileId), j => j.profileId === profileId);
+        } else {
+            profilesCache = restoreRecords('profiles', profilesCache, profiles, () => true);
+            matchesCache = restoreRecords('matches', matchesCache, matches, () => true);
+            journalsCache = restoreRecords('journals', journalsCache, journals, () => true);
+        }
+    } catch (e) {
+        console.error("Restore snapshot error", e);
+    }
 };
 
 // --- Full Backup Helper ---
+export type FullBackupData = ReturnType<typeof getFullBackupData>;
+
 export const getFullBackupData = () => {
+    const changes = getChangeLog();
     return {
         type: 'arthur_full_backup_v1',
-        version: '1.0', // Version Control for future migrations
+        schemaVersion: CURRENT_SCHEMA_VERSION, // Read by migrateBackupData() on import
         timestamp: Date.now(),
+        deviceId: getDeviceId(),
         profiles: getAllProfiles(),
-        matches: getMatches()
+        matches: getMatches(),
+        journals: [...journalsCache],
+        changes, // Lets the receiving device merge instead of overwrite
+        media: collectMediaForExport(changes) // Images the change log refers to by reference
     };
 };
+
+// --- Image offloading (see media.ts) ---
+
+export interface OffloadCandidate {
+    profileId: string;
+    bytes: number;
+}
+
+// Inline avatars and team logos above the size limit
+export const getOffloadCandidates = (minBytes = OFFLOAD_MIN_BYTES): OffloadCandidate[] => {
+    const candidates: OffloadCandidate[] = [];
+    profilesCache.forEach(profile => {
+        [profile.avatar, ...(profile.teams || []).map(team => team.logo)].forEach(image => {
+            if (isDataUrl(image) && image.length >= minBytes && !isOffloaded(image)) {
+                candidates.push({ profileId: profile.id, bytes: image.length });
+            }
+        });
+    });
+    return candidates;
+};
+
+// Moves large images into the media store and rewrites the stored profiles and
+// change log entries to reference them. The caches keep the data URLs.
+export const offloadLargeImages = async (minBytes = OFFLOAD_MIN_BYTES): Promise<{ count: number; bytes: number }> => {
+    const candidates = getOffloadCandidates(minBytes);
+    if (candidates.length === 0) return { count: 0, bytes: 0 };
+
+    for (const profile of profilesCache) {
+        const images = [profile.avatar, ...(profile.teams || []).map(team => team.logo)];
+        for (const image of images) {
+            if (isDataUrl(image) && image.length >= minBytes) await storeMedia(image);
+        }
+    }
+
+    const profileIds = new Set(candidates.map(c => c.profileId));
+    await putRecords('profiles', profilesCache.filter(p => profileIds.has(p.id)).map(p => dehydrateProfile(p)));
+
+    const rewritten: ChangeEntry[] = [];
+    changesCache = changesCache.map(entry => {
+        const next = dehydrateEntry(entry);
+        if (next !== entry && JSON.stringify(next.fields) !== JSON.stringify(entry.fields)) rewritten.push(next);
+        return next;
+    });
+    await putRecords('changes', rewritten);
+    await putRecords('trash', trashCache.filter(i => i.kind === 'profile').map(i => toStored('trash', i)));
+    await dehydrateSnapshots();
+
+    return { count: candidates.length, bytes: candidates.reduce((sum, c) => sum + c.bytes, 0) };
+};
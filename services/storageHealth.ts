@@ -0,0 +1,146 @@
+
+import { getFullBackupData, getTrash, getOffloadCandidates, subscribeToChanges, subscribeToWriteErrors } from './storage';
+import { getSnapshots } from './snapshots';
+
+// --- Storage Health ---
+// Estimates how much of the browser's storage quota the diary uses, split per
+// record type and per profile. Sizes are the length of the JSON (or data URL)
+// of each record, close enough to compare profiles and spot the heavy parts.
+
+export type UsageType = 'avatars' | 'logos' | 'matches' | 'journals' | 'history' | 'snapshots' | 'trash';
+
+export interface ProfileUsage {
+    profileId: string;
+    name: string;
+    bytes: number;
+}
+
+export interface StorageUsage {
+    byType: Record<UsageType, number>;
+    byProfile: ProfileUsage[]; // Largest first
+    offloadable: { count: number; bytes: number };
+}
+
+export interface StorageEstimate {
+    usage: number;
+    quota: number;
+    ratio: number;
+}
+
+export const QUOTA_WARNING_RATIO = 0.8;
+const CHECK_DEBOUNCE_MS = 10000;
+const WRITE_ERROR_TOAST_GAP_MS = 5000;
+
+const sizeOf = (value: unknown): number => {
+    if (value === null || value === undefined) return 0;
+    return typeof value === 'string' ? value.length : (JSON.stringify(value) || '').length;
+};
+
+export const formatBytes = (bytes: number): string => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+// Chrome reports QuotaExceededError, older Firefox NS_ERROR_DOM_QUOTA_REACHED
+export const isQuotaExceededError = (error: unknown): boolean => {
+    const name = (error as { name?: string } | null)?.name;
+    return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED';
+};
+
+export const isStorageEstimateSupported = (): boolean =>
+    typeof navigator !== 'undefined' && !!navigator.storage && typeof navigator.storage.estimate === 'function';
+
+export const getStorageEstimate = async (): Promise<StorageEstimate | null> => {
+    if (!isStorageEstimateSupported()) return null;
+    try {
+        const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+        if (!quota) return null;
+        return { usage, quota, ratio: usage / quota };
+    } catch (error) {
+        console.error('Error reading storage estimate', error);
+        return null;
+    }
+};
+
+export const measureUsage = async (): Promise<StorageUsage> => {
+    const { profiles, matches, journals, changes } = getFullBackupData();
+    const byType: Record<UsageType, number> = { avatars: 0, logos: 0, matches: 0, journals: 0, history: 0, snapshots: 0, trash: 0 };
+    const perProfile = new Map<string, number>();
+    const addToProfile = (profileId: string, bytes: number) => perProfile.set(profileId, (perProfile.get(profileId) || 0) + bytes);
+
+    profiles.forEach(profile => {
+        const avatar = sizeOf(profile.avatar);
+        const logos = (profile.teams || []).reduce((sum, team) => sum + sizeOf(team.logo), 0);
+        byType.avatars += avatar;
+        byType.logos += logos;
+        addToProfile(profile.id, sizeOf(profile));
+    });
+    matches.forEach(match => {
+        const bytes = sizeOf(match);
+        byType.matches += bytes;
+        addToProfile(match.profileId, bytes);
+    });
+    journals.forEach(journal => {
+        const bytes = sizeOf(journal);
+        byType.journals += bytes;
+        addToProfile(journal.profileId, bytes);
+    });
+    byType.history = sizeOf(changes);
+    byType.trash = sizeOf(getTrash());
+    try {
+        byType.snapshots = sizeOf(await getSnapshots());
+    } catch (error) {
+        console.error('Error measuring snapshots', error);
+    }
+
+    const byProfile = profiles
+        .map(p => ({ profileId: p.id, name: p.name, bytes: perProfile.get(p.id) || 0 }))
+        .sort((a, b) => b.bytes - a.bytes);
+
+    const candidates = getOffloadCandidates();
+    const offloadable = { count: candidates.length, bytes: candidates.reduce((sum, c) => sum + c.bytes, 0) };
+
+    return { byType, byProfile, offloadable };
+};
+
+interface StorageMonitorCallbacks {
+    onQuotaWarning: (estimate: StorageEstimate) => void;
+    onWriteError: (quotaExceeded: boolean) => void;
+}
+
+// Warns once per session when usage crosses QUOTA_WARNING_RATIO (checked at
+// start and after changes) and reports failed writes, at most one per burst.
+export const startStorageMonitor = ({ onQuotaWarning, onWriteError }: StorageMonitorCallbacks): (() => void) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let warned = false;
+    let lastWriteErrorAt = 0;
+
+    const check = async () => {
+        if (warned) return;
+        const estimate = await getStorageEstimate();
+        if (estimate && estimate.ratio >= QUOTA_WARNING_RATIO) {
+            warned = true;
+            onQuotaWarning(estimate);
+        }
+    };
+    const schedule = () => {
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(check, CHECK_DEBOUNCE_MS);
+    };
+
+    check();
+    const unsubscribeChanges = subscribeToChanges(schedule);
+    const unsubscribeErrors = subscribeToWriteErrors((_label, error) => {
+        const now = Date.now();
+        if (now - lastWriteErrorAt < WRITE_ERROR_TOAST_GAP_MS) return;
+        lastWriteErrorAt = now;
+        onWriteError(isQuotaExceededError(error));
+    });
+    return () => {
+        if (timer) clearTimeout(timer);
+        unsubscribeChanges();
+        unsubscribeErrors();
+    };
+};
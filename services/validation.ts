@@ -0,0 +1,589 @@
+
+import { MatchData, UserProfile } from '../types';
+import type { StoredJournalEntry } from './storage';
+import type { ChangeLogMergeResult } from './changeLog';
+
+// --- Runtime Validation for Imported Backups ---
+// Checks every record in a backup/sync file against the shapes in types.ts and
+// reports each invalid record with the path of the offending field.
+
+export type ValidationReason =
+    | 'missing'
+    | 'notString'
+    | 'notNumber'
+    | 'notInteger'
+    | 'negative'
+    | 'outOfRange'
+    | 'notArray'
+    | 'notObject'
+    | 'invalidDate'
+    | 'invalidValue'
+    | 'unknownTeam'
+    | 'unknownProfile'
+    | 'duplicateId';
+
+export interface ValidationIssue {
+    path: string;
+    reason: ValidationReason;
+}
+
+export type RecordKind = 'profile' | 'match' | 'journal';
+
+export interface InvalidRecord {
+    kind: RecordKind;
+    path: string;
+    label: string;
+    issues: ValidationIssue[];
+}
+
+export interface BackupValidationReport {
+    validCount: number;
+    invalid: InvalidRecord[];
+}
+
+const MATCH_TYPES = ['league', 'cup', 'friendly'];
+const MATCH_STATUSES = ['scheduled', 'completed'];
+const PITCH_TYPES = ['turf', 'artificial', 'hard', 'indoor', 'other'];
+const WEATHER_TYPES = ['sunny', 'rain', 'cloudy', 'night', 'hot', 'windy'];
+const MATCH_FORMATS = ['5v5', '6v6', '7v7', '8v8', '9v9', '11v11', 'other'];
+const MATCH_STRUCTURES = ['halves', 'quarters'];
+const TEAM_PATTERNS = ['solid', 'vertical', 'horizontal'];
+const VIDEO_TAGS = ['highlight', 'goal', 'assist', 'full', 'other'];
+const JOURNAL_CATEGORIES = ['match', 'training', 'growth', 'other'];
+const TOURNAMENT_FORMATS = ['groups', 'knockout', 'roundRobin'];
+const ROUND_STAGES = ['group', 'knockout'];
+const TIE_BREAKERS = ['goalDifference', 'goalsFor', 'headToHead', 'wins'];
+const EVENT_KINDS = ['goal', 'assist', 'ownGoal', 'penalty', 'save', 'card', 'substitution'];
+const EVENT_SIDES = ['us', 'opponent'];
+const CARD_COLOURS = ['yellow', 'red'];
+const BUILT_IN_STATS = ['shots', 'shotsOnTarget', 'tackles', 'interceptions', 'dribbles', 'keyPasses'];
+const STAT_AGGREGATIONS = ['sum', 'average', 'max'];
+const KEEPER_COUNTS = ['saves', 'goalsConceded', 'penaltiesFaced', 'penaltiesSaved', 'distributionAttempted', 'distributionCompleted'];
+
+// --- Field checkers (push into the shared issue list) ---
+
+const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkString = (issues: ValidationIssue[], obj: any, field: string, path: string, required = true) => {
+    const value = obj[field];
+    if (value === undefined || value === null) {
+        if (required) issues.push({ path: `${path}.${field}`, reason: 'missing' });
+        return;
+    }
+    if (typeof value !== 'string') issues.push({ path: `${path}.${field}`, reason: 'notString' });
+};
+
+const checkNonEmptyString = (issues: ValidationIssue[], obj: any, field: string, path: string) => {
+    const value = obj[field];
+    if (value === undefined || value === null || value === '') {
+        issues.push({ path: `${path}.${field}`, reason: 'missing' });
+        return;
+    }
+    if (typeof value !== 'string') issues.push({ path: `${path}.${field}`, reason: 'notString' });
+};
+
+const checkCount = (issues: ValidationIssue[], obj: any, field: string, path: string, required = true) => {
+    const value = obj[field];
+    if (value === undefined || value === null) {
+        if (required) issues.push({ path: `${path}.${field}`, reason: 'missing' });
+        return;
+    }
+    if (typeof value !== 'number' || Number.isNaN(value)) {
+        issues.push({ path: `${path}.${field}`, reason: 'notNumber' });
+    } else if (!Number.isInteger(value)) {
+        issues.push({ path: `${path}.${field}`, reason: 'notInteger' });
+    } else if (value < 0) {
+        issues.push({ path: `${path}.${field}`, reason: 'negative' });
+    }
+};
+
+const checkEnum = (issues: ValidationIssue[], obj: any, field: string, path: string, allowed: string[], required = false) => {
+    const value = obj[field];
+    if (value === undefined || value === null || value === '') {
+        if (required) issues.push({ path: `${path}.${field}`, reason: 'missing' });
+        return;
+    }
+    if (!allowed.includes(value)) issues.push({ path: `${path}.${field}`, reason: 'invalidValue' });
+};
+
+const checkDate = (issues: ValidationIssue[], obj: any, field: string, path: string) => {
+    const value = obj[field];
+    if (value === undefined || value === null || value === '') {
+        issues.push({ path: `${path}.${field}`, reason: 'missing' });
+        return;
+    }
+    if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}/.test(value) || Number.isNaN(new Date(value).getTime())) {
+        issues.push({ path: `${path}.${field}`, reason: 'invalidDate' });
+    }
+};
+
+// --- Record validators ---
+
+export const validateTeam = (team: unknown, path: string): ValidationIssue[] => {
+    if (!isObject(team)) return [{ path, reason: 'notObject' }];
+    const issues: ValidationIssue[] = [];
+    checkNonEmptyString(issues, team, 'id', path);
+    checkString(issues, team, 'name', path);
+    checkString(issues, team, 'jerseyNumber', path, false);
+    checkString(issues, team, 'themeColor', path, false);
+    checkEnum(issues, team, 'themePattern', path, TEAM_PATTERNS);
+    checkEnum(issues, team, 'defaultMatchFormat', path, MATCH_FORMATS);
+    checkEnum(issues, team, 'defaultMatchStructure', path, MATCH_STRUCTURES);
+    if (team.logo !== undefined && team.logo !== null && typeof team.logo !== 'string') {
+        issues.push({ path: `${path}.logo`, reason: 'notString' });
+    }
+
+    if (!Array.isArray(team.roster)) {
+        issues.push({ path: `${path}.roster`, reason: 'notArray' });
+    } else {
+        team.roster.forEach((tm: unknown, i: number) => {
+            const tmPath = `${path}.roster[${i}]`;
+            if (!isObject(tm)) {
+                issues.push({ path: tmPath, reason: 'notObject' });
+                return;
+            }
+            checkNonEmptyString(issues, tm, 'id', tmPath);
+            checkString(issues, tm, 'name', tmPath);
+            checkString(issues, tm, 'number', tmPath, false);
+        });
+    }
+
+    if (team.enabledStats !== undefined) {
+        if (!Array.isArray(team.enabledStats)) {
+            issues.push({ path: `${path}.enabledStats`, reason: 'notArray' });
+        } else {
+            team.enabledStats.forEach((id: unknown, i: number) => {
+                if (typeof id !== 'string' || !BUILT_IN_STATS.includes(id)) issues.push({ path: `${path}.enabledStats[${i}]`, reason: 'invalidValue' });
+            });
+        }
+    }
+    if (team.customStats !== undefined) {
+        if (!Array.isArray(team.customStats)) {
+            issues.push({ path: `${path}.customStats`, reason: 'notArray' });
+        } else {
+            team.customStats.forEach((stat: unknown, i: number) => {
+                const statPath = `${path}.customStats[${i}]`;
+                if (!isObject(stat)) {
+                    issues.push({ path: statPath, reason: 'notObject' });
+                    return;
+                }
+                checkNonEmptyString(issues, stat, 'id', statPath);
+                checkString(issues, stat, 'name', statPath);
+                checkString(issues, stat, 'icon', statPath);
+                checkEnum(issues, stat, 'aggregation', statPath, STAT_AGGREGATIONS, true);
+            });
+        }
+    }
+    return issues;
+};
+
+export const validateTournament = (tournament: unknown, path: string): ValidationIssue[] => {
+    if (!isObject(tournament)) return [{ path, reason: 'notObject' }];
+    const issues: ValidationIssue[] = [];
+    checkNonEmptyString(issues, tournament, 'id', path);
+    checkNonEmptyString(issues, tournament, 'teamId', path);
+    checkString(issues, tournament, 'name', path);
+    checkDate(issues, tournament, 'startDate', path);
+    checkString(issues, tournament, 'venue', path, false);
+    checkEnum(issues, tournament, 'format', path, TOURNAMENT_FORMATS, true);
+    checkCount(issues, tournament, 'finalPlacement', path, false);
+
+    if (!Array.isArray(tournament.rounds)) {
+        issues.push({ path: `${path}.rounds`, reason: tournament.rounds === undefined ? 'missing' : 'notArray' });
+    } else {
+        tournament.rounds.forEach((round: unknown, i: number) => {
+            const rPath = `${path}.rounds[${i}]`;
+            if (!isObject(round)) {
+                issues.push({ path: rPath, reason: 'notObject' });
+                return;
+            }
+            checkNonEmptyString(issues, round, 'id', rPath);
+            checkString(issues, round, 'name', rPath);
+            checkEnum(issues, round, 'stage', rPath, ROUND_STAGES, true);
+        });
+    }
+    return issues;
+};
+
+export const validateLeague = (league: unknown, path: string): ValidationIssue[] => {
+    if (!isObject(league)) return [{ path, reason: 'notObject' }];
+    const issues: ValidationIssue[] = [];
+    checkNonEmptyString(issues, league, 'id', path);
+    checkNonEmptyString(issues, league, 'teamId', path);
+    checkString(issues, league, 'name', path);
+    checkString(issues, league, 'season', path, false);
+    checkDate(issues, league, 'startDate', path);
+    checkCount(issues, league, 'pointsForWin', path);
+    checkCount(issues, league, 'pointsForDraw', path);
+
+    if (!Array.isArray(league.teams)) {
+        issues.push({ path: `${path}.teams`, reason: league.teams === undefined ? 'missing' : 'notArray' });
+    } else {
+        league.teams.forEach((name: unknown, i: number) => {
+            if (typeof name !== 'string') issues.push({ path: `${path}.teams[${i}]`, reason: 'notString' });
+        });
+    }
+    if (!Array.isArray(league.tieBreakers)) {
+        issues.push({ path: `${path}.tieBreakers`, reason: league.tieBreakers === undefined ? 'missing' : 'notArray' });
+    } else {
+        league.tieBreakers.forEach((tb: unknown, i: number) => {
+            if (typeof tb !== 'string' || !TIE_BREAKERS.includes(tb)) issues.push({ path: `${path}.tieBreakers[${i}]`, reason: 'invalidValue' });
+        });
+    }
+    if (!Array.isArray(league.fixtures)) {
+        issues.push({ path: `${path}.fixtures`, reason: league.fixtures === undefined ? 'missing' : 'notArray' });
+    } else {
+        league.fixtures.forEach((fixture: unknown, i: number) => {
+            const fPath = `${path}.fixtures[${i}]`;
+            if (!isObject(fixture)) {
+                issues.push({ path: fPath, reason: 'notObject' });
+                return;
+            }
+            checkNonEmptyString(issues, fixture, 'id', fPath);
+            checkDate(issues, fixture, 'date', fPath);
+            checkNonEmptyString(issues, fixture, 'homeTeam', fPath);
+            checkNonEmptyString(issues, fixture, 'awayTeam', fPath);
+            checkCount(issues, fixture, 'homeScore', fPath);
+            checkCount(issues, fixture, 'awayScore', fPath);
+        });
+    }
+    return issues;
+};
+
+export const validateProfile = (profile: unknown, path: string): ValidationIssue[] => {
+    if (!isObject(profile)) return [{ path, reason: 'notObject' }];
+    const issues: ValidationIssue[] = [];
+    checkNonEmptyString(issues, profile, 'id', path);
+    checkString(issues, profile, 'name', path);
+    if (profile.avatar !== undefined && profile.avatar !== null && typeof profile.avatar !== 'string') {
+        issues.push({ path: `${path}.avatar`, reason: 'notString' });
+    }
+    if (!Array.isArray(profile.teams)) {
+        issues.push({ path: `${path}.teams`, reason: 'notArray' });
+    } else {
+        profile.teams.forEach((team: unknown, i: number) => issues.push(...validateTeam(team, `${path}.teams[${i}]`)));
+    }
+    if (profile.tournaments !== undefined) {
+        if (!Array.isArray(profile.tournaments)) {
+            issues.push({ path: `${path}.tournaments`, reason: 'notArray' });
+        } else {
+            profile.tournaments.forEach((tn: unknown, i: number) => issues.push(...validateTournament(tn, `${path}.tournaments[${i}]`)));
+        }
+    }
+    if (profile.leagues !== undefined) {
+        if (!Array.isArray(profile.leagues)) {
+            issues.push({ path: `${path}.leagues`, reason: 'notArray' });
+        } else {
+            profile.leagues.forEach((league: unknown, i: number) => issues.push(...validateLeague(league, `${path}.leagues[${i}]`)));
+        }
+    }
+    return issues;
+};
+
+export const validateVideoLink = (video: unknown, path: string): ValidationIssue[] => {
+    if (!isObject(video)) return [{ path, reason: 'notObject' }];
+    const issues: ValidationIssue[] = [];
+    checkNonEmptyString(issues, video, 'id', path);
+    checkNonEmptyString(issues, video, 'url', path);
+    checkEnum(issues, video, 'tag', path, VIDEO_TAGS, true);
+    checkString(issues, video, 'note', path, false);
+    return issues;
+};
+
+const validateMatchEvent = (ev: unknown, path: string): ValidationIssue[] => {
+    if (!isObject(ev)) return [{ path, reason: 'notObject' }];
+    const issues: ValidationIssue[] = [];
+    checkNonEmptyString(issues, ev, 'id', path);
+    checkEnum(issues, ev, 'kind', path, EVENT_KINDS, true);
+    checkEnum(issues, ev, 'side', path, EVENT_SIDES, true);
+    checkEnum(issues, ev, 'card', path, CARD_COLOURS);
+    checkCount(issues, ev, 'minute', path, false);
+    checkCount(issues, ev, 'period', path, false);
+    checkString(issues, ev, 'goalId', path, false);
+    if (!Array.isArray(ev.playerIds)) {
+        issues.push({ path: `${path}.playerIds`, reason: ev.playerIds === undefined ? 'missing' : 'notArray' });
+    }
+    return issues;
+};
+
+// `teamsByProfile` maps every known profile id (local + incoming) to its team ids
+export const validateMatch = (match: unknown, path: string, teamsByProfile: Map<string, Set<string>>): ValidationIssue[] => {
+    if (!isObject(match)) return [{ path, reason: 'notObject' }];
+    const issues: ValidationIssue[] = [];
+    checkNonEmptyString(issues, match, 'id', path);
+    checkNonEmptyString(issues, match, 'profileId', path);
+    checkDate(issues, match, 'date', path);
+    checkNonEmptyString(issues, match, 'teamId', path);
+    checkString(issues, match, 'opponent', path);
+    checkString(issues, match, 'location', path, false);
+    checkString(issues, match, 'dadComment', path, false);
+    checkString(issues, match, 'kidInterview', path, false);
+    checkString(issues, match, 'tournamentId', path, false);
+    checkString(issues, match, 'tournamentRoundId', path, false);
+    checkString(issues, match, 'tournamentName', path, false);
+    checkString(issues, match, 'matchLabel', path, false);
+    checkEnum(issues, match, 'matchType', path, MATCH_TYPES);
+    checkEnum(issues, match, 'status', path, MATCH_STATUSES);
+    checkEnum(issues, match, 'pitchType', path, PITCH_TYPES);
+    checkEnum(issues, match, 'weather', path, WEATHER_TYPES);
+    checkEnum(issues, match, 'matchFormat', path, MATCH_FORMATS);
+    checkEnum(issues, match, 'matchStructure', path, MATCH_STRUCTURES);
+    checkCount(issues, match, 'scoreMyTeam', path);
+    checkCount(issues, match, 'scoreOpponent', path);
+    checkCount(issues, match, 'arthurGoals', path);
+    checkCount(issues, match, 'arthurAssists', path);
+    checkCount(issues, match, 'periodLength', path, false);
+
+    if (match.rating === undefined || match.rating === null) {
+        issues.push({ path: `${path}.rating`, reason: 'missing' });
+    } else if (typeof match.rating !== 'number' || Number.isNaN(match.rating)) {
+        issues.push({ path: `${path}.rating`, reason: 'notNumber' });
+    } else if (match.rating < 0 || match.rating > 10) {
+        issues.push({ path: `${path}.rating`, reason: 'outOfRange' });
+    }
+
+    if (match.positionPlayed !== undefined && !Array.isArray(match.positionPlayed) && typeof match.positionPlayed !== 'string') {
+        issues.push({ path: `${path}.positionPlayed`, reason: 'notArray' });
+    }
+
+    if (!Array.isArray(match.scorers)) {
+        issues.push({ path: `${path}.scorers`, reason: match.scorers === undefined ? 'missing' : 'notArray' });
+    } else {
+        match.scorers.forEach((s: unknown, i: number) => {
+            const sPath = `${path}.scorers[${i}]`;
+            if (!isObject(s)) {
+                issues.push({ path: sPath, reason: 'notObject' });
+                return;
+            }
+            checkNonEmptyString(issues, s, 'teammateId', sPath);
+            checkCount(issues, s, 'count', sPath);
+        });
+    }
+
+    if (!Array.isArray(match.videos)) {
+        issues.push({ path: `${path}.videos`, reason: match.videos === undefined ? 'missing' : 'notArray' });
+    } else {
+        match.videos.forEach((v: unknown, i: number) => issues.push(...validateVideoLink(v, `${path}.videos[${i}]`)));
+    }
+
+    if (match.events !== undefined) {
+        if (!Array.isArray(match.events)) {
+            issues.push({ path: `${path}.events`, reason: 'notArray' });
+        } else {
+            match.events.forEach((ev: unknown, i: number) => issues.push(...validateMatchEvent(ev, `${path}.events[${i}]`)));
+        }
+    }
+
+    if (match.playingTime !== undefined) {
+        if (!Array.isArray(match.playingTime)) {
+            issues.push({ path: `${path}.playingTime`, reason: 'notArray' });
+        } else {
+            match.playingTime.forEach((spell: unknown, i: number) => {
+                const spellPath = `${path}.playingTime[${i}]`;
+                if (!isObject(spell)) {
+                    issues.push({ path: spellPath, reason: 'notObject' });
+                    return;
+                }
+                checkCount(issues, spell, 'period', spellPath);
+                checkCount(issues, spell, 'on', spellPath);
+                checkCount(issues, spell, 'off', spellPath);
+                checkString(issues, spell, 'position', spellPath, false);
+            });
+        }
+    }
+
+    if (match.goalkeeping !== undefined) {
+        const gkPath = `${path}.goalkeeping`;
+        if (!isObject(match.goalkeeping)) {
+            issues.push({ path: gkPath, reason: 'notObject' });
+        } else {
+            KEEPER_COUNTS.forEach(field => checkCount(issues, match.goalkeeping, field, gkPath));
+            const periods = match.goalkeeping.periodsInGoal;
+            if (periods !== undefined && (typeof periods !== 'number' || Number.isNaN(periods))) {
+                issues.push({ path: `${gkPath}.periodsInGoal`, reason: 'notNumber' });
+            } else if (periods < 0) {
+                issues.push({ path: `${gkPath}.periodsInGoal`, reason: 'negative' });
+            }
+        }
+    }
+
+    if (match.stats !== undefined) {
+        if (!isObject(match.stats)) {
+            issues.push({ path: `${path}.stats`, reason: 'notObject' });
+        } else {
+            Object.keys(match.stats).forEach(id => checkCount(issues, match.stats, id, `${path}.stats`));
+        }
+    }
+
+    // Cross-reference: the team must belong to the match's profile
+    if (typeof match.profileId === 'string' && typeof match.teamId === 'string' && match.teamId) {
+        const teamIds = teamsByProfile.get(match.profileId);
+        if (!teamIds) {
+            issues.push({ path: `${path}.profileId`, reason: 'unknownProfile' });
+        } else if (!teamIds.has(match.teamId)) {
+            issues.push({ path: `${path}.teamId`, reason: 'unknownTeam' });
+        }
+    }
+    return issues;
+};
+
+export const validateJournalEntry = (entry: unknown, path: string, knownProfileIds: Set<string>): ValidationIssue[] => {
+    if (!isObject(entry)) return [{ path, reason: 'notObject' }];
+    const issues: ValidationIssue[] = [];
+    checkNonEmptyString(issues, entry, 'id', path);
+    checkDate(issues, entry, 'date', path);
+    checkEnum(issues, entry, 'category', path, JOURNAL_CATEGORIES, true);
+    checkString(issues, entry, 'content', path);
+    checkString(issues, entry, 'linkedMatchId', path, false);
+    checkString(issues, entry, 'linkedMatchName', path, false);
+    checkCount(issues, entry, 'createdAt', path);
+    checkNonEmptyString(issues, entry, 'profileId', path);
+    if (typeof entry.profileId === 'string' && entry.profileId && !knownProfileIds.has(entry.profileId)) {
+        issues.push({ path: `${path}.profileId`, reason: 'unknownProfile' });
+    }
+    return issues;
+};
+
+// --- Whole-file validation ---
+
+const duplicateIssues = (records: any[], path: string): Map<number, ValidationIssue> => {
+    const seen = new Set<string>();
+    const result = new Map<number, ValidationIssue>();
+    records.forEach((r, i) => {
+        if (!isObject(r) || typeof r.id !== 'string') return;
+        if (seen.has(r.id)) result.set(i, { path: `${path}[${i}].id`, reason: 'duplicateId' });
+        seen.add(r.id);
+    });
+    return result;
+};
+
+// Validates a (migrated) backup or sync file and returns a copy containing only
+// the valid records, together with a report of everything that was dropped.
+export const validateBackupData = (data: any, localProfiles: UserProfile[]): { data: any; report: BackupValidationReport } => {
+    const invalid: InvalidRecord[] = [];
+    let validCount = 0;
+
+    // Profiles
+    const profileEntries: { record: any; path: string }[] = Array.isArray(data.profiles)
+        ? data.profiles.map((p: any, i: number) => ({ record: p, path: `profiles[${i}]` }))
+        : data.profile ? [{ record: data.profile, path: 'profile' }] : [];
+    const profileDuplicates = Array.isArray(data.profiles) ? duplicateIssues(data.profiles, 'profiles') : new Map();
+
+    const validProfiles: UserProfile[] = [];
+    profileEntries.forEach(({ record, path }, i) => {
+        const issues = validateProfile(record, path);
+        const dup = profileDuplicates.get(i);
+        if (dup) issues.push(dup);
+        if (issues.length > 0) {
+            invalid.push({ kind: 'profile', path, label: isObject(record) && record.name ? String(record.name) : path, issues });
+        } else {
+            validProfiles.push(record);
+            validCount++;
+        }
+    });
+
+    // Known profiles/teams = local store, overridden by valid incoming profiles
+    const teamsByProfile = new Map<string, Set<string>>();
+    [...localProfiles, ...validProfiles].forEach(p => {
+        teamsByProfile.set(p.id, new Set((p.teams || []).map(t => t.id)));
+    });
+
+    // Matches
+    const matches: any[] = Array.isArray(data.matches) ? data.matches : [];
+    const matchDuplicates = duplicateIssues(matches, 'matches');
+    const validMatches: MatchData[] = [];
+    matches.forEach((m, i) => {
+        const path = `matches[${i}]`;
+        const issues = validateMatch(m, path, teamsByProfile);
+        const dup = matchDuplicates.get(i);
+        if (dup) issues.push(dup);
+        if (issues.length > 0) {
+            const label = isObject(m) && m.date ? `${m.date} vs ${m.opponent ?? '?'}` : path;
+            invalid.push({ kind: 'match', path, label, issues });
+        } else {
+            validMatches.push(m);
+            validCount++;
+        }
+    });
+
+    // Journals
+    const journals: any[] = Array.isArray(data.journals) ? data.journals : [];
+    const journalDuplicates = duplicateIssues(journals, 'journals');
+    const knownProfileIds = new Set(teamsByProfile.keys());
+    const validJournals: StoredJournalEntry[] = [];
+    journals.forEach((j, i) => {
+        const path = `journals[${i}]`;
+        const issues = validateJournalEntry(j, path, knownProfileIds);
+        const dup = journalDuplicates.get(i);
+        if (dup) issues.push(dup);
+        if (issues.length > 0) {
+            const label = isObject(j) && j.date ? String(j.date) : path;
+            invalid.push({ kind: 'journal', path, label, issues });
+        } else {
+            validJournals.push(j);
+            validCount++;
+        }
+    });
+
+    const filtered = { ...data, matches: validMatches, journals: validJournals };
+    if (Array.isArray(data.profiles)) filtered.profiles = validProfiles;
+    else if (data.profile) filtered.profile = validProfiles[0] ?? null;
+
+    // Change log: drop history of records that were rejected above so the
+    // three-way merge cannot bring them back in
+    if (Array.isArray(data.changes)) {
+        const validIds = new Set([...validProfiles, ...validMatches, ...validJournals].map(r => r.id));
+        const rejectedIds = new Set(
+            [...profileEntries.map(e => e.record), ...matches, ...journals]
+                .filter(r => isObject(r) && typeof r.id === 'string' && !validIds.has(r.id))
+                .map(r => r.id)
+        );
+        filtered.changes = data.changes.filter((c: any) => !(isObject(c) && rejectedIds.has(c.recordId)));
+    }
+
+    return { data: filtered, report: { validCount, invalid } };
+};
+
+// Change-log files: the records a merge would produce (see previewChangeLogMerge)
+// are checked as well, since field edits replayed onto the local copy never appear
+// in data.matches. The returned copy drops the history of every rejected record.
+export const validateReplayedRecords = (data: any, records: ChangeLogMergeResult['records'], localProfiles: UserProfile[]): { data: any; report: BackupValidationReport } => {
+    const invalid: InvalidRecord[] = [];
+    const rejectedIds = new Set<string>();
+    let validCount = 0;
+    const replayed = records.filter(r => r.record !== null);
+
+    const reject = (kind: RecordKind, recordId: string, label: string, issues: ValidationIssue[]) => {
+        invalid.push({ kind, path: `changes:${recordId}`, label, issues });
+        rejectedIds.add(recordId);
+    };
+
+    const validProfiles: UserProfile[] = [];
+    replayed.filter(r => r.store === 'profiles').forEach(({ recordId, record }) => {
+        const issues = validateProfile(record, 'profile');
+        if (issues.length > 0) reject('profile', recordId, isObject(record) && record.name ? String(record.name) : recordId, issues);
+        else { validProfiles.push(record); validCount++; }
+    });
+
+    const teamsByProfile = new Map<string, Set<string>>();
+    [...localProfiles, ...validProfiles].forEach(p => {
+        teamsByProfile.set(p.id, new Set((p.teams || []).map(t => t.id)));
+    });
+
+    replayed.filter(r => r.store === 'matches').forEach(({ recordId, record }) => {
+        const issues = validateMatch(record, 'match', teamsByProfile);
+        if (issues.length > 0) reject('match', recordId, isObject(record) && record.date ? `${record.date} vs ${record.opponent ?? '?'}` : recordId, issues);
+        else validCount++;
+    });
+
+    const knownProfileIds = new Set(teamsByProfile.keys());
+    replayed.filter(r => r.store === 'journals').forEach(({ recordId, record }) => {
+        const issues = validateJournalEntry(record, 'journal', knownProfileIds);
+        if (issues.length > 0) reject('journal', recordId, isObject(record) && record.date ? String(record.date) : recordId, issues);
+        else validCount++;
+    });
+
+    const filtered = { ...data, changes: data.changes.filter((c: any) => !(isObject(c) && rejectedIds.has(c.recordId))) };
+    return { data: filtered, report: { validCount, invalid } };
+};
@@ -0,0 +1,122 @@
+
+import { EncryptedBackup } from './backupCrypto';
+
+// --- Read-only Snapshot Viewer ---
+// One HTML file that shows a profile without the app: the timeline and stats
+// are rendered by the app itself, then saved as markup together with the
+// styles the page needs. When a passphrase is set the markup is stored as an
+// encrypted envelope (same format as encrypted backups) and decrypted in the
+// browser with WebCrypto.
+
+export interface ViewerLabels {
+    title: string;
+    matchesTab: string;
+    statsTab: string;
+    passphrase: string;
+    unlock: string;
+    wrongPassphrase: string;
+}
+
+export interface ViewerContent {
+    header: string;   // Markup above the tabs
+    timeline: string;
+    stats: string;
+}
+
+const FONT_AWESOME = 'https://cdnjs.cloudflare.com/ajax/libs/font-awesome/6.0.0/css/all.min.css';
+
+const escapeHtml = (value: string) => value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// JSON inside <script> must not be able to close the tag
+const inlineJson = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+// The page inside the viewer; encrypted as a whole when a passphrase is set
+export const renderViewerBody = (content: ViewerContent, labels: ViewerLabels) => `${content.header}
+<nav class="viewer-tabs sticky top-0 z-30 bg-white border-b border-slate-200 flex">
+<button data-tab="timeline" class="active">${escapeHtml(labels.matchesTab)}</button>
+<button data-tab="stats">${escapeHtml(labels.statsTab)}</button>
+</nav>
+<section data-panel="timeline">${content.timeline}</section>
+<section data-panel="stats" hidden>${content.stats}</section>`;
+
+// Plain script so it runs in any browser without a build step
+const SCRIPT = `
+document.addEventListener('click', function (e) {
+  var tab = e.target.closest && e.target.closest('[data-tab]');
+  if (!tab) return;
+  document.querySelectorAll('[data-tab]').forEach(function (b) { b.classList.toggle('active', b === tab); });
+  document.querySelectorAll('[data-panel]').forEach(function (p) { p.hidden = p.getAttribute('data-panel') !== tab.getAttribute('data-tab'); });
+  window.scrollTo(0, 0);
+});
+var locked = document.getElementById('snapshot-data');
+if (locked) {
+  var envelope = JSON.parse(locked.textContent);
+  var b64 = function (s) { var bin = atob(s), out = new Uint8Array(bin.length); for (var i = 0; i < bin.length; i++) out[i] = bin.charCodeAt(i); return out; };
+  var form = document.getElementById('unlock');
+  form.addEventListener('submit', function (e) {
+    e.preventDefault();
+    var input = form.querySelector('input');
+    var error = document.getElementById('unlock-error');
+    error.hidden = true;
+    crypto.subtle.importKey('raw', new TextEncoder().encode(input.value), 'PBKDF2', false, ['deriveKey'])
+      .then(function (material) {
+        return crypto.subtle.deriveKey({ name: 'PBKDF2', hash: 'SHA-256', salt: b64(envelope.kdf.salt), iterations: envelope.kdf.iterations },
+          material, { name: 'AES-GCM', length: 256 }, false, ['decrypt']);
+      })
+      .then(function (key) { return crypto.subtle.decrypt({ name: 'AES-GCM', iv: b64(envelope.cipher.iv) }, key, b64(envelope.data)); })
+      .then(function (plain) {
+        document.getElementById('viewer').innerHTML = JSON.parse(new TextDecoder().decode(plain)).html;
+        form.remove();
+      })
+      .catch(function () { error.hidden = false; });
+  });
+}
+`;
+
+const STYLE = `
+.viewer-tabs button { flex: 1; padding: 12px; font-weight: 700; font-size: 14px; color: #94a3b8; border-bottom: 3px solid transparent; }
+.viewer-tabs button.active { color: #2563eb; border-color: #2563eb; }
+#unlock { max-width: 320px; margin: 20vh auto; text-align: center; font-family: sans-serif; }
+#unlock input, #unlock button { width: 100%; padding: 12px; margin-top: 8px; border-radius: 12px; border: 1px solid #cbd5e1; font-size: 16px; box-sizing: border-box; }
+#unlock button { background: #2563eb; color: #fff; font-weight: 700; border: none; }
+`;
+
+export const buildViewerHtml = (
+    css: string,
+    labels: ViewerLabels,
+    lang: string,
+    payload: { body: string } | { envelope: EncryptedBackup }
+): string => {
+    const main = 'body' in payload
+        ? `<div id="viewer" class="max-w-md mx-auto bg-slate-50 min-h-screen">${payload.body}</div>`
+        : `<form id="unlock">
+<div style="font-size:40px">🔒</div>
+<h1 style="font-size:18px;font-weight:700;margin:8px 0">${escapeHtml(labels.title)}</h1>
+<input type="password" autocomplete="off" placeholder="${escapeHtml(labels.passphrase)}" autofocus>
+<button type="submit">${escapeHtml(labels.unlock)}</button>
+<p id="unlock-error" hidden style="color:#dc2626;font-size:13px;margin-top:8px">${escapeHtml(labels.wrongPassphrase)}</p>
+</form>
+<div id="viewer" class="max-w-md mx-auto bg-slate-50 min-h-screen"></div>
+<script type="application/json" id="snapshot-data">${inlineJson(payload.envelope)}</script>`;
+
+    return `<!DOCTYPE html>
+<html lang="${lang}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${escapeHtml(labels.title)}</title>
+<link rel="stylesheet" href="${FONT_AWESOME}">
+<style>${css.replace(/<\/style/gi, '<\\/style')}${STYLE}</style>
+</head>
+<body class="bg-slate-200">
+${main}
+<script>${SCRIPT}</script>
+</body>
+</html>
+`;
+};
@@ -7,6 +7,19 @@ export interface Teammate {
 
 export type TeamPattern = 'solid' | 'vertical' | 'horizontal';
 
+export type BuiltInStatId = 'shots' | 'shotsOnTarget' | 'tackles' | 'interceptions' | 'dribbles' | 'keyPasses';
+
+// How a stat adds up over several matches
+export type StatAggregation = 'sum' | 'average' | 'max';
+
+// A per-match counter a parent adds on top of the built-in stats
+export interface CustomStatDefinition {
+  id: string;
+  name: string;
+  icon: string; // Font Awesome class, e.g. 'fa-bolt'
+  aggregation: StatAggregation;
+}
+
 export interface Team {
   id: string;
   name: string;
@@ -18,6 +31,8 @@ export interface Team {
   defaultMatchFormat?: MatchFormat; // New: Default 5v5, 7v7 etc.
   defaultMatchStructure?: MatchStructure; // New: Default quarters vs halves
   roster: Teammate[];
+  enabledStats?: BuiltInStatId[];       // Built-in per-match stats recorded for this team
+  customStats?: CustomStatDefinition[];
   isArchived?: boolean;
 }
 
@@ -26,6 +41,8 @@ export interface UserProfile {
   name: string;
   avatar: string | null;
   teams: Team[];
+  tournaments?: Tournament[];
+  leagues?: League[];
   // Legacy fields
   teamName?: string;
   jerseyNumber?: string;
@@ -39,12 +56,119 @@ export interface VideoLink {
   note: string;
 }
 
+export interface JournalEntry {
+  id: string;
+  date: string;          // YYYY-MM-DD
+  category: 'match' | 'training' | 'growth' | 'other';
+  content: string;
+  linkedMatchId?: string;   // optional — links to a match or tournament
+  linkedMatchName?: string; // display name e.g. "Leicester City Tournament"
+  createdAt: number;        // timestamp
+  updatedAt?: number;       // Last edit; older entries only have createdAt
+}
+
 export type MatchType = 'league' | 'cup' | 'friendly';
+
+export type LeagueTieBreaker = 'goalDifference' | 'goalsFor' | 'headToHead' | 'wins';
+
+// A result between two other teams, typed in by hand
+export interface LeagueFixture {
+  id: string;
+  date: string;
+  homeTeam: string;
+  awayTeam: string;
+  homeScore: number;
+  awayScore: number;
+}
+
+export interface League {
+  id: string;
+  teamId: string;
+  name: string;
+  season: string;        // Display label, e.g. "2024/25"
+  startDate: string;     // Our league matches inside the dates count towards the table
+  endDate?: string;
+  teams: string[];       // Other teams, named as in our match opponents
+  fixtures: LeagueFixture[];
+  pointsForWin: number;
+  pointsForDraw: number;
+  tieBreakers: LeagueTieBreaker[]; // Applied in order when points are level
+  updatedAt?: number;
+}
+
+export type TournamentFormat = 'groups' | 'knockout' | 'roundRobin'; // groups = group stage, then knockout
+
+export interface TournamentRound {
+  id: string;
+  name: string; // e.g. "Group A", "Quarter-final"
+  stage: 'group' | 'knockout';
+}
+
+export interface Tournament {
+  id: string;
+  teamId: string;
+  name: string;
+  startDate: string;      // YYYY-MM-DD
+  endDate?: string;
+  venue: string;
+  format: TournamentFormat;
+  rounds: TournamentRound[]; // In playing order
+  finalPlacement?: number;   // 1 = winners
+  placementNote?: string;    // e.g. "Plate winners"
+  updatedAt?: number;
+}
+
 export type PitchType = 'turf' | 'artificial' | 'hard' | 'indoor' | 'other';
 export type WeatherType = 'sunny' | 'rain' | 'cloudy' | 'night' | 'hot' | 'windy';
 export type MatchFormat = '5v5' | '6v6' | '7v7' | '8v8' | '9v9' | '11v11' | 'other';
 export type MatchStructure = 'halves' | 'quarters';
 
+export type LiveEventType = 'my_goal' | 'op_goal' | 'kid_goal' | 'kid_assist' | 'teammate_goal';
+
+// A tap recorded in live mode
+export interface LiveMatchEvent {
+  id: string;
+  type: LiveEventType;
+  period: number;      // 1-based
+  second: number;      // Clock time within the period
+  at: number;          // Wall clock timestamp
+  teammateId?: string; // teammate_goal only
+}
+
+// Time on the pitch within one period, in minutes from the start of that period
+export interface PlayingSpell {
+  period: number;     // 1-based
+  on: number;         // 0 = started the period
+  off: number;        // The period length = played to the end
+  position?: string;
+}
+
+// Keeper sheet, for the part of the match spent in goal
+export interface GoalkeeperStats {
+  saves: number;
+  goalsConceded: number;
+  penaltiesFaced: number;
+  penaltiesSaved: number;
+  distributionAttempted: number; // Throws, rolls and goal kicks
+  distributionCompleted: number; // Reached a teammate
+  periodsInGoal?: number;        // Only without playing time records; otherwise taken from the GK spells
+}
+
+export type MatchEventKind = 'goal' | 'assist' | 'ownGoal' | 'penalty' | 'save' | 'card' | 'substitution';
+
+// One line of the match report. Totals are derived from these when a match has them.
+export interface MatchEvent {
+  id: string;
+  kind: MatchEventKind;
+  side: 'us' | 'opponent'; // Team the event belongs to; an own goal counts for the other side
+  minute?: number;         // Match minute, 1-based; past the end of its period means added time
+  period?: number;         // 1-based
+  playerIds: string[];     // Teammate ids (or the player's own id, see KID_PLAYER_ID); substitution: [on, off]
+  goalId?: string;         // assist: the goal it set up
+  scored?: boolean;        // penalty: converted or not
+  card?: 'yellow' | 'red';
+}
+
 export interface MatchData {
   id: string;
   profileId: string;
@@ -60,11 +184,16 @@ export interface MatchData {
   matchFormat?: MatchFormat; 
   matchStructure?: MatchStructure; 
   periodsPlayed?: number; 
+  periodLength?: number; // Minutes per period, used to show added time
   positionPlayed?: string[];
   opponent: string;
+  tournamentId?: string;
+  tournamentRoundId?: string;
+  tournamentName?: string; // Kept in sync with the tournament; older records only have the name
+  matchLabel?: string;     // Free text stage label, e.g. "Semi-final"
   scoreMyTeam: number;
   scoreOpponent: number;
-  scorers: { teammateId: string; count: number }[];
+  scorers: { teammateId: string; count: number; guestName?: string }[]; // guestName: kept when the teammate left the roster
   arthurGoals: number;
   arthurAssists: number;
   rating: number;
@@ -73,6 +202,10 @@ export interface MatchData {
   commenterIdentity?: 'Dad' | 'Coach' | 'Mom' | 'Other'; 
   kidInterview: string;
   videos: VideoLink[];
+  events?: MatchEvent[];
+  playingTime?: PlayingSpell[]; // When set, periodsPlayed and positionPlayed are derived from it
+  goalkeeping?: GoalkeeperStats; // Only kept while GK is among the positions played
+  stats?: Record<string, number>; // Per-match counters by built-in or custom stat id; missing = not recorded
   status?: 'scheduled' | 'completed'; 
   updatedAt?: number; 
 }
@@ -85,6 +218,7 @@ export interface MatchFormProps {
   initialData?: MatchData | null;
   previousMatches: MatchData[]; 
   onAddTeammate?: (teamId: string, name: string, number?: string) => void; 
+  onAddTournament?: (teamId: string, name: string, startDate: string) => Tournament | null;
 }
 
 export interface VideoModalProps {
@@ -102,11 +236,16 @@ export interface ProfileSetupProps {
 export interface TeamManagerProps {
   profile: UserProfile;
   onUpdateProfile: (updatedProfile: UserProfile) => void;
+  onRemoveTeammate?: (teamId: string, teammateId: string) => void;
 }
 
 export interface AnalyticsProps {
   matches: MatchData[];
   profile: UserProfile;
+  readOnly?: boolean; // Shared snapshot: all-time stats without filters or share buttons
+  onOpenTournament?: (tournamentId: string) => void;
+  onOpenLeague?: (leagueId: string) => void;
+  onCreateLeague?: (teamId: string) => void;
 }
 
 export interface CoverPageProps {
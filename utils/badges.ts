@@ -1,5 +1,6 @@
 
 import { MatchData } from '../types';
+import { isKeeperCleanSheet, playedInGoal } from './goalkeeping';
 
 export type BadgeTier = 'locked' | 'bronze' | 'silver' | 'gold' | 'diamond';
 
@@ -69,6 +70,27 @@ const BADGE_CONFIGS: BadgeDefinition[] = [
         labelKey: 'badgeHattrick',
         descriptionKey: 'badgeHattrickDesc',
         tiers: { bronze: 1, silver: 2, gold: 3, diamond: 5 }
+    },
+    {
+        id: 'saves',
+        icon: 'fa-mitten',
+        labelKey: 'badgeSafeHands',
+        descriptionKey: 'badgeSafeHandsDesc',
+        tiers: { bronze: 10, silver: 30, gold: 75, diamond: 150 }
+    },
+    {
+        id: 'penaltysaves',
+        icon: 'fa-bullseye',
+        labelKey: 'badgePenaltyStopper',
+        descriptionKey: 'badgePenaltyStopperDesc',
+        tiers: { bronze: 1, silver: 3, gold: 5, diamond: 10 }
+    },
+    {
+        id: 'distribution',
+        icon: 'fa-paper-plane',
+        labelKey: 'badgeSweeperKeeper',
+        descriptionKey: 'badgeSweeperKeeperDesc',
+        tiers: { bronze: 20, silver: 50, gold: 100, diamond: 200 }
     }
 ];
 
@@ -97,9 +119,15 @@ export const calculateBadges = (matches: MatchData[]): { badges: BadgeState[], t
     const totalAssists = matches.reduce((acc, m) => acc + m.arthurAssists, 0);
     const totalMatches = matches.length;
     const totalMotm = matches.filter(m => m.isMotm).length;
-    const totalCleanSheets = matches.filter(m => m.scoreOpponent === 0).length;
+    const totalCleanSheets = matches.filter(isKeeperCleanSheet).length;
     const totalHattricks = matches.filter(m => m.arthurGoals >= 3).length;
 
+    // Keeper badges only count what happened while in goal
+    const keeperSheets = matches.filter(playedInGoal).map(m => m.goalkeeping).filter(Boolean);
+    const totalSaves = keeperSheets.reduce((acc, gk) => acc + gk!.saves, 0);
+    const totalPenaltySaves = keeperSheets.reduce((acc, gk) => acc + gk!.penaltiesSaved, 0);
+    const totalDistribution = keeperSheets.reduce((acc, gk) => acc + gk!.distributionCompleted, 0);
+
     // 2. Map config to state
     const badges: BadgeState[] = BADGE_CONFIGS.map(config => {
         let currentValue = 0;
@@ -110,6 +138,9 @@ export const calculateBadges = (matches: MatchData[]): { badges: BadgeState[], t
             case 'motm': currentValue = totalMotm; break;
             case 'cleansheet': currentValue = totalCleanSheets; break;
             case 'hattrick': currentValue = totalHattricks; break;
+            case 'saves': currentValue = totalSaves; break;
+            case 'penaltysaves': currentValue = totalPenaltySaves; break;
+            case 'distribution': currentValue = totalDistribution; break;
         }
 
         // Determine Tier
@@ -171,7 +202,7 @@ export const calculateBadges = (matches: MatchData[]): { badges: BadgeState[], t
 
     // 3. Calculate Overall Growth Level
     const totalLevel = badges.reduce((acc, b) => acc + b.levelIndex, 0);
-    // Max possible level = 6 badges * 4 levels = 24
+    // Max possible level = 9 badges * 4 levels = 36
     const maxLevel = badges.length * 4;
 
     return { badges, totalLevel, maxLevel };
@@ -0,0 +1,14 @@
+/**
+ * Saves text or a Blob as a file through a temporary download link.
+ */
+export const downloadFile = (content: string | Blob, filename: string, type: string): void => {
+    const blob = content instanceof Blob ? content : new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,110 @@
+import { GoalkeeperStats, MatchData, MatchEvent, PlayingSpell } from '../types';
+import { KID_PLAYER_ID, getScoringSide, hasEvents } from './matchEvents';
+import { getPeriodLength, getSpellMinutes, hasPlayingTime } from './playingTime';
+
+// --- Goalkeeping ---
+// The keeper sheet only covers the time spent in goal. With playing time
+// records that is the GK spells; otherwise the sheet keeps its own periodsInGoal.
+
+export const GOALKEEPER = 'GK';
+
+// The fields the keeper helpers read, so the match form can pass its own state
+type KeeperMatch = Pick<MatchData, 'positionPlayed' | 'periodsPlayed' | 'periodLength' | 'matchStructure' | 'playingTime' | 'events' | 'goalkeeping'>;
+
+export interface KeeperSummary {
+    matches: number;
+    periodsInGoal: number;
+    saves: number;
+    goalsConceded: number;
+    savePercent: number | null; // 0..1 of shots on target faced
+    concededPerPeriod: number | null;
+    cleanSheets: number;
+    penaltiesFaced: number;
+    penaltiesSaved: number;
+    distributionAttempted: number;
+    distributionCompleted: number;
+    distributionPercent: number | null;
+}
+
+export const emptyKeeperStats = (): GoalkeeperStats => ({
+    saves: 0, goalsConceded: 0, penaltiesFaced: 0, penaltiesSaved: 0, distributionAttempted: 0, distributionCompleted: 0
+});
+
+// Older records may still hold a single position string
+export const playedInGoal = (match: Pick<MatchData, 'positionPlayed'>): boolean =>
+    [match.positionPlayed || []].flat().includes(GOALKEEPER);
+
+export const getKeeperSpells = (match: Pick<MatchData, 'playingTime'>): PlayingSpell[] =>
+    (match.playingTime || []).filter(s => s.position === GOALKEEPER);
+
+// Periods in goal to half a period, like periodsPlayed
+export const getPeriodsInGoal = (match: KeeperMatch): number => {
+    if (hasPlayingTime(match)) {
+        const minutes = getKeeperSpells(match).reduce((acc, s) => acc + getSpellMinutes(s), 0);
+        return Math.round((minutes / getPeriodLength(match)) * 2) / 2;
+    }
+    if (match.goalkeeping?.periodsInGoal !== undefined) return match.goalkeeping.periodsInGoal;
+    const positions = [match.positionPlayed || []].flat();
+    return positions.length === 1 && positions[0] === GOALKEEPER ? match.periodsPlayed || 0 : 0;
+};
+
+// Events without a period cannot be placed; a minute past the end of the
+// period (added time) belongs to a spell that lasted to the end
+const isInGoalFor = (event: MatchEvent, spells: PlayingSpell[], periodLength: number): boolean => {
+    if (!event.period) return false;
+    const inPeriod = spells.filter(s => s.period === event.period);
+    if (!event.minute) return inPeriod.length > 0;
+    const minute = event.minute - (event.period - 1) * periodLength - 1;
+    return inPeriod.some(s => s.on <= minute && (minute < s.off || s.off >= periodLength));
+};
+
+export const canFillKeeperStatsFromEvents = (match: KeeperMatch): boolean =>
+    hasEvents(match) && getKeeperSpells(match).length > 0;
+
+// Saves, goals and penalties from the event list while the player was in goal.
+// Distribution is not logged as events and is left as it was.
+export const keeperStatsFromEvents = (match: KeeperMatch): Omit<GoalkeeperStats, 'distributionAttempted' | 'distributionCompleted'> => {
+    const spells = getKeeperSpells(match);
+    const periodLength = getPeriodLength(match);
+    const faced = (match.events || []).filter(e => isInGoalFor(e, spells, periodLength));
+    const penalties = faced.filter(e => e.kind === 'penalty' && e.side === 'opponent');
+    return {
+        saves: faced.filter(e => e.kind === 'save' && e.side === 'us' && (!e.playerIds[0] || e.playerIds[0] === KID_PLAYER_ID)).length,
+        goalsConceded: faced.filter(e => getScoringSide(e) === 'opponent').length,
+        penaltiesFaced: penalties.length,
+        penaltiesSaved: penalties.filter(e => !e.scored).length
+    };
+};
+
+// A clean sheet needs a keeper sheet with nothing conceded while in goal.
+// Older matches without one count only when the opponent did not score at all.
+export const isKeeperCleanSheet = (match: MatchData): boolean => {
+    if (!playedInGoal(match)) return false;
+    if (!match.goalkeeping) return match.scoreOpponent === 0;
+    return match.goalkeeping.goalsConceded === 0 && getPeriodsInGoal(match) > 0;
+};
+
+export const computeKeeperStats = (matches: MatchData[]): KeeperSummary | null => {
+    const kept = matches.filter(m => playedInGoal(m) && m.goalkeeping);
+    if (kept.length === 0) return null;
+    const sum = (field: keyof Omit<GoalkeeperStats, 'periodsInGoal'>) => kept.reduce((acc, m) => acc + m.goalkeeping![field], 0);
+    const periodsInGoal = kept.reduce((acc, m) => acc + getPeriodsInGoal(m), 0);
+    const saves = sum('saves');
+    const goalsConceded = sum('goalsConceded');
+    const distributionAttempted = sum('distributionAttempted');
+    const distributionCompleted = sum('distributionCompleted');
+    return {
+        matches: kept.length,
+        periodsInGoal,
+        saves,
+        goalsConceded,
+        savePercent: saves + goalsConceded > 0 ? saves / (saves + goalsConceded) : null,
+        concededPerPeriod: periodsInGoal > 0 ? goalsConceded / periodsInGoal : null,
+        cleanSheets: kept.filter(isKeeperCleanSheet).length,
+        penaltiesFaced: sum('penaltiesFaced'),
+        penaltiesSaved: sum('penaltiesSaved'),
+        distributionAttempted,
+        distributionCompleted,
+        distributionPercent: distributionAttempted > 0 ? distributionCompleted / distributionAttempted : null
+    };
+};
@@ -0,0 +1,150 @@
+import { League, LeagueTieBreaker, MatchData } from '../types';
+
+// --- League standings ---
+// Our row comes straight from the logged league matches, the other rows from
+// those same matches plus the results typed in for games between other teams.
+
+export type FormResult = 'W' | 'D' | 'L';
+
+export interface StandingRow {
+    name: string;
+    isUs: boolean;
+    position: number;
+    played: number;
+    won: number;
+    drawn: number;
+    lost: number;
+    goalsFor: number;
+    goalsAgainst: number;
+    points: number;
+    form: FormResult[]; // Most recent last, at most FORM_LENGTH
+}
+
+interface LeagueGame {
+    date: string;
+    home: string;
+    away: string;
+    homeScore: number;
+    awayScore: number;
+}
+
+export const TIE_BREAKERS: LeagueTieBreaker[] = ['goalDifference', 'goalsFor', 'headToHead', 'wins'];
+const FORM_LENGTH = 5;
+
+const normalise = (name: string) => name.trim().toLowerCase();
+const US = '\u0000us'; // Stands for our team in collected games, cannot clash with a typed name
+
+export const isInSeason = (league: League, date: string): boolean =>
+    date >= league.startDate && (!league.endDate || date <= league.endDate);
+
+// Our completed league matches that count towards this league
+export const getLeagueMatches = (league: League, matches: MatchData[]): MatchData[] => {
+    const teams = new Set(league.teams.map(normalise));
+    return matches
+        .filter(m => m.teamId === league.teamId && m.matchType === 'league' && m.status !== 'scheduled')
+        .filter(m => isInSeason(league, m.date) && teams.has(normalise(m.opponent)))
+        .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// League opponents from our matches in the season that are not in the team list yet
+export const getMissingOpponents = (league: League, matches: MatchData[]): string[] => {
+    const teams = new Set(league.teams.map(normalise));
+    return matches
+        .filter(m => m.teamId === league.teamId && m.matchType === 'league' && isInSeason(league, m.date))
+        .map(m => m.opponent.trim())
+        .filter((name, i, arr) => name && !teams.has(normalise(name)) && arr.findIndex(n => normalise(n) === normalise(name)) === i);
+};
+
+const collectGames = (league: League, matches: MatchData[]): LeagueGame[] => {
+    const ours: LeagueGame[] = getLeagueMatches(league, matches).map(m => ({
+        date: m.date,
+        home: m.isHome ? US : m.opponent.trim(),
+        away: m.isHome ? m.opponent.trim() : US,
+        homeScore: m.isHome ? m.scoreMyTeam : m.scoreOpponent,
+        awayScore: m.isHome ? m.scoreOpponent : m.scoreMyTeam
+    }));
+    const others: LeagueGame[] = league.fixtures.map(f => ({
+        date: f.date, home: f.homeTeam, away: f.awayTeam, homeScore: f.homeScore, awayScore: f.awayScore
+    }));
+    return [...ours, ...others].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const pointsFor = (league: League, scored: number, conceded: number) =>
+    scored > conceded ? league.pointsForWin : scored === conceded ? league.pointsForDraw : 0;
+
+export const computeStandings = (league: League, ourName: string, matches: MatchData[]): StandingRow[] => {
+    const rows = new Map<string, StandingRow>();
+    const rowFor = (name: string, isUs = false) => {
+        const key = isUs ? '' : normalise(name);
+        if (!rows.has(key)) {
+            rows.set(key, { name, isUs, position: 0, played: 0, won: 0, drawn: 0, lost: 0, goalsFor: 0, goalsAgainst: 0, points: 0, form: [] });
+        }
+        return rows.get(key)!;
+    };
+    const us = rowFor(ourName, true);
+    league.teams.forEach(name => rowFor(name));
+    const resolve = (name: string) => name === US ? us : rowFor(name);
+
+    const games = collectGames(league, matches);
+    const record = (row: StandingRow, scored: number, conceded: number) => {
+        row.played++;
+        row.goalsFor += scored;
+        row.goalsAgainst += conceded;
+        row.points += pointsFor(league, scored, conceded);
+        if (scored > conceded) { row.won++; row.form.push('W'); }
+        else if (scored < conceded) { row.lost++; row.form.push('L'); }
+        else { row.drawn++; row.form.push('D'); }
+    };
+    games.forEach(g => {
+        record(resolve(g.home), g.homeScore, g.awayScore);
+        record(resolve(g.away), g.awayScore, g.homeScore);
+    });
+
+    // Head-to-head points among the teams level on points
+    const headToHead = new Map<StandingRow, number>();
+    const byPoints = new Map<number, StandingRow[]>();
+    rows.forEach(row => byPoints.set(row.points, [...(byPoints.get(row.points) || []), row]));
+    byPoints.forEach(group => {
+        if (group.length < 2) return;
+        group.forEach(row => headToHead.set(row, 0));
+        games.forEach(g => {
+            const home = resolve(g.home);
+            const away = resolve(g.away);
+            if (!headToHead.has(home) || !headToHead.has(away) || home.points !== away.points) return;
+            headToHead.set(home, headToHead.get(home)! + pointsFor(league, g.homeScore, g.awayScore));
+            headToHead.set(away, headToHead.get(away)! + pointsFor(league, g.awayScore, g.homeScore));
+        });
+    });
+
+    const tieValue = (row: StandingRow, tieBreaker: LeagueTieBreaker): number => {
+        switch (tieBreaker) {
+            case 'goalDifference': return row.goalsFor - row.goalsAgainst;
+            case 'goalsFor': return row.goalsFor;
+            case 'headToHead': return headToHead.get(row) || 0;
+            case 'wins': return row.won;
+        }
+    };
+
+    const sorted = Array.from(rows.values()).sort((a, b) => {
+        if (b.points !== a.points) return b.points - a.points;
+        for (const tieBreaker of league.tieBreakers) {
+            const diff = tieValue(b, tieBreaker) - tieValue(a, tieBreaker);
+            if (diff !== 0) return diff;
+        }
+        return a.name.localeCompare(b.name);
+    });
+
+    // Rows that cannot be separated share a position
+    sorted.forEach((row, i) => {
+        const prev = sorted[i - 1];
+        const level = prev && prev.points === row.points && league.tieBreakers.every(tb => tieValue(prev, tb) === tieValue(row, tb));
+        row.position = level ? prev.position : i + 1;
+        row.form = row.form.slice(-FORM_LENGTH);
+    });
+    return sorted;
+};
+
+export const getOurPosition = (league: League, ourName: string, matches: MatchData[]): { position: number; of: number } => {
+    const standings = computeStandings(league, ourName, matches);
+    return { position: standings.find(r => r.isUs)?.position || 0, of: standings.length };
+};
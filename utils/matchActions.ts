@@ -0,0 +1,40 @@
+import { MatchData } from '../types';
+
+// --- Scoreboard actions ---
+// Shared by the match form and live mode so a tap changes the totals the same way.
+
+export type MatchAction = 'my_goal' | 'op_goal' | 'kid_goal' | 'kid_assist';
+
+export type MatchTotals = Pick<MatchData, 'scoreMyTeam' | 'scoreOpponent' | 'arthurGoals' | 'arthurAssists' | 'scorers'>;
+
+export const applyMatchAction = <S extends MatchTotals>(prev: S, type: MatchAction): S => {
+    const next = { ...prev };
+    switch (type) {
+        case 'my_goal': next.scoreMyTeam += 1; break;
+        case 'op_goal': next.scoreOpponent += 1; break;
+        case 'kid_goal': next.scoreMyTeam += 1; next.arthurGoals += 1; break;
+        case 'kid_assist': next.arthurAssists += 1; break;
+    }
+    return next;
+};
+
+export const applyTeammateGoal = <S extends MatchTotals>(prev: S, teammateId: string, delta: number): S => {
+    const newScore = Math.max(0, prev.scoreMyTeam + delta);
+    const existingScorer = prev.scorers.find(s => s.teammateId === teammateId);
+    let newScorers;
+    if (existingScorer) {
+        const newCount = Math.max(0, existingScorer.count + delta);
+        if (newCount === 0) {
+            newScorers = prev.scorers.filter(s => s.teammateId !== teammateId);
+        } else {
+            newScorers = prev.scorers.map(s =>
+                s.teammateId === teammateId ? { ...s, count: newCount } : s
+            );
+        }
+    } else if (delta > 0) {
+        newScorers = [...prev.scorers, { teammateId, count: 1 }];
+    } else {
+        newScorers = prev.scorers;
+    }
+    return { ...prev, scoreMyTeam: newScore, scorers: newScorers };
+};
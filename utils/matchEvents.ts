@@ -0,0 +1,154 @@
+import { LiveEventType, LiveMatchEvent, MatchData, MatchEvent, MatchEventKind, Team } from '../types';
+import { generateId } from '../services/ids';
+import { MatchTotals } from './matchActions';
+
+// --- Match events ---
+// A match either has an event list, in which case the stored totals are kept
+// in step with it, or only the totals (everything logged before events existed).
+
+export const KID_PLAYER_ID = 'self'; // Stands for the profile's own player in playerIds
+
+export const EVENT_KINDS: MatchEventKind[] = ['goal', 'assist', 'ownGoal', 'penalty', 'save', 'card', 'substitution'];
+
+export const EVENT_ICONS: Record<MatchEventKind, string> = {
+    goal: 'fa-futbol',
+    assist: 'fa-shoe-prints',
+    ownGoal: 'fa-futbol',
+    penalty: 'fa-bullseye',
+    save: 'fa-hand-paper',
+    card: 'fa-square',
+    substitution: 'fa-exchange-alt'
+};
+
+export const hasEvents = (match: Pick<MatchData, 'events'>): boolean => (match.events || []).length > 0;
+
+// Side whose score the event adds to, if any
+export const getScoringSide = (event: MatchEvent): 'us' | 'opponent' | null => {
+    if (event.kind === 'goal' || (event.kind === 'penalty' && event.scored)) return event.side;
+    if (event.kind === 'ownGoal') return event.side === 'us' ? 'opponent' : 'us';
+    return null;
+};
+
+export const deriveTotalsFromEvents = (events: MatchEvent[], previousScorers: MatchData['scorers'] = []): MatchTotals => {
+    const totals: MatchTotals = { scoreMyTeam: 0, scoreOpponent: 0, arthurGoals: 0, arthurAssists: 0, scorers: [] };
+    const counts = new Map<string, number>();
+    events.forEach(event => {
+        const side = getScoringSide(event);
+        const player = event.playerIds[0];
+        if (side === 'us') totals.scoreMyTeam++;
+        if (side === 'opponent') totals.scoreOpponent++;
+        if (side === 'us' && event.kind !== 'ownGoal' && player) {
+            if (player === KID_PLAYER_ID) totals.arthurGoals++;
+            else counts.set(player, (counts.get(player) || 0) + 1);
+        }
+        if (event.kind === 'assist' && event.side === 'us' && player === KID_PLAYER_ID) totals.arthurAssists++;
+    });
+    // Keep the names of scorers who have since left the roster
+    totals.scorers = Array.from(counts.entries()).map(([teammateId, count]) => {
+        const guestName = previousScorers.find(s => s.teammateId === teammateId)?.guestName;
+        return guestName ? { teammateId, count, guestName } : { teammateId, count };
+    });
+    return totals;
+};
+
+export const withDerivedTotals = <M extends MatchData | Omit<MatchData, 'id'>>(match: M): M =>
+    hasEvents(match) ? { ...match, ...deriveTotalsFromEvents(match.events!, match.scorers) } : match;
+
+// Untimed events matching the totals of a match logged without events
+export const eventsFromTotals = (match: MatchTotals): MatchEvent[] => {
+    const goal = (side: MatchEvent['side'], playerIds: string[] = []): MatchEvent => ({ id: generateId(), kind: 'goal', side, playerIds });
+    const events: MatchEvent[] = [];
+    for (let i = 0; i < match.arthurGoals; i++) events.push(goal('us', [KID_PLAYER_ID]));
+    match.scorers.forEach(s => { for (let i = 0; i < s.count; i++) events.push(goal('us', [s.teammateId])); });
+    const unassigned = match.scoreMyTeam - events.length;
+    for (let i = 0; i < unassigned; i++) events.push(goal('us'));
+    for (let i = 0; i < match.scoreOpponent; i++) events.push(goal('opponent'));
+    for (let i = 0; i < match.arthurAssists; i++) events.push({ id: generateId(), kind: 'assist', side: 'us', playerIds: [KID_PLAYER_ID] });
+    return events;
+};
+
+// Untimed event for a scoreboard tap
+export const createActionEvent = (type: LiveEventType, teammateId?: string): MatchEvent => {
+    const id = generateId();
+    switch (type) {
+        case 'my_goal': return { id, kind: 'goal', side: 'us', playerIds: [] };
+        case 'op_goal': return { id, kind: 'goal', side: 'opponent', playerIds: [] };
+        case 'kid_goal': return { id, kind: 'goal', side: 'us', playerIds: [KID_PLAYER_ID] };
+        case 'teammate_goal': return { id, kind: 'goal', side: 'us', playerIds: teammateId ? [teammateId] : [] };
+        case 'kid_assist': return { id, kind: 'assist', side: 'us', playerIds: [KID_PLAYER_ID] };
+    }
+};
+
+// Match minute of a live tap: minute 21 in a 20 minute first half is 20+1'
+export const getLiveEventMinute = (event: LiveMatchEvent, periodMinutes: number): number =>
+    (event.period - 1) * periodMinutes + Math.floor(event.second / 60) + 1;
+
+// An assist tap goes with the latest goal by someone else in the same period
+// that has no assist yet, or else with the next such goal
+export const liveEventsToMatchEvents = (live: LiveMatchEvent[], periodMinutes: number): MatchEvent[] => {
+    const events: MatchEvent[] = live.map(ev => ({
+        ...createActionEvent(ev.type, ev.teammateId),
+        id: ev.id,
+        period: ev.period,
+        minute: getLiveEventMinute(ev, periodMinutes)
+    }));
+    const assisted = new Set<string>();
+    const canTake = (e: MatchEvent, period: number) =>
+        e.kind === 'goal' && e.side === 'us' && e.period === period && e.playerIds[0] !== KID_PLAYER_ID && !assisted.has(e.id);
+    events.forEach((event, i) => {
+        if (event.kind !== 'assist') return;
+        const before = events.slice(0, i).reverse().find(e => canTake(e, event.period!));
+        const goal = before || events.slice(i + 1).find(e => canTake(e, event.period!));
+        if (!goal) return;
+        event.goalId = goal.id;
+        assisted.add(goal.id);
+    });
+    return events;
+};
+
+export const sortEvents = (events: MatchEvent[]): MatchEvent[] =>
+    [...events].sort((a, b) => (a.period || 0) - (b.period || 0) || (a.minute || 0) - (b.minute || 0));
+
+// 12' or, past the end of the period, 20+1'
+export const formatEventMinute = (event: Pick<MatchEvent, 'minute' | 'period'>, periodLength?: number): string => {
+    if (!event.minute) return '';
+    if (periodLength && event.period) {
+        const periodEnd = event.period * periodLength;
+        if (event.minute > periodEnd) return `${periodEnd}+${event.minute - periodEnd}'`;
+    }
+    return `${event.minute}'`;
+};
+
+export const getAssistFor = (events: MatchEvent[], goalId: string): MatchEvent | undefined =>
+    events.find(e => e.kind === 'assist' && e.goalId === goalId);
+
+// Deleting a goal also removes the assist linked to it
+export const removeEvent = (events: MatchEvent[], eventId: string): MatchEvent[] =>
+    events.filter(e => e.id !== eventId && e.goalId !== eventId);
+
+export const getEventPlayerName = (playerId: string | undefined, team: Team | undefined, playerName: string, scorers: MatchData['scorers'] = []): string => {
+    if (!playerId) return '';
+    if (playerId === KID_PLAYER_ID) return playerName;
+    return team?.roster.find(tm => tm.id === playerId)?.name
+        || scorers.find(s => s.teammateId === playerId)?.guestName
+        || '?';
+};
+
+// Assists linked to a goal are shown with that goal
+export const withoutLinkedAssists = (events: MatchEvent[]): MatchEvent[] =>
+    events.filter(e => !(e.kind === 'assist' && e.goalId && events.some(g => g.id === e.goalId)));
+
+// One line summary, e.g. "Penalty · Sam · Scored"; assists are left to the caller
+export const describeMatchEvent = (event: MatchEvent, nameOf: (playerId?: string) => string, t: any): string => {
+    const parts: string[] = [t[`eventKind_${event.kind}`]];
+    if (event.kind === 'substitution') {
+        parts.push(`${t.eventPlayerOn} ${nameOf(event.playerIds[0])} · ${t.eventPlayerOff} ${nameOf(event.playerIds[1])}`);
+    } else if (event.playerIds[0]) {
+        parts.push(nameOf(event.playerIds[0]));
+    } else if (event.side === 'opponent') {
+        parts.push(t.opponent);
+    }
+    if (event.kind === 'penalty') parts.push(event.scored ? t.eventPenaltyScored : t.eventPenaltyMissed);
+    if (event.kind === 'card') parts.push(event.card === 'red' ? t.eventCardRed : t.eventCardYellow);
+    return parts.filter(Boolean).join(' · ');
+};
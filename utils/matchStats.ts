@@ -0,0 +1,100 @@
+import { BuiltInStatId, CustomStatDefinition, MatchData, StatAggregation, Team, UserProfile } from '../types';
+
+// --- Per-match stats ---
+// Counters beyond goals and assists. Each team enables a set of built-in stats
+// and may add its own; a match stores only the values that were recorded.
+
+export interface StatDefinition {
+    id: string;
+    icon: string;
+    aggregation: StatAggregation;
+    labelKey?: string; // Built-in stats
+    name?: string;     // Custom stats
+}
+
+export interface AggregatedStat {
+    definition: StatDefinition;
+    matches: number;   // Matches that recorded it
+    value: number;     // Total, average or best, following the aggregation
+    perMatch: number;  // Average per recorded match
+}
+
+export const BUILT_IN_STATS: (StatDefinition & { id: BuiltInStatId })[] = [
+    { id: 'shots', icon: 'fa-crosshairs', aggregation: 'sum', labelKey: 'statShots' },
+    { id: 'shotsOnTarget', icon: 'fa-bullseye', aggregation: 'sum', labelKey: 'statShotsOnTarget' },
+    { id: 'tackles', icon: 'fa-shield-halved', aggregation: 'sum', labelKey: 'statTackles' },
+    { id: 'interceptions', icon: 'fa-hand', aggregation: 'sum', labelKey: 'statInterceptions' },
+    { id: 'dribbles', icon: 'fa-person-running', aggregation: 'sum', labelKey: 'statDribbles' },
+    { id: 'keyPasses', icon: 'fa-key', aggregation: 'sum', labelKey: 'statKeyPasses' }
+];
+
+export const STAT_AGGREGATIONS: StatAggregation[] = ['sum', 'average', 'max'];
+
+// Icons offered for custom stats
+export const STAT_ICONS = ['fa-star', 'fa-bolt', 'fa-fire', 'fa-heart', 'fa-flag', 'fa-rocket', 'fa-wand-magic-sparkles', 'fa-arrows-up-down-left-right', 'fa-medal', 'fa-person-running'];
+
+const fromCustom = (custom: CustomStatDefinition): StatDefinition =>
+    ({ id: custom.id, icon: custom.icon, aggregation: custom.aggregation, name: custom.name });
+
+export const getStatLabel = (definition: StatDefinition, t: any): string =>
+    definition.name ?? t[definition.labelKey!];
+
+// Built-ins in their fixed order, then the team's own stats
+export const getTeamStatDefinitions = (team: Team | undefined): StatDefinition[] => [
+    ...BUILT_IN_STATS.filter(s => team?.enabledStats?.includes(s.id)),
+    ...(team?.customStats || []).map(fromCustom)
+];
+
+// Every stat any of the teams records, plus built-ins a team has since turned off
+// so that older values still show up
+export const getProfileStatDefinitions = (teams: Team[], matches: Pick<MatchData, 'stats'>[] = []): StatDefinition[] => {
+    const recorded = new Set(matches.flatMap(m => Object.keys(m.stats || {})));
+    const custom = teams.flatMap(team => team.customStats || []).map(fromCustom);
+    return [
+        ...BUILT_IN_STATS.filter(s => recorded.has(s.id) || teams.some(team => team.enabledStats?.includes(s.id))),
+        ...custom.filter((s, i) => custom.findIndex(other => other.id === s.id) === i)
+    ];
+};
+
+export const hasStats = (match: Pick<MatchData, 'stats'>): boolean => Object.keys(match.stats || {}).length > 0;
+
+export const aggregateStats = (matches: MatchData[], definitions: StatDefinition[]): AggregatedStat[] =>
+    definitions
+        .map(definition => {
+            const values = matches
+                .map(m => m.stats?.[definition.id])
+                .filter((v): v is number => typeof v === 'number');
+            const total = values.reduce((acc, v) => acc + v, 0);
+            const perMatch = values.length > 0 ? total / values.length : 0;
+            const value = definition.aggregation === 'sum' ? total
+                : definition.aggregation === 'max' ? Math.max(0, ...values)
+                : perMatch;
+            return { definition, matches: values.length, value, perMatch };
+        })
+        .filter(stat => stat.matches > 0);
+
+// Averages to one decimal, counts as they are
+export const formatStatValue = (value: number): string =>
+    Number.isInteger(value) ? String(value) : value.toFixed(1);
+
+// Share of shots on target, over the matches that recorded both
+export const getShotAccuracy = (matches: MatchData[]): number | null => {
+    const both = matches.filter(m => typeof m.stats?.shots === 'number' && typeof m.stats?.shotsOnTarget === 'number');
+    const shots = both.reduce((acc, m) => acc + m.stats!.shots, 0);
+    return shots > 0 ? both.reduce((acc, m) => acc + m.stats!.shotsOnTarget, 0) / shots : null;
+};
+
+// "Shots 3 · Tackles 2" for text exports, in the order of the definitions
+export const describeMatchStats = (match: Pick<MatchData, 'stats'>, definitions: StatDefinition[], t: any): string =>
+    definitions
+        .filter(d => typeof match.stats?.[d.id] === 'number')
+        .map(d => `${getStatLabel(d, t)} ${match.stats![d.id]}`)
+        .join(' · ');
+
+export const getMatchStatDefinitions = (match: Pick<MatchData, 'stats' | 'teamId'>, profile: Pick<UserProfile, 'teams'>): StatDefinition[] => {
+    const team = profile.teams.find(tm => tm.id === match.teamId);
+    const own = getTeamStatDefinitions(team);
+    // Values for stats the team no longer records are still shown
+    const extra = getProfileStatDefinitions(profile.teams, [match]).filter(d => match.stats?.[d.id] !== undefined && !own.some(o => o.id === d.id));
+    return [...own, ...extra];
+};
@@ -0,0 +1,76 @@
+import { MatchData, PlayingSpell } from '../types';
+import { DEFAULT_PERIOD_MINUTES } from '../services/liveMatch';
+
+// --- Playing time ---
+// Spells on the pitch per period. Matches without them only have the coarse
+// periodsPlayed count and are left out of the minute based stats.
+
+export const POSITIONS = ['FW', 'LW', 'RW', 'MF', 'DF', 'GK'];
+
+export interface PositionTime {
+    position: string;
+    minutes: number;
+    share: number; // 0..1 of all minutes played
+}
+
+export interface PlayingTimeStats {
+    matches: number;
+    minutes: number;
+    goals: number;
+    goalsPer60: number;
+    positions: PositionTime[];
+}
+
+export const getPeriodCount = (match: Pick<MatchData, 'matchStructure'>): number =>
+    match.matchStructure === 'halves' ? 2 : 4;
+
+export const getPeriodLength = (match: Pick<MatchData, 'periodLength' | 'matchStructure'>): number =>
+    match.periodLength || DEFAULT_PERIOD_MINUTES[match.matchStructure || 'quarters'];
+
+export const hasPlayingTime = (match: Pick<MatchData, 'playingTime'>): boolean => (match.playingTime || []).length > 0;
+
+export const getSpellMinutes = (spell: PlayingSpell): number => Math.max(0, spell.off - spell.on);
+
+export const getMinutesPlayed = (spells: PlayingSpell[]): number =>
+    spells.reduce((acc, s) => acc + getSpellMinutes(s), 0);
+
+export const sortSpells = (spells: PlayingSpell[]): PlayingSpell[] =>
+    [...spells].sort((a, b) => a.period - b.period || a.on - b.on);
+
+// The older summary fields, to half a period, so lists and exports keep working
+export const summariseSpells = (spells: PlayingSpell[], periodLength: number): Pick<MatchData, 'periodsPlayed' | 'positionPlayed'> => ({
+    periodsPlayed: Math.round((getMinutesPlayed(spells) / periodLength) * 2) / 2,
+    positionPlayed: sortSpells(spells)
+        .map(s => s.position || '')
+        .filter((p, i, arr) => p && arr.indexOf(p) === i)
+});
+
+// Next spell in a period: from the last time they came off to the end of the period
+export const createNextSpell = (spells: PlayingSpell[], period: number, periodLength: number): PlayingSpell => {
+    const inPeriod = sortSpells(spells).filter(s => s.period === period);
+    const last = inPeriod[inPeriod.length - 1] || sortSpells(spells).filter(s => s.period < period).pop();
+    const on = inPeriod.length > 0 ? Math.min(periodLength, last!.off) : 0;
+    return { period, on, off: periodLength, ...(last?.position && { position: last.position }) };
+};
+
+export const computePlayingTimeStats = (matches: MatchData[]): PlayingTimeStats | null => {
+    const tracked = matches.filter(hasPlayingTime);
+    if (tracked.length === 0) return null;
+    const byPosition = new Map<string, number>();
+    let minutes = 0;
+    tracked.forEach(m => m.playingTime!.forEach(spell => {
+        const spellMinutes = getSpellMinutes(spell);
+        minutes += spellMinutes;
+        if (spell.position) byPosition.set(spell.position, (byPosition.get(spell.position) || 0) + spellMinutes);
+    }));
+    const goals = tracked.reduce((acc, m) => acc + m.arthurGoals, 0);
+    return {
+        matches: tracked.length,
+        minutes,
+        goals,
+        goalsPer60: minutes > 0 ? (goals / minutes) * 60 : 0,
+        positions: Array.from(byPosition.entries())
+            .map(([position, posMinutes]) => ({ position, minutes: posMinutes, share: minutes > 0 ? posMinutes / minutes : 0 }))
+            .sort((a, b) => b.minutes - a.minutes)
+    };
+};
@@ -0,0 +1,108 @@
+import { MatchData, Tournament, TournamentFormat, TournamentRound } from '../types';
+import { generateId } from '../services/ids';
+
+// --- Tournament helpers ---
+// We only know the results of our own games, so tables and brackets are built
+// from those: every opponent gets a row with its record against us.
+
+export interface GroupTableRow {
+    name: string;
+    isUs: boolean;
+    played: number;
+    won: number;
+    drawn: number;
+    lost: number;
+    goalsFor: number;
+    goalsAgainst: number;
+    points: number;
+}
+
+export interface TournamentContribution {
+    played: number;
+    goals: number;
+    assists: number;
+    motm: number;
+    avgRating: number;
+}
+
+// Default rounds offered when a tournament is created, as translation keys
+const ROUND_PRESETS: Record<TournamentFormat, { key: string; stage: TournamentRound['stage'] }[]> = {
+    groups: [
+        { key: 'roundGroupStage', stage: 'group' },
+        { key: 'roundQuarterFinal', stage: 'knockout' },
+        { key: 'roundSemiFinal', stage: 'knockout' },
+        { key: 'roundFinal', stage: 'knockout' }
+    ],
+    knockout: [
+        { key: 'roundQuarterFinal', stage: 'knockout' },
+        { key: 'roundSemiFinal', stage: 'knockout' },
+        { key: 'roundFinal', stage: 'knockout' }
+    ],
+    roundRobin: [
+        { key: 'roundLeague', stage: 'group' }
+    ]
+};
+
+export const createPresetRounds = (format: TournamentFormat, t: any): TournamentRound[] =>
+    ROUND_PRESETS[format].map(preset => ({ id: generateId(), name: t[preset.key], stage: preset.stage }));
+
+export const getTournamentMatches = (tournament: Tournament, matches: MatchData[]): MatchData[] =>
+    matches
+        .filter(m => m.tournamentId === tournament.id)
+        .sort((a, b) => a.date.localeCompare(b.date) || (a.matchTime || '').localeCompare(b.matchTime || ''));
+
+export const getTournamentById = (tournaments: Tournament[] | undefined, id?: string): Tournament | undefined =>
+    id ? (tournaments || []).find(tn => tn.id === id) : undefined;
+
+const emptyRow = (name: string, isUs: boolean): GroupTableRow => ({
+    name, isUs, played: 0, won: 0, drawn: 0, lost: 0, goalsFor: 0, goalsAgainst: 0, points: 0
+});
+
+const addResult = (row: GroupTableRow, scored: number, conceded: number) => {
+    row.played++;
+    row.goalsFor += scored;
+    row.goalsAgainst += conceded;
+    if (scored > conceded) { row.won++; row.points += 3; }
+    else if (scored < conceded) row.lost++;
+    else { row.drawn++; row.points += 1; }
+};
+
+// Table of the given (group stage) matches, sorted by points, goal difference, goals scored
+export const buildGroupTable = (matches: MatchData[], ourName: string): GroupTableRow[] => {
+    const us = emptyRow(ourName, true);
+    const opponents = new Map<string, GroupTableRow>();
+    matches.filter(m => m.status !== 'scheduled').forEach(m => {
+        const key = m.opponent.trim().toLowerCase();
+        if (!opponents.has(key)) opponents.set(key, emptyRow(m.opponent.trim(), false));
+        addResult(us, m.scoreMyTeam, m.scoreOpponent);
+        addResult(opponents.get(key)!, m.scoreOpponent, m.scoreMyTeam);
+    });
+    return [us, ...opponents.values()].sort((a, b) =>
+        b.points - a.points ||
+        (b.goalsFor - b.goalsAgainst) - (a.goalsFor - a.goalsAgainst) ||
+        b.goalsFor - a.goalsFor ||
+        Number(b.isUs) - Number(a.isUs)
+    );
+};
+
+export const getTournamentContribution = (matches: MatchData[]): TournamentContribution => {
+    const played = matches.filter(m => m.status !== 'scheduled');
+    const rated = played.filter(m => m.rating > 0);
+    return {
+        played: played.length,
+        goals: played.reduce((acc, m) => acc + m.arthurGoals, 0),
+        assists: played.reduce((acc, m) => acc + m.arthurAssists, 0),
+        motm: played.filter(m => m.isMotm).length,
+        avgRating: rated.length > 0 ? rated.reduce((acc, m) => acc + m.rating, 0) / rated.length : 0
+    };
+};
+
+export const formatPlacement = (placement: number | undefined, t: any): string => {
+    if (!placement) return '';
+    if (placement === 1) return t.placementWinner;
+    if (placement === 2) return t.placementRunnerUp;
+    return t.placementNth.replace('{n}', String(placement));
+};
+
+export const placementIcon = (placement?: number): string =>
+    placement === 1 ? '🥇' : placement === 2 ? '🥈' : placement === 3 ? '🥉' : '🏅';
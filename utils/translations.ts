@@ -82,7 +82,7 @@ export const translations = {
     manageProfiles: "管理球員",
     done: "完成",
     confirmDeleteProfile: "確定要刪除這個球員檔案嗎？",
-    deleteProfileDesc: "此操作將會刪除該球員的所有比賽紀錄，且無法復原。",
+    deleteProfileDesc: "此操作將會刪除該球員的所有比賽紀錄，可於回收筒還原。",
     
     // Sync
     syncData: "備份 / 還原",
@@ -102,6 +102,445 @@ export const translations = {
     useIncoming: "使用新資料 (覆蓋)",
     keepLocal: "保留舊資料 (取消)",
 
+    // Schema migration (older backup files)
+    migrationTitle: "舊版備份檔案",
+    migrationDesc: "此檔案由舊版本匯出，匯入前會自動升級以下資料：",
+    migrationRecords: "{n} 項紀錄",
+    migrationContinue: "升級並繼續匯入",
+
+    // Import validation
+    validationTitle: "檔案內有錯誤資料",
+    validationDesc: "有 {n} 項紀錄格式錯誤，匯入時會略過。",
+    importValidOnly: "只匯入 {n} 項有效紀錄",
+    valKind_profile: "檔案",
+    valKind_match: "比賽",
+    valKind_journal: "日誌",
+    valMissing: "缺少資料",
+    valNotString: "應為文字",
+    valNotNumber: "應為數字",
+    valNotInteger: "應為整數",
+    valNegative: "不可為負數",
+    valOutOfRange: "超出範圍 (0-10)",
+    valNotArray: "應為列表",
+    valNotObject: "格式錯誤",
+    valInvalidDate: "日期格式錯誤",
+    valInvalidValue: "不支援的選項",
+    valUnknownTeam: "找不到對應球隊",
+    valUnknownProfile: "找不到對應球員檔案",
+    valDuplicateId: "ID 重複",
+
+    // Conflict review
+    conflictReviewDesc: "有 {n} 場比賽在本機同檔案中內容不同，請逐場選擇保留邊個版本。",
+    choiceLocal: "本機",
+    choiceIncoming: "匯入",
+    choiceMerged: "合併",
+    conflictNewer: "較新",
+    conflictNewerWins: "較新者優先",
+    conflictAllLocal: "全部保留本機",
+    conflictAllIncoming: "全部用匯入",
+    conflictImport: "確認匯入",
+    diffScore: "比分",
+    diffVideos: "影片",
+    diffDetails: "其他資料",
+
+    // Nearby device sync
+    peerSyncTitle: "附近裝置同步",
+    peerShowCode: "顯示配對碼",
+    peerScanCode: "掃描配對碼",
+    peerHostHint: "用另一部手機的「掃描配對碼」掃描此 QR Code，兩部裝置需連接同一網絡。",
+    peerLocalRelayHint: "未設定中繼伺服器：只可與同一瀏覽器的其他分頁配對。",
+    peerCodePlaceholder: "輸入配對碼",
+    peerConnect: "連接",
+    peerWaiting: "等待另一部裝置...",
+    peerConnecting: "連接中...",
+    peerTransferring: "正在交換資料...",
+    peerDone: "完成！",
+    peerTimeout: "配對逾時，請重試。",
+    peerFailed: "無法連接另一部裝置。",
+    peerInvalidCode: "配對碼無效。",
+    peerCameraError: "無法使用相機，請手動輸入配對碼。",
+    peerRelay: "中繼伺服器",
+    peerRelayHint: "用於交換連線資料（包括裝置的網絡位址），連線資料會以配對碼簽署。留空則只限同一瀏覽器。",
+    peerUnverified: "無法核實另一部裝置，請檢查配對碼再試。",
+    peerReceivedTitle: "已收到另一部裝置的資料",
+    peerReceivedDesc: "{m} 場比賽、{p} 個球員檔案。要匯入到這部裝置嗎？",
+    peerImport: "匯入",
+    peerDiscard: "捨棄",
+
+    // Encrypted backups
+    encryptBackup: "以密碼加密備份",
+    passphrase: "密碼",
+    passphraseConfirm: "再次輸入密碼",
+    passphraseHint: "請牢記此密碼，遺失後將無法還原備份。",
+    passphraseTooShort: "密碼最少需要 {n} 個字元。",
+    passphraseMismatch: "兩次輸入的密碼不一致。",
+    encryptFailed: "加密失敗，請重試。",
+    encryptedFile: "加密 .json 檔案",
+    encryptedBackupTitle: "加密備份",
+    encryptedBackupDesc: "此備份已加密，請輸入匯出時設定的密碼。",
+    unlockBackup: "解鎖並匯入",
+    wrongPassphrase: "密碼錯誤，或檔案已損壞。",
+
+    // Automatic backups
+    autoBackupTitle: "自動備份",
+    autoBackupOff: "已關閉",
+    autoBackupNever: "尚未有自動備份",
+    autoBackupLast: "上次：{time} · {target}",
+    headerLastBackup: "上次自動備份：{time}",
+    autoBackupSnapshot: "App 內快照",
+    autoBackupEnabled: "啟用自動備份",
+    autoBackupFolder: "備份資料夾",
+    autoBackupChooseFolder: "選擇資料夾",
+    autoBackupReconnect: "重新連接",
+    autoBackupReconnectHint: "瀏覽器需要重新授權存取資料夾，未授權前會改存 App 內快照。",
+    autoBackupNoFolderSupport: "此瀏覽器不支援寫入資料夾，自動備份會以快照形式保存在 App 內。",
+    autoBackupEvery: "每",
+    autoBackupChanges: "{n} 次修改",
+    autoBackupKeep: "保留",
+    autoBackupFiles: "最近 {n} 份",
+    autoBackupDaily: "每日最少備份一次（如有修改）",
+    autoBackupNow: "立即備份",
+
+    // Snapshot history
+    historyTitle: "還原紀錄",
+    historyDesc: "匯入、刪除球員或批量修改前會自動建立快照。",
+    historyEmpty: "暫時未有快照",
+    historyMatches: "{n} 場",
+    historyRestoreAll: "還原全部",
+    historyRestoreProfile: "只還原此球員",
+    historyConfirmAll: "將所有資料還原至 {time} 的狀態？之後的修改會被取代（還原前會先建立快照）。",
+    historyConfirmProfile: "將 {name} 的資料還原至 {time} 的狀態？",
+    historyRestored: "資料已還原！",
+    snapshotReason_auto: "自動備份",
+    snapshotReason_import: "匯入前",
+    snapshotReason_profileDelete: "刪除球員前",
+    snapshotReason_bulkEdit: "批量修改前",
+    snapshotReason_restore: "還原前",
+
+    // Trash
+    undo: "復原",
+    trashTitle: "回收筒",
+    trashDesc: "已刪除的紀錄會暫存於此，過期後自動清除。",
+    trashIsEmpty: "回收筒是空的",
+    trashEmptyAll: "全部清除",
+    trashRetention: "自動清除",
+    trashDays: "{n} 日",
+    trashDaysLeft: "尚餘 {n} 日",
+    trashRestore: "還原",
+    trashRestored: "已還原",
+    trashRestoreFailed: "無法還原：所屬球員或球隊已不存在。",
+    trashConfirmDelete: "永久刪除此紀錄？此操作無法復原。",
+    trashConfirmEmpty: "永久刪除回收筒內所有紀錄？",
+    trashGroup_profile: "球員",
+    trashGroup_match: "比賽",
+    trashGroup_journal: "日誌",
+    trashGroup_teammate: "隊友",
+
+    // Storage health
+    storageTitle: "儲存空間",
+    storageDesc: "查看日記佔用的空間及釋放空間",
+    storageUsed: "已用 {used} / {quota}",
+    storageNearlyFull: "儲存空間快滿了，請匯出備份並清理垃圾桶或舊快照。",
+    storageNoEstimate: "此瀏覽器無法提供儲存配額資料。",
+    storageByType: "按類型",
+    storageByProfile: "按球員",
+    storageType_avatars: "頭像",
+    storageType_logos: "隊徽",
+    storageType_matches: "比賽",
+    storageType_journals: "日誌",
+    storageType_history: "同步記錄",
+    storageType_snapshots: "快照",
+    storageType_trash: "垃圾桶",
+    storageOffloadDesc: "大型頭像及隊徽可移至獨立的圖片庫，令資料記錄更細、同步更快。",
+    storageOffload: "移動 {n} 張大型圖片 ({size})",
+    storageOffloadNone: "沒有需要移動的大型圖片",
+    storageOffloadDone: "已移動 {n} 張圖片 ({size})",
+    storageQuotaWarning: "儲存空間快滿了 ({used} / {quota})，請到「備份 / 還原」清理空間。",
+    storageUnavailable: "無法開啟本機資料庫 (可能係私密瀏覽模式或者瀏覽器封鎖咗)。而家唔會顯示或者儲存任何紀錄，請轉用一般視窗再開。",
+    storageFullError: "儲存空間已滿，最近的更改未能儲存！",
+    saveFailedError: "儲存失敗，最近的更改可能未被保存。",
+
+    // Data integrity check
+    integrityTitle: "檢查資料",
+    integrityDesc: "找出失效的球隊、入球者及日誌連結",
+    integrityRecheck: "重新檢查",
+    integrityAllGood: "資料一切正常！",
+    integrityFound: "發現 {n} 個問題",
+    integrityFixed: "已修正 {n} 項記錄",
+    integrityNoTeams: "此檔案未有球隊，請先新增球隊",
+    integrityUnknownPlayer: "前隊友",
+    integrity_missingTeam: "比賽的球隊已不存在",
+    integrity_orphanScorer: "入球者已不在名單",
+    integrity_brokenJournalLink: "日誌連結到已刪除的比賽",
+    integrity_legacyPosition: "舊格式的位置資料",
+    integrityFix_missingTeam: "改為此球隊",
+    integrityFix_orphanScorer: "轉為具名客串球員",
+    integrityFix_brokenJournalLink: "取消連結",
+    integrityFix_legacyPosition: "轉換格式",
+
+    // CSV import / export
+    csvExport: "匯出 CSV",
+    csvExportCount: "{n} 場比賽",
+    csvImport: "匯入 CSV",
+    csvImportTitle: "匯入 CSV",
+    csvStepMap: "對應欄位",
+    csvStepPreview: "預覽",
+    csvRows: "{n} 行",
+    csvEmpty: "檔案沒有內容",
+    csvIgnore: "— 略過 —",
+    csvDateFormat: "日期格式",
+    csvDate_YMD: "年-月-日",
+    csvDate_DMY: "日/月/年",
+    csvDate_MDY: "月/日/年",
+    csvDefaultTeam: "預設球隊",
+    csvNeedColumns: "請最少對應「日期」及「對手」欄位",
+    csvPreview: "預覽",
+    csvMore: "還有 {n} 場…",
+    csvSkipped: "略過 {n} 行",
+    csvRowError: "第 {row} 行：{reason}",
+    csvBadDate: "日期無效",
+    csvNoOpponent: "沒有對手",
+    csvImportCount: "為 {name} 匯入 {n} 場比賽",
+    csvImported: "已匯入 {n} 場比賽！",
+    csvField_date: "日期",
+    csvField_team: "球隊",
+    csvField_opponent: "對手",
+    csvField_homeAway: "主 / 客",
+    csvField_matchType: "比賽類型",
+    csvField_location: "地點",
+    csvField_score: "比分 (3-1)",
+    csvField_scoreMyTeam: "我隊入球",
+    csvField_scoreOpponent: "對手入球",
+    csvField_goals: "個人入球",
+    csvField_assists: "個人助攻",
+    csvField_rating: "評分",
+    csvField_motm: "最佳球員",
+    csvField_positions: "位置",
+    csvField_pitch: "場地",
+    csvField_weather: "天氣",
+    csvField_format: "賽制",
+    csvField_scorers: "入球者 (名字×次數)",
+    csvField_comment: "評語",
+
+    // Calendar (.ics)
+    icsExport: "匯出日曆",
+    icsExportCount: "{n} 場即將進行",
+    icsImport: "匯入日曆",
+    icsImportTitle: "匯入日曆 (.ics)",
+    icsEventsFound: "找到 {n} 個活動",
+    icsNoEvents: "檔案中沒有活動",
+    icsTeam: "加入到球隊",
+    icsImportCount: "加入 {n} 場賽程",
+    icsImported: "已加入 {n} 場賽程！",
+
+    // PDF Season Report
+    seasonReport: "PDF 報告",
+    reportSummary: "{matches} 場比賽 · 共 {pages} 頁",
+    reportComments: "家長評語及賽後訪問",
+    reportNoComments: "呢段時間未有評語",
+    reportOverview: "賽季總覽",
+    reportMatches: "逐場紀錄",
+    reportDownload: "下載 PDF",
+    reportGenerating: "生成中 {n}/{total}...",
+    reportFailed: "生成 PDF 失敗，請再試。",
+
+    // Keepsake Archive
+    archiveExport: "紀念冊匯出",
+    archiveExportHint: "每季一頁 HTML · 離線瀏覽 · .zip",
+    archiveTitle: "足球日記紀念冊",
+    archiveGenerated: "匯出時間：",
+    archiveSeason: "賽季",
+    archiveBack: "返回目錄",
+    archiveFailed: "紀念冊匯出失敗",
+
+    // Read-only Viewer
+    viewerExport: "分享檢視檔",
+    viewerExportHint: "單一 HTML 檔 · 俾爺爺嫲嫲睇",
+    viewerMatches: "{n} 場比賽",
+    viewerDesc: "匯出一個 HTML 檔，包含比賽紀錄、數據同徽章。用任何瀏覽器都打得開，唔使安裝 App，亦唔可以修改。",
+    viewerEncrypt: "用密碼保護",
+    viewerEncryptHint: "請另外將密碼話俾對方知。",
+    viewerDownload: "下載檢視檔",
+    viewerTitle: "{name} 的足球日記",
+    viewerUpdated: "更新於",
+    viewerUnlock: "開啟",
+    viewerFailed: "生成檢視檔失敗",
+
+    // ID collisions
+    idsRenumbered: "有 {n} 筆紀錄同本機紀錄撞咗編號，已自動重新編號，唔會互相覆蓋。",
+
+    // Tournaments
+    tournament: "杯賽",
+    tournaments: "杯賽",
+    tournamentName: "杯賽名稱",
+    noTournament: "不屬於杯賽",
+    newTournament: "新增杯賽",
+    tournamentCreated: "已新增杯賽",
+    tournamentRound: "賽事階段",
+    startDate: "開始日期",
+    endDate: "結束日期",
+    venue: "場地",
+    tournamentFormat: "賽制",
+    format_groups: "分組 + 淘汰",
+    format_knockout: "淘汰賽",
+    format_roundRobin: "循環賽",
+    finalPlacement: "最終名次",
+    placementNote: "名次備註",
+    placementNotePlaceholder: "例如: 碟賽冠軍",
+    placementWinner: "冠軍",
+    placementRunnerUp: "亞軍",
+    placementNth: "第{n}名",
+    tournamentRounds: "賽事階段",
+    useDefaultRounds: "使用預設階段",
+    addRound: "新增階段",
+    stageGroup: "小組",
+    stageKnockout: "淘汰",
+    roundGroupStage: "小組賽",
+    roundQuarterFinal: "八強",
+    roundSemiFinal: "四強",
+    roundFinal: "決賽",
+    roundLeague: "循環賽",
+    tournamentContribution: "{name} 的表現",
+    tableTeam: "球隊",
+    groupTable: "積分榜",
+    groupTableHint: "只計算我方賽果",
+    knockoutBracket: "淘汰賽對陣",
+    notReached: "未晉級",
+    tournamentNoMatches: "尚未有比賽連結到此杯賽",
+    deleteTournament: "刪除杯賽",
+    deleteTournamentConfirm: "刪除杯賽紀錄？比賽會保留，但不再連結到此杯賽。",
+
+    // Leagues
+    league: "聯賽",
+    leagues: "聯賽積分榜",
+    newLeague: "新增聯賽",
+    leagueEmpty: "新增聯賽，輸入其他球隊，即可看到積分榜",
+    leagueTable: "積分榜",
+    leagueResults: "賽果",
+    leagueSettings: "設定",
+    leagueForm: "近況",
+    leagueTableHint: "根據 {n} 場已記錄比賽及 {m} 個手動輸入賽果",
+    leagueMissingTeams: "有 {n} 個聯賽對手未加入此聯賽，這些比賽暫不計算：",
+    leagueAddTeams: "加入聯賽",
+    leagueAddResult: "輸入其他球隊賽果",
+    leagueNoResults: "暫無賽果",
+    leagueLoggedMatch: "由已記錄比賽自動計算",
+    leagueName: "聯賽名稱",
+    leagueSeason: "球季",
+    leaguePointsWin: "勝場得分",
+    leaguePointsDraw: "和局得分",
+    leagueTieBreakers: "同分排名準則",
+    tieBreaker_goalDifference: "得失球差",
+    tieBreaker_goalsFor: "入球數",
+    tieBreaker_headToHead: "對賽成績",
+    tieBreaker_wins: "勝場數",
+    leagueTeams: "參賽球隊",
+    leagueTeamPlaceholder: "球隊名稱 (與比賽對手名稱相同)",
+    leagueSuggested: "來自你的聯賽比賽：",
+    deleteLeague: "刪除聯賽",
+    deleteLeagueConfirm: "刪除此聯賽及手動輸入的賽果？已記錄的比賽不受影響。",
+
+    // Live Match Mode
+    goLive: "即時記錄",
+    resumeLive: "返回即時記錄",
+    liveMode: "即時模式",
+    liveKickOff: "開波",
+    livePeriodLength: "每節分鐘",
+    liveHalf: "第{n}半場",
+    liveQuarter: "第{n}節",
+    liveBreak: "休息",
+    liveStartPeriod: "開始{period}",
+    livePause: "暫停",
+    liveResume: "繼續",
+    liveEndPeriod: "完咗呢節",
+    liveFinalWhistle: "完場",
+    liveFinalWhistleConfirm: "而家完場？",
+    liveFullTime: "全場完",
+    liveSaveResult: "儲存結果並評分",
+    liveTapHint: "開波後撳掣記錄入球",
+    liveTeammateGoal: "隊友入球",
+    liveDiscard: "放棄即時記錄",
+    liveDiscardConfirm: "放棄呢場即時記錄？已記錄嘅事件會刪除。",
+    liveReplaceConfirm: "另一場比賽正在即時記錄，要取代佢？",
+    liveResultSaved: "比賽結果已儲存",
+    liveNoWakeLock: "呢部裝置可能會自動熄屏",
+
+    // Match Events
+    matchEvents: "比賽事件",
+    eventKind_goal: "入球",
+    eventKind_assist: "助攻",
+    eventKind_ownGoal: "烏龍球",
+    eventKind_penalty: "十二碼",
+    eventKind_save: "撲救",
+    eventKind_card: "紅黃牌",
+    eventKind_substitution: "換人",
+    eventMinute: "分鐘",
+    eventPeriod: "節數",
+    eventPlayer: "球員",
+    eventAssistBy: "助攻",
+    eventNoPlayer: "未指定",
+    eventPenaltyScored: "射入",
+    eventPenaltyMissed: "射失",
+    eventCardYellow: "黃牌",
+    eventCardRed: "紅牌",
+    eventPlayerOn: "入替",
+    eventPlayerOff: "換出",
+    addEvent: "新增事件",
+    eventsFromScore: "由比數建立事件",
+    eventsTotalsHint: "比數同入球數由事件計算",
+    eventsEmpty: "未有事件，可以逐項記錄入球、助攻、換人等",
+
+    // Playing Time
+    playingTime: "上場時間",
+    playingTimeHint: "記錄每節幾時上落場同踢咩位置，上陣節數同位置會自動計算",
+    playingTimeFull: "全節",
+    playingTimeAddSpell: "入替",
+    playingTimeTotal: "共 {min} 分鐘",
+    minutesPlayed: "上場分鐘",
+    goalsPer60: "每60分鐘入球",
+    timeByPosition: "各位置時間",
+    playingTimeBasis: "根據{n}場有上場記錄嘅比賽",
+    unitMinutes: "分鐘",
+
+    // Goalkeeping
+    goalkeeping: "守門",
+    keeperHint: "只計算守門嘅時段",
+    keeperSaves: "撲救",
+    keeperConceded: "守門時失球",
+    keeperPenaltiesFaced: "面對十二碼",
+    keeperPenaltiesSaved: "撲出十二碼",
+    keeperDistribution: "出球",
+    keeperDistributionAttempted: "出球次數",
+    keeperDistributionCompleted: "成功到位",
+    keeperPeriodsInGoal: "守門節數",
+    keeperFromEvents: "由比賽事件填入",
+    keeperSavePercent: "撲救率",
+    keeperConcededPerPeriod: "每節失球",
+    keeperCleanSheets: "零封",
+    keeperBasis: "{n} 場守門紀錄",
+
+    // Per-match stats
+    matchStats: "比賽數據",
+    matchStatsHint: "顯示「–」嘅數據唔會記錄",
+    statShots: "射門",
+    statShotsOnTarget: "射正",
+    statTackles: "搶截",
+    statInterceptions: "截球",
+    statDribbles: "盤扭過人",
+    statKeyPasses: "關鍵傳球",
+    statShotAccuracy: "射正率",
+    statPerMatch: "每場 {n}",
+    statsBasis: "{n} 場有紀錄",
+    teamStats: "每場記錄數據",
+    teamStatsHint: "揀選呢隊每場要記錄嘅數據",
+    customStats: "自訂數據",
+    addCustomStat: "新增",
+    customStatName: "名稱",
+    statAggregation: "統計方式",
+    aggSum: "總數",
+    aggAverage: "平均",
+    aggMax: "最高",
+
     // Header & Profile
     matchDiary: "的足球日記",
     teamsCount: "支球隊",
@@ -275,11 +714,17 @@ export const translations = {
     badgeIronMan: "鐵人精神",
     badgeIronManDesc: "累積上陣場數",
     badgeWall: "銅牆鐵壁",
-    badgeWallDesc: "零封對手場數 (Clean Sheets)",
+    badgeWallDesc: "守門時零封對手場數 (Clean Sheets)",
     badgeStar: "球場之星",
     badgeStarDesc: "獲得全場最佳 (MOTM) 次數",
     badgeHattrick: "帽子戲法",
     badgeHattrickDesc: "單場入3球或以上次數",
+    badgeSafeHands: "穩陣雙手",
+    badgeSafeHandsDesc: "守門時累積撲救次數",
+    badgePenaltyStopper: "十二碼剋星",
+    badgePenaltyStopperDesc: "守門時撲出十二碼次數",
+    badgeSweeperKeeper: "清道夫門將",
+    badgeSweeperKeeperDesc: "守門時成功出球次數",
 
     // Time Periods
     q1: "第一季 (1-3月)",
@@ -536,7 +981,7 @@ export const translations = {
     manageProfiles: "Manage Players",
     done: "Done",
     confirmDeleteProfile: "Delete this player profile?",
-    deleteProfileDesc: "This will effectively delete all match records for this player and cannot be undone.",
+    deleteProfileDesc: "This will delete all match records for this player. They can be restored from the Trash.",
 
     // Sync
     syncData: "Backup / Restore",
@@ -556,6 +1001,445 @@ export const translations = {
     useIncoming: "Use Incoming (Overwrite)",
     keepLocal: "Keep Local (Cancel)",
 
+    // Schema migration (older backup files)
+    migrationTitle: "Older Backup File",
+    migrationDesc: "This file was exported by an older version. The following upgrades will be applied before import:",
+    migrationRecords: "{n} records",
+    migrationContinue: "Upgrade & Continue",
+
+    // Import validation
+    validationTitle: "Invalid Records Found",
+    validationDesc: "{n} records are invalid and will be skipped.",
+    importValidOnly: "Import {n} Valid Records Only",
+    valKind_profile: "Profile",
+    valKind_match: "Match",
+    valKind_journal: "Journal",
+    valMissing: "Missing value",
+    valNotString: "Should be text",
+    valNotNumber: "Should be a number",
+    valNotInteger: "Should be a whole number",
+    valNegative: "Cannot be negative",
+    valOutOfRange: "Out of range (0-10)",
+    valNotArray: "Should be a list",
+    valNotObject: "Malformed record",
+    valInvalidDate: "Invalid date",
+    valInvalidValue: "Unsupported value",
+    valUnknownTeam: "Unknown team",
+    valUnknownProfile: "Unknown profile",
+    valDuplicateId: "Duplicate ID",
+
+    // Conflict review
+    conflictReviewDesc: "{n} matches differ between this device and the file. Choose which version to keep for each.",
+    choiceLocal: "Local",
+    choiceIncoming: "Incoming",
+    choiceMerged: "Merged",
+    conflictNewer: "newer",
+    conflictNewerWins: "Newer Wins",
+    conflictAllLocal: "All Local",
+    conflictAllIncoming: "All Incoming",
+    conflictImport: "Import",
+    diffScore: "Score",
+    diffVideos: "Videos",
+    diffDetails: "Other Details",
+
+    // Nearby device sync
+    peerSyncTitle: "Nearby Device Sync",
+    peerShowCode: "Show Pairing Code",
+    peerScanCode: "Scan Pairing Code",
+    peerHostHint: "Scan this QR code with \"Scan Pairing Code\" on the other phone. Both devices must be on the same network.",
+    peerLocalRelayHint: "No relay configured: only other tabs of this browser can pair.",
+    peerCodePlaceholder: "Pairing code",
+    peerConnect: "Connect",
+    peerWaiting: "Waiting for the other device...",
+    peerConnecting: "Connecting...",
+    peerTransferring: "Exchanging data...",
+    peerDone: "Done!",
+    peerTimeout: "Pairing timed out. Please try again.",
+    peerFailed: "Could not connect to the other device.",
+    peerInvalidCode: "Invalid pairing code.",
+    peerCameraError: "Camera unavailable. Enter the code manually.",
+    peerRelay: "Relay Server",
+    peerRelayHint: "Used to exchange connection details, including the devices' network addresses; they are signed with the pairing code. Leave empty for same-browser only.",
+    peerUnverified: "Could not verify the other device. Check the pairing code and try again.",
+    peerReceivedTitle: "Data received from the other device",
+    peerReceivedDesc: "{m} matches, {p} profiles. Import them into this device?",
+    peerImport: "Import",
+    peerDiscard: "Discard",
+
+    // Encrypted backups
+    encryptBackup: "Encrypt with a passphrase",
+    passphrase: "Passphrase",
+    passphraseConfirm: "Confirm passphrase",
+    passphraseHint: "Keep this passphrase safe. The backup cannot be restored without it.",
+    passphraseTooShort: "Passphrase must be at least {n} characters.",
+    passphraseMismatch: "Passphrases do not match.",
+    encryptFailed: "Encryption failed. Please try again.",
+    encryptedFile: "encrypted .json file",
+    encryptedBackupTitle: "Encrypted Backup",
+    encryptedBackupDesc: "This backup is encrypted. Enter the passphrase used when it was exported.",
+    unlockBackup: "Unlock & Import",
+    wrongPassphrase: "Wrong passphrase, or the file has been modified.",
+
+    // Automatic backups
+    autoBackupTitle: "Automatic Backup",
+    autoBackupOff: "Off",
+    autoBackupNever: "No automatic backup yet",
+    autoBackupLast: "Last: {time} · {target}",
+    headerLastBackup: "Last auto backup: {time}",
+    autoBackupSnapshot: "in-app snapshot",
+    autoBackupEnabled: "Enable automatic backup",
+    autoBackupFolder: "Backup Folder",
+    autoBackupChooseFolder: "Choose Folder",
+    autoBackupReconnect: "Reconnect",
+    autoBackupReconnectHint: "The browser needs permission again. Until then, backups are kept as in-app snapshots.",
+    autoBackupNoFolderSupport: "This browser cannot write to a folder. Automatic backups are kept as in-app snapshots.",
+    autoBackupEvery: "Every",
+    autoBackupChanges: "{n} changes",
+    autoBackupKeep: "Keep",
+    autoBackupFiles: "last {n} files",
+    autoBackupDaily: "At least once a day (when something changed)",
+    autoBackupNow: "Back Up Now",
+
+    // Snapshot history
+    historyTitle: "History",
+    historyDesc: "Snapshots are taken automatically before imports, profile deletions and bulk edits.",
+    historyEmpty: "No snapshots yet",
+    historyMatches: "{n} matches",
+    historyRestoreAll: "Restore All",
+    historyRestoreProfile: "Restore",
+    historyConfirmAll: "Restore everything to {time}? Later changes will be replaced (a snapshot is taken first).",
+    historyConfirmProfile: "Restore {name} to {time}?",
+    historyRestored: "Data restored!",
+    snapshotReason_auto: "Automatic backup",
+    snapshotReason_import: "Before import",
+    snapshotReason_profileDelete: "Before profile deletion",
+    snapshotReason_bulkEdit: "Before bulk edit",
+    snapshotReason_restore: "Before restore",
+
+    // Trash
+    undo: "Undo",
+    trashTitle: "Trash",
+    trashDesc: "Deleted records stay here until they expire.",
+    trashIsEmpty: "Trash is empty",
+    trashEmptyAll: "Empty Trash",
+    trashRetention: "Auto-delete after",
+    trashDays: "{n} days",
+    trashDaysLeft: "{n} days left",
+    trashRestore: "Restore",
+    trashRestored: "Restored",
+    trashRestoreFailed: "Cannot restore: its profile or team no longer exists.",
+    trashConfirmDelete: "Delete permanently? This cannot be undone.",
+    trashConfirmEmpty: "Permanently delete everything in the Trash?",
+    trashGroup_profile: "Profiles",
+    trashGroup_match: "Matches",
+    trashGroup_journal: "Journals",
+    trashGroup_teammate: "Teammates",
+
+    // Storage health
+    storageTitle: "Storage",
+    storageDesc: "See what uses space and free some up",
+    storageUsed: "{used} of {quota} used",
+    storageNearlyFull: "Storage is nearly full. Export a backup and clear the Trash or old snapshots.",
+    storageNoEstimate: "This browser does not report its storage quota.",
+    storageByType: "By type",
+    storageByProfile: "By player",
+    storageType_avatars: "Avatars",
+    storageType_logos: "Team logos",
+    storageType_matches: "Matches",
+    storageType_journals: "Journals",
+    storageType_history: "Sync history",
+    storageType_snapshots: "Snapshots",
+    storageType_trash: "Trash",
+    storageOffloadDesc: "Large avatars and logos can move to a separate image store, keeping records small and syncs fast.",
+    storageOffload: "Move {n} large images ({size})",
+    storageOffloadNone: "No large images to move",
+    storageOffloadDone: "Moved {n} images ({size})",
+    storageQuotaWarning: "Storage is nearly full ({used} of {quota}). Free up space in Backup / Restore.",
+    storageUnavailable: "The local database could not be opened (private browsing, or blocked by the browser). No records are shown and nothing will be saved. Reopen the app in a normal window.",
+    storageFullError: "Storage is full — your latest changes were not saved!",
+    saveFailedError: "Saving failed — your latest changes may not be stored.",
+
+    // Data integrity check
+    integrityTitle: "Check data",
+    integrityDesc: "Find broken team, scorer and journal links",
+    integrityRecheck: "Re-check",
+    integrityAllGood: "Everything looks good!",
+    integrityFound: "{n} issues found",
+    integrityFixed: "Fixed {n} records",
+    integrityNoTeams: "No teams yet — add a team first",
+    integrityUnknownPlayer: "Former teammate",
+    integrity_missingTeam: "Matches with a missing team",
+    integrity_orphanScorer: "Scorers no longer on the roster",
+    integrity_brokenJournalLink: "Journals linked to deleted matches",
+    integrity_legacyPosition: "Positions in the old format",
+    integrityFix_missingTeam: "Reassign",
+    integrityFix_orphanScorer: "Keep as named guests",
+    integrityFix_brokenJournalLink: "Unlink journals",
+    integrityFix_legacyPosition: "Convert positions",
+
+    // CSV import / export
+    csvExport: "Export CSV",
+    csvExportCount: "{n} matches",
+    csvImport: "Import CSV",
+    csvImportTitle: "Import CSV",
+    csvStepMap: "Map columns",
+    csvStepPreview: "Preview",
+    csvRows: "{n} rows",
+    csvEmpty: "The file is empty",
+    csvIgnore: "— Ignore —",
+    csvDateFormat: "Date format",
+    csvDate_YMD: "Year-Month-Day",
+    csvDate_DMY: "Day/Month/Year",
+    csvDate_MDY: "Month/Day/Year",
+    csvDefaultTeam: "Default team",
+    csvNeedColumns: "Map at least the Date and Opponent columns",
+    csvPreview: "Preview",
+    csvMore: "and {n} more…",
+    csvSkipped: "{n} rows skipped",
+    csvRowError: "Row {row}: {reason}",
+    csvBadDate: "invalid date",
+    csvNoOpponent: "no opponent",
+    csvImportCount: "Import {n} matches for {name}",
+    csvImported: "Imported {n} matches!",
+    csvField_date: "Date",
+    csvField_team: "Team",
+    csvField_opponent: "Opponent",
+    csvField_homeAway: "Home / Away",
+    csvField_matchType: "Match type",
+    csvField_location: "Location",
+    csvField_score: "Score (3-1)",
+    csvField_scoreMyTeam: "Goals for",
+    csvField_scoreOpponent: "Goals against",
+    csvField_goals: "Player goals",
+    csvField_assists: "Player assists",
+    csvField_rating: "Rating",
+    csvField_motm: "MOTM",
+    csvField_positions: "Positions",
+    csvField_pitch: "Pitch",
+    csvField_weather: "Weather",
+    csvField_format: "Format",
+    csvField_scorers: "Scorers (name×count)",
+    csvField_comment: "Comment",
+
+    // Calendar (.ics)
+    icsExport: "Export calendar",
+    icsExportCount: "{n} upcoming",
+    icsImport: "Import calendar",
+    icsImportTitle: "Import calendar (.ics)",
+    icsEventsFound: "{n} events found",
+    icsNoEvents: "No events in this file",
+    icsTeam: "Add to team",
+    icsImportCount: "Add {n} fixtures",
+    icsImported: "Added {n} fixtures!",
+
+    // PDF Season Report
+    seasonReport: "PDF Report",
+    reportSummary: "{matches} matches · {pages} pages",
+    reportComments: "Parent Comments & Interviews",
+    reportNoComments: "No comments in this period",
+    reportOverview: "Season Overview",
+    reportMatches: "Match by Match",
+    reportDownload: "Download PDF",
+    reportGenerating: "Rendering {n}/{total}...",
+    reportFailed: "Could not create the PDF. Please try again.",
+
+    // Keepsake Archive
+    archiveExport: "Keepsake Archive",
+    archiveExportHint: "HTML page per season · opens offline · .zip",
+    archiveTitle: "Football Diary Keepsake",
+    archiveGenerated: "Exported",
+    archiveSeason: "Season",
+    archiveBack: "Back to index",
+    archiveFailed: "Could not create the archive",
+
+    // Read-only Viewer
+    viewerExport: "Read-only Viewer",
+    viewerExportHint: "Single HTML file for grandparents",
+    viewerMatches: "{n} matches",
+    viewerDesc: "Exports one HTML file with the match timeline, stats and badges. It opens in any browser without the app and cannot be edited.",
+    viewerEncrypt: "Protect with a passphrase",
+    viewerEncryptHint: "Share the passphrase separately from the file.",
+    viewerDownload: "Download Viewer",
+    viewerTitle: "{name}'s Football Diary",
+    viewerUpdated: "Updated",
+    viewerUnlock: "Open",
+    viewerFailed: "Could not create the viewer",
+
+    // ID collisions
+    idsRenumbered: "{n} records had the same id as different records here and were renumbered so nothing was overwritten.",
+
+    // Tournaments
+    tournament: "Tournament",
+    tournaments: "Tournaments",
+    tournamentName: "Tournament name",
+    noTournament: "Not part of a tournament",
+    newTournament: "New tournament",
+    tournamentCreated: "Tournament added",
+    tournamentRound: "Round",
+    startDate: "Start date",
+    endDate: "End date",
+    venue: "Venue",
+    tournamentFormat: "Format",
+    format_groups: "Groups + knockout",
+    format_knockout: "Knockout",
+    format_roundRobin: "Round robin",
+    finalPlacement: "Final place",
+    placementNote: "Placement note",
+    placementNotePlaceholder: "e.g. Plate winners",
+    placementWinner: "Winners",
+    placementRunnerUp: "Runners-up",
+    placementNth: "Place {n}",
+    tournamentRounds: "Rounds",
+    useDefaultRounds: "Use default rounds",
+    addRound: "Add round",
+    stageGroup: "Group",
+    stageKnockout: "Knockout",
+    roundGroupStage: "Group stage",
+    roundQuarterFinal: "Quarter-final",
+    roundSemiFinal: "Semi-final",
+    roundFinal: "Final",
+    roundLeague: "League stage",
+    tournamentContribution: "{name}'s contribution",
+    tableTeam: "Team",
+    groupTable: "Table",
+    groupTableHint: "Based on our own results only",
+    knockoutBracket: "Knockout bracket",
+    notReached: "Not reached",
+    tournamentNoMatches: "No matches linked to this tournament yet",
+    deleteTournament: "Delete tournament",
+    deleteTournamentConfirm: "Delete this tournament? Its matches are kept but no longer linked to it.",
+
+    // Leagues
+    league: "League",
+    leagues: "League tables",
+    newLeague: "New league",
+    leagueEmpty: "Add a league and its teams to see where the team stands",
+    leagueTable: "Table",
+    leagueResults: "Results",
+    leagueSettings: "Settings",
+    leagueForm: "Form",
+    leagueTableHint: "From {n} logged matches and {m} typed-in results",
+    leagueMissingTeams: "{n} league opponents are not in this league yet, so those games are not counted:",
+    leagueAddTeams: "Add to league",
+    leagueAddResult: "Add a result between other teams",
+    leagueNoResults: "No results yet",
+    leagueLoggedMatch: "From a logged match",
+    leagueName: "League name",
+    leagueSeason: "Season",
+    leaguePointsWin: "Points for a win",
+    leaguePointsDraw: "Points for a draw",
+    leagueTieBreakers: "Tie-breakers",
+    tieBreaker_goalDifference: "Goal difference",
+    tieBreaker_goalsFor: "Goals scored",
+    tieBreaker_headToHead: "Head-to-head",
+    tieBreaker_wins: "Wins",
+    leagueTeams: "Teams",
+    leagueTeamPlaceholder: "Team name (as used for opponents)",
+    leagueSuggested: "From your league matches:",
+    deleteLeague: "Delete league",
+    deleteLeagueConfirm: "Delete this league and its typed-in results? Logged matches are not affected.",
+
+    // Live Match Mode
+    goLive: "Go Live",
+    resumeLive: "Resume Live",
+    liveMode: "Live Mode",
+    liveKickOff: "Kick Off",
+    livePeriodLength: "Minutes per period",
+    liveHalf: "Half {n}",
+    liveQuarter: "Quarter {n}",
+    liveBreak: "Break",
+    liveStartPeriod: "Start {period}",
+    livePause: "Pause",
+    liveResume: "Resume",
+    liveEndPeriod: "End Period",
+    liveFinalWhistle: "Final Whistle",
+    liveFinalWhistleConfirm: "End the match now?",
+    liveFullTime: "Full Time",
+    liveSaveResult: "Save Result & Rate",
+    liveTapHint: "Tap the buttons after kick-off to log goals",
+    liveTeammateGoal: "Teammate goal",
+    liveDiscard: "Discard live session",
+    liveDiscardConfirm: "Discard this live session? Logged events will be lost.",
+    liveReplaceConfirm: "Another match is being followed live. Replace it?",
+    liveResultSaved: "Result saved",
+    liveNoWakeLock: "The screen may turn off on this device",
+
+    // Match Events
+    matchEvents: "Match Events",
+    eventKind_goal: "Goal",
+    eventKind_assist: "Assist",
+    eventKind_ownGoal: "Own Goal",
+    eventKind_penalty: "Penalty",
+    eventKind_save: "Save",
+    eventKind_card: "Card",
+    eventKind_substitution: "Substitution",
+    eventMinute: "Minute",
+    eventPeriod: "Period",
+    eventPlayer: "Player",
+    eventAssistBy: "Assist",
+    eventNoPlayer: "Not specified",
+    eventPenaltyScored: "Scored",
+    eventPenaltyMissed: "Missed",
+    eventCardYellow: "Yellow",
+    eventCardRed: "Red",
+    eventPlayerOn: "On",
+    eventPlayerOff: "Off",
+    addEvent: "Add Event",
+    eventsFromScore: "Start from the score",
+    eventsTotalsHint: "The score and goal counts come from the events",
+    eventsEmpty: "No events yet. Log goals, assists, substitutions and more one by one.",
+
+    // Playing Time
+    playingTime: "Playing Time",
+    playingTimeHint: "Record when they came on and off in each period and where they played; periods played and positions are filled in from this.",
+    playingTimeFull: "Full period",
+    playingTimeAddSpell: "Sub on",
+    playingTimeTotal: "{min} min in total",
+    minutesPlayed: "Minutes Played",
+    goalsPer60: "Goals per 60 min",
+    timeByPosition: "Time by Position",
+    playingTimeBasis: "From {n} matches with playing time",
+    unitMinutes: "min",
+
+    // Goalkeeping
+    goalkeeping: "Goalkeeping",
+    keeperHint: "Counts only the time spent in goal",
+    keeperSaves: "Saves",
+    keeperConceded: "Conceded in goal",
+    keeperPenaltiesFaced: "Penalties faced",
+    keeperPenaltiesSaved: "Penalties saved",
+    keeperDistribution: "Distribution",
+    keeperDistributionAttempted: "Attempted",
+    keeperDistributionCompleted: "Completed",
+    keeperPeriodsInGoal: "Periods in goal",
+    keeperFromEvents: "Fill from events",
+    keeperSavePercent: "Save %",
+    keeperConcededPerPeriod: "Conceded per period",
+    keeperCleanSheets: "Clean sheets",
+    keeperBasis: "{n} matches in goal",
+
+    // Per-match stats
+    matchStats: "Match Stats",
+    matchStatsHint: "Stats showing – are not recorded",
+    statShots: "Shots",
+    statShotsOnTarget: "Shots on Target",
+    statTackles: "Tackles",
+    statInterceptions: "Interceptions",
+    statDribbles: "Dribbles",
+    statKeyPasses: "Key Passes",
+    statShotAccuracy: "Shot accuracy",
+    statPerMatch: "{n} per match",
+    statsBasis: "{n} matches recorded",
+    teamStats: "Per-match stats",
+    teamStatsHint: "Pick the stats to record in this team's matches",
+    customStats: "Custom stats",
+    addCustomStat: "Add",
+    customStatName: "Name",
+    statAggregation: "How it adds up",
+    aggSum: "Total",
+    aggAverage: "Average",
+    aggMax: "Best",
+
     // Header & Profile
     matchDiary: "'s Match Diary",
     teamsCount: "Teams",
@@ -729,11 +1613,17 @@ export const translations = {
     badgeIronMan: "Iron Man",
     badgeIronManDesc: "Total matches played",
     badgeWall: "The Wall",
-    badgeWallDesc: "Clean sheets kept",
+    badgeWallDesc: "Clean sheets kept in goal",
     badgeStar: "Superstar",
     badgeStarDesc: "Man of the Match awards",
     badgeHattrick: "Hat-trick Hero",
     badgeHattrickDesc: "Matches with 3+ goals",
+    badgeSafeHands: "Safe Hands",
+    badgeSafeHandsDesc: "Career saves made in goal",
+    badgePenaltyStopper: "Penalty Stopper",
+    badgePenaltyStopperDesc: "Penalties saved in goal",
+    badgeSweeperKeeper: "Sweeper Keeper",
+    badgeSweeperKeeperDesc: "Throws and kicks from goal that reached a teammate",
 
     // Time Periods
     q1: "Q1 (Jan-Mar)",